@@ -0,0 +1,394 @@
+-- CreateEnum
+CREATE TYPE "GiftCardStatus" AS ENUM ('PENDING', 'ACTIVE', 'PARTIALLY_USED', 'DEPLETED', 'EXPIRED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "GiftCardTransactionType" AS ENUM ('PURCHASE', 'REDEMPTION', 'REFUND', 'ADJUSTMENT');
+
+-- CreateEnum
+CREATE TYPE "LoyaltyTransactionType" AS ENUM ('EARNED', 'BONUS', 'REDEEMED', 'EXPIRED', 'ADJUSTMENT');
+
+-- CreateEnum
+CREATE TYPE "LoyaltyRedemptionStatus" AS ENUM ('PENDING', 'USED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('GENERAL', 'HAPPY_HOUR', 'SEASONAL', 'LAST_MINUTE', 'FIRST_VISIT', 'BIRTHDAY');
+
+-- CreateEnum
+CREATE TYPE "PreferredPeriod" AS ENUM ('ANY', 'MORNING', 'AFTERNOON', 'EVENING');
+
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('PENDING', 'NOTIFIED', 'SCHEDULED', 'EXPIRED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "GiftCard" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "originalValue" DECIMAL(10,2) NOT NULL,
+    "currentBalance" DECIMAL(10,2) NOT NULL,
+    "purchasedById" TEXT,
+    "purchaserName" TEXT,
+    "purchaserEmail" TEXT,
+    "purchaserPhone" TEXT,
+    "recipientName" TEXT,
+    "recipientEmail" TEXT,
+    "recipientPhone" TEXT,
+    "message" TEXT,
+    "status" "GiftCardStatus" NOT NULL DEFAULT 'PENDING',
+    "activatedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "paymentMethod" TEXT,
+    "paymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GiftCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GiftCardTransaction" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "giftCardId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "appointmentId" TEXT,
+    "type" "GiftCardTransactionType" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "balanceBefore" DECIMAL(10,2) NOT NULL,
+    "balanceAfter" DECIMAL(10,2) NOT NULL,
+    "description" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GiftCardTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoyaltyConfig" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "pointsPerCurrency" INTEGER NOT NULL DEFAULT 1,
+    "pointsRedemptionValue" DECIMAL(10,2) NOT NULL DEFAULT 5,
+    "minimumRedemption" INTEGER NOT NULL DEFAULT 100,
+    "expirationMonths" INTEGER NOT NULL DEFAULT 12,
+    "birthdayMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 2,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoyaltyConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoyaltyTransaction" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "appointmentId" TEXT,
+    "type" "LoyaltyTransactionType" NOT NULL,
+    "points" INTEGER NOT NULL,
+    "description" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoyaltyTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoyaltyRedemption" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "appointmentId" TEXT,
+    "pointsUsed" INTEGER NOT NULL,
+    "discountValue" DECIMAL(10,2) NOT NULL,
+    "status" "LoyaltyRedemptionStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "usedAt" TIMESTAMP(3),
+
+    CONSTRAINT "LoyaltyRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "PromotionType" NOT NULL,
+    "discountType" "DiscountType" NOT NULL,
+    "discountValue" DECIMAL(10,2) NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3),
+    "daysOfWeek" INTEGER[] NOT NULL,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "serviceIds" TEXT[] NOT NULL,
+    "providerIds" TEXT[] NOT NULL,
+    "minPrice" DECIMAL(10,2),
+    "maxDiscount" DECIMAL(10,2),
+    "usageLimit" INTEGER,
+    "usageLimitPerClient" INTEGER,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "stackable" BOOLEAN NOT NULL DEFAULT false,
+    "autoApply" BOOLEAN NOT NULL DEFAULT true,
+    "showBadge" BOOLEAN NOT NULL DEFAULT true,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromotionUsage" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "appointmentId" TEXT,
+    "clientId" TEXT,
+    "originalPrice" DECIMAL(10,2) NOT NULL,
+    "discountAmount" DECIMAL(10,2) NOT NULL,
+    "finalPrice" DECIMAL(10,2) NOT NULL,
+    "usedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromotionUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT,
+    "response" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "respondedById" TEXT,
+    "isVisible" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProviderStats" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "totalReviews" INTEGER NOT NULL DEFAULT 0,
+    "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalServices" INTEGER NOT NULL DEFAULT 0,
+    "rating5Count" INTEGER NOT NULL DEFAULT 0,
+    "rating4Count" INTEGER NOT NULL DEFAULT 0,
+    "rating3Count" INTEGER NOT NULL DEFAULT 0,
+    "rating2Count" INTEGER NOT NULL DEFAULT 0,
+    "rating1Count" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProviderStats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Waitlist" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "serviceId" TEXT NOT NULL,
+    "providerId" TEXT,
+    "clientName" TEXT NOT NULL,
+    "clientPhone" TEXT NOT NULL,
+    "clientEmail" TEXT,
+    "preferredDates" DATE[] NOT NULL,
+    "preferredPeriod" "PreferredPeriod" NOT NULL DEFAULT 'ANY',
+    "notes" TEXT,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'PENDING',
+    "notifiedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Waitlist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCard_code_key" ON "GiftCard"("code");
+
+-- CreateIndex
+CREATE INDEX "GiftCard_tenantId_idx" ON "GiftCard"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "GiftCard_tenantId_status_idx" ON "GiftCard"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "GiftCard_purchasedById_idx" ON "GiftCard"("purchasedById");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_tenantId_idx" ON "GiftCardTransaction"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_giftCardId_idx" ON "GiftCardTransaction"("giftCardId");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_clientId_idx" ON "GiftCardTransaction"("clientId");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_appointmentId_idx" ON "GiftCardTransaction"("appointmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoyaltyConfig_tenantId_key" ON "LoyaltyConfig"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyTransaction_tenantId_idx" ON "LoyaltyTransaction"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyTransaction_clientId_idx" ON "LoyaltyTransaction"("clientId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyTransaction_appointmentId_idx" ON "LoyaltyTransaction"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyTransaction_type_expiresAt_idx" ON "LoyaltyTransaction"("type", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyRedemption_tenantId_idx" ON "LoyaltyRedemption"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyRedemption_clientId_idx" ON "LoyaltyRedemption"("clientId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyRedemption_status_idx" ON "LoyaltyRedemption"("status");
+
+-- CreateIndex
+CREATE INDEX "Promotion_tenantId_idx" ON "Promotion"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Promotion_tenantId_isActive_idx" ON "Promotion"("tenantId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "PromotionUsage_tenantId_idx" ON "PromotionUsage"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "PromotionUsage_promotionId_idx" ON "PromotionUsage"("promotionId");
+
+-- CreateIndex
+CREATE INDEX "PromotionUsage_clientId_idx" ON "PromotionUsage"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_appointmentId_key" ON "Review"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "Review_tenantId_idx" ON "Review"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Review_providerId_idx" ON "Review"("providerId");
+
+-- CreateIndex
+CREATE INDEX "Review_clientId_idx" ON "Review"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProviderStats_providerId_key" ON "ProviderStats"("providerId");
+
+-- CreateIndex
+CREATE INDEX "ProviderStats_tenantId_idx" ON "ProviderStats"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Waitlist_tenantId_status_idx" ON "Waitlist"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "Waitlist_serviceId_idx" ON "Waitlist"("serviceId");
+
+-- CreateIndex
+CREATE INDEX "Waitlist_providerId_idx" ON "Waitlist"("providerId");
+
+-- AddForeignKey
+ALTER TABLE "GiftCard" ADD CONSTRAINT "GiftCard_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCard" ADD CONSTRAINT "GiftCard_purchasedById_fkey" FOREIGN KEY ("purchasedById") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_giftCardId_fkey" FOREIGN KEY ("giftCardId") REFERENCES "GiftCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyConfig" ADD CONSTRAINT "LoyaltyConfig_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyTransaction" ADD CONSTRAINT "LoyaltyTransaction_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyTransaction" ADD CONSTRAINT "LoyaltyTransaction_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyTransaction" ADD CONSTRAINT "LoyaltyTransaction_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyRedemption" ADD CONSTRAINT "LoyaltyRedemption_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyRedemption" ADD CONSTRAINT "LoyaltyRedemption_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoyaltyRedemption" ADD CONSTRAINT "LoyaltyRedemption_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionUsage" ADD CONSTRAINT "PromotionUsage_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionUsage" ADD CONSTRAINT "PromotionUsage_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionUsage" ADD CONSTRAINT "PromotionUsage_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionUsage" ADD CONSTRAINT "PromotionUsage_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "Provider"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_respondedById_fkey" FOREIGN KEY ("respondedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProviderStats" ADD CONSTRAINT "ProviderStats_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProviderStats" ADD CONSTRAINT "ProviderStats_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "Provider"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Waitlist" ADD CONSTRAINT "Waitlist_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Waitlist" ADD CONSTRAINT "Waitlist_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Waitlist" ADD CONSTRAINT "Waitlist_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "Service"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Waitlist" ADD CONSTRAINT "Waitlist_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "Provider"("id") ON DELETE SET NULL ON UPDATE CASCADE;
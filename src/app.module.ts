@@ -14,12 +14,15 @@ import { UsersModule } from './modules/users/users.module';
 import { ServicesModule } from './modules/services/services.module';
 import { ProvidersModule } from './modules/providers/providers.module';
 import { ClientsModule } from './modules/clients/clients.module';
+import { SegmentsModule } from './modules/segments/segments.module';
 import { AppointmentsModule } from './modules/appointments/appointments.module';
 import { DashboardModule } from './modules/dashboard/dashboard.module';
 import { BusinessModule } from './modules/business/business.module';
 import { PublicModule } from './modules/public/public.module';
 import { MedicalRecordsModule } from './modules/medical-records/medical-records.module';
 import { FinancialModule } from './modules/financial/financial.module';
+import { PayrollModule } from './modules/payroll/payroll.module';
+import { ReceivablesModule } from './modules/receivables/receivables.module';
 import { InventoryModule } from './modules/inventory/inventory.module';
 import { LeadsModule } from './modules/leads/leads.module';
 import { MarketingModule } from './modules/marketing/marketing.module';
@@ -34,10 +37,16 @@ import { LocationsModule } from './modules/locations/locations.module';
 import { ClientPackagesModule } from './modules/client-packages/client-packages.module';
 import { DigitalSignatureModule } from './modules/digital-signature/digital-signature.module';
 import { PdfModule } from './modules/pdf/pdf.module';
+import { NfseModule } from './modules/nfse/nfse.module';
 import { QueuesModule } from './queues/queues.module';
 import { AuditModule } from './modules/audit/audit.module';
 import { ClientAuthModule } from './modules/client-auth/client-auth.module';
 import { ClientPortalModule } from './modules/client-portal/client-portal.module';
+import { GiftCardsModule } from './modules/gift-cards/gift-cards.module';
+import { LoyaltyModule } from './modules/loyalty/loyalty.module';
+import { PromotionsModule } from './modules/promotions/promotions.module';
+import { ReviewsModule } from './modules/reviews/reviews.module';
+import { WaitlistModule } from './modules/waitlist/waitlist.module';
 import { AuditInterceptor } from './common/interceptors/audit.interceptor';
 
 @Module({
@@ -60,12 +69,15 @@ import { AuditInterceptor } from './common/interceptors/audit.interceptor';
     ServicesModule,
     ProvidersModule,
     ClientsModule,
+    SegmentsModule,
     AppointmentsModule,
     DashboardModule,
     BusinessModule,
     PublicModule,
     MedicalRecordsModule,
     FinancialModule,
+    PayrollModule,
+    ReceivablesModule,
     InventoryModule,
     LeadsModule,
     MarketingModule,
@@ -80,10 +92,16 @@ import { AuditInterceptor } from './common/interceptors/audit.interceptor';
     ClientPackagesModule,
     DigitalSignatureModule,
     PdfModule,
+    NfseModule,
     QueuesModule, // Sistema de filas BullMQ
     AuditModule, // Sistema de auditoria
     ClientAuthModule, // Autenticação de clientes no portal
     ClientPortalModule, // Portal de autoatendimento do cliente
+    GiftCardsModule,
+    LoyaltyModule,
+    PromotionsModule,
+    ReviewsModule,
+    WaitlistModule,
   ],
   controllers: [],
   providers: [
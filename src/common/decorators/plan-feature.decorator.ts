@@ -4,10 +4,11 @@ export const PLAN_FEATURE_KEY = 'plan_feature';
 
 /**
  * Decorator para definir qual feature é necessária para acessar um endpoint
+ * (featureCode de PlanFeature, resolvido a partir da assinatura do tenant)
  *
  * @example
  * // Requer feature de prontuário
- * @RequirePlanFeature('medical_records')
+ * @RequirePlanFeature('MEDICAL_RECORDS')
  * @Get('records')
  * getRecords() { ... }
  */
@@ -16,11 +17,17 @@ export const RequirePlanFeature = (feature: string) =>
 
 export const PLAN_LIMIT_KEY = 'plan_limit';
 
+// Campos de PlanLimit com contagem de uso
 export type PlanLimitType =
   | 'maxUsers'
   | 'maxClients'
   | 'maxProviders'
-  | 'maxAppointmentsPerMonth';
+  | 'maxAppointments'
+  | 'maxServices'
+  | 'maxProducts'
+  | 'maxCampaigns'
+  | 'maxWebhooks'
+  | 'maxTemplates';
 
 /**
  * Decorator para verificar limites do plano antes de criar recursos
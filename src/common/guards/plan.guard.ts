@@ -5,9 +5,8 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { PrismaService } from '../../prisma/prisma.service';
+import { EntitlementsService } from '../../modules/plans/entitlements.service';
 import { PLAN_FEATURE_KEY, PLAN_LIMIT_KEY, PlanLimitType } from '../decorators/plan-feature.decorator';
-import { hasFeature, getPlanLimits } from '../permissions/permissions';
 
 /**
  * Guard que verifica se o plano do tenant tem a feature necessária
@@ -17,7 +16,7 @@ import { hasFeature, getPlanLimits } from '../permissions/permissions';
 export class PlanFeatureGuard implements CanActivate {
   constructor(
     private reflector: Reflector,
-    private prisma: PrismaService,
+    private entitlements: EntitlementsService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -38,18 +37,11 @@ export class PlanFeatureGuard implements CanActivate {
       throw new ForbiddenException('Acesso negado');
     }
 
-    // Busca o tenant para verificar o plano
-    const tenant = await this.prisma.tenant.findUnique({
-      where: { id: user.tenantId },
-      select: { plan: true },
-    });
-
-    if (!tenant) {
-      throw new ForbiddenException('Tenant não encontrado');
-    }
-
-    // Verifica se o plano tem a feature
-    const hasPlanFeature = hasFeature(tenant.plan, requiredFeature);
+    // Verifica a feature na assinatura do tenant (plano + exceções)
+    const hasPlanFeature = await this.entitlements.hasFeature(
+      user.tenantId,
+      requiredFeature,
+    );
 
     if (!hasPlanFeature) {
       throw new ForbiddenException(
@@ -69,7 +61,7 @@ export class PlanFeatureGuard implements CanActivate {
 export class PlanLimitGuard implements CanActivate {
   constructor(
     private reflector: Reflector,
-    private prisma: PrismaService,
+    private entitlements: EntitlementsService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -90,83 +82,29 @@ export class PlanLimitGuard implements CanActivate {
       throw new ForbiddenException('Acesso negado');
     }
 
-    // Busca o tenant para verificar o plano
-    const tenant = await this.prisma.tenant.findUnique({
-      where: { id: user.tenantId },
-      select: { plan: true },
-    });
-
-    if (!tenant) {
-      throw new ForbiddenException('Tenant não encontrado');
-    }
-
-    const limits = getPlanLimits(tenant.plan);
-    const maxLimit = limits[limitType];
-
-    // -1 significa ilimitado
-    if (maxLimit === -1) {
-      return true;
-    }
-
-    // Conta os recursos atuais
-    const currentCount = await this.countResources(user.tenantId, limitType);
+    const { allowed, limit } = await this.entitlements.checkLimit(
+      user.tenantId,
+      limitType,
+    );
 
-    if (currentCount >= maxLimit) {
+    if (!allowed) {
       const limitNames: Record<PlanLimitType, string> = {
         maxUsers: 'usuários',
         maxClients: 'clientes',
         maxProviders: 'profissionais',
-        maxAppointmentsPerMonth: 'agendamentos este mês',
+        maxAppointments: 'agendamentos este mês',
+        maxServices: 'serviços',
+        maxProducts: 'produtos',
+        maxCampaigns: 'campanhas',
+        maxWebhooks: 'webhooks',
+        maxTemplates: 'templates',
       };
 
       throw new ForbiddenException(
-        `Você atingiu o limite de ${maxLimit} ${limitNames[limitType]} do seu plano. Faça upgrade para continuar.`,
+        `Você atingiu o limite de ${limit} ${limitNames[limitType]} do seu plano. Faça upgrade para continuar.`,
       );
     }
 
     return true;
   }
-
-  private async countResources(
-    tenantId: string,
-    limitType: PlanLimitType,
-  ): Promise<number> {
-    switch (limitType) {
-      case 'maxUsers':
-        return this.prisma.user.count({
-          where: { tenantId, isActive: true },
-        });
-
-      case 'maxClients':
-        return this.prisma.client.count({
-          where: { tenantId },
-        });
-
-      case 'maxProviders':
-        return this.prisma.provider.count({
-          where: { tenantId, active: true },
-        });
-
-      case 'maxAppointmentsPerMonth':
-        const startOfMonth = new Date();
-        startOfMonth.setDate(1);
-        startOfMonth.setHours(0, 0, 0, 0);
-
-        const endOfMonth = new Date(startOfMonth);
-        endOfMonth.setMonth(endOfMonth.getMonth() + 1);
-
-        return this.prisma.appointment.count({
-          where: {
-            tenantId,
-            date: {
-              gte: startOfMonth,
-              lt: endOfMonth,
-            },
-          },
-        });
-
-      default:
-        return 0;
-    }
-  }
 }
@@ -26,3 +26,6 @@ export * from './pipes/validation.pipe';
 // Interceptors
 export * from './interceptors/logging.interceptor';
 export * from './interceptors/transform.interceptor';
+
+// Utils
+export * from './utils/timezone.util';
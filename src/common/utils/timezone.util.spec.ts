@@ -0,0 +1,101 @@
+import {
+  DEFAULT_TIMEZONE,
+  getDayOfWeek,
+  getTimezoneOffset,
+  getZonedToday,
+  parseDateOnly,
+  resolveTimezone,
+  toZonedDateTime,
+  zonedTimeToUtc,
+} from './timezone.util';
+
+describe('timezone.util', () => {
+  it('should run under a UTC server clock', () => {
+    expect(new Date(0).getTimezoneOffset()).toBe(0);
+  });
+
+  describe('parseDateOnly', () => {
+    it('should keep the calendar day of the input', () => {
+      expect(parseDateOnly('2025-02-03')).toEqual(
+        new Date('2025-02-03T00:00:00.000Z'),
+      );
+      expect(parseDateOnly('2025-02-03T22:00:00-03:00')).toEqual(
+        new Date('2025-02-03T00:00:00.000Z'),
+      );
+    });
+  });
+
+  describe('getDayOfWeek', () => {
+    it('should use the calendar day of a date-only value', () => {
+      expect(getDayOfWeek(parseDateOnly('2025-02-03'))).toBe(1); // segunda
+      expect(getDayOfWeek(parseDateOnly('2025-02-09'))).toBe(0); // domingo
+    });
+  });
+
+  describe('toZonedDateTime', () => {
+    it('should return the wall clock of the tenant timezone', () => {
+      // 01:30 UTC de terça ainda é segunda à noite em São Paulo
+      const result = toZonedDateTime(
+        new Date('2025-02-04T01:30:00.000Z'),
+        'America/Sao_Paulo',
+      );
+
+      expect(result).toEqual({
+        date: '2025-02-03',
+        time: '22:30',
+        minutes: 22 * 60 + 30,
+        dayOfWeek: 1,
+      });
+    });
+  });
+
+  describe('getZonedToday', () => {
+    it('should depend on the timezone, not on the server clock', () => {
+      const now = new Date('2025-02-04T01:30:00.000Z');
+
+      expect(getZonedToday('America/Sao_Paulo', now)).toEqual(
+        parseDateOnly('2025-02-03'),
+      );
+      expect(getZonedToday('Europe/Lisbon', now)).toEqual(
+        parseDateOnly('2025-02-04'),
+      );
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert a wall clock time to the UTC instant', () => {
+      expect(
+        zonedTimeToUtc('2025-02-03', '14:30', 'America/Sao_Paulo'),
+      ).toEqual(new Date('2025-02-03T17:30:00.000Z'));
+      expect(zonedTimeToUtc('2025-02-03', '14:30', 'America/Manaus')).toEqual(
+        new Date('2025-02-03T18:30:00.000Z'),
+      );
+    });
+
+    it('should handle daylight saving time', () => {
+      // Lisboa: UTC+0 no inverno, UTC+1 no verão
+      expect(zonedTimeToUtc('2025-01-15', '09:00', 'Europe/Lisbon')).toEqual(
+        new Date('2025-01-15T09:00:00.000Z'),
+      );
+      expect(zonedTimeToUtc('2025-07-15', '09:00', 'Europe/Lisbon')).toEqual(
+        new Date('2025-07-15T08:00:00.000Z'),
+      );
+      expect(
+        getTimezoneOffset(
+          new Date('2025-07-15T08:00:00.000Z'),
+          'Europe/Lisbon',
+        ),
+      ).toBe(60);
+    });
+  });
+
+  describe('resolveTimezone', () => {
+    it('should pick the first valid timezone or fall back to the default', () => {
+      expect(resolveTimezone(null, 'America/Manaus')).toBe('America/Manaus');
+      expect(resolveTimezone('Invalid/Zone', 'America/Recife')).toBe(
+        'America/Recife',
+      );
+      expect(resolveTimezone(undefined, 'Nope')).toBe(DEFAULT_TIMEZONE);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Utilitários de data/hora por fuso horário.
+ *
+ * Campos `@db.Date` (ex: Appointment.date) chegam como meia-noite UTC e os
+ * horários são strings "HH:mm" no fuso do estabelecimento. Nenhuma função
+ * aqui depende do fuso do servidor.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+export interface ZonedDateTime {
+  date: string; // "2025-02-03"
+  time: string; // "14:30"
+  minutes: number; // minutos desde 00:00
+  dayOfWeek: number; // 0 = domingo
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Retorna o primeiro fuso válido da lista (ex: unidade, depois tenant),
+ * ou o padrão quando nenhum for reconhecido
+ */
+export function resolveTimezone(
+  ...candidates: Array<string | null | undefined>
+): string {
+  return (
+    candidates.find((tz): tz is string => !!tz && isValidTimezone(tz)) ??
+    DEFAULT_TIMEZONE
+  );
+}
+
+/**
+ * Converte "YYYY-MM-DD" (ou ISO completo) para a data pura em meia-noite UTC,
+ * no mesmo formato em que o Prisma lê/grava campos `@db.Date`
+ */
+export function parseDateOnly(date: string | Date): Date {
+  const value = typeof date === 'string' ? date : date.toISOString();
+  return new Date(`${value.slice(0, 10)}T00:00:00.000Z`);
+}
+
+export function formatDateOnly(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Dia da semana de uma data pura (0 = domingo)
+ */
+export function getDayOfWeek(date: Date): number {
+  return date.getUTCDay();
+}
+
+/**
+ * Data e hora de parede de um instante no fuso informado
+ */
+export function toZonedDateTime(
+  instant: Date,
+  timeZone: string,
+): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  const time = `${parts.hour}:${parts.minute}`;
+
+  return {
+    date,
+    time,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    dayOfWeek: getDayOfWeek(parseDateOnly(date)),
+  };
+}
+
+/**
+ * Data pura (meia-noite UTC) do dia corrente no fuso informado
+ */
+export function getZonedToday(timeZone: string, now = new Date()): Date {
+  return parseDateOnly(toZonedDateTime(now, timeZone).date);
+}
+
+/**
+ * Diferença em minutos entre o horário de parede do fuso e UTC no instante
+ * (ex: -180 para America/Sao_Paulo)
+ */
+export function getTimezoneOffset(instant: Date, timeZone: string): number {
+  const zoned = toZonedDateTime(instant, timeZone);
+  const asUtc = Date.UTC(
+    Number(zoned.date.slice(0, 4)),
+    Number(zoned.date.slice(5, 7)) - 1,
+    Number(zoned.date.slice(8, 10)),
+    Math.floor(zoned.minutes / 60),
+    zoned.minutes % 60,
+  );
+  const truncated = Math.floor(instant.getTime() / 60000) * 60000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Instante (UTC) correspondente a uma data + horário "HH:mm" no fuso
+ */
+export function zonedTimeToUtc(
+  date: string | Date,
+  time: string,
+  timeZone: string,
+): Date {
+  const [hours, mins] = time.split(':').map(Number);
+  const day = parseDateOnly(date);
+  const wallClock = day.getTime() + (hours * 60 + mins) * 60000;
+
+  // Ajusta duas vezes para acertar transições de horário de verão
+  let offset = getTimezoneOffset(new Date(wallClock), timeZone);
+  offset = getTimezoneOffset(new Date(wallClock - offset * 60000), timeZone);
+
+  return new Date(wallClock - offset * 60000);
+}
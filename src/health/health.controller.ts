@@ -1,9 +1,13 @@
 import { Controller, Get } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { MaintenanceService } from '../queues/maintenance.service';
 
 @Controller('health')
 export class HealthController {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private maintenance: MaintenanceService,
+  ) {}
 
   @Get()
   async check() {
@@ -26,6 +30,24 @@ export class HealthController {
     return checks;
   }
 
+  /**
+   * Última execução com sucesso de cada rotina de manutenção
+   */
+  @Get('jobs')
+  async jobs() {
+    const health = await this.maintenance.getHealth();
+
+    return {
+      status: health.status,
+      timestamp: new Date().toISOString(),
+      jobs: health.jobs.map(({ job, lastSuccessAt, healthy }) => ({
+        job,
+        lastSuccessAt,
+        healthy,
+      })),
+    };
+  }
+
   @Get('live')
   live() {
     return { status: 'ok' };
@@ -11,7 +11,8 @@ import { configureBullBoard } from './queues/bull-board.config';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  // rawBody: necessário para validar a assinatura dos webhooks
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // CORS
   const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AppointmentGroupService } from './appointment-group.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProviderAvailabilityService } from '../providers/provider-availability.service';
+import { UsageService } from '../plans/usage.service';
+
+describe('AppointmentGroupService', () => {
+  let service: AppointmentGroupService;
+  let prismaService: any;
+  let availabilityService: any;
+  let usageService: any;
+
+  const tenantId = 'tenant-123';
+
+  const services = [
+    { id: 'cut', duration: 60, price: 80 },
+    { id: 'color', duration: 90, price: 200 },
+  ];
+
+  const items = [
+    { serviceId: 'cut', providerId: 'provider-a' },
+    { serviceId: 'color', providerId: 'provider-b' },
+  ];
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      service: { findMany: jest.fn().mockResolvedValue(services) },
+      provider: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: 'provider-a' }, { id: 'provider-b' }]),
+      },
+      providerService: { findMany: jest.fn().mockResolvedValue([]) },
+      appointment: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(({ data }) => Promise.resolve(data)),
+      },
+      appointmentGroup: {
+        create: jest.fn(({ data }) =>
+          Promise.resolve({ id: 'group-1', ...data }),
+        ),
+      },
+      $transaction: jest.fn((fn) => fn(mockPrismaService)),
+    };
+
+    const mockAvailabilityService = {
+      getWorkingIntervals: jest
+        .fn()
+        .mockResolvedValue([{ start: 9 * 60, end: 12 * 60 }]),
+      getTimezone: jest.fn().mockResolvedValue('America/Sao_Paulo'),
+      removePastSlots: jest.fn((slots) => slots),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppointmentGroupService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ProviderAvailabilityService,
+          useValue: mockAvailabilityService,
+        },
+        {
+          provide: UsageService,
+          useValue: { record: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AppointmentGroupService>(AppointmentGroupService);
+    prismaService = module.get(PrismaService);
+    availabilityService = module.get(ProviderAvailabilityService);
+    usageService = module.get(UsageService);
+  });
+
+  describe('getChainedSlots', () => {
+    it('should only return starts where every service fits back-to-back', async () => {
+      // Profissional B ocupado das 11:00 às 11:30
+      prismaService.appointment.findMany.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.providerId === 'provider-b'
+            ? [{ startTime: '11:00', endTime: '11:30' }]
+            : [],
+        ),
+      );
+
+      const result = await service.getChainedSlots(
+        tenantId,
+        '2025-02-03',
+        items,
+      );
+
+      // 60 + 90 min precisam caber até 12:00 sem cruzar o horário ocupado
+      expect(result).toEqual([]);
+
+      prismaService.appointment.findMany.mockResolvedValue([]);
+      await expect(
+        service.getChainedSlots(tenantId, '2025-02-03', items),
+      ).resolves.toEqual(['09:00', '09:30']);
+    });
+  });
+
+  describe('create', () => {
+    it('should chain the appointments and use the provider custom price', async () => {
+      prismaService.providerService.findMany.mockResolvedValue([
+        { providerId: 'provider-b', serviceId: 'color', customPrice: 180 },
+      ]);
+
+      const result = await service.create(tenantId, {
+        clientId: 'client-123',
+        date: '2025-02-03',
+        startTime: '09:00',
+        items,
+      });
+
+      expect(result.group?.totalPrice.toNumber()).toBe(260);
+      expect(result.group?.endTime).toBe('11:30');
+      expect(
+        result.appointments.map((a) => [a.startTime, a.endTime, a.groupOrder]),
+      ).toEqual([
+        ['09:00', '10:00', 0],
+        ['10:00', '11:30', 1],
+      ]);
+      expect(usageService.record).toHaveBeenCalledWith(
+        tenantId,
+        'appointments',
+        2,
+        prismaService,
+      );
+    });
+
+    it('should reject a start time that does not fit the chain', async () => {
+      await expect(
+        service.create(tenantId, {
+          clientId: 'client-123',
+          date: '2025-02-03',
+          startTime: '10:00',
+          items,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(availabilityService.getWorkingIntervals).toHaveBeenCalledTimes(2);
+      expect(prismaService.appointmentGroup.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ProviderAvailabilityService,
+  TimeInterval,
+} from '../providers/provider-availability.service';
+import { UsageService } from '../plans/usage.service';
+import { AppointmentComboItemDto } from './dto/appointment.dto';
+import { AppointmentStatus, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { parseDateOnly } from '../../common/utils/timezone.util';
+
+export interface CreateAppointmentGroupInput {
+  clientId: string;
+  date: string;
+  startTime: string;
+  items: AppointmentComboItemDto[];
+  notes?: string;
+  locationId?: string;
+  status?: AppointmentStatus; // PENDING_PAYMENT quando há sinal a pagar
+  holdExpiresAt?: Date;
+}
+
+interface ResolvedComboItem {
+  serviceId: string;
+  providerId: string;
+  duration: number;
+  price: number;
+}
+
+type GroupAppointment = Prisma.AppointmentGetPayload<{
+  include: { service: true; provider: true };
+}>;
+
+interface ProviderDay {
+  intervals: TimeInterval[];
+  busy: TimeInterval[];
+}
+
+/**
+ * Agendamentos com vários serviços em sequência (combos), podendo
+ * envolver profissionais diferentes
+ */
+@Injectable()
+export class AppointmentGroupService {
+  constructor(
+    private prisma: PrismaService,
+    private availability: ProviderAvailabilityService,
+    private usage: UsageService,
+  ) {}
+
+  /**
+   * Monta os itens do combo a partir dos parâmetros de busca de horários
+   * (serviceIds e providerIds separados por vírgula, na mesma ordem)
+   */
+  parseItems(
+    serviceIds: string,
+    providerIds: string | undefined,
+    providerId: string,
+  ): AppointmentComboItemDto[] {
+    const services = serviceIds.split(',').filter(Boolean);
+    const providers = providerIds ? providerIds.split(',') : [];
+
+    return services.map((serviceId, index) => ({
+      serviceId,
+      providerId: providers[index] || providerId,
+    }));
+  }
+
+  /**
+   * Horários de início em que todos os serviços cabem encadeados,
+   * um logo após o outro
+   */
+  async getChainedSlots(
+    tenantId: string,
+    date: string,
+    items: AppointmentComboItemDto[],
+    locationId?: string,
+    step = 30,
+  ): Promise<string[]> {
+    const dateObj = parseDateOnly(date);
+    const resolved = await this.resolveItems(tenantId, items);
+    const days = await this.loadProviderDays(resolved, dateObj, locationId);
+
+    const first = days.get(resolved[0].providerId)!;
+    const slots: string[] = [];
+
+    for (const interval of first.intervals) {
+      for (let time = interval.start; time < interval.end; time += step) {
+        if (this.chainFits(resolved, time, days)) {
+          slots.push(this.formatTime(time));
+        }
+      }
+    }
+
+    return this.availability.removePastSlots(
+      slots,
+      dateObj,
+      await this.availability.getTimezone(tenantId, locationId),
+    );
+  }
+
+  /**
+   * Cria o combo com um agendamento por serviço. Com um único serviço,
+   * cria apenas o agendamento, sem grupo
+   */
+  async create(tenantId: string, input: CreateAppointmentGroupInput) {
+    const dateObj = parseDateOnly(input.date);
+    const resolved = await this.resolveItems(tenantId, input.items);
+    const days = await this.loadProviderDays(
+      resolved,
+      dateObj,
+      input.locationId,
+    );
+    const start = this.parseTime(input.startTime);
+
+    if (!this.chainFits(resolved, start, days)) {
+      throw new BadRequestException('Horário não disponível');
+    }
+
+    const totalDuration = resolved.reduce((sum, i) => sum + i.duration, 0);
+    const totalPrice = resolved.reduce((sum, i) => sum + i.price, 0);
+
+    return this.prisma.$transaction(async (tx) => {
+      const group =
+        resolved.length > 1
+          ? await tx.appointmentGroup.create({
+              data: {
+                tenantId,
+                clientId: input.clientId,
+                date: dateObj,
+                startTime: input.startTime,
+                endTime: this.formatTime(start + totalDuration),
+                totalPrice: new Decimal(totalPrice),
+                notes: input.notes,
+              },
+            })
+          : null;
+
+      const appointments: GroupAppointment[] = [];
+      let time = start;
+
+      for (const [index, item] of resolved.entries()) {
+        appointments.push(
+          await tx.appointment.create({
+            data: {
+              tenantId,
+              clientId: input.clientId,
+              providerId: item.providerId,
+              serviceId: item.serviceId,
+              groupId: group?.id,
+              groupOrder: group ? index : undefined,
+              date: dateObj,
+              startTime: this.formatTime(time),
+              endTime: this.formatTime(time + item.duration),
+              price: new Decimal(item.price),
+              notes: input.notes,
+              status: input.status ?? AppointmentStatus.SCHEDULED,
+              holdExpiresAt: input.holdExpiresAt,
+              location: input.locationId
+                ? { create: { locationId: input.locationId } }
+                : undefined,
+            },
+            include: {
+              service: true,
+              provider: true,
+            },
+          }),
+        );
+        time += item.duration;
+      }
+
+      await this.usage.record(
+        tenantId,
+        'appointments',
+        appointments.length,
+        tx,
+      );
+
+      return { group, appointments };
+    });
+  }
+
+  /**
+   * Carrega serviços e preços, considerando o preço personalizado
+   * do profissional (ProviderService.customPrice)
+   */
+  private async resolveItems(
+    tenantId: string,
+    items: AppointmentComboItemDto[],
+  ): Promise<ResolvedComboItem[]> {
+    if (items.length === 0) {
+      throw new BadRequestException('Informe ao menos um serviço');
+    }
+
+    const serviceIds = [...new Set(items.map((i) => i.serviceId))];
+    const providerIds = [...new Set(items.map((i) => i.providerId))];
+
+    const [services, providers, providerServices] = await Promise.all([
+      this.prisma.service.findMany({
+        where: { id: { in: serviceIds }, tenantId, active: true },
+      }),
+      this.prisma.provider.findMany({
+        where: { id: { in: providerIds }, tenantId, active: true },
+        select: { id: true },
+      }),
+      this.prisma.providerService.findMany({
+        where: {
+          providerId: { in: providerIds },
+          serviceId: { in: serviceIds },
+        },
+      }),
+    ]);
+
+    return items.map((item) => {
+      const service = services.find((s) => s.id === item.serviceId);
+      if (!service) {
+        throw new NotFoundException('Serviço não encontrado');
+      }
+
+      if (!providers.some((p) => p.id === item.providerId)) {
+        throw new NotFoundException('Profissional não encontrado');
+      }
+
+      const providerService = providerServices.find(
+        (ps) =>
+          ps.providerId === item.providerId && ps.serviceId === item.serviceId,
+      );
+
+      return {
+        serviceId: item.serviceId,
+        providerId: item.providerId,
+        duration: service.duration,
+        price: Number(providerService?.customPrice ?? service.price),
+      };
+    });
+  }
+
+  /**
+   * Agenda do dia e horários ocupados de cada profissional do combo
+   */
+  private async loadProviderDays(
+    items: ResolvedComboItem[],
+    date: Date,
+    locationId?: string,
+  ): Promise<Map<string, ProviderDay>> {
+    const providerIds = [...new Set(items.map((i) => i.providerId))];
+    const days = new Map<string, ProviderDay>();
+
+    for (const providerId of providerIds) {
+      const [intervals, appointments] = await Promise.all([
+        this.availability.getWorkingIntervals(providerId, date, locationId),
+        this.prisma.appointment.findMany({
+          where: {
+            providerId,
+            date,
+            status: { not: AppointmentStatus.CANCELLED },
+          },
+          select: { startTime: true, endTime: true },
+        }),
+      ]);
+
+      days.set(providerId, {
+        intervals,
+        busy: appointments.map((apt) => ({
+          start: this.parseTime(apt.startTime),
+          end: this.parseTime(apt.endTime),
+        })),
+      });
+    }
+
+    return days;
+  }
+
+  private chainFits(
+    items: ResolvedComboItem[],
+    start: number,
+    days: Map<string, ProviderDay>,
+  ): boolean {
+    let time = start;
+
+    for (const item of items) {
+      const day = days.get(item.providerId)!;
+      const end = time + item.duration;
+
+      const withinSchedule = day.intervals.some(
+        (i) => time >= i.start && end <= i.end,
+      );
+      const hasConflict = day.busy.some((b) => time < b.end && end > b.start);
+
+      if (!withinSchedule || hasConflict) {
+        return false;
+      }
+
+      time = end;
+    }
+
+    return true;
+  }
+
+  private parseTime(time: string): number {
+    const [hours, mins] = time.split(':').map(Number);
+    return hours * 60 + mins;
+  }
+
+  private formatTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+  }
+}
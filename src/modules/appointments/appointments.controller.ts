@@ -2,18 +2,25 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Patch,
+  Delete,
   Body,
   Param,
   Query,
   UseGuards,
+  BadRequestException,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { AppointmentsService } from './appointments.service';
+import { AppointmentGroupService } from './appointment-group.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
 import {
   CreateAppointmentDto,
   UpdateAppointmentDto,
   UpdateStatusDto,
+  UpsertCancellationPolicyDto,
+  SeriesScope,
 } from './dto/appointment.dto';
 import { AppointmentStatus } from '@prisma/client';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
@@ -30,7 +37,10 @@ import type { CurrentUserData } from '../../common/decorators/current-user.decor
 @Controller('appointments')
 @UseGuards(JwtAuthGuard, PermissionsGuard)
 export class AppointmentsController {
-  constructor(private appointmentsService: AppointmentsService) {}
+  constructor(
+    private appointmentsService: AppointmentsService,
+    private appointmentGroupService: AppointmentGroupService,
+  ) {}
 
   @Get()
   @RequirePermissions(Permission.APPOINTMENTS_VIEW)
@@ -54,7 +64,21 @@ export class AppointmentsController {
     @Query('providerId') providerId: string,
     @Query('date') date: string,
     @Query('serviceId') serviceId?: string,
+    @Query('serviceIds') serviceIds?: string,
+    @Query('providerIds') providerIds?: string,
   ) {
+    if (serviceIds) {
+      return this.appointmentGroupService.getChainedSlots(
+        user.tenantId,
+        date,
+        this.appointmentGroupService.parseItems(
+          serviceIds,
+          providerIds,
+          providerId,
+        ),
+      );
+    }
+
     return this.appointmentsService.getAvailableSlots(
       user.tenantId,
       providerId,
@@ -75,11 +99,33 @@ export class AppointmentsController {
   @Post()
   @UseGuards(PlanLimitGuard)
   @RequirePermissions(Permission.APPOINTMENTS_CREATE)
-  @CheckPlanLimit('maxAppointmentsPerMonth')
+  @CheckPlanLimit('maxAppointments')
   async create(
     @Body() dto: CreateAppointmentDto,
     @CurrentUser() user: CurrentUserData,
   ) {
+    if (dto.items) {
+      if (dto.recurrence) {
+        throw new BadRequestException('Combos não podem ser recorrentes');
+      }
+
+      return this.appointmentGroupService.create(user.tenantId, {
+        clientId: dto.clientId,
+        date: dto.date,
+        startTime: dto.startTime,
+        items: dto.items,
+        notes: dto.notes,
+      });
+    }
+
+    if (dto.recurrence) {
+      return this.appointmentsService.createSeries(
+        user.tenantId,
+        dto,
+        dto.recurrence,
+      );
+    }
+
     return this.appointmentsService.create(user.tenantId, dto);
   }
 
@@ -90,6 +136,10 @@ export class AppointmentsController {
     @Body() dto: UpdateAppointmentDto,
     @CurrentUser() user: CurrentUserData,
   ) {
+    if (dto.scope && dto.scope !== SeriesScope.THIS) {
+      return this.appointmentsService.updateSeries(id, user.tenantId, dto);
+    }
+
     return this.appointmentsService.update(id, user.tenantId, dto);
   }
 
@@ -100,6 +150,43 @@ export class AppointmentsController {
     @Body() dto: UpdateStatusDto,
     @CurrentUser() user: CurrentUserData,
   ) {
+    if (dto.scope && dto.scope !== SeriesScope.THIS) {
+      return this.appointmentsService.updateSeriesStatus(
+        id,
+        user.tenantId,
+        dto,
+      );
+    }
+
     return this.appointmentsService.updateStatus(id, user.tenantId, dto);
   }
 }
+
+@ApiTags('Appointments')
+@ApiBearerAuth('access-token')
+@Controller('cancellation-policies')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class CancellationPoliciesController {
+  constructor(private cancellationPolicyService: CancellationPolicyService) {}
+
+  @Get()
+  @RequirePermissions(Permission.SETTINGS_VIEW)
+  async findAll(@CurrentUser() user: CurrentUserData) {
+    return this.cancellationPolicyService.findAll(user.tenantId);
+  }
+
+  @Put()
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async upsert(
+    @Body() dto: UpsertCancellationPolicyDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.cancellationPolicyService.upsert(user.tenantId, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async remove(@Param('id') id: string, @CurrentUser() user: CurrentUserData) {
+    return this.cancellationPolicyService.remove(id, user.tenantId);
+  }
+}
@@ -1,10 +1,25 @@
 import { Module } from '@nestjs/common';
 import { AppointmentsService } from './appointments.service';
-import { AppointmentsController } from './appointments.controller';
+import { AppointmentGroupService } from './appointment-group.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import {
+  AppointmentsController,
+  CancellationPoliciesController,
+} from './appointments.controller';
+import { ProvidersModule } from '../providers/providers.module';
 
 @Module({
-  controllers: [AppointmentsController],
-  providers: [AppointmentsService],
-  exports: [AppointmentsService],
+  imports: [ProvidersModule],
+  controllers: [AppointmentsController, CancellationPoliciesController],
+  providers: [
+    AppointmentsService,
+    AppointmentGroupService,
+    CancellationPolicyService,
+  ],
+  exports: [
+    AppointmentsService,
+    AppointmentGroupService,
+    CancellationPolicyService,
+  ],
 })
 export class AppointmentsModule {}
@@ -2,11 +2,69 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 import { AppointmentsService } from './appointments.service';
 import { PrismaService } from '../../prisma/prisma.service';
-import { AppointmentStatus } from '@prisma/client';
+import { ProviderAvailabilityService } from '../providers/provider-availability.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { UsageService } from '../plans/usage.service';
+import { AppointmentStatus, AppointmentRecurrence } from '@prisma/client';
+
+const createPrismaMock = () => {
+  const mock = {
+    appointment: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    },
+    service: {
+      findFirst: jest.fn(),
+    },
+    provider: {
+      findFirst: jest.fn(),
+    },
+    client: {
+      findFirst: jest.fn(),
+    },
+    providerService: {
+      findUnique: jest.fn().mockResolvedValue(null),
+    },
+    providerSchedule: {
+      findUnique: jest.fn().mockResolvedValue(null),
+    },
+    appointmentSeries: {
+      create: jest.fn(),
+    },
+  };
+  // O callback da transação recebe o próprio mock como client
+  return Object.assign(mock, {
+    $transaction: jest.fn((fn: (tx: typeof mock) => unknown) => fn(mock)),
+  });
+};
+
+const createAvailabilityMock = () => ({
+  getWorkingIntervals: jest.fn(),
+  isAvailable: jest.fn(),
+  generateSlots: jest.fn(),
+  getTimezone: jest.fn(),
+  removePastSlots: jest.fn(),
+});
+
+const createCancellationPolicyMock = () => ({
+  assertCanMarkNoShow: jest.fn(),
+  applyNoShow: jest.fn(),
+  applyLateCancellation: jest.fn(),
+});
 
 describe('AppointmentsService', () => {
   let service: AppointmentsService;
-  let prismaService: jest.Mocked<PrismaService>;
+  let prismaService: ReturnType<typeof createPrismaMock>;
+  let availabilityService: ReturnType<typeof createAvailabilityMock>;
+  let cancellationPolicyService: ReturnType<
+    typeof createCancellationPolicyMock
+  >;
+  let usageService: { record: jest.Mock };
 
   const tenantId = 'tenant-123';
 
@@ -51,48 +109,47 @@ describe('AppointmentsService', () => {
 
   const mockAppointments = [
     mockAppointment,
-    { ...mockAppointment, id: 'appointment-456', startTime: '14:00', endTime: '15:00' },
+    {
+      ...mockAppointment,
+      id: 'appointment-456',
+      startTime: '14:00',
+      endTime: '15:00',
+    },
   ];
 
   beforeEach(async () => {
-    const mockPrismaService = {
-      appointment: {
-        findMany: jest.fn().mockResolvedValue([]),
-        findFirst: jest.fn(),
-        findUnique: jest.fn(),
-        create: jest.fn(),
-        update: jest.fn(),
-        delete: jest.fn(),
-        count: jest.fn(),
-      },
-      service: {
-        findFirst: jest.fn(),
-      },
-      provider: {
-        findFirst: jest.fn(),
-      },
-      client: {
-        findFirst: jest.fn(),
-      },
-      providerService: {
-        findUnique: jest.fn().mockResolvedValue(null),
-      },
-      providerSchedule: {
-        findUnique: jest.fn().mockResolvedValue(null),
-      },
-    };
+    const mockPrismaService = createPrismaMock();
+    const mockAvailabilityService = createAvailabilityMock();
+    const mockCancellationPolicyService = createCancellationPolicyMock();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AppointmentsService,
         { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ProviderAvailabilityService,
+          useValue: mockAvailabilityService,
+        },
+        {
+          provide: CancellationPolicyService,
+          useValue: mockCancellationPolicyService,
+        },
+        { provide: UsageService, useValue: { record: jest.fn() } },
       ],
     }).compile();
 
     service = module.get<AppointmentsService>(AppointmentsService);
     prismaService = module.get(PrismaService);
+    availabilityService = module.get(ProviderAvailabilityService);
+    cancellationPolicyService = module.get(CancellationPolicyService);
+    usageService = module.get(UsageService);
 
     jest.clearAllMocks();
+    availabilityService.isAvailable.mockResolvedValue(true);
+    availabilityService.getTimezone.mockResolvedValue('America/Sao_Paulo');
+    availabilityService.removePastSlots.mockImplementation(
+      (slots: string[]) => slots,
+    );
   });
 
   it('should be defined', () => {
@@ -101,7 +158,9 @@ describe('AppointmentsService', () => {
 
   describe('findAll', () => {
     it('should return all appointments for a tenant', async () => {
-      prismaService.appointment.findMany = jest.fn().mockResolvedValue(mockAppointments);
+      prismaService.appointment.findMany = jest
+        .fn()
+        .mockResolvedValue(mockAppointments);
 
       const result = await service.findAll(tenantId);
 
@@ -118,7 +177,9 @@ describe('AppointmentsService', () => {
     });
 
     it('should filter appointments by date', async () => {
-      prismaService.appointment.findMany = jest.fn().mockResolvedValue([mockAppointment]);
+      prismaService.appointment.findMany = jest
+        .fn()
+        .mockResolvedValue([mockAppointment]);
 
       const result = await service.findAll(tenantId, { date: '2025-02-01' });
 
@@ -134,9 +195,11 @@ describe('AppointmentsService', () => {
     });
 
     it('should filter appointments by status', async () => {
-      prismaService.appointment.findMany = jest.fn().mockResolvedValue([mockAppointment]);
+      prismaService.appointment.findMany = jest
+        .fn()
+        .mockResolvedValue([mockAppointment]);
 
-      const result = await service.findAll(tenantId, { status: AppointmentStatus.SCHEDULED });
+      await service.findAll(tenantId, { status: AppointmentStatus.SCHEDULED });
 
       expect(prismaService.appointment.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -149,9 +212,11 @@ describe('AppointmentsService', () => {
     });
 
     it('should filter appointments by provider', async () => {
-      prismaService.appointment.findMany = jest.fn().mockResolvedValue([mockAppointment]);
+      prismaService.appointment.findMany = jest
+        .fn()
+        .mockResolvedValue([mockAppointment]);
 
-      const result = await service.findAll(tenantId, { providerId: 'provider-123' });
+      await service.findAll(tenantId, { providerId: 'provider-123' });
 
       expect(prismaService.appointment.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -166,7 +231,9 @@ describe('AppointmentsService', () => {
 
   describe('findById', () => {
     it('should return an appointment when found', async () => {
-      prismaService.appointment.findFirst = jest.fn().mockResolvedValue(mockAppointment);
+      prismaService.appointment.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockAppointment);
 
       const result = await service.findById('appointment-123', tenantId);
 
@@ -204,16 +271,26 @@ describe('AppointmentsService', () => {
     };
 
     it('should create a new appointment', async () => {
-      prismaService.service.findFirst = jest.fn().mockResolvedValue(mockService);
+      prismaService.service.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockService);
       // Mock findMany for conflict check - return empty array (no conflicts)
       prismaService.appointment.findMany = jest.fn().mockResolvedValue([]);
-      prismaService.appointment.create = jest.fn().mockResolvedValue(mockAppointment);
+      prismaService.appointment.create = jest
+        .fn()
+        .mockResolvedValue(mockAppointment);
 
       const result = await service.create(tenantId, createDto);
 
       expect(result).toEqual(mockAppointment);
       expect(prismaService.service.findFirst).toHaveBeenCalled();
       expect(prismaService.appointment.create).toHaveBeenCalled();
+      expect(usageService.record).toHaveBeenCalledWith(
+        tenantId,
+        'appointments',
+        1,
+        prismaService,
+      );
     });
 
     it('should throw NotFoundException if service not found', async () => {
@@ -227,10 +304,26 @@ describe('AppointmentsService', () => {
       );
     });
 
+    it('should throw BadRequestException when provider is unavailable', async () => {
+      prismaService.service.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockService);
+      availabilityService.isAvailable.mockResolvedValue(false);
+
+      await expect(service.create(tenantId, createDto)).rejects.toThrow(
+        'Profissional indisponível neste horário',
+      );
+      expect(prismaService.appointment.create).not.toHaveBeenCalled();
+    });
+
     it('should throw BadRequestException for conflicting appointments', async () => {
-      prismaService.service.findFirst = jest.fn().mockResolvedValue(mockService);
+      prismaService.service.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockService);
       // Mock findMany for conflict check - return existing appointment (conflict)
-      prismaService.appointment.findMany = jest.fn().mockResolvedValue([mockAppointment]);
+      prismaService.appointment.findMany = jest
+        .fn()
+        .mockResolvedValue([mockAppointment]);
 
       await expect(service.create(tenantId, createDto)).rejects.toThrow(
         BadRequestException,
@@ -238,14 +331,80 @@ describe('AppointmentsService', () => {
     });
   });
 
+  describe('createSeries', () => {
+    const seriesDto = {
+      clientId: 'client-123',
+      serviceId: 'service-123',
+      providerId: 'provider-123',
+      date: '2025-02-03',
+      startTime: '10:00',
+    };
+    const recurrence = {
+      frequency: AppointmentRecurrence.WEEKLY,
+      occurrences: 3,
+    };
+
+    it('should create the free occurrences and report conflicts', async () => {
+      prismaService.service.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockService);
+      prismaService.appointmentSeries.create = jest
+        .fn()
+        .mockResolvedValue({ id: 'series-123' });
+      prismaService.appointment.create = jest
+        .fn()
+        .mockImplementation(({ data }) => Promise.resolve(data));
+      // Segunda ocorrência (10/02) conflita com um agendamento existente
+      prismaService.appointment.findMany = jest
+        .fn()
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([mockAppointment])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.createSeries(
+        tenantId,
+        seriesDto,
+        recurrence,
+      );
+
+      expect(result.appointments.map((a) => a.date)).toEqual([
+        new Date('2025-02-03'),
+        new Date('2025-02-17'),
+      ]);
+      expect(result.appointments[0].seriesId).toBe('series-123');
+      expect(result.conflicts).toEqual([
+        {
+          date: '2025-02-10',
+          reason: 'Horário conflita com outro agendamento',
+        },
+      ]);
+    });
+
+    it('should throw BadRequestException when no occurrence is free', async () => {
+      prismaService.service.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockService);
+      availabilityService.isAvailable.mockResolvedValue(false);
+
+      await expect(
+        service.createSeries(tenantId, seriesDto, recurrence),
+      ).rejects.toThrow('Nenhuma ocorrência da série está disponível');
+      expect(prismaService.appointmentSeries.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateStatus', () => {
     it('should update appointment status', async () => {
       const updatedAppointment = {
         ...mockAppointment,
         status: AppointmentStatus.CONFIRMED,
       };
-      prismaService.appointment.findFirst = jest.fn().mockResolvedValue(mockAppointment);
-      prismaService.appointment.update = jest.fn().mockResolvedValue(updatedAppointment);
+      prismaService.appointment.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockAppointment);
+      prismaService.appointment.update = jest
+        .fn()
+        .mockResolvedValue(updatedAppointment);
 
       const result = await service.updateStatus('appointment-123', tenantId, {
         status: AppointmentStatus.CONFIRMED,
@@ -263,6 +422,50 @@ describe('AppointmentsService', () => {
       });
     });
 
+    it('should apply the no-show policy when marking a no-show', async () => {
+      prismaService.appointment.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockAppointment);
+      prismaService.appointment.update = jest.fn().mockResolvedValue({
+        ...mockAppointment,
+        status: AppointmentStatus.NO_SHOW,
+      });
+
+      await service.updateStatus('appointment-123', tenantId, {
+        status: AppointmentStatus.NO_SHOW,
+      });
+
+      expect(
+        cancellationPolicyService.assertCanMarkNoShow,
+      ).toHaveBeenCalledWith('appointment-123');
+      expect(cancellationPolicyService.applyNoShow).toHaveBeenCalledWith(
+        'appointment-123',
+        undefined,
+      );
+      expect(
+        cancellationPolicyService.applyLateCancellation,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should not charge a late cancellation fee when it is waived', async () => {
+      prismaService.appointment.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockAppointment);
+      prismaService.appointment.update = jest.fn().mockResolvedValue({
+        ...mockAppointment,
+        status: AppointmentStatus.CANCELLED,
+      });
+
+      await service.updateStatus('appointment-123', tenantId, {
+        status: AppointmentStatus.CANCELLED,
+        waiveFee: true,
+      });
+
+      expect(
+        cancellationPolicyService.applyLateCancellation,
+      ).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException if appointment not found', async () => {
       prismaService.appointment.findFirst = jest.fn().mockResolvedValue(null);
 
@@ -274,28 +477,85 @@ describe('AppointmentsService', () => {
     });
   });
 
+  describe('updateSeriesStatus', () => {
+    it('should apply the cancellation policy to each occurrence', async () => {
+      const occurrences = [
+        { ...mockAppointment, seriesId: 'series-123' },
+        {
+          ...mockAppointment,
+          id: 'appointment-456',
+          seriesId: 'series-123',
+          date: new Date('2025-02-08'),
+        },
+      ];
+      prismaService.appointment.findFirst.mockResolvedValue(occurrences[0]);
+      prismaService.appointment.findMany
+        .mockResolvedValueOnce(occurrences)
+        .mockResolvedValueOnce(occurrences);
+      prismaService.appointment.update.mockResolvedValue({});
+
+      await service.updateSeriesStatus('appointment-123', tenantId, {
+        status: AppointmentStatus.CANCELLED,
+      });
+
+      expect(prismaService.appointment.update).toHaveBeenCalledTimes(2);
+      expect(
+        cancellationPolicyService.applyLateCancellation,
+      ).toHaveBeenCalledWith('appointment-123');
+      expect(
+        cancellationPolicyService.applyLateCancellation,
+      ).toHaveBeenCalledWith('appointment-456');
+    });
+  });
+
   describe('getAvailableSlots', () => {
     it('should return available time slots for a provider on a date', async () => {
-      // Mock provider schedule
-      (prismaService.providerSchedule as any).findUnique = jest.fn().mockResolvedValue({
-        dayOfWeek: 1,
-        startTime: '09:00',
-        endTime: '18:00',
-        isActive: true,
-      });
-      prismaService.appointment.findMany = jest.fn().mockResolvedValue([
+      const intervals = [{ start: 9 * 60, end: 18 * 60 }];
+      availabilityService.getWorkingIntervals.mockResolvedValue(intervals);
+      availabilityService.generateSlots.mockReturnValue(['09:00', '11:00']);
+      prismaService.service.findFirst = jest
+        .fn()
+        .mockResolvedValue(mockService);
+      const appointments = [
         { startTime: '10:00', endTime: '11:00' },
         { startTime: '14:00', endTime: '15:00' },
-      ]);
+      ];
+      prismaService.appointment.findMany = jest
+        .fn()
+        .mockResolvedValue(appointments);
 
       const result = await service.getAvailableSlots(
         tenantId,
         'provider-123',
         '2025-02-03', // Monday
-        60, // duration in minutes
+        'service-123',
+      );
+
+      expect(result).toEqual(['09:00', '11:00']);
+      expect(availabilityService.generateSlots).toHaveBeenCalledWith(
+        intervals,
+        60,
+        30,
+        appointments,
+      );
+      expect(availabilityService.removePastSlots).toHaveBeenCalledWith(
+        ['09:00', '11:00'],
+        new Date('2025-02-03T00:00:00.000Z'),
+        'America/Sao_Paulo',
+      );
+    });
+
+    it('should return no slots when the provider is off that day', async () => {
+      availabilityService.getWorkingIntervals.mockResolvedValue([]);
+
+      const result = await service.getAvailableSlots(
+        tenantId,
+        'provider-123',
+        '2025-02-03',
       );
 
-      expect(Array.isArray(result)).toBe(true);
+      expect(result).toEqual([]);
+      expect(prismaService.appointment.findMany).not.toHaveBeenCalled();
     });
   });
 });
@@ -4,17 +4,33 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ProviderAvailabilityService } from '../providers/provider-availability.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { UsageService } from '../plans/usage.service';
 import {
   CreateAppointmentDto,
   UpdateAppointmentDto,
   UpdateStatusDto,
+  AppointmentRecurrenceDto,
+  SeriesScope,
+  MAX_SERIES_OCCURRENCES,
 } from './dto/appointment.dto';
-import { AppointmentStatus } from '@prisma/client';
+import {
+  Appointment,
+  AppointmentStatus,
+  AppointmentRecurrence,
+} from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { parseDateOnly } from '../../common/utils/timezone.util';
 
 @Injectable()
 export class AppointmentsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private availability: ProviderAvailabilityService,
+    private cancellationPolicy: CancellationPolicyService,
+    private usage: UsageService,
+  ) {}
 
   async findAll(
     tenantId: string,
@@ -23,7 +39,7 @@ export class AppointmentsService {
     const where: any = { tenantId };
 
     if (filters?.date) {
-      where.date = new Date(filters.date);
+      where.date = parseDateOnly(filters.date);
     }
 
     if (filters?.status) {
@@ -75,7 +91,7 @@ export class AppointmentsService {
 
     await this.checkConflict(
       dto.providerId,
-      new Date(dto.date),
+      parseDateOnly(dto.date),
       dto.startTime,
       endTime,
     );
@@ -91,25 +107,142 @@ export class AppointmentsService {
 
     const price = dto.price ?? providerService?.customPrice ?? service.price;
 
-    return this.prisma.appointment.create({
-      data: {
-        tenantId,
-        clientId: dto.clientId,
-        providerId: dto.providerId,
-        serviceId: dto.serviceId,
-        date: new Date(dto.date),
-        startTime: dto.startTime,
-        endTime,
-        price: new Decimal(Number(price)),
-        notes: dto.notes,
-        status: AppointmentStatus.SCHEDULED,
-      },
-      include: {
-        client: true,
-        provider: true,
-        service: true,
+    return this.prisma.$transaction(async (tx) => {
+      const appointment = await tx.appointment.create({
+        data: {
+          tenantId,
+          clientId: dto.clientId,
+          providerId: dto.providerId,
+          serviceId: dto.serviceId,
+          date: parseDateOnly(dto.date),
+          startTime: dto.startTime,
+          endTime,
+          price: new Decimal(Number(price)),
+          notes: dto.notes,
+          status: AppointmentStatus.SCHEDULED,
+        },
+        include: {
+          client: true,
+          provider: true,
+          service: true,
+        },
+      });
+
+      await this.usage.record(tenantId, 'appointments', 1, tx);
+
+      return appointment;
+    });
+  }
+
+  /**
+   * Cria uma série recorrente. Ocorrências que conflitam com outros
+   * agendamentos são reportadas em `conflicts` em vez de falhar a série toda
+   */
+  async createSeries(
+    tenantId: string,
+    dto: CreateAppointmentDto,
+    recurrence: AppointmentRecurrenceDto,
+  ) {
+    if (!recurrence.occurrences && !recurrence.endDate) {
+      throw new BadRequestException(
+        'Informe a quantidade de ocorrências ou a data final da série',
+      );
+    }
+
+    const service = await this.prisma.service.findFirst({
+      where: { id: dto.serviceId, tenantId },
+    });
+
+    if (!service) {
+      throw new NotFoundException('Serviço não encontrado');
+    }
+
+    const endTime = this.calculateEndTime(dto.startTime, service.duration);
+    const dates = this.buildSeriesDates(parseDateOnly(dto.date), recurrence);
+
+    const available: Date[] = [];
+    const conflicts: Array<{ date: string; reason: string }> = [];
+
+    for (const date of dates) {
+      try {
+        await this.checkConflict(dto.providerId, date, dto.startTime, endTime);
+        available.push(date);
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        conflicts.push({
+          date: date.toISOString().split('T')[0],
+          reason: error.message,
+        });
+      }
+    }
+
+    if (available.length === 0) {
+      throw new BadRequestException(
+        'Nenhuma ocorrência da série está disponível',
+      );
+    }
+
+    const providerService = await this.prisma.providerService.findUnique({
+      where: {
+        providerId_serviceId: {
+          providerId: dto.providerId,
+          serviceId: dto.serviceId,
+        },
       },
     });
+
+    const price = dto.price ?? providerService?.customPrice ?? service.price;
+
+    return this.prisma.$transaction(async (tx) => {
+      const series = await tx.appointmentSeries.create({
+        data: {
+          tenantId,
+          clientId: dto.clientId,
+          providerId: dto.providerId,
+          serviceId: dto.serviceId,
+          frequency: recurrence.frequency,
+          occurrences: recurrence.occurrences,
+          startDate: dates[0],
+          endDate: recurrence.endDate
+            ? parseDateOnly(recurrence.endDate)
+            : null,
+          startTime: dto.startTime,
+          notes: dto.notes,
+        },
+      });
+
+      const appointments: Appointment[] = [];
+      for (const date of available) {
+        appointments.push(
+          await tx.appointment.create({
+            data: {
+              tenantId,
+              clientId: dto.clientId,
+              providerId: dto.providerId,
+              serviceId: dto.serviceId,
+              seriesId: series.id,
+              date,
+              startTime: dto.startTime,
+              endTime,
+              price: new Decimal(Number(price)),
+              notes: dto.notes,
+              status: AppointmentStatus.SCHEDULED,
+            },
+          }),
+        );
+      }
+
+      await this.usage.record(
+        tenantId,
+        'appointments',
+        appointments.length,
+        tx,
+      );
+
+      return { series, appointments, conflicts };
+    });
   }
 
   async update(id: string, tenantId: string, dto: UpdateAppointmentDto) {
@@ -137,7 +270,7 @@ export class AppointmentsService {
     if (dto.providerId || dto.date || dto.startTime) {
       await this.checkConflict(
         dto.providerId || existing.providerId,
-        dto.date ? new Date(dto.date) : existing.date,
+        dto.date ? parseDateOnly(dto.date) : existing.date,
         dto.startTime || existing.startTime,
         endTime,
         id,
@@ -150,7 +283,7 @@ export class AppointmentsService {
         clientId: dto.clientId,
         providerId: dto.providerId,
         serviceId: dto.serviceId,
-        date: dto.date ? new Date(dto.date) : undefined,
+        date: dto.date ? parseDateOnly(dto.date) : undefined,
         startTime: dto.startTime,
         endTime: dto.startTime ? endTime : undefined,
         price: dto.price !== undefined ? new Decimal(dto.price) : undefined,
@@ -164,39 +297,157 @@ export class AppointmentsService {
     });
   }
 
-  async updateStatus(id: string, tenantId: string, dto: UpdateStatusDto) {
-    await this.findById(id, tenantId);
+  /**
+   * Aplica a alteração a "esta e as seguintes" ou a "toda a série"
+   */
+  async updateSeries(id: string, tenantId: string, dto: UpdateAppointmentDto) {
+    const existing = await this.findSeriesAppointment(id, tenantId);
 
-    return this.prisma.appointment.update({
-      where: { id },
-      data: { status: dto.status },
+    if (dto.date) {
+      throw new BadRequestException(
+        'A data só pode ser alterada em uma ocorrência por vez',
+      );
+    }
+
+    const targets = await this.findSeriesTargets(
+      existing,
+      dto.scope ?? SeriesScope.ALL,
+    );
+
+    let duration: number | undefined;
+    if (dto.serviceId || dto.startTime) {
+      const service = await this.prisma.service.findFirst({
+        where: { id: dto.serviceId || existing.serviceId, tenantId },
+      });
+
+      if (!service) {
+        throw new NotFoundException('Serviço não encontrado');
+      }
+
+      duration = service.duration;
+    }
+
+    const startTime = dto.startTime || existing.startTime;
+    const endTime =
+      duration !== undefined
+        ? this.calculateEndTime(startTime, duration)
+        : existing.endTime;
+
+    if (dto.providerId || dto.startTime || dto.serviceId) {
+      const conflicts: string[] = [];
+
+      for (const target of targets) {
+        try {
+          await this.checkConflict(
+            dto.providerId || target.providerId,
+            target.date,
+            startTime,
+            endTime,
+            target.id,
+          );
+        } catch (error) {
+          if (!(error instanceof BadRequestException)) {
+            throw error;
+          }
+          conflicts.push(target.date.toISOString().split('T')[0]);
+        }
+      }
+
+      if (conflicts.length > 0) {
+        throw new BadRequestException(
+          `Horário indisponível nas datas: ${conflicts.join(', ')}`,
+        );
+      }
+    }
+
+    const data = {
+      clientId: dto.clientId,
+      providerId: dto.providerId,
+      serviceId: dto.serviceId,
+      startTime: dto.startTime,
+      endTime: duration !== undefined ? endTime : undefined,
+      price: dto.price !== undefined ? new Decimal(dto.price) : undefined,
+      notes: dto.notes,
+    };
+
+    await this.prisma.$transaction([
+      this.prisma.appointment.updateMany({
+        where: { id: { in: targets.map((t) => t.id) } },
+        data,
+      }),
+      this.prisma.appointmentSeries.update({
+        where: { id: existing.seriesId! },
+        data: {
+          clientId: dto.clientId,
+          providerId: dto.providerId,
+          serviceId: dto.serviceId,
+          startTime: dto.startTime,
+          notes: dto.notes,
+        },
+      }),
+    ]);
+
+    return this.prisma.appointment.findMany({
+      where: { id: { in: targets.map((t) => t.id) } },
+      include: {
+        client: true,
+        provider: true,
+        service: true,
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  async updateSeriesStatus(id: string, tenantId: string, dto: UpdateStatusDto) {
+    if (dto.status === AppointmentStatus.NO_SHOW) {
+      throw new BadRequestException(
+        'Falta deve ser registrada em cada agendamento',
+      );
+    }
+
+    const existing = await this.findSeriesAppointment(id, tenantId);
+    const targets = await this.findSeriesTargets(
+      existing,
+      dto.scope ?? SeriesScope.ALL,
+    );
+
+    // Cada ocorrência passa pelas mesmas regras do agendamento avulso (ex:
+    // taxa de cancelamento tardio na ocorrência mais próxima)
+    for (const target of targets) {
+      await this.applyStatus(target, dto);
+    }
+
+    return this.prisma.appointment.findMany({
+      where: { id: { in: targets.map((t) => t.id) } },
       include: {
         client: true,
         provider: true,
         service: true,
       },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
     });
   }
 
+  async updateStatus(id: string, tenantId: string, dto: UpdateStatusDto) {
+    const existing = await this.findById(id, tenantId);
+
+    return this.applyStatus(existing, dto);
+  }
+
   async getAvailableSlots(
     tenantId: string,
     providerId: string,
     date: string,
     serviceId?: string,
   ) {
-    const dateObj = new Date(date);
-    const dayOfWeek = dateObj.getDay();
+    const dateObj = parseDateOnly(date);
 
-    const schedule = await this.prisma.providerSchedule.findUnique({
-      where: {
-        providerId_dayOfWeek: {
-          providerId,
-          dayOfWeek,
-        },
-      },
-    });
+    const intervals = await this.availability.getWorkingIntervals(
+      providerId,
+      dateObj,
+    );
 
-    if (!schedule || !schedule.isAvailable) {
+    if (intervals.length === 0) {
       return [];
     }
 
@@ -219,28 +470,18 @@ export class AppointmentsService {
       select: { startTime: true, endTime: true },
     });
 
-    const slots: string[] = [];
-    let currentTime = this.parseTime(schedule.startTime);
-    const endTime = this.parseTime(schedule.endTime);
-
-    while (currentTime + duration <= endTime) {
-      const slotStart = this.formatTime(currentTime);
-      const slotEnd = this.formatTime(currentTime + duration);
-
-      const hasConflict = appointments.some((apt) => {
-        const aptStart = this.parseTime(apt.startTime);
-        const aptEnd = this.parseTime(apt.endTime);
-        return currentTime < aptEnd && currentTime + duration > aptStart;
-      });
-
-      if (!hasConflict) {
-        slots.push(slotStart);
-      }
-
-      currentTime += 30;
-    }
+    const slots = this.availability.generateSlots(
+      intervals,
+      duration,
+      30,
+      appointments,
+    );
 
-    return slots;
+    return this.availability.removePastSlots(
+      slots,
+      dateObj,
+      await this.availability.getTimezone(tenantId),
+    );
   }
 
   async count(tenantId: string) {
@@ -256,6 +497,17 @@ export class AppointmentsService {
     endTime: string,
     excludeId?: string,
   ) {
+    const isAvailable = await this.availability.isAvailable(
+      providerId,
+      date,
+      startTime,
+      endTime,
+    );
+
+    if (!isAvailable) {
+      throw new BadRequestException('Profissional indisponível neste horário');
+    }
+
     const where: any = {
       providerId,
       date,
@@ -287,6 +539,116 @@ export class AppointmentsService {
     }
   }
 
+  /**
+   * Altera o status e aplica as taxas da política de cancelamento e faltas
+   */
+  private async applyStatus(existing: Appointment, dto: UpdateStatusDto) {
+    const statusChanged = existing.status !== dto.status;
+
+    if (statusChanged && dto.status === AppointmentStatus.NO_SHOW) {
+      await this.cancellationPolicy.assertCanMarkNoShow(existing.id);
+    }
+
+    const appointment = await this.prisma.appointment.update({
+      where: { id: existing.id },
+      data: { status: dto.status },
+      include: {
+        client: true,
+        provider: true,
+        service: true,
+      },
+    });
+
+    if (statusChanged && dto.status === AppointmentStatus.NO_SHOW) {
+      await this.cancellationPolicy.applyNoShow(existing.id, dto.waiveFee);
+    }
+
+    if (
+      statusChanged &&
+      dto.status === AppointmentStatus.CANCELLED &&
+      existing.status !== AppointmentStatus.PENDING_PAYMENT &&
+      !dto.waiveFee
+    ) {
+      await this.cancellationPolicy.applyLateCancellation(existing.id);
+    }
+
+    return appointment;
+  }
+
+  private async findSeriesAppointment(id: string, tenantId: string) {
+    const existing = await this.findById(id, tenantId);
+
+    if (!existing.seriesId) {
+      throw new BadRequestException('Agendamento não pertence a uma série');
+    }
+
+    return existing;
+  }
+
+  /**
+   * Ocorrências da série afetadas pelo escopo; concluídas e canceladas ficam de fora
+   */
+  private async findSeriesTargets(existing: Appointment, scope: SeriesScope) {
+    return this.prisma.appointment.findMany({
+      where: {
+        seriesId: existing.seriesId,
+        tenantId: existing.tenantId,
+        status: {
+          notIn: [AppointmentStatus.COMPLETED, AppointmentStatus.CANCELLED],
+        },
+        ...(scope === SeriesScope.FOLLOWING && {
+          date: { gte: existing.date },
+        }),
+      },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  /**
+   * Calcula as datas das ocorrências a partir da regra de recorrência
+   */
+  private buildSeriesDates(
+    start: Date,
+    recurrence: AppointmentRecurrenceDto,
+  ): Date[] {
+    const endDate = recurrence.endDate
+      ? parseDateOnly(recurrence.endDate)
+      : null;
+    const limit = recurrence.occurrences ?? MAX_SERIES_OCCURRENCES;
+    const dates: Date[] = [];
+
+    for (let i = 0; i < limit; i++) {
+      const date = new Date(start);
+
+      switch (recurrence.frequency) {
+        case AppointmentRecurrence.WEEKLY:
+          date.setUTCDate(start.getUTCDate() + i * 7);
+          break;
+        case AppointmentRecurrence.BIWEEKLY:
+          date.setUTCDate(start.getUTCDate() + i * 14);
+          break;
+        case AppointmentRecurrence.MONTHLY: {
+          // Mantém o dia do mês, limitado ao último dia (ex: 31 -> 30/28)
+          date.setUTCDate(1);
+          date.setUTCMonth(start.getUTCMonth() + i);
+          const lastDay = new Date(
+            Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+          ).getUTCDate();
+          date.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+          break;
+        }
+      }
+
+      if (endDate && date > endDate) {
+        break;
+      }
+
+      dates.push(date);
+    }
+
+    return dates;
+  }
+
   private calculateEndTime(startTime: string, durationMinutes: number): string {
     const minutes = this.parseTime(startTime);
     return this.formatTime(minutes + durationMinutes);
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import {
+  AppointmentStatus,
+  FeeType,
+  Prisma,
+  TransactionStatus,
+} from '@prisma/client';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('CancellationPolicyService', () => {
+  let service: CancellationPolicyService;
+  let prismaService: any;
+
+  const tenantId = 'tenant-123';
+
+  // 14:00 em São Paulo = 17:00 UTC
+  const appointment = {
+    id: 'appointment-1',
+    tenantId,
+    clientId: 'client-1',
+    providerId: 'provider-1',
+    serviceId: 'service-1',
+    status: AppointmentStatus.SCHEDULED,
+    date: new Date('2025-02-04T00:00:00.000Z'),
+    startTime: '14:00',
+    price: new Prisma.Decimal(200),
+    service: { name: 'Corte' },
+    client: { name: 'Maria' },
+    tenant: { timezone: 'America/Sao_Paulo' },
+    location: null,
+  };
+
+  const tenantPolicy = {
+    serviceId: null,
+    minNoticeHours: 24,
+    allowLateCancellation: true,
+    lateCancellationFeeType: FeeType.PERCENTAGE,
+    lateCancellationFeeValue: new Prisma.Decimal(50),
+    noShowFeeType: FeeType.FIXED,
+    noShowFeeValue: new Prisma.Decimal(80),
+    blockAfterNoShows: 2,
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      appointment: { findUnique: jest.fn().mockResolvedValue(appointment) },
+      cancellationPolicy: {
+        findMany: jest.fn().mockResolvedValue([tenantPolicy]),
+      },
+      client: {
+        findUnique: jest.fn().mockResolvedValue({ bookingBlockedAt: null }),
+        update: jest.fn().mockResolvedValue({
+          id: 'client-1',
+          noShowCount: 1,
+          bookingBlockedAt: null,
+        }),
+      },
+      financialCategory: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'category-1' }),
+      },
+      financialTransaction: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CancellationPolicyService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<CancellationPolicyService>(CancellationPolicyService);
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('checkCancellation', () => {
+    it('should use the appointment start time, not only its date', async () => {
+      // 25h antes do início, mas menos de 24h antes da meia-noite UTC
+      const now = new Date('2025-02-03T16:00:00.000Z');
+
+      const check = await service.checkCancellation('appointment-1', now);
+
+      expect(check.isLate).toBe(false);
+      expect(check.fee).toBe(0);
+    });
+
+    it('should charge the late fee inside the notice period', async () => {
+      const now = new Date('2025-02-04T10:00:00.000Z');
+
+      const check = await service.checkCancellation('appointment-1', now);
+
+      expect(check).toMatchObject({ isLate: true, allowed: true, fee: 100 });
+    });
+
+    it('should refuse a late cancellation with an explanation', async () => {
+      prismaService.cancellationPolicy.findMany.mockResolvedValue([
+        tenantPolicy,
+        {
+          ...tenantPolicy,
+          serviceId: 'service-1',
+          minNoticeHours: 48,
+          allowLateCancellation: false,
+          blockAfterNoShows: null,
+        },
+      ]);
+      const now = new Date('2025-02-03T10:00:00.000Z');
+
+      const check = await service.checkCancellation('appointment-1', now);
+
+      expect(check.allowed).toBe(false);
+      expect(check.message).toContain('48 horas');
+    });
+  });
+
+  describe('applyNoShow', () => {
+    it('should create a pending no-show fee', async () => {
+      await expect(service.applyNoShow('appointment-1')).resolves.toEqual({
+        fee: 80,
+      });
+      expect(prismaService.financialTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          appointmentId: 'appointment-1',
+          clientId: 'client-1',
+          status: TransactionStatus.PENDING,
+          description: 'Taxa de falta - Corte - Maria',
+        }),
+      });
+    });
+
+    it('should block online booking after the no-show limit', async () => {
+      prismaService.client.update.mockResolvedValueOnce({
+        id: 'client-1',
+        noShowCount: 2,
+        bookingBlockedAt: null,
+      });
+
+      await service.applyNoShow('appointment-1', true);
+
+      expect(prismaService.financialTransaction.create).not.toHaveBeenCalled();
+      expect(prismaService.client.update).toHaveBeenLastCalledWith({
+        where: { id: 'client-1' },
+        data: { bookingBlockedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('assertCanBookOnline', () => {
+    it('should reject a blocked client', async () => {
+      prismaService.client.findUnique.mockResolvedValue({
+        bookingBlockedAt: new Date(),
+      });
+
+      await expect(service.assertCanBookOnline('client-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+});
@@ -0,0 +1,454 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UpsertCancellationPolicyDto } from './dto/appointment.dto';
+import {
+  AppointmentStatus,
+  CancellationPolicy,
+  FeeType,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+
+const FEE_CATEGORY_NAME = 'Taxas de Cancelamento e Faltas';
+
+type PolicyRules = Pick<
+  CancellationPolicy,
+  | 'minNoticeHours'
+  | 'allowLateCancellation'
+  | 'lateCancellationFeeType'
+  | 'lateCancellationFeeValue'
+  | 'noShowFeeType'
+  | 'noShowFeeValue'
+  | 'blockAfterNoShows'
+>;
+
+// Regra usada quando o tenant não configurou uma política
+const DEFAULT_POLICY: PolicyRules = {
+  minNoticeHours: 24,
+  allowLateCancellation: false,
+  lateCancellationFeeType: null,
+  lateCancellationFeeValue: null,
+  noShowFeeType: null,
+  noShowFeeValue: null,
+  blockAfterNoShows: null,
+};
+
+const ACTIVE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING_PAYMENT,
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+];
+
+const appointmentInclude = {
+  service: { select: { name: true } },
+  client: { select: { name: true } },
+  tenant: { select: { timezone: true } },
+  location: { include: { location: { select: { timezone: true } } } },
+} as const;
+
+type PolicyAppointment = Prisma.AppointmentGetPayload<{
+  include: typeof appointmentInclude;
+}>;
+
+export interface CancellationCheck {
+  minNoticeHours: number;
+  hoursUntilStart: number;
+  isLate: boolean;
+  allowed: boolean; // Cancelamento permitido pelo cliente
+  fee: number;
+  message: string | null; // Explicação exibida ao cliente
+}
+
+/**
+ * Política de cancelamento e faltas: antecedência mínima, taxas de
+ * cancelamento tardio e de falta e bloqueio do agendamento online
+ */
+@Injectable()
+export class CancellationPolicyService {
+  constructor(private prisma: PrismaService) {}
+
+  // ============================================================================
+  // POLÍTICAS
+  // ============================================================================
+
+  async findAll(tenantId: string) {
+    return this.prisma.cancellationPolicy.findMany({
+      where: { tenantId },
+      include: { service: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async upsert(tenantId: string, dto: UpsertCancellationPolicyDto) {
+    const { serviceId = null, ...rules } = dto;
+
+    if (serviceId) {
+      const service = await this.prisma.service.findFirst({
+        where: { id: serviceId, tenantId },
+      });
+
+      if (!service) {
+        throw new NotFoundException('Serviço não encontrado');
+      }
+
+      if (rules.blockAfterNoShows) {
+        throw new BadRequestException(
+          'O bloqueio por faltas é configurado apenas na política padrão',
+        );
+      }
+    }
+
+    this.validateFee(
+      rules.lateCancellationFeeType,
+      rules.lateCancellationFeeValue,
+    );
+    this.validateFee(rules.noShowFeeType, rules.noShowFeeValue);
+
+    const data = {
+      ...rules,
+      lateCancellationFeeValue: this.toDecimal(rules.lateCancellationFeeValue),
+      noShowFeeValue: this.toDecimal(rules.noShowFeeValue),
+    };
+
+    // Unique composto com serviceId nulo não funciona no upsert do Prisma
+    const existing = await this.prisma.cancellationPolicy.findFirst({
+      where: { tenantId, serviceId },
+    });
+
+    if (existing) {
+      return this.prisma.cancellationPolicy.update({
+        where: { id: existing.id },
+        data,
+      });
+    }
+
+    return this.prisma.cancellationPolicy.create({
+      data: { tenantId, serviceId, ...data },
+    });
+  }
+
+  async remove(id: string, tenantId: string) {
+    const policy = await this.prisma.cancellationPolicy.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Política não encontrada');
+    }
+
+    await this.prisma.cancellationPolicy.delete({ where: { id } });
+
+    return { message: 'Política removida com sucesso' };
+  }
+
+  /**
+   * Política do serviço, completada pela política padrão do tenant
+   */
+  async getEffectivePolicy(
+    tenantId: string,
+    serviceId: string,
+  ): Promise<PolicyRules> {
+    const policies = await this.prisma.cancellationPolicy.findMany({
+      where: { tenantId, OR: [{ serviceId }, { serviceId: null }] },
+    });
+
+    const tenantPolicy = policies.find((p) => !p.serviceId);
+    const servicePolicy = policies.find((p) => p.serviceId === serviceId);
+
+    return {
+      ...DEFAULT_POLICY,
+      ...(tenantPolicy && this.pickRules(tenantPolicy)),
+      ...(servicePolicy && {
+        ...this.pickRules(servicePolicy),
+        blockAfterNoShows: tenantPolicy?.blockAfterNoShows ?? null,
+      }),
+    };
+  }
+
+  // ============================================================================
+  // CANCELAMENTO
+  // ============================================================================
+
+  /**
+   * Verifica se o agendamento ainda pode ser cancelado e qual taxa se aplica
+   */
+  async checkCancellation(appointmentId: string, now = new Date()) {
+    return this.evaluateCancellation(
+      await this.findAppointment(appointmentId),
+      now,
+    );
+  }
+
+  /**
+   * Lança a taxa de cancelamento tardio, se houver
+   */
+  async applyLateCancellation(appointmentId: string, now = new Date()) {
+    const appointment = await this.findAppointment(appointmentId);
+    const check = await this.evaluateCancellation(appointment, now);
+
+    if (check.fee > 0) {
+      await this.chargeFee(
+        appointment,
+        check.fee,
+        'Taxa de cancelamento tardio',
+      );
+    }
+
+    return check;
+  }
+
+  private async evaluateCancellation(
+    appointment: PolicyAppointment,
+    now: Date,
+  ): Promise<CancellationCheck> {
+    const policy = await this.getEffectivePolicy(
+      appointment.tenantId,
+      appointment.serviceId,
+    );
+
+    const hoursUntilStart =
+      (this.getStartsAt(appointment).getTime() - now.getTime()) / 3600000;
+    const isLate = hoursUntilStart < policy.minNoticeHours;
+    const allowed = !isLate || policy.allowLateCancellation;
+    const fee = isLate
+      ? this.calculateFee(
+          appointment.price,
+          policy.lateCancellationFeeType,
+          policy.lateCancellationFeeValue,
+        )
+      : 0;
+
+    let message: string | null = null;
+    if (!allowed) {
+      message = `Cancelamentos devem ser feitos com pelo menos ${policy.minNoticeHours} horas de antecedência. Entre em contato com o estabelecimento.`;
+    } else if (fee > 0) {
+      message = `Cancelamento com menos de ${policy.minNoticeHours} horas de antecedência: será cobrada uma taxa de R$ ${fee.toFixed(2)}.`;
+    }
+
+    return {
+      minNoticeHours: policy.minNoticeHours,
+      hoursUntilStart,
+      isLate,
+      allowed,
+      fee,
+      message,
+    };
+  }
+
+  // ============================================================================
+  // FALTAS
+  // ============================================================================
+
+  /**
+   * Valida se a falta pode ser registrada (agendamento ativo e já iniciado)
+   */
+  async assertCanMarkNoShow(appointmentId: string, now = new Date()) {
+    const appointment = await this.findAppointment(appointmentId);
+
+    if (!ACTIVE_STATUSES.includes(appointment.status)) {
+      throw new BadRequestException(
+        'Falta só pode ser registrada em agendamentos ativos',
+      );
+    }
+
+    if (this.getStartsAt(appointment) > now) {
+      throw new BadRequestException(
+        'Falta só pode ser registrada após o horário do agendamento',
+      );
+    }
+  }
+
+  /**
+   * Lança a taxa de falta e bloqueia o agendamento online do cliente
+   * ao atingir o limite de faltas da política padrão
+   */
+  async applyNoShow(appointmentId: string, waiveFee = false) {
+    const appointment = await this.findAppointment(appointmentId);
+    const policy = await this.getEffectivePolicy(
+      appointment.tenantId,
+      appointment.serviceId,
+    );
+
+    const fee = waiveFee
+      ? 0
+      : this.calculateFee(
+          appointment.price,
+          policy.noShowFeeType,
+          policy.noShowFeeValue,
+        );
+
+    if (fee > 0) {
+      await this.chargeFee(appointment, fee, 'Taxa de falta');
+    }
+
+    const client = await this.prisma.client.update({
+      where: { id: appointment.clientId },
+      data: { noShowCount: { increment: 1 } },
+    });
+
+    if (
+      policy.blockAfterNoShows &&
+      client.noShowCount >= policy.blockAfterNoShows &&
+      !client.bookingBlockedAt
+    ) {
+      await this.prisma.client.update({
+        where: { id: client.id },
+        data: { bookingBlockedAt: new Date() },
+      });
+    }
+
+    return { fee };
+  }
+
+  // ============================================================================
+  // AGENDAMENTO ONLINE
+  // ============================================================================
+
+  async assertCanBookOnline(clientId: string) {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+      select: { bookingBlockedAt: true },
+    });
+
+    if (client?.bookingBlockedAt) {
+      throw new ForbiddenException(
+        'Agendamento online indisponível devido a faltas anteriores. Entre em contato com o estabelecimento.',
+      );
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  calculateFee(
+    price: Prisma.Decimal | number,
+    type: FeeType | null,
+    value: Prisma.Decimal | null,
+  ): number {
+    if (!type || !value) return 0;
+
+    const amount =
+      type === FeeType.PERCENTAGE
+        ? (Number(price) * Number(value)) / 100
+        : Number(value);
+
+    return Math.round(Math.min(amount, Number(price)) * 100) / 100;
+  }
+
+  /**
+   * Taxa pendente no financeiro, uma por agendamento
+   */
+  private async chargeFee(
+    appointment: PolicyAppointment,
+    amount: number,
+    label: string,
+  ) {
+    let category = await this.prisma.financialCategory.findFirst({
+      where: {
+        tenantId: appointment.tenantId,
+        name: FEE_CATEGORY_NAME,
+        type: TransactionType.INCOME,
+      },
+    });
+
+    if (!category) {
+      category = await this.prisma.financialCategory.create({
+        data: {
+          tenantId: appointment.tenantId,
+          name: FEE_CATEGORY_NAME,
+          type: TransactionType.INCOME,
+          isSystem: true,
+        },
+      });
+    }
+
+    const existing = await this.prisma.financialTransaction.findFirst({
+      where: {
+        appointmentId: appointment.id,
+        categoryId: category.id,
+        status: { not: TransactionStatus.CANCELLED },
+      },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const today = new Date();
+
+    return this.prisma.financialTransaction.create({
+      data: {
+        tenantId: appointment.tenantId,
+        type: TransactionType.INCOME,
+        categoryId: category.id,
+        amount: new Decimal(amount),
+        netAmount: new Decimal(amount),
+        date: today,
+        dueDate: today,
+        description: `${label} - ${appointment.service.name} - ${appointment.client.name}`,
+        status: TransactionStatus.PENDING,
+        appointmentId: appointment.id,
+        clientId: appointment.clientId,
+        providerId: appointment.providerId,
+      },
+    });
+  }
+
+  private async findAppointment(id: string) {
+    const appointment = await this.prisma.appointment.findUnique({
+      where: { id },
+      include: appointmentInclude,
+    });
+
+    if (!appointment) {
+      throw new NotFoundException('Agendamento não encontrado');
+    }
+
+    return appointment;
+  }
+
+  private getStartsAt(appointment: PolicyAppointment): Date {
+    const timeZone = resolveTimezone(
+      appointment.location?.location.timezone,
+      appointment.tenant.timezone,
+    );
+    return zonedTimeToUtc(appointment.date, appointment.startTime, timeZone);
+  }
+
+  private pickRules(policy: CancellationPolicy): PolicyRules {
+    return {
+      minNoticeHours: policy.minNoticeHours,
+      allowLateCancellation: policy.allowLateCancellation,
+      lateCancellationFeeType: policy.lateCancellationFeeType,
+      lateCancellationFeeValue: policy.lateCancellationFeeValue,
+      noShowFeeType: policy.noShowFeeType,
+      noShowFeeValue: policy.noShowFeeValue,
+      blockAfterNoShows: policy.blockAfterNoShows,
+    };
+  }
+
+  private validateFee(type?: FeeType | null, value?: number | null) {
+    if (type === FeeType.PERCENTAGE && value && value > 100) {
+      throw new BadRequestException(
+        'Percentual da taxa não pode ser maior que 100%',
+      );
+    }
+  }
+
+  private toDecimal(value?: number | null) {
+    if (value === undefined) return undefined;
+    return value === null ? null : new Decimal(value);
+  }
+}
@@ -2,22 +2,82 @@ import {
   IsString,
   IsNotEmpty,
   IsOptional,
+  IsBoolean,
+  IsUUID,
   IsEnum,
   IsDateString,
   IsNumber,
+  IsInt,
+  Min,
+  Max,
+  ValidateNested,
+  ValidateIf,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { AppointmentStatus } from '@prisma/client';
+import {
+  AppointmentStatus,
+  AppointmentRecurrence,
+  FeeType,
+} from '@prisma/client';
+
+export const MAX_SERIES_OCCURRENCES = 52;
+export const MAX_COMBO_ITEMS = 10;
+
+/**
+ * Quais ocorrências de uma série recorrente são afetadas por uma alteração
+ */
+export enum SeriesScope {
+  THIS = 'THIS', // Apenas esta ocorrência
+  FOLLOWING = 'FOLLOWING', // Esta e as seguintes
+  ALL = 'ALL', // Toda a série
+}
+
+export class AppointmentRecurrenceDto {
+  @IsEnum(AppointmentRecurrence, { message: 'Frequência inválida' })
+  frequency: AppointmentRecurrence;
+
+  // Informe occurrences OU endDate
+  @IsInt()
+  @Min(2, { message: 'A série deve ter no mínimo 2 ocorrências' })
+  @Max(MAX_SERIES_OCCURRENCES, {
+    message: `A série deve ter no máximo ${MAX_SERIES_OCCURRENCES} ocorrências`,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  occurrences?: number;
+
+  @IsDateString({}, { message: 'Data final inválida' })
+  @IsOptional()
+  endDate?: string;
+}
+
+/**
+ * Serviço de um combo; os itens são executados em sequência, na ordem enviada
+ */
+export class AppointmentComboItemDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Serviço é obrigatório' })
+  serviceId: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Profissional é obrigatório' })
+  providerId: string;
+}
 
 export class CreateAppointmentDto {
   @IsString()
   @IsNotEmpty({ message: 'Cliente é obrigatório' })
   clientId: string;
 
+  @ValidateIf((o) => !o.items)
   @IsString()
   @IsNotEmpty({ message: 'Profissional é obrigatório' })
   providerId: string;
 
+  @ValidateIf((o) => !o.items)
   @IsString()
   @IsNotEmpty({ message: 'Serviço é obrigatório' })
   serviceId: string;
@@ -37,6 +97,22 @@ export class CreateAppointmentDto {
   @IsString()
   @IsOptional()
   notes?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AppointmentRecurrenceDto)
+  recurrence?: AppointmentRecurrenceDto;
+
+  // Combo: substitui providerId/serviceId
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2, { message: 'O combo deve ter no mínimo 2 serviços' })
+  @ArrayMaxSize(MAX_COMBO_ITEMS, {
+    message: `O combo deve ter no máximo ${MAX_COMBO_ITEMS} serviços`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => AppointmentComboItemDto)
+  items?: AppointmentComboItemDto[];
 }
 
 export class UpdateAppointmentDto {
@@ -68,11 +144,24 @@ export class UpdateAppointmentDto {
   @IsString()
   @IsOptional()
   notes?: string;
+
+  @IsEnum(SeriesScope, { message: 'Escopo inválido' })
+  @IsOptional()
+  scope?: SeriesScope;
 }
 
 export class UpdateStatusDto {
   @IsEnum(AppointmentStatus, { message: 'Status inválido' })
   status: AppointmentStatus;
+
+  @IsEnum(SeriesScope, { message: 'Escopo inválido' })
+  @IsOptional()
+  scope?: SeriesScope;
+
+  // Dispensa a taxa de cancelamento tardio ou de falta
+  @IsBoolean()
+  @IsOptional()
+  waiveFee?: boolean;
 }
 
 export class GetAvailableSlotsDto {
@@ -87,3 +176,45 @@ export class GetAvailableSlotsDto {
   @IsOptional()
   serviceId?: string;
 }
+
+export class UpsertCancellationPolicyDto {
+  // Sem serviço = política padrão do estabelecimento
+  @IsUUID('4', { message: 'Serviço inválido' })
+  @IsOptional()
+  serviceId?: string;
+
+  @IsInt()
+  @Min(0)
+  @Max(720, { message: 'Antecedência máxima é de 720 horas' })
+  @IsOptional()
+  minNoticeHours?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  allowLateCancellation?: boolean;
+
+  @IsEnum(FeeType, { message: 'Tipo de taxa inválido' })
+  @IsOptional()
+  lateCancellationFeeType?: FeeType | null;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  lateCancellationFeeValue?: number | null;
+
+  @IsEnum(FeeType, { message: 'Tipo de taxa inválido' })
+  @IsOptional()
+  noShowFeeType?: FeeType | null;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  noShowFeeValue?: number | null;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  blockAfterNoShows?: number | null;
+}
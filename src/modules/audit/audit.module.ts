@@ -1,13 +1,14 @@
 import { Module, Global } from '@nestjs/common';
 import { AuditService } from './audit.service';
 import { AuditController } from './audit.controller';
+import { AuditScheduler } from './audit.scheduler';
 import { PrismaModule } from '../../prisma/prisma.module';
 
 @Global()
 @Module({
   imports: [PrismaModule],
   controllers: [AuditController],
-  providers: [AuditService],
+  providers: [AuditService, AuditScheduler],
   exports: [AuditService],
 })
 export class AuditModule {}
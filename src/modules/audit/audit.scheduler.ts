@@ -0,0 +1,36 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
+import { AuditService } from './audit.service';
+
+const DEFAULT_RETENTION_DAYS = 365;
+
+@Injectable()
+export class AuditScheduler implements OnModuleInit {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly maintenance: MaintenanceService,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    // Remove semanalmente os logs fora do prazo de retenção, tenant a tenant
+    this.maintenance.register(MAINTENANCE_JOBS.CLEAN_AUDIT_LOGS, (tenantId) =>
+      this.handleCleanup(tenantId!),
+    );
+  }
+
+  async handleCleanup(tenantId: string) {
+    const retentionDays = Number(
+      this.config.get('AUDIT_RETENTION_DAYS', DEFAULT_RETENTION_DAYS),
+    );
+
+    const { count } = await this.auditService.cleanOldLogs(
+      tenantId,
+      retentionDays,
+    );
+
+    return count;
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
+import { AuthService } from './auth.service';
+
+@Injectable()
+export class AuthScheduler implements OnModuleInit {
+  private readonly logger = new Logger(AuthScheduler.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Remove diariamente refresh tokens e links de senha vencidos ou usados
+    this.maintenance.register(MAINTENANCE_JOBS.CLEANUP_EXPIRED_TOKENS, () =>
+      this.handleTokenCleanup(),
+    );
+  }
+
+  async handleTokenCleanup() {
+    const count = await this.authService.cleanupExpiredTokens();
+
+    if (count > 0) {
+      this.logger.log(`${count} token(s) expirado(s) removido(s)`);
+    }
+
+    return count;
+  }
+}
@@ -9,11 +9,13 @@ import {
 import { BillingScheduler } from './billing.scheduler';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { RedisModule } from '../../redis/redis.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
   imports: [
     PrismaModule,
     RedisModule,
+    PaymentsModule,
     ScheduleModule.forRoot(),
   ],
   controllers: [
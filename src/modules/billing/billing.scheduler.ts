@@ -1,7 +1,10 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
 import { BillingService } from './billing.service';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
 import {
   JobStatus,
   BillingJobType,
@@ -13,55 +16,50 @@ import {
 @Injectable()
 export class BillingScheduler implements OnModuleInit {
   private readonly logger = new Logger(BillingScheduler.name);
-  private isProcessing = false;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly billingService: BillingService,
+    private readonly redis: RedisService,
+    private readonly maintenance: MaintenanceService,
   ) {}
 
   async onModuleInit() {
+    // Jobs de billing pendentes a cada 5 minutos, em uma única instância
+    this.maintenance.register(MAINTENANCE_JOBS.PROCESS_BILLING_JOBS, () =>
+      this.processJobs(),
+    );
     this.logger.log('Billing Scheduler initialized');
   }
 
   /**
-   * Processa jobs de billing pendentes a cada 5 minutos
+   * Processa jobs de billing pendentes
    */
-  @Cron(CronExpression.EVERY_5_MINUTES)
   async processJobs() {
-    if (this.isProcessing) {
-      this.logger.warn('Job processing already in progress, skipping...');
-      return;
-    }
-
-    this.isProcessing = true;
-
-    try {
-      const jobs = await this.prisma.billingJob.findMany({
-        where: {
-          status: { in: [JobStatus.PENDING, JobStatus.FAILED] },
-          scheduledFor: { lte: new Date() },
-          retryCount: { lt: this.prisma.billingJob.fields.maxRetries },
-        },
-        orderBy: { scheduledFor: 'asc' },
-        take: 50,
-      });
+    const jobs = await this.prisma.billingJob.findMany({
+      where: {
+        status: { in: [JobStatus.PENDING, JobStatus.FAILED] },
+        scheduledFor: { lte: new Date() },
+        retryCount: { lt: this.prisma.billingJob.fields.maxRetries },
+      },
+      orderBy: { scheduledFor: 'asc' },
+      take: 50,
+    });
 
-      this.logger.log(`Processing ${jobs.length} billing jobs`);
+    this.logger.log(`Processing ${jobs.length} billing jobs`);
 
-      for (const job of jobs) {
-        try {
-          await this.billingService.processJob(job.id);
-          this.logger.log(`Job ${job.id} (${job.jobType}) processed successfully`);
-        } catch (error) {
-          this.logger.error(
-            `Failed to process job ${job.id}: ${error.message}`,
-          );
-        }
+    for (const job of jobs) {
+      try {
+        await this.billingService.processJob(job.id);
+        this.logger.log(
+          `Job ${job.id} (${job.jobType}) processed successfully`,
+        );
+      } catch (error) {
+        this.logger.error(`Failed to process job ${job.id}: ${error.message}`);
       }
-    } finally {
-      this.isProcessing = false;
     }
+
+    return jobs.length;
   }
 
   /**
@@ -322,6 +320,7 @@ export class BillingScheduler implements OnModuleInit {
           where: { id: subscription.id },
           data: { status: SubscriptionStatus.PAST_DUE },
         });
+        await this.redis.invalidatePlanEntitlements(subscription.tenantId);
 
         this.logger.warn(
           `Subscription ${subscription.id} marked as PAST_DUE`,
@@ -4,9 +4,12 @@ import {
   BadRequestException,
   ConflictException,
   Logger,
+  OnModuleInit,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis/redis.service';
+import { UsageService } from '../plans/usage.service';
+import { PaymentsService } from '../payments/payments.service';
 import {
   PlanType,
   BillingCycle,
@@ -38,7 +41,7 @@ import {
 } from './dto';
 
 @Injectable()
-export class BillingService {
+export class BillingService implements OnModuleInit {
   private readonly logger = new Logger(BillingService.name);
 
   // Configuração padrão de dunning
@@ -54,8 +57,17 @@ export class BillingService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
+    private readonly usageService: UsageService,
+    private readonly paymentsService: PaymentsService,
   ) {}
 
+  onModuleInit() {
+    // Cobranças assíncronas são confirmadas pelo webhook do gateway
+    this.paymentsService.onInvoicePaid((invoiceId, paymentId) =>
+      this.completeInvoicePayment(invoiceId, paymentId),
+    );
+  }
+
   // ============================================================================
   // INVOICES
   // ============================================================================
@@ -142,7 +154,13 @@ export class BillingService {
       include: {
         tenant: { select: { id: true, name: true, slug: true } },
         subscription: {
-          select: { id: true, planType: true, billingCycle: true },
+          select: {
+            id: true,
+            planType: true,
+            billingCycle: true,
+            externalCustomerId: true,
+            externalPaymentMethodId: true,
+          },
         },
         payments: true,
         attempts: { orderBy: { attemptNumber: 'desc' } },
@@ -243,6 +261,24 @@ export class BillingService {
       return { success: false, error: 'Fatura anulada' };
     }
 
+    // Uma cobrança anterior ainda aguarda a confirmação do gateway: cobrar
+    // de novo com outra chave de idempotência cobraria duas vezes
+    const pending = await this.prisma.billingAttempt.findFirst({
+      where: {
+        invoiceId,
+        status: BillingAttemptStatus.PROCESSING,
+        paymentId: { not: null },
+      },
+    });
+
+    if (pending) {
+      return {
+        success: false,
+        error: 'Pagamento em processamento',
+        paymentId: pending.paymentId!,
+      };
+    }
+
     // Registrar tentativa
     const attemptNumber = invoice.billingAttempts + 1;
     const attempt = await this.prisma.billingAttempt.create({
@@ -254,29 +290,39 @@ export class BillingService {
     });
 
     try {
-      // TODO: Integrar com gateway de pagamento real
-      // Por enquanto, simular processamento
-      const paymentResult = await this.simulatePaymentProcessing(invoice);
-
-      if (paymentResult.success) {
-        // Atualizar tentativa como sucesso
-        await this.prisma.billingAttempt.update({
-          where: { id: attempt.id },
-          data: { status: BillingAttemptStatus.SUCCESS },
-        });
+      const payment = await this.chargeInvoice(invoice, attemptNumber);
 
-        // Marcar fatura como paga
-        await this.markInvoiceAsPaid(invoiceId, paymentResult.paymentId);
+      await this.prisma.billingAttempt.update({
+        where: { id: attempt.id },
+        data: { paymentId: payment.id },
+      });
 
-        // Renovar assinatura se aplicável
-        if (invoice.subscriptionId) {
-          await this.renewSubscription(invoice.subscriptionId);
-        }
+      if (payment.status === PaymentStatus.SUCCEEDED) {
+        await this.completeInvoicePayment(invoiceId, payment.id);
 
-        return { success: true, paymentId: paymentResult.paymentId };
-      } else {
-        throw new Error(paymentResult.error);
+        return { success: true, paymentId: payment.id };
+      }
+
+      if (payment.status === PaymentStatus.PROCESSING) {
+        // A tentativa fica em processamento até o webhook do gateway
+        // confirmar; o contador avança para a próxima não reusar a chave
+        await this.prisma.invoice.update({
+          where: { id: invoiceId },
+          data: {
+            billingAttempts: attemptNumber,
+            lastAttemptAt: new Date(),
+            nextAttemptAt: null,
+          },
+        });
+
+        return {
+          success: false,
+          error: 'Pagamento em processamento',
+          paymentId: payment.id,
+        };
       }
+
+      throw new Error(payment.failureMessage || 'Pagamento recusado');
     } catch (error) {
       // Atualizar tentativa como falha
       await this.prisma.billingAttempt.update({
@@ -311,6 +357,40 @@ export class BillingService {
     }
   }
 
+  /**
+   * Conclui a fatura paga: fecha a tentativa, baixa a fatura e renova a
+   * assinatura. Idempotente, já que a confirmação pode chegar mais de uma vez
+   */
+  async completeInvoicePayment(invoiceId: string, paymentId: string) {
+    await this.prisma.billingAttempt.updateMany({
+      where: {
+        invoiceId,
+        paymentId,
+        status: BillingAttemptStatus.PROCESSING,
+      },
+      data: { status: BillingAttemptStatus.SUCCESS },
+    });
+
+    const paidAt = new Date();
+    const { count } = await this.prisma.invoice.updateMany({
+      where: { id: invoiceId, status: { not: InvoiceStatus.PAID } },
+      data: { status: InvoiceStatus.PAID, paidAt, nextAttemptAt: null },
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { subscriptionId: true },
+    });
+
+    if (invoice?.subscriptionId) {
+      await this.renewSubscription(invoice.subscriptionId);
+    }
+  }
+
   async retryPayment(dto: RetryPaymentDto) {
     const invoice = await this.findInvoiceById(dto.invoiceId);
 
@@ -363,6 +443,7 @@ export class BillingService {
         where: { id: invoice.subscriptionId },
         data: { status: SubscriptionStatus.PAST_DUE },
       });
+      await this.redis.invalidatePlanEntitlements(invoice.tenantId);
 
       // Agendar cancelamento
       const cancelDate = new Date();
@@ -392,30 +473,45 @@ export class BillingService {
     });
   }
 
-  private async simulatePaymentProcessing(invoice: any): Promise<{
-    success: boolean;
-    paymentId?: string;
-    error?: string;
-  }> {
-    // Simular processamento (90% de sucesso)
-    const success = Math.random() > 0.1;
-
-    if (success) {
-      const payment = await this.prisma.payment.create({
-        data: {
-          tenantId: invoice.tenantId,
-          subscriptionId: invoice.subscriptionId,
-          invoiceId: invoice.id,
-          amount: invoice.total,
-          status: PaymentStatus.SUCCEEDED,
-          paidAt: new Date(),
-        },
-      });
+  /**
+   * Cobra a fatura no cartão salvo da assinatura. A chave de idempotência é
+   * por tentativa: reprocessar a mesma tentativa não cobra duas vezes
+   */
+  private async chargeInvoice(
+    invoice: {
+      id: string;
+      tenantId: string;
+      invoiceNumber: string | null;
+      description: string | null;
+      total: Prisma.Decimal;
+      subscription: {
+        id: string;
+        externalCustomerId: string | null;
+        externalPaymentMethodId: string | null;
+      } | null;
+    },
+    attemptNumber: number,
+  ) {
+    const { subscription } = invoice;
 
-      return { success: true, paymentId: payment.id };
+    if (
+      !subscription?.externalCustomerId ||
+      !subscription.externalPaymentMethodId
+    ) {
+      throw new Error('Nenhum método de pagamento salvo');
     }
 
-    return { success: false, error: 'Pagamento recusado' };
+    return this.paymentsService.chargeSavedCard({
+      tenantId: invoice.tenantId,
+      subscriptionId: subscription.id,
+      invoiceId: invoice.id,
+      amount: invoice.total,
+      description:
+        invoice.description || `Fatura ${invoice.invoiceNumber ?? invoice.id}`,
+      customerId: subscription.externalCustomerId,
+      paymentMethodId: subscription.externalPaymentMethodId,
+      idempotencyKey: `invoice-${invoice.id}-attempt-${attemptNumber}`,
+    });
   }
 
   // ============================================================================
@@ -479,6 +575,7 @@ export class BillingService {
         scheduledChange: null,
       },
     });
+    await this.redis.invalidatePlanEntitlements(subscription.tenantId);
 
     this.logger.log(`Subscription ${subscriptionId} renewed until ${newPeriodEnd}`);
   }
@@ -509,8 +606,15 @@ export class BillingService {
       return existingInvoice;
     }
 
+    // Excedentes dos períodos de uso já encerrados (cobrança postecipada)
+    const overage = await this.usageService.getUnbilledOverage(
+      subscription.tenantId,
+      subscription.currentPeriodStart,
+    );
+
     // Calcular valores
-    const subtotal = Number(subscription.amount);
+    const planAmount = Number(subscription.amount);
+    const subtotal = planAmount + overage.total;
     const discount = subscription.discount
       ? Number(subscription.discount)
       : 0;
@@ -519,7 +623,7 @@ export class BillingService {
     // Data de vencimento = início do período
     const dueDate = subscription.currentPeriodEnd;
 
-    return this.createInvoice({
+    const invoice = await this.createInvoice({
       tenantId: subscription.tenantId,
       subscriptionId,
       subtotal,
@@ -531,11 +635,16 @@ export class BillingService {
         {
           description: `Plano ${subscription.plan?.name || subscription.planType}`,
           quantity: 1,
-          unitPrice: subtotal,
-          total: subtotal,
+          unitPrice: planAmount,
+          total: planAmount,
         },
+        ...overage.lineItems,
       ],
     });
+
+    await this.usageService.markBilled(overage.periods, invoice.id);
+
+    return invoice;
   }
 
   // ============================================================================
@@ -1031,12 +1140,14 @@ export class BillingService {
         where: { id: subscriptionId },
         data: { status: SubscriptionStatus.ACTIVE },
       });
+      await this.redis.invalidatePlanEntitlements(subscription.tenantId);
       return { expired: true, converted: true };
     } else {
       await this.prisma.subscription.update({
         where: { id: subscriptionId },
         data: { status: SubscriptionStatus.PAST_DUE },
       });
+      await this.redis.invalidatePlanEntitlements(subscription.tenantId);
       return { expired: true, converted: false, error: paymentResult.error };
     }
   }
@@ -1056,6 +1167,7 @@ export class BillingService {
       where: { id: subscription.tenantId },
       data: { plan: PlanType.FREE },
     });
+    await this.redis.invalidatePlanEntitlements(subscription.tenantId);
 
     this.logger.warn(
       `Subscription ${subscriptionId} cancelled due to non-payment`,
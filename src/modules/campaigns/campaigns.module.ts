@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { CampaignsService } from './campaigns.service';
 import { CampaignsController } from './campaigns.controller';
+import { SegmentsModule } from '../segments/segments.module';
 
 @Module({
+  imports: [SegmentsModule],
   controllers: [CampaignsController],
   providers: [CampaignsService],
   exports: [CampaignsService],
@@ -5,6 +5,7 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis/redis.service';
+import { SegmentsService } from '../segments/segments.service';
 import {
   CreateCampaignDto,
   UpdateCampaignDto,
@@ -30,6 +31,7 @@ export class CampaignsService {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private segments: SegmentsService,
   ) {}
 
   // ============================================================================
@@ -320,6 +322,15 @@ export class CampaignsService {
       where.id = { in: filters.clientIds };
     }
 
+    // Filtro: segmento salvo (combina com os demais filtros)
+    if (filters?.segmentId) {
+      const segmentClientIds = await this.segments.resolveClientIds(
+        tenantId,
+        filters.segmentId,
+      );
+      where.AND = [{ id: { in: segmentClientIds } }];
+    }
+
     // Filtro: aniversariantes
     if (filters?.birthdayToday || filters?.birthdayThisWeek || filters?.birthdayThisMonth) {
       const today = new Date();
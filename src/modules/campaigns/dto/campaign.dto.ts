@@ -7,6 +7,7 @@ import {
   IsArray,
   IsDateString,
   IsObject,
+  IsUUID,
   Min,
   Max,
   ValidateNested,
@@ -77,6 +78,10 @@ export class CampaignFiltersDto {
   @IsArray()
   @IsString({ each: true })
   clientIds?: string[]; // IDs específicos de clientes
+
+  @IsOptional()
+  @IsUUID('4')
+  segmentId?: string; // Clientes de um segmento salvo
 }
 
 // ============================================================================
@@ -1,5 +1,4 @@
 import { Module } from '@nestjs/common';
-import { ScheduleModule } from '@nestjs/schedule';
 import { ClientPackagesService } from './client-packages.service';
 import {
   PackageTemplatesController,
@@ -10,9 +9,11 @@ import {
 } from './client-packages.controller';
 import { ClientPackagesScheduler } from './client-packages.scheduler';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { FinancialModule } from '../financial/financial.module';
+import { NfseModule } from '../nfse/nfse.module';
 
 @Module({
-  imports: [PrismaModule, ScheduleModule.forRoot()],
+  imports: [PrismaModule, FinancialModule, NfseModule],
   controllers: [
     PackageTemplatesController,
     ClientPackagesController,
@@ -1,28 +1,35 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
 import { ClientPackagesService } from './client-packages.service';
 
 @Injectable()
-export class ClientPackagesScheduler {
+export class ClientPackagesScheduler implements OnModuleInit {
   private readonly logger = new Logger(ClientPackagesScheduler.name);
 
-  constructor(private readonly packagesService: ClientPackagesService) {}
+  constructor(
+    private readonly packagesService: ClientPackagesService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Executa todos os dias à meia-noite para expirar pacotes
+    this.maintenance.register(MAINTENANCE_JOBS.EXPIRE_PACKAGES, () =>
+      this.handlePackageExpiration(),
+    );
+  }
 
-  // Executa todos os dias à meia-noite para expirar pacotes
-  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
   async handlePackageExpiration() {
     this.logger.log('Iniciando verificação de pacotes expirados...');
 
-    try {
-      const count = await this.packagesService.expirePackages();
+    const count = await this.packagesService.expirePackages();
 
-      if (count > 0) {
-        this.logger.log(`${count} pacote(s) marcado(s) como expirado(s)`);
-      } else {
-        this.logger.log('Nenhum pacote expirado');
-      }
-    } catch (error) {
-      this.logger.error('Erro ao processar pacotes expirados:', error);
+    if (count > 0) {
+      this.logger.log(`${count} pacote(s) marcado(s) como expirado(s)`);
+    } else {
+      this.logger.log('Nenhum pacote expirado');
     }
+
+    return count;
   }
 }
@@ -7,6 +7,7 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import {
   ClientPackageStatus,
+  CommissionStatus,
   PackageUsageStatus,
   ValidityType,
   Prisma,
@@ -29,10 +30,16 @@ import {
   PackagesSummaryDto,
   ClientPackageBalanceDto,
 } from './dto/client-packages.dto';
+import { CommissionRulesService } from '../financial/commission-rules.service';
+import { NfseService } from '../nfse/nfse.service';
 
 @Injectable()
 export class ClientPackagesService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private commissionRules: CommissionRulesService,
+    private nfse: NfseService,
+  ) {}
 
   // ============================================================================
   // Package Templates
@@ -729,6 +736,9 @@ export class ClientPackagesService {
       },
     });
 
+    // Comissão do profissional que executou o serviço
+    await this.commissionRules.generateForPackageUsage(tenantId, usage.id);
+
     // Verificar se pacote foi completamente usado
     await this.checkPackageCompletion(dto.clientPackageId);
 
@@ -788,6 +798,21 @@ export class ClientPackagesService {
       throw new BadRequestException('Uso já está cancelado');
     }
 
+    // Comissão já fechada em folha impede o cancelamento
+    const closedCommission = await this.prisma.commission.findFirst({
+      where: {
+        clientPackageUsageId: usageId,
+        payrollPeriodId: { not: null },
+        status: { not: CommissionStatus.CANCELLED },
+      },
+    });
+
+    if (closedCommission) {
+      throw new BadRequestException(
+        'A comissão deste uso já foi fechada em folha de pagamento',
+      );
+    }
+
     // Cancelar uso
     const updated = await this.prisma.clientPackageUsage.update({
       where: { id: usageId },
@@ -819,6 +844,8 @@ export class ClientPackagesService {
       },
     });
 
+    await this.commissionRules.cancelForPackageUsage(tenantId, usageId);
+
     // Se pacote estava completo, reativar
     if (usage.clientPackage.status === ClientPackageStatus.COMPLETED) {
       await this.prisma.clientPackage.update({
@@ -1313,7 +1340,7 @@ export class ClientPackagesService {
       paymentMethodId = method?.id;
     }
 
-    await this.prisma.financialTransaction.create({
+    const transaction = await this.prisma.financialTransaction.create({
       data: {
         tenantId,
         type: 'INCOME',
@@ -1330,6 +1357,8 @@ export class ClientPackagesService {
         createdBy: userId,
       },
     });
+
+    await this.nfse.issueForPaidTransaction(tenantId, transaction.id);
   }
 
   private mapTemplateToResponse(template: any): PackageTemplateResponseDto {
@@ -10,7 +10,11 @@ import {
 import { ClientPortalService } from './client-portal.service';
 import { ClientJwtAuthGuard } from '../../common/guards/client-jwt-auth.guard';
 import { CurrentClient } from '../../common/decorators/current-client.decorator';
-import { CancelAppointmentDto, GetAppointmentsQueryDto } from './dto/client-portal.dto';
+import {
+  CancelAppointmentDto,
+  CreateClientAppointmentDto,
+  GetAppointmentsQueryDto,
+} from './dto/client-portal.dto';
 
 @Controller('client-portal')
 @UseGuards(ClientJwtAuthGuard)
@@ -38,6 +42,22 @@ export class ClientPortalController {
     return this.clientPortalService.getAppointments(client.id, client.tenantId, query);
   }
 
+  /**
+   * Agenda um ou mais serviços em sequência
+   * POST /client-portal/appointments
+   */
+  @Post('appointments')
+  async createAppointment(
+    @CurrentClient() client: any,
+    @Body() dto: CreateClientAppointmentDto,
+  ) {
+    return this.clientPortalService.createAppointment(
+      client.id,
+      client.tenantId,
+      dto,
+    );
+  }
+
   /**
    * Detalhes de um agendamento
    * GET /client-portal/appointments/:id
@@ -54,6 +74,22 @@ export class ClientPortalController {
     );
   }
 
+  /**
+   * Prazo e taxa de cancelamento de um agendamento
+   * GET /client-portal/appointments/:id/cancellation-policy
+   */
+  @Get('appointments/:id/cancellation-policy')
+  async getCancellationPolicy(
+    @Param('id') appointmentId: string,
+    @CurrentClient() client: any,
+  ) {
+    return this.clientPortalService.getCancellationPolicy(
+      appointmentId,
+      client.id,
+      client.tenantId,
+    );
+  }
+
   /**
    * Cancela um agendamento
    * POST /client-portal/appointments/:id/cancel
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { ClientPortalController } from './client-portal.controller';
 import { ClientPortalService } from './client-portal.service';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { AppointmentsModule } from '../appointments/appointments.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AppointmentsModule],
   controllers: [ClientPortalController],
   providers: [ClientPortalService],
   exports: [ClientPortalService],
@@ -4,11 +4,18 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { AppointmentGroupService } from '../appointments/appointment-group.service';
+import { CancellationPolicyService } from '../appointments/cancellation-policy.service';
+import { CreateClientAppointmentDto } from './dto/client-portal.dto';
 import { AppointmentStatus, ClientPackageStatus } from '@prisma/client';
 
 @Injectable()
 export class ClientPortalService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private appointmentGroups: AppointmentGroupService,
+    private cancellationPolicy: CancellationPolicyService,
+  ) {}
 
   /**
    * Dashboard do cliente - estatísticas resumidas
@@ -145,6 +152,42 @@ export class ClientPortalService {
     }));
   }
 
+  /**
+   * Agenda um serviço ou um combo de serviços encadeados
+   */
+  async createAppointment(
+    clientId: string,
+    tenantId: string,
+    dto: CreateClientAppointmentDto,
+  ) {
+    await this.cancellationPolicy.assertCanBookOnline(clientId);
+
+    const { group, appointments } = await this.appointmentGroups.create(
+      tenantId,
+      {
+        clientId,
+        date: dto.date,
+        startTime: dto.startTime,
+        items: dto.items,
+        notes: dto.notes,
+      },
+    );
+
+    return {
+      groupId: group?.id ?? null,
+      totalPrice: appointments.reduce((sum, apt) => sum + Number(apt.price), 0),
+      appointments: appointments.map((apt) => ({
+        id: apt.id,
+        date: apt.date,
+        startTime: apt.startTime,
+        endTime: apt.endTime,
+        status: apt.status,
+        service: { id: apt.service.id, name: apt.service.name },
+        provider: { id: apt.provider.id, name: apt.provider.name },
+      })),
+    };
+  }
+
   /**
    * Detalhes de um agendamento
    */
@@ -208,18 +251,6 @@ export class ClientPortalService {
       throw new NotFoundException('Agendamento não encontrado');
     }
 
-    // Verifica se pode cancelar (24h de antecedência)
-    const appointmentDate = new Date(appointment.date);
-    const now = new Date();
-    const hoursUntilAppointment =
-      (appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-    if (hoursUntilAppointment < 24) {
-      throw new BadRequestException(
-        'Não é possível cancelar agendamentos com menos de 24 horas de antecedência',
-      );
-    }
-
     const validStatuses: AppointmentStatus[] = [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED];
     if (!validStatuses.includes(appointment.status)) {
       throw new BadRequestException(
@@ -227,6 +258,14 @@ export class ClientPortalService {
       );
     }
 
+    // Verifica a antecedência mínima da política de cancelamento
+    const check =
+      await this.cancellationPolicy.checkCancellation(appointmentId);
+
+    if (!check.allowed) {
+      throw new BadRequestException(check.message);
+    }
+
     const updated = await this.prisma.appointment.update({
       where: { id: appointmentId },
       data: {
@@ -237,10 +276,42 @@ export class ClientPortalService {
       },
     });
 
+    const { fee } =
+      await this.cancellationPolicy.applyLateCancellation(appointmentId);
+
     return {
       id: updated.id,
       status: updated.status,
-      message: 'Agendamento cancelado com sucesso',
+      fee,
+      message: fee > 0 ? check.message : 'Agendamento cancelado com sucesso',
+    };
+  }
+
+  /**
+   * Condições para cancelar um agendamento (prazo e taxa)
+   */
+  async getCancellationPolicy(
+    appointmentId: string,
+    clientId: string,
+    tenantId: string,
+  ) {
+    const appointment = await this.prisma.appointment.findFirst({
+      where: { id: appointmentId, clientId, tenantId },
+      select: { id: true },
+    });
+
+    if (!appointment) {
+      throw new NotFoundException('Agendamento não encontrado');
+    }
+
+    const check =
+      await this.cancellationPolicy.checkCancellation(appointmentId);
+
+    return {
+      minNoticeHours: check.minNoticeHours,
+      allowed: check.allowed,
+      fee: check.fee,
+      message: check.message,
     };
   }
 
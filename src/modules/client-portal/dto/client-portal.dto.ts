@@ -1,4 +1,18 @@
-import { IsOptional, IsString, IsDateString } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsDateString,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  AppointmentComboItemDto,
+  MAX_COMBO_ITEMS,
+} from '../../appointments/dto/appointment.dto';
 
 export class CancelAppointmentDto {
   @IsString()
@@ -6,6 +20,29 @@ export class CancelAppointmentDto {
   reason?: string;
 }
 
+export class CreateClientAppointmentDto {
+  @IsDateString({}, { message: 'Data inválida' })
+  date: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Horário é obrigatório' })
+  startTime: string;
+
+  // Um ou mais serviços, executados em sequência
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Informe ao menos um serviço' })
+  @ArrayMaxSize(MAX_COMBO_ITEMS, {
+    message: `Informe no máximo ${MAX_COMBO_ITEMS} serviços`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => AppointmentComboItemDto)
+  items: AppointmentComboItemDto[];
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
 export class GetAppointmentsQueryDto {
   @IsDateString()
   @IsOptional()
@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationType, Prisma } from '@prisma/client';
+import { ClientInsightsService } from './client-insights.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('ClientInsightsService', () => {
+  let service: ClientInsightsService;
+  let prismaService: any;
+  let notificationsService: any;
+
+  const tenantId = 'tenant-123';
+  const now = new Date('2025-06-30T12:00:00.000Z');
+  const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+  // Ana corta o cabelo a cada 30 dias e sumiu há 60. Bia tem o mesmo ritmo,
+  // mas já está agendada. Carla veio uma vez há 50 dias
+  const appointments = [
+    { clientId: 'ana', serviceId: 'corte', date: day('2025-03-02') },
+    { clientId: 'ana', serviceId: 'corte', date: day('2025-04-01') },
+    { clientId: 'ana', serviceId: 'corte', date: day('2025-05-01') },
+    { clientId: 'bia', serviceId: 'corte', date: day('2025-04-01') },
+    { clientId: 'bia', serviceId: 'corte', date: day('2025-05-01') },
+    { clientId: 'carla', serviceId: 'corte', date: day('2025-05-11') },
+  ];
+
+  const upsertData = (clientId: string) =>
+    prismaService.clientInsight.upsert.mock.calls
+      .map(([args]) => args)
+      .find((args) => args.where.clientId === clientId).update;
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      tenant: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ timezone: 'America/Sao_Paulo' }),
+      },
+      client: {
+        findMany: jest
+          .fn()
+          .mockResolvedValueOnce([
+            { id: 'ana' },
+            { id: 'bia' },
+            { id: 'carla' },
+          ])
+          .mockResolvedValue([
+            {
+              id: 'ana',
+              name: 'Ana Lima',
+              insight: { recencyDays: 60 },
+              tenant: { name: 'Studio Belu' },
+            },
+          ]),
+      },
+      appointment: {
+        findMany: jest
+          .fn()
+          .mockImplementation(({ where }) =>
+            Promise.resolve(
+              where.status === 'COMPLETED'
+                ? appointments
+                : [{ clientId: 'bia' }],
+            ),
+          ),
+      },
+      financialTransaction: {
+        groupBy: jest.fn().mockResolvedValue([
+          { clientId: 'ana', _sum: { netAmount: new Prisma.Decimal(300) } },
+          { clientId: 'bia', _sum: { netAmount: new Prisma.Decimal(100) } },
+        ]),
+      },
+      clientInsight: {
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn().mockImplementation((args) => args),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      notificationTemplate: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      $transaction: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClientInsightsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: NotificationsService,
+          useValue: {
+            sendNotification: jest.fn().mockResolvedValue({ id: 'n-1' }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ClientInsightsService>(ClientInsightsService);
+    prismaService = module.get(PrismaService);
+    notificationsService = module.get(NotificationsService);
+  });
+
+  describe('computeForTenant', () => {
+    it('should flag clients whose gap exceeds their return interval', async () => {
+      await expect(service.computeForTenant(tenantId, now)).resolves.toBe(3);
+
+      expect(upsertData('ana')).toMatchObject({
+        recencyDays: 60,
+        frequency: 3,
+        returnIntervalDays: 30,
+        isAtRisk: true,
+        overdueDays: 30,
+        riskSince: now,
+        rfmScore: '455',
+      });
+      // Mesmo ritmo, mas com horário marcado
+      expect(upsertData('bia')).toMatchObject({
+        returnIntervalDays: 30,
+        isAtRisk: false,
+        riskSince: null,
+      });
+    });
+
+    it('should use the service average for clients with a single visit', async () => {
+      await service.computeForTenant(tenantId, now);
+
+      expect(upsertData('carla')).toMatchObject({
+        recencyDays: 50,
+        returnIntervalDays: 30,
+        isAtRisk: true,
+        monetaryScore: 2,
+        serviceIntervals: [
+          expect.objectContaining({ serviceId: 'corte', personal: false }),
+        ],
+      });
+    });
+
+    it('should not send win-back messages without an active template', async () => {
+      await service.computeForTenant(tenantId, now);
+
+      expect(notificationsService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should send one win-back message per risk episode', async () => {
+      prismaService.notificationTemplate.findFirst.mockResolvedValue({
+        channel: 'WHATSAPP',
+      });
+      prismaService.clientInsight.findMany.mockResolvedValue([
+        {
+          clientId: 'carla',
+          isAtRisk: true,
+          riskSince: new Date('2025-06-20T05:00:00.000Z'),
+          winBackSentAt: new Date('2025-06-20T05:00:10.000Z'),
+        },
+      ]);
+
+      await service.computeForTenant(tenantId, now);
+
+      expect(prismaService.client.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { id: { in: ['ana'] } } }),
+      );
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(
+        tenantId,
+        expect.objectContaining({
+          type: NotificationType.WIN_BACK,
+          recipientId: 'ana',
+          variables: expect.objectContaining({ dias: '60' }),
+        }),
+      );
+      expect(prismaService.clientInsight.update).toHaveBeenCalledWith({
+        where: { clientId: 'ana' },
+        data: { winBackSentAt: now },
+      });
+    });
+  });
+});
@@ -0,0 +1,550 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  AppointmentStatus,
+  NotificationChannel,
+  NotificationType,
+  Prisma,
+  RecipientType,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import {
+  addDays,
+  getZonedToday,
+  parseDateOnly,
+  resolveTimezone,
+} from '../../common/utils/timezone.util';
+import { AtRiskClientsQueryDto } from './dto/client-insight.dto';
+
+export interface ServiceInterval {
+  serviceId: string;
+  averageDays: number;
+  visits: number;
+  lastVisitAt: string;
+  personal: boolean; // false = média do serviço no tenant (cliente com uma visita)
+}
+
+// Janela do histórico usado nos intervalos e da frequência/valor do RFM
+const HISTORY_MONTHS = 24;
+const RFM_MONTHS = 12;
+
+// Margem sobre o intervalo pessoal antes de considerar o cliente em risco
+const RISK_TOLERANCE = 1.25;
+
+// Reativações automáticas por tenant a cada cálculo
+const MAX_WIN_BACKS_PER_RUN = 50;
+
+const UPSERT_CHUNK_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UPCOMING_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING_PAYMENT,
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+];
+
+const DEFAULT_WIN_BACK_CONTENT = `Olá {{nome}}! Sentimos sua falta aqui na {{empresa}} 💜
+
+Já faz {{dias}} dias desde a sua última visita. Que tal agendar um horário?`;
+
+@Injectable()
+export class ClientInsightsService {
+  private readonly logger = new Logger(ClientInsightsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  // ============================================================================
+  // CONSULTAS
+  // ============================================================================
+
+  async findByClient(clientId: string, tenantId: string) {
+    return this.prisma.clientInsight.findFirst({
+      where: { clientId, tenantId },
+    });
+  }
+
+  /**
+   * Clientes em risco, dos mais valiosos (ou mais atrasados) para os demais
+   */
+  async findAtRisk(tenantId: string, query: AtRiskClientsQueryDto) {
+    const where: Prisma.ClientInsightWhereInput = {
+      tenantId,
+      isAtRisk: true,
+      client: { deletedAt: null },
+    };
+
+    const orderBy: Prisma.ClientInsightOrderByWithRelationInput[] =
+      query.sort === 'overdue'
+        ? [{ overdueDays: 'desc' }, { monetary: 'desc' }]
+        : [{ monetary: 'desc' }, { overdueDays: 'desc' }];
+
+    const [total, data] = await Promise.all([
+      this.prisma.clientInsight.count({ where }),
+      this.prisma.clientInsight.findMany({
+        where,
+        orderBy,
+        take: query.limit || 50,
+        skip: query.offset || 0,
+        include: {
+          client: {
+            select: { id: true, name: true, phone: true, email: true },
+          },
+        },
+      }),
+    ]);
+
+    return { total, data };
+  }
+
+  // ============================================================================
+  // CÁLCULO
+  // ============================================================================
+
+  /**
+   * Recalcula RFM, intervalos de retorno e risco de todos os clientes do
+   * tenant. Quem entra em risco recebe a mensagem de reativação, se o tenant
+   * tiver um template WIN_BACK ativo
+   */
+  async computeForTenant(tenantId: string, now = new Date()): Promise<number> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+    const today = getZonedToday(resolveTimezone(tenant?.timezone), now);
+    const historyStart = this.addMonths(today, -HISTORY_MONTHS);
+    const rfmStart = this.addMonths(today, -RFM_MONTHS);
+
+    const [clients, appointments, revenue, upcoming, previous] =
+      await Promise.all([
+        this.prisma.client.findMany({
+          where: { tenantId, deletedAt: null },
+          select: { id: true },
+        }),
+        this.prisma.appointment.findMany({
+          where: {
+            tenantId,
+            status: AppointmentStatus.COMPLETED,
+            date: { gte: historyStart, lte: today },
+          },
+          select: { clientId: true, serviceId: true, date: true },
+          orderBy: { date: 'asc' },
+        }),
+        this.prisma.financialTransaction.groupBy({
+          by: ['clientId'],
+          where: {
+            tenantId,
+            type: TransactionType.INCOME,
+            status: TransactionStatus.PAID,
+            clientId: { not: null },
+            paidAt: { gte: rfmStart },
+          },
+          _sum: { netAmount: true },
+        }),
+        this.prisma.appointment.findMany({
+          where: {
+            tenantId,
+            status: { in: UPCOMING_STATUSES },
+            date: { gte: today },
+          },
+          select: { clientId: true },
+          distinct: ['clientId'],
+        }),
+        this.prisma.clientInsight.findMany({
+          where: { tenantId },
+          select: {
+            clientId: true,
+            isAtRisk: true,
+            riskSince: true,
+            winBackSentAt: true,
+          },
+        }),
+      ]);
+
+    const visitsByClient = new Map<
+      string,
+      { serviceId: string; date: Date }[]
+    >();
+    for (const appointment of appointments) {
+      const visits = visitsByClient.get(appointment.clientId) ?? [];
+      visits.push(appointment);
+      visitsByClient.set(appointment.clientId, visits);
+    }
+
+    const serviceAverages = this.getServiceAverages(visitsByClient);
+    const spent = new Map(
+      revenue.map((row) => [row.clientId, Number(row._sum.netAmount ?? 0)]),
+    );
+    const hasUpcoming = new Set(upcoming.map((row) => row.clientId));
+    const previousByClient = new Map(
+      previous.map((row) => [row.clientId, row]),
+    );
+
+    const metrics = clients.map((client) => {
+      const visits = visitsByClient.get(client.id) ?? [];
+      const lastVisitAt = visits.length ? visits[visits.length - 1].date : null;
+      const recencyDays = lastVisitAt
+        ? this.daysBetween(lastVisitAt, today)
+        : null;
+
+      const serviceIntervals = this.getServiceIntervals(
+        visits,
+        serviceAverages,
+      );
+      const returnIntervalDays = serviceIntervals.length
+        ? Math.min(...serviceIntervals.map((interval) => interval.averageDays))
+        : null;
+
+      // Cliente com horário marcado não está se afastando
+      const isAtRisk =
+        recencyDays !== null &&
+        returnIntervalDays !== null &&
+        !hasUpcoming.has(client.id) &&
+        recencyDays > returnIntervalDays * RISK_TOLERANCE;
+
+      return {
+        clientId: client.id,
+        recencyDays,
+        frequency: visits.filter((visit) => visit.date >= rfmStart).length,
+        monetary: spent.get(client.id) ?? 0,
+        lastVisitAt,
+        returnIntervalDays,
+        serviceIntervals,
+        expectedReturnAt:
+          lastVisitAt && returnIntervalDays !== null
+            ? addDays(lastVisitAt, returnIntervalDays)
+            : null,
+        isAtRisk,
+        overdueDays:
+          recencyDays !== null && returnIntervalDays !== null
+            ? Math.max(recencyDays - returnIntervalDays, 0)
+            : 0,
+      };
+    });
+
+    // Só quem já foi atendido entra nos quintis
+    const scored = metrics.filter((metric) => metric.recencyDays !== null);
+    const recencyScore = this.quintileScorer(
+      scored.map((metric) => -metric.recencyDays!),
+    );
+    const frequencyScore = this.quintileScorer(
+      scored.map((metric) => metric.frequency),
+    );
+    const monetaryScore = this.quintileScorer(
+      scored.map((metric) => metric.monetary),
+    );
+
+    const newlyAtRisk: string[] = [];
+
+    const upserts = metrics.map((metric) => {
+      const before = previousByClient.get(metric.clientId);
+      const hasVisits = metric.recencyDays !== null;
+      const scores = hasVisits
+        ? {
+            recencyScore: recencyScore(-metric.recencyDays!),
+            frequencyScore: frequencyScore(metric.frequency),
+            monetaryScore: monetaryScore(metric.monetary),
+          }
+        : { recencyScore: 0, frequencyScore: 0, monetaryScore: 0 };
+
+      const riskSince = metric.isAtRisk
+        ? before?.isAtRisk && before.riskSince
+          ? before.riskSince
+          : now
+        : null;
+
+      // Uma mensagem por episódio de risco
+      if (
+        metric.isAtRisk &&
+        (!before?.winBackSentAt || before.winBackSentAt < riskSince!)
+      ) {
+        newlyAtRisk.push(metric.clientId);
+      }
+
+      const data = {
+        recencyDays: metric.recencyDays,
+        frequency: metric.frequency,
+        monetary: new Prisma.Decimal(metric.monetary.toFixed(2)),
+        ...scores,
+        rfmScore: hasVisits
+          ? `${scores.recencyScore}${scores.frequencyScore}${scores.monetaryScore}`
+          : null,
+        lastVisitAt: metric.lastVisitAt,
+        returnIntervalDays: metric.returnIntervalDays,
+        serviceIntervals: metric.serviceIntervals.length
+          ? (metric.serviceIntervals as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        expectedReturnAt: metric.expectedReturnAt,
+        isAtRisk: metric.isAtRisk,
+        overdueDays: metric.overdueDays,
+        riskSince,
+        computedAt: now,
+      };
+
+      return this.prisma.clientInsight.upsert({
+        where: { clientId: metric.clientId },
+        create: { tenantId, clientId: metric.clientId, ...data },
+        update: data,
+      });
+    });
+
+    for (let i = 0; i < upserts.length; i += UPSERT_CHUNK_SIZE) {
+      await this.prisma.$transaction(upserts.slice(i, i + UPSERT_CHUNK_SIZE));
+    }
+
+    if (newlyAtRisk.length > 0) {
+      await this.sendAutomaticWinBacks(tenantId, newlyAtRisk, now);
+    }
+
+    return metrics.length;
+  }
+
+  // ============================================================================
+  // REATIVAÇÃO
+  // ============================================================================
+
+  /**
+   * Envio manual da mensagem de reativação. Sem template WIN_BACK ativo,
+   * usa o texto padrão
+   */
+  async sendWinBack(clientId: string, tenantId: string) {
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, tenantId, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        insight: { select: { recencyDays: true } },
+        tenant: {
+          select: {
+            name: true,
+            whatsAppConfig: { select: { isActive: true } },
+          },
+        },
+      },
+    });
+
+    if (!client) {
+      throw new NotFoundException('Cliente não encontrado');
+    }
+
+    const channel =
+      client.tenant.whatsAppConfig?.isActive || !client.email
+        ? NotificationChannel.WHATSAPP
+        : NotificationChannel.EMAIL;
+
+    const notification = await this.notificationsService.sendNotification(
+      tenantId,
+      {
+        type: NotificationType.WIN_BACK,
+        channel,
+        recipientType: RecipientType.CLIENT,
+        recipientId: client.id,
+        variables: this.buildVariables(
+          client.name,
+          client.tenant.name,
+          client.insight?.recencyDays,
+        ),
+      },
+      {
+        fallbackContent: DEFAULT_WIN_BACK_CONTENT,
+        fallbackSubject: 'Sentimos sua falta',
+      },
+    );
+
+    await this.prisma.clientInsight.updateMany({
+      where: { clientId: client.id },
+      data: { winBackSentAt: new Date() },
+    });
+
+    return notification;
+  }
+
+  /**
+   * Reativação automática: só envia quando o tenant tem um template WIN_BACK
+   * ativo, no canal desse template
+   */
+  private async sendAutomaticWinBacks(
+    tenantId: string,
+    clientIds: string[],
+    now: Date,
+  ) {
+    const template = await this.prisma.notificationTemplate.findFirst({
+      where: { tenantId, type: NotificationType.WIN_BACK, isActive: true },
+      select: { channel: true },
+    });
+
+    if (!template) return;
+
+    const clients = await this.prisma.client.findMany({
+      where: { id: { in: clientIds.slice(0, MAX_WIN_BACKS_PER_RUN) } },
+      select: {
+        id: true,
+        name: true,
+        insight: { select: { recencyDays: true } },
+        tenant: { select: { name: true } },
+      },
+    });
+
+    for (const client of clients) {
+      try {
+        await this.notificationsService.sendNotification(tenantId, {
+          type: NotificationType.WIN_BACK,
+          channel: template.channel,
+          recipientType: RecipientType.CLIENT,
+          recipientId: client.id,
+          variables: this.buildVariables(
+            client.name,
+            client.tenant.name,
+            client.insight?.recencyDays,
+          ),
+        });
+
+        await this.prisma.clientInsight.update({
+          where: { clientId: client.id },
+          data: { winBackSentAt: now },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to send win-back message to client ${client.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Média dos intervalos entre visitas de cada serviço, considerando todos os
+   * clientes do tenant
+   */
+  private getServiceAverages(
+    visitsByClient: Map<string, { serviceId: string; date: Date }[]>,
+  ) {
+    const gapsByService = new Map<string, number[]>();
+
+    for (const visits of visitsByClient.values()) {
+      for (const [serviceId, dates] of this.groupDatesByService(visits)) {
+        const gaps = gapsByService.get(serviceId) ?? [];
+        gaps.push(...this.gaps(dates));
+        gapsByService.set(serviceId, gaps);
+      }
+    }
+
+    const averages = new Map<string, number>();
+    for (const [serviceId, gaps] of gapsByService) {
+      if (gaps.length > 0) {
+        averages.set(serviceId, this.average(gaps));
+      }
+    }
+
+    return averages;
+  }
+
+  /**
+   * Intervalo médio de retorno do cliente em cada serviço. Com uma única
+   * visita, vale a média do serviço no tenant
+   */
+  private getServiceIntervals(
+    visits: { serviceId: string; date: Date }[],
+    serviceAverages: Map<string, number>,
+  ): ServiceInterval[] {
+    const intervals: ServiceInterval[] = [];
+
+    for (const [serviceId, dates] of this.groupDatesByService(visits)) {
+      const gaps = this.gaps(dates);
+      const averageDays = gaps.length
+        ? this.average(gaps)
+        : serviceAverages.get(serviceId);
+
+      if (averageDays === undefined) continue;
+
+      intervals.push({
+        serviceId,
+        averageDays,
+        visits: dates.length,
+        lastVisitAt: dates[dates.length - 1].toISOString().slice(0, 10),
+        personal: gaps.length > 0,
+      });
+    }
+
+    return intervals;
+  }
+
+  // Datas distintas por serviço, em ordem (as visitas já vêm ordenadas)
+  private groupDatesByService(visits: { serviceId: string; date: Date }[]) {
+    const byService = new Map<string, Date[]>();
+
+    for (const visit of visits) {
+      const dates = byService.get(visit.serviceId) ?? [];
+      const last = dates[dates.length - 1];
+      if (!last || last.getTime() !== visit.date.getTime()) {
+        dates.push(visit.date);
+      }
+      byService.set(visit.serviceId, dates);
+    }
+
+    return byService;
+  }
+
+  private gaps(dates: Date[]) {
+    return dates.slice(1).map((date, i) => this.daysBetween(dates[i], date));
+  }
+
+  private average(values: number[]) {
+    return Math.round(
+      values.reduce((sum, value) => sum + value, 0) / values.length,
+    );
+  }
+
+  /**
+   * Nota de 1 a 5 pela posição do valor entre os clientes (maior = melhor).
+   * Valores iguais recebem a mesma nota
+   */
+  private quintileScorer(values: number[]) {
+    const sorted = [...values].sort((a, b) => b - a);
+
+    return (value: number) => {
+      // Busca binária: quantos clientes têm valor maior
+      let low = 0;
+      let high = sorted.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (sorted[mid] > value) low = mid + 1;
+        else high = mid;
+      }
+      return 5 - Math.floor((low * 5) / sorted.length);
+    };
+  }
+
+  private buildVariables(
+    name: string,
+    tenantName: string,
+    recencyDays?: number | null,
+  ) {
+    return {
+      nome: name,
+      primeiro_nome: name.split(' ')[0],
+      empresa: tenantName,
+      dias: recencyDays != null ? String(recencyDays) : '',
+    };
+  }
+
+  private daysBetween(from: Date, to: Date) {
+    return Math.round(
+      (parseDateOnly(to).getTime() - parseDateOnly(from).getTime()) / DAY_MS,
+    );
+  }
+
+  private addMonths(date: Date, months: number) {
+    const result = new Date(date);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    return result;
+  }
+}
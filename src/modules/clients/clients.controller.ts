@@ -11,7 +11,9 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { ClientsService } from './clients.service';
+import { ClientInsightsService } from './client-insights.service';
 import { CreateClientDto, UpdateClientDto } from './dto/client.dto';
+import { AtRiskClientsQueryDto } from './dto/client-insight.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../../common/guards/permissions.guard';
 import { PlanLimitGuard } from '../../common/guards/plan.guard';
@@ -26,12 +28,18 @@ import type { CurrentUserData } from '../../common/decorators/current-user.decor
 @Controller('clients')
 @UseGuards(JwtAuthGuard, PermissionsGuard)
 export class ClientsController {
-  constructor(private clientsService: ClientsService) {}
+  constructor(
+    private clientsService: ClientsService,
+    private clientInsights: ClientInsightsService,
+  ) {}
 
   @Get()
   @RequirePermissions(Permission.CLIENTS_VIEW)
-  async findAll(@CurrentUser() user: CurrentUserData) {
-    return this.clientsService.findAll(user.tenantId);
+  async findAll(
+    @CurrentUser() user: CurrentUserData,
+    @Query('segmentId') segmentId?: string,
+  ) {
+    return this.clientsService.findAll(user.tenantId, segmentId);
   }
 
   @Get('search')
@@ -43,6 +51,15 @@ export class ClientsController {
     return this.clientsService.search(user.tenantId, query || '');
   }
 
+  @Get('at-risk')
+  @RequirePermissions(Permission.CLIENTS_VIEW)
+  async findAtRisk(
+    @Query() query: AtRiskClientsQueryDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.clientInsights.findAtRisk(user.tenantId, query);
+  }
+
   @Get('trash')
   @RequirePermissions(Permission.CLIENTS_DELETE)
   async findDeleted(@CurrentUser() user: CurrentUserData) {
@@ -55,7 +72,7 @@ export class ClientsController {
     @Param('id') id: string,
     @CurrentUser() user: CurrentUserData,
   ) {
-    return this.clientsService.findById(id, user.tenantId);
+    return this.clientsService.findDetails(id, user.tenantId);
   }
 
   @Get(':id/history')
@@ -97,6 +114,24 @@ export class ClientsController {
     return this.clientsService.delete(id, user.tenantId);
   }
 
+  @Post(':id/unblock-booking')
+  @RequirePermissions(Permission.CLIENTS_EDIT)
+  async unblockBooking(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.clientsService.unblockBooking(id, user.tenantId);
+  }
+
+  @Post(':id/win-back')
+  @RequirePermissions(Permission.NOTIFICATIONS_SEND)
+  async sendWinBack(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.clientInsights.sendWinBack(id, user.tenantId);
+  }
+
   @Post(':id/restore')
   @RequirePermissions(Permission.CLIENTS_DELETE)
   async restore(
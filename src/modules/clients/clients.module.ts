@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ClientsService } from './clients.service';
 import { ClientsController } from './clients.controller';
+import { ClientInsightsService } from './client-insights.service';
+import { ClientsScheduler } from './clients.scheduler';
+import { SegmentsModule } from '../segments/segments.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
+  imports: [SegmentsModule, NotificationsModule],
   controllers: [ClientsController],
-  providers: [ClientsService],
-  exports: [ClientsService],
+  providers: [ClientsService, ClientInsightsService, ClientsScheduler],
+  exports: [ClientsService, ClientInsightsService],
 })
 export class ClientsModule {}
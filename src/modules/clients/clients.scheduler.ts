@@ -0,0 +1,20 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
+import { ClientInsightsService } from './client-insights.service';
+
+@Injectable()
+export class ClientsScheduler implements OnModuleInit {
+  constructor(
+    private readonly clientInsights: ClientInsightsService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Recalcula RFM e risco de evasão de madrugada, tenant a tenant
+    this.maintenance.register(
+      MAINTENANCE_JOBS.COMPUTE_CLIENT_INSIGHTS,
+      (tenantId) => this.clientInsights.computeForTenant(tenantId!),
+    );
+  }
+}
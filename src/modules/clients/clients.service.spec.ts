@@ -3,6 +3,7 @@ import { NotFoundException } from '@nestjs/common';
 import { ClientsService } from './clients.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis';
+import { SegmentsService } from '../segments/segments.service';
 
 describe('ClientsService', () => {
   let service: ClientsService;
@@ -63,6 +64,12 @@ describe('ClientsService', () => {
         ClientsService,
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: RedisService, useValue: mockRedisService },
+        {
+          provide: SegmentsService,
+          useValue: {
+            resolveClientIds: jest.fn().mockResolvedValue(['client-123']),
+          },
+        },
       ],
     }).compile();
 
@@ -102,6 +109,19 @@ describe('ClientsService', () => {
         orderBy: { name: 'asc' },
       });
     });
+
+    it('should filter by segment without using the full list cache', async () => {
+      prismaService.client.findMany = jest.fn().mockResolvedValue([mockClient]);
+
+      const result = await service.findAll(tenantId, 'segment-1');
+
+      expect(result).toEqual([mockClient]);
+      expect(redisService.getOrSet).not.toHaveBeenCalled();
+      expect(prismaService.client.findMany).toHaveBeenCalledWith({
+        where: { tenantId, id: { in: ['client-123'] } },
+        orderBy: { name: 'asc' },
+      });
+    });
   });
 
   describe('findById', () => {
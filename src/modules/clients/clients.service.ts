@@ -1,6 +1,7 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService, CACHE_KEYS, CACHE_TTL } from '../../redis';
+import { SegmentsService } from '../segments/segments.service';
 import { CreateClientDto, UpdateClientDto } from './dto/client.dto';
 import { Client } from '@prisma/client';
 
@@ -9,9 +10,23 @@ export class ClientsService {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private segments: SegmentsService,
   ) {}
 
-  async findAll(tenantId: string) {
+  async findAll(tenantId: string, segmentId?: string) {
+    // Filtrado por segmento: a lista do segmento já fica em cache
+    if (segmentId) {
+      const clientIds = await this.segments.resolveClientIds(
+        tenantId,
+        segmentId,
+      );
+
+      return this.prisma.client.findMany({
+        where: { tenantId, id: { in: clientIds } },
+        orderBy: { name: 'asc' },
+      });
+    }
+
     const cacheKey = CACHE_KEYS.CLIENTS(tenantId);
 
     return this.redis.getOrSet(
@@ -38,6 +53,22 @@ export class ClientsService {
     return client;
   }
 
+  /**
+   * Cliente com RFM e risco de evasão do último cálculo
+   */
+  async findDetails(id: string, tenantId: string) {
+    const client = await this.prisma.client.findFirst({
+      where: { id, tenantId },
+      include: { insight: true },
+    });
+
+    if (!client) {
+      throw new NotFoundException('Cliente não encontrado');
+    }
+
+    return client;
+  }
+
   async findHistory(id: string, tenantId: string) {
     await this.findById(id, tenantId);
 
@@ -117,6 +148,23 @@ export class ClientsService {
     });
   }
 
+  /**
+   * Libera o agendamento online bloqueado por faltas
+   */
+  async unblockBooking(id: string, tenantId: string) {
+    await this.findById(id, tenantId);
+
+    const client = await this.prisma.client.update({
+      where: { id },
+      data: { bookingBlockedAt: null, noShowCount: 0 },
+    });
+
+    // Invalida cache
+    await this.redis.invalidateClients(tenantId);
+
+    return client;
+  }
+
   // ========== Métodos para Soft Delete ==========
 
   /**
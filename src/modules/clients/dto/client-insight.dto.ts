@@ -0,0 +1,22 @@
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AtRiskClientsQueryDto {
+  // value = maior receita nos últimos 12 meses; overdue = mais dias de atraso
+  @IsIn(['value', 'overdue'], { message: 'Ordenação inválida' })
+  @IsOptional()
+  sort?: 'value' | 'overdue';
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset?: number;
+}
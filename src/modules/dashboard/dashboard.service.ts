@@ -2,6 +2,15 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService, CACHE_KEYS, CACHE_TTL } from '../../redis';
 import { AppointmentStatus } from '@prisma/client';
+import {
+  addDays,
+  formatDateOnly,
+  getDayOfWeek,
+  getZonedToday,
+  parseDateOnly,
+  resolveTimezone,
+  toZonedDateTime,
+} from '../../common/utils/timezone.util';
 
 @Injectable()
 export class DashboardService {
@@ -11,11 +20,10 @@ export class DashboardService {
   ) {}
 
   async getToday(tenantId: string) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    // "Hoje" e "agora" no fuso do tenant, não no do servidor
+    const now = toZonedDateTime(new Date(), await this.getTimezone(tenantId));
+    const today = parseDateOnly(now.date);
+    const tomorrow = addDays(today, 1);
 
     const appointments = await this.prisma.appointment.findMany({
       where: {
@@ -33,12 +41,9 @@ export class DashboardService {
       orderBy: { startTime: 'asc' },
     });
 
-    const now = new Date();
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-
     const upcoming = appointments.filter(
       (a) =>
-        a.startTime >= currentTime &&
+        a.startTime >= now.time &&
         a.status !== AppointmentStatus.CANCELLED &&
         a.status !== AppointmentStatus.COMPLETED,
     );
@@ -57,13 +62,15 @@ export class DashboardService {
     );
 
     return {
-      date: today.toISOString().split('T')[0],
+      date: now.date,
       appointments: appointments.length,
       upcoming: upcoming.length,
       completed: completed.length,
       cancelled: appointments.filter(
         (a) => a.status === AppointmentStatus.CANCELLED,
       ).length,
+      noShow: appointments.filter((a) => a.status === AppointmentStatus.NO_SHOW)
+        .length,
       totalValue,
       completedValue,
       nextAppointments: upcoming.slice(0, 5),
@@ -71,14 +78,10 @@ export class DashboardService {
   }
 
   async getWeek(tenantId: string) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const startOfWeek = new Date(today);
-    startOfWeek.setDate(today.getDate() - today.getDay());
+    const today = getZonedToday(await this.getTimezone(tenantId));
 
-    const endOfWeek = new Date(startOfWeek);
-    endOfWeek.setDate(startOfWeek.getDate() + 7);
+    const startOfWeek = addDays(today, -getDayOfWeek(today));
+    const endOfWeek = addDays(startOfWeek, 7);
 
     const appointments = await this.prisma.appointment.findMany({
       where: {
@@ -96,12 +99,10 @@ export class DashboardService {
     const byDay = Array(7)
       .fill(null)
       .map((_, i) => {
-        const date = new Date(startOfWeek);
-        date.setDate(startOfWeek.getDate() + i);
-        const dateStr = date.toISOString().split('T')[0];
+        const dateStr = formatDateOnly(addDays(startOfWeek, i));
 
         const dayAppointments = appointments.filter(
-          (a) => a.date.toISOString().split('T')[0] === dateStr,
+          (a) => formatDateOnly(a.date) === dateStr,
         );
 
         return {
@@ -119,8 +120,8 @@ export class DashboardService {
       .reduce((sum, a) => sum + Number(a.price), 0);
 
     return {
-      startDate: startOfWeek.toISOString().split('T')[0],
-      endDate: endOfWeek.toISOString().split('T')[0],
+      startDate: formatDateOnly(startOfWeek),
+      endDate: formatDateOnly(endOfWeek),
       appointments: appointments.length,
       totalValue,
       byDay,
@@ -128,9 +129,13 @@ export class DashboardService {
   }
 
   async getMonth(tenantId: string) {
-    const today = new Date();
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+    const today = getZonedToday(await this.getTimezone(tenantId));
+    const startOfMonth = new Date(
+      Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1),
+    );
+    const endOfMonth = new Date(
+      Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1),
+    );
 
     const appointments = await this.prisma.appointment.findMany({
       where: {
@@ -182,8 +187,8 @@ export class DashboardService {
     }));
 
     return {
-      month: today.getMonth() + 1,
-      year: today.getFullYear(),
+      month: today.getUTCMonth() + 1,
+      year: today.getUTCFullYear(),
       appointments: appointments.length,
       completed: completed.length,
       cancelled: appointments.filter(
@@ -201,21 +206,36 @@ export class DashboardService {
     return this.redis.getOrSet(
       cacheKey,
       async () => {
-        const [clients, services, providers, appointments] = await Promise.all([
-          this.prisma.client.count({ where: { tenantId } }),
-          this.prisma.service.count({ where: { tenantId, active: true } }),
-          this.prisma.provider.count({ where: { tenantId, active: true } }),
-          this.prisma.appointment.count({ where: { tenantId } }),
-        ]);
+        const [clients, services, providers, appointments, clientsAtRisk] =
+          await Promise.all([
+            this.prisma.client.count({ where: { tenantId } }),
+            this.prisma.service.count({ where: { tenantId, active: true } }),
+            this.prisma.provider.count({ where: { tenantId, active: true } }),
+            this.prisma.appointment.count({ where: { tenantId } }),
+            // Calculado pela rotina diária de RFM
+            this.prisma.clientInsight.count({
+              where: { tenantId, isAtRisk: true, client: { deletedAt: null } },
+            }),
+          ]);
 
         return {
           clients,
           services,
           providers,
           appointments,
+          clientsAtRisk,
         };
       },
       CACHE_TTL.MEDIUM, // 5 minutos
     );
   }
+
+  private async getTimezone(tenantId: string) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    return resolveTimezone(tenant?.timezone);
+  }
 }
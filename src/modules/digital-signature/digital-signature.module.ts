@@ -1,5 +1,4 @@
 import { Module } from '@nestjs/common';
-import { ScheduleModule } from '@nestjs/schedule';
 import { DigitalSignatureService } from './digital-signature.service';
 import {
   SignatureTemplatesController,
@@ -12,7 +11,7 @@ import { DigitalSignatureScheduler } from './digital-signature.scheduler';
 import { PrismaModule } from '../../prisma/prisma.module';
 
 @Module({
-  imports: [PrismaModule, ScheduleModule.forRoot()],
+  imports: [PrismaModule],
   controllers: [
     SignatureTemplatesController,
     SignatureRequestsController,
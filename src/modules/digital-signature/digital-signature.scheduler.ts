@@ -1,26 +1,33 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
 import { DigitalSignatureService } from './digital-signature.service';
 
 @Injectable()
-export class DigitalSignatureScheduler {
+export class DigitalSignatureScheduler implements OnModuleInit {
   private readonly logger = new Logger(DigitalSignatureScheduler.name);
 
-  constructor(private readonly signatureService: DigitalSignatureService) {}
+  constructor(
+    private readonly signatureService: DigitalSignatureService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Executa a cada hora para expirar solicitações
+    this.maintenance.register(MAINTENANCE_JOBS.EXPIRE_SIGNATURE_REQUESTS, () =>
+      this.handleExpiration(),
+    );
+  }
 
-  // Executa a cada hora para expirar solicitações
-  @Cron(CronExpression.EVERY_HOUR)
   async handleExpiration() {
     this.logger.log('Verificando solicitações de assinatura expiradas...');
 
-    try {
-      const count = await this.signatureService.expireSignatureRequests();
+    const count = await this.signatureService.expireSignatureRequests();
 
-      if (count > 0) {
-        this.logger.log(`${count} solicitação(ões) marcada(s) como expirada(s)`);
-      }
-    } catch (error) {
-      this.logger.error('Erro ao processar expirações:', error);
+    if (count > 0) {
+      this.logger.log(`${count} solicitação(ões) marcada(s) como expirada(s)`);
     }
+
+    return count;
   }
 }
@@ -0,0 +1,369 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BankStatementLineStatus,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { BankReconciliationService } from './bank-reconciliation.service';
+import { FinancialService } from './financial.service';
+import { NfseService } from '../nfse/nfse.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+import {
+  descriptionPattern,
+  parseAmount,
+  parseBankStatement,
+} from './bank-statement.parser';
+
+// StorageService importa o uuid (ESM), que o jest não transforma
+jest.mock('../storage/storage.service', () => ({
+  StorageService: class StorageService {},
+}));
+
+describe('BankReconciliationService', () => {
+  let service: BankReconciliationService;
+  let prismaService: any;
+  let nfseService: { issueForPaidTransaction: jest.Mock };
+
+  const tenantId = 'tenant-123';
+
+  const line = (overrides: Record<string, any> = {}) => ({
+    id: 'line-1',
+    tenantId,
+    importId: 'import-1',
+    fingerprint: 'fp-1',
+    date: new Date('2025-02-10T00:00:00.000Z'),
+    amount: new Prisma.Decimal(150),
+    description: 'PIX RECEBIDO MARIA SILVA',
+    reference: null,
+    status: BankStatementLineStatus.UNMATCHED,
+    transactionId: null,
+    suggestedTransactionIds: [],
+    suggestedCategoryId: null,
+    ...overrides,
+  });
+
+  const transaction = (overrides: Record<string, any> = {}) => ({
+    id: 'transaction-1',
+    type: TransactionType.INCOME,
+    status: TransactionStatus.PENDING,
+    netAmount: new Prisma.Decimal(150),
+    date: new Date('2025-02-08T00:00:00.000Z'),
+    dueDate: new Date('2025-02-09T00:00:00.000Z'),
+    paidAt: null,
+    description: 'Pacote Maria',
+    reference: null,
+    categoryId: 'category-1',
+    paymentMethodId: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      bankStatementImport: {
+        create: jest.fn(),
+        update: jest.fn().mockResolvedValue({}),
+        findFirst: jest.fn(),
+      },
+      bankStatementLine: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn(),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      bankCategoryRule: {
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn().mockResolvedValue({}),
+      },
+      financialTransaction: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      $transaction: jest.fn((operations) => Promise.all(operations)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BankReconciliationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: { invalidateDashboard: jest.fn() },
+        },
+        {
+          provide: FinancialService,
+          useValue: {
+            createTransaction: jest
+              .fn()
+              .mockResolvedValue({ id: 'transaction-new' }),
+          },
+        },
+        {
+          provide: NfseService,
+          useValue: { issueForPaidTransaction: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BankReconciliationService>(BankReconciliationService);
+    prismaService = module.get(PrismaService);
+    nfseService = module.get(NfseService);
+  });
+
+  describe('parser', () => {
+    it('should parse OFX 1.x statements in Windows-1252', () => {
+      const ofx = [
+        'OFXHEADER:100',
+        'CHARSET:1252',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+        '<BANKACCTFROM><ACCTID>12345-6</BANKACCTFROM>',
+        '<BANKTRANLIST><DTSTART>20250201<DTEND>20250228',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250210120000[-3:BRT]',
+        '<TRNAMT>150.00<FITID>A1<MEMO>PIX RECEBIDO João',
+        '</STMTTRN>',
+        '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250211',
+        '<TRNAMT>-32,90<FITID>A2<CHECKNUM>998877<MEMO>TARIFA',
+        '</STMTTRN>',
+        '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+      ].join('\n');
+
+      const result = parseBankStatement(
+        'extrato.ofx',
+        Buffer.from(ofx, 'latin1'),
+      );
+
+      expect(result.accountId).toBe('12345-6');
+      expect(result.periodStart).toBe('2025-02-01');
+      expect(result.lines).toEqual([
+        {
+          fingerprint: 'ofx:12345-6:A1',
+          date: '2025-02-10',
+          amount: 150,
+          description: 'PIX RECEBIDO João',
+          reference: 'A1',
+        },
+        {
+          fingerprint: 'ofx:12345-6:A2',
+          date: '2025-02-11',
+          amount: -32.9,
+          description: 'TARIFA',
+          reference: '998877',
+        },
+      ]);
+    });
+
+    it('should parse CSV with credit and debit columns and skip balances', () => {
+      const csv = [
+        'Data Lançamento;Histórico;Documento;Crédito (R$);Débito (R$)',
+        '01/02/2025;Saldo Anterior;;;',
+        '03/02/2025;TAR PACOTE SERVICOS;;;"1.045,90"',
+        '03/02/2025;TAR PACOTE SERVICOS;;;"1.045,90"',
+        '04/02/2025;TED RECEBIDA;1234;200,00;',
+      ].join('\r\n');
+
+      const result = parseBankStatement('extrato.csv', Buffer.from(csv));
+
+      expect(result.lines.map((l) => [l.date, l.amount, l.reference])).toEqual([
+        ['2025-02-03', -1045.9, null],
+        ['2025-02-03', -1045.9, null],
+        ['2025-02-04', 200, '1234'],
+      ]);
+      // Lançamentos idênticos continuam distintos
+      expect(result.lines[0].fingerprint).not.toBe(result.lines[1].fingerprint);
+    });
+
+    it('should normalize amounts and description patterns', () => {
+      expect(parseAmount('R$ 1.234,56')).toBe(1234.56);
+      expect(parseAmount('(12,00)')).toBe(-12);
+      expect(parseAmount('150,00 D')).toBe(-150);
+      expect(parseAmount('1,234.56')).toBe(1234.56);
+      expect(descriptionPattern('PIX ENVIADO 0123 Conceição')).toBe(
+        'PIX ENVIADO CONCEICAO',
+      );
+    });
+  });
+
+  describe('importStatement', () => {
+    const csv = Buffer.from(
+      'Data;Descrição;Valor\n10/02/2025;PIX RECEBIDO;150,00',
+    );
+
+    const mockImport = (lines: any[]) => {
+      prismaService.bankStatementImport.create.mockResolvedValue({
+        id: 'import-1',
+        lines,
+      });
+      prismaService.bankStatementImport.findFirst.mockResolvedValue({
+        id: 'import-1',
+        lines: [],
+      });
+    };
+
+    it('should mark a single candidate as paid on the statement date', async () => {
+      mockImport([line()]);
+      prismaService.financialTransaction.findMany.mockResolvedValue([
+        transaction(),
+      ]);
+
+      await service.importStatement(tenantId, {
+        originalname: 'extrato.csv',
+        buffer: csv,
+      });
+
+      expect(prismaService.financialTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'transaction-1' },
+        data: {
+          reconciledAt: expect.any(Date),
+          status: TransactionStatus.PAID,
+          paidAt: new Date('2025-02-10T15:00:00.000Z'),
+        },
+      });
+      expect(prismaService.bankStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: expect.objectContaining({
+          status: BankStatementLineStatus.MATCHED,
+          transactionId: 'transaction-1',
+        }),
+      });
+      expect(prismaService.bankStatementImport.update).toHaveBeenCalledWith({
+        where: { id: 'import-1' },
+        data: { matchedCount: 1, suggestedCount: 0 },
+      });
+      expect(nfseService.issueForPaidTransaction).toHaveBeenCalledWith(
+        tenantId,
+        'transaction-1',
+      );
+    });
+
+    it('should suggest ambiguous candidates, unless the reference decides', async () => {
+      mockImport([line()]);
+      prismaService.financialTransaction.findMany.mockResolvedValue([
+        transaction(),
+        transaction({ id: 'transaction-2', dueDate: null }),
+        // Fora da janela de datas
+        transaction({ id: 'transaction-3', dueDate: new Date('2025-03-01') }),
+      ]);
+
+      await service.importStatement(tenantId, {
+        originalname: 'extrato.csv',
+        buffer: csv,
+      });
+
+      expect(prismaService.financialTransaction.update).not.toHaveBeenCalled();
+      expect(prismaService.bankStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: {
+          status: BankStatementLineStatus.SUGGESTED,
+          suggestedTransactionIds: ['transaction-1', 'transaction-2'],
+        },
+      });
+
+      mockImport([line({ description: 'PIX RECEBIDO PED-20931' })]);
+      prismaService.financialTransaction.findMany.mockResolvedValue([
+        transaction(),
+        transaction({ id: 'transaction-2', reference: 'PED-20931' }),
+      ]);
+
+      await service.importStatement(tenantId, {
+        originalname: 'extrato.csv',
+        buffer: csv,
+      });
+
+      expect(prismaService.financialTransaction.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'transaction-2' } }),
+      );
+    });
+
+    it('should skip lines already imported', async () => {
+      prismaService.bankStatementLine.findMany.mockResolvedValue([
+        {
+          fingerprint: parseBankStatement('extrato.csv', csv).lines[0]
+            .fingerprint,
+        },
+      ]);
+      mockImport([]);
+
+      await service.importStatement(tenantId, {
+        originalname: 'extrato.csv',
+        buffer: csv,
+      });
+
+      expect(prismaService.bankStatementImport.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            linesCount: 0,
+            duplicatesCount: 1,
+            lines: { create: [] },
+          }),
+        }),
+      );
+    });
+
+    it('should suggest the learned category for unmatched lines', async () => {
+      mockImport([
+        line({
+          amount: new Prisma.Decimal(-45),
+          description: 'TAR PACOTE SERVICOS 02/2025',
+        }),
+      ]);
+      prismaService.bankCategoryRule.findMany.mockResolvedValue([
+        {
+          pattern: 'TAR PACOTE SERVICOS',
+          type: TransactionType.EXPENSE,
+          categoryId: 'category-fees',
+        },
+      ]);
+
+      await service.importStatement(tenantId, {
+        originalname: 'extrato.csv',
+        buffer: csv,
+      });
+
+      expect(prismaService.bankStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { suggestedCategoryId: 'category-fees' },
+      });
+    });
+  });
+
+  describe('createTransactionFromLine', () => {
+    it('should learn the chosen category for similar descriptions', async () => {
+      prismaService.bankStatementLine.findFirst.mockResolvedValue(
+        line({
+          amount: new Prisma.Decimal(-45),
+          description: 'TAR PACOTE SERVICOS 02/2025',
+        }),
+      );
+
+      await service.createTransactionFromLine('line-1', tenantId, {
+        categoryId: 'category-fees',
+      });
+
+      expect(prismaService.bankCategoryRule.upsert).toHaveBeenCalledWith({
+        where: {
+          tenantId_pattern_type: {
+            tenantId,
+            pattern: 'TAR PACOTE SERVICOS',
+            type: TransactionType.EXPENSE,
+          },
+        },
+        create: {
+          tenantId,
+          pattern: 'TAR PACOTE SERVICOS',
+          type: TransactionType.EXPENSE,
+          categoryId: 'category-fees',
+          paymentMethodId: null,
+        },
+        update: expect.objectContaining({ categoryId: 'category-fees' }),
+      });
+    });
+
+    it('should require a category when none was learned', async () => {
+      prismaService.bankStatementLine.findFirst.mockResolvedValue(line());
+
+      await expect(
+        service.createTransactionFromLine('line-1', tenantId, {}),
+      ).rejects.toThrow('Informe a categoria da transação');
+    });
+  });
+});
@@ -0,0 +1,580 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BankStatementLine,
+  BankStatementLineStatus,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+import { FinancialService } from './financial.service';
+import { NfseService } from '../nfse/nfse.service';
+import {
+  descriptionPattern,
+  normalizeText,
+  parseBankStatement,
+} from './bank-statement.parser';
+import { CreateTransactionFromLineDto } from './dto';
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  formatDateOnly,
+  parseDateOnly,
+  toZonedDateTime,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+
+// Distância máxima, em dias, entre o extrato e a data prevista da transação
+const MATCH_WINDOW_DAYS = 5;
+const MAX_SUGGESTIONS = 5;
+// Referências curtas ("1", "12") casam com qualquer descrição
+const MIN_REFERENCE_LENGTH = 4;
+
+const OPEN_LINE_STATUSES: BankStatementLineStatus[] = [
+  BankStatementLineStatus.UNMATCHED,
+  BankStatementLineStatus.SUGGESTED,
+];
+
+const candidateSelect = {
+  id: true,
+  type: true,
+  status: true,
+  netAmount: true,
+  date: true,
+  dueDate: true,
+  paidAt: true,
+  description: true,
+  reference: true,
+  categoryId: true,
+  paymentMethodId: true,
+} as const;
+
+type CandidateTransaction = Prisma.FinancialTransactionGetPayload<{
+  select: typeof candidateSelect;
+}>;
+
+interface RankedCandidate {
+  transaction: CandidateTransaction;
+  dayDiff: number;
+  referenceMatch: boolean;
+}
+
+@Injectable()
+export class BankReconciliationService {
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private financialService: FinancialService,
+    private nfse: NfseService,
+  ) {}
+
+  // ============================================================================
+  // IMPORTAÇÃO
+  // ============================================================================
+
+  /**
+   * Importa o extrato, descarta linhas já importadas e concilia o que for
+   * inequívoco. Linhas ambíguas ficam como sugestão para confirmação
+   */
+  async importStatement(
+    tenantId: string,
+    file: { originalname: string; buffer: Buffer },
+    userId?: string,
+  ) {
+    const parsed = parseBankStatement(file.originalname, file.buffer);
+
+    if (parsed.lines.length === 0) {
+      throw new BadRequestException('Nenhum lançamento encontrado no extrato');
+    }
+
+    const existing = await this.prisma.bankStatementLine.findMany({
+      where: {
+        tenantId,
+        fingerprint: { in: parsed.lines.map((line) => line.fingerprint) },
+      },
+      select: { fingerprint: true },
+    });
+    const imported = new Set(existing.map((line) => line.fingerprint));
+    const newLines = parsed.lines.filter(
+      (line) => !imported.has(line.fingerprint),
+    );
+
+    const statement = await this.prisma.bankStatementImport.create({
+      data: {
+        tenantId,
+        fileName: file.originalname,
+        format: parsed.format,
+        accountId: parsed.accountId,
+        periodStart: parsed.periodStart
+          ? parseDateOnly(parsed.periodStart)
+          : null,
+        periodEnd: parsed.periodEnd ? parseDateOnly(parsed.periodEnd) : null,
+        linesCount: newLines.length,
+        duplicatesCount: parsed.lines.length - newLines.length,
+        createdById: userId,
+        lines: {
+          create: newLines.map((line) => ({
+            tenantId,
+            fingerprint: line.fingerprint,
+            date: parseDateOnly(line.date),
+            amount: line.amount,
+            description: line.description,
+            reference: line.reference,
+          })),
+        },
+      },
+      include: { lines: { orderBy: { date: 'asc' } } },
+    });
+
+    const { matched, suggested } = await this.autoMatch(
+      tenantId,
+      statement.lines,
+    );
+
+    await this.prisma.bankStatementImport.update({
+      where: { id: statement.id },
+      data: { matchedCount: matched, suggestedCount: suggested },
+    });
+
+    if (matched > 0) {
+      await this.redis.invalidateDashboard(tenantId);
+    }
+
+    return this.findImportById(statement.id, tenantId);
+  }
+
+  async findImports(tenantId: string) {
+    return this.prisma.bankStatementImport.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findImportById(id: string, tenantId: string) {
+    const statement = await this.prisma.bankStatementImport.findFirst({
+      where: { id, tenantId },
+      include: {
+        lines: {
+          orderBy: { date: 'asc' },
+          include: {
+            transaction: {
+              select: {
+                id: true,
+                description: true,
+                status: true,
+                netAmount: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!statement) {
+      throw new NotFoundException('Extrato não encontrado');
+    }
+
+    const suggestionIds = statement.lines.flatMap(
+      (line) => line.suggestedTransactionIds,
+    );
+    const suggestions = suggestionIds.length
+      ? await this.prisma.financialTransaction.findMany({
+          where: { id: { in: suggestionIds }, tenantId },
+          select: candidateSelect,
+        })
+      : [];
+    const byId = new Map(suggestions.map((t) => [t.id, t]));
+
+    return {
+      ...statement,
+      lines: statement.lines.map((line) => ({
+        ...line,
+        suggestions: line.suggestedTransactionIds
+          .map((transactionId) => byId.get(transactionId))
+          .filter(Boolean),
+      })),
+    };
+  }
+
+  // ============================================================================
+  // CONCILIAÇÃO MANUAL
+  // ============================================================================
+
+  /**
+   * Confirma a transação de uma linha (sugerida ou escolhida pelo usuário)
+   */
+  async matchLine(
+    lineId: string,
+    tenantId: string,
+    transactionId: string,
+    userId?: string,
+  ) {
+    const line = await this.findOpenLine(lineId, tenantId);
+
+    const transaction = await this.prisma.financialTransaction.findFirst({
+      where: { id: transactionId, tenantId },
+      select: { ...candidateSelect, reconciledAt: true },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException('Transação não encontrada');
+    }
+
+    if (transaction.status === TransactionStatus.CANCELLED) {
+      throw new BadRequestException(
+        'Transação cancelada não pode ser conciliada',
+      );
+    }
+
+    if (transaction.reconciledAt) {
+      throw new BadRequestException('Transação já conciliada');
+    }
+
+    if (
+      transaction.type !== this.lineType(line) ||
+      !transaction.netAmount.equals(line.amount.abs())
+    ) {
+      throw new BadRequestException(
+        'Tipo ou valor da transação difere do lançamento do extrato',
+      );
+    }
+
+    await this.reconcile(line, transaction, userId);
+    await this.learnCategory(
+      tenantId,
+      line,
+      transaction.categoryId,
+      transaction.paymentMethodId,
+    );
+    await this.redis.invalidateDashboard(tenantId);
+
+    return this.findLineById(lineId, tenantId);
+  }
+
+  /**
+   * Lança como nova transação uma linha sem correspondente. Sem categoria
+   * informada, usa a aprendida com escolhas anteriores
+   */
+  async createTransactionFromLine(
+    lineId: string,
+    tenantId: string,
+    dto: CreateTransactionFromLineDto,
+    userId?: string,
+  ) {
+    const line = await this.findOpenLine(lineId, tenantId);
+    const categoryId = dto.categoryId ?? line.suggestedCategoryId;
+
+    if (!categoryId) {
+      throw new BadRequestException('Informe a categoria da transação');
+    }
+
+    const date = formatDateOnly(line.date);
+    const transaction = await this.financialService.createTransaction(
+      tenantId,
+      {
+        type: this.lineType(line),
+        categoryId,
+        paymentMethodId: dto.paymentMethodId,
+        amount: Number(line.amount.abs()),
+        date,
+        description: dto.description || line.description,
+        reference: line.reference ?? undefined,
+        status: TransactionStatus.PAID,
+      },
+      userId,
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.financialTransaction.update({
+        where: { id: transaction.id },
+        data: {
+          paidAt: zonedTimeToUtc(date, '12:00', DEFAULT_TIMEZONE),
+          reconciledAt: new Date(),
+        },
+      }),
+      this.prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: {
+          status: BankStatementLineStatus.CREATED,
+          transactionId: transaction.id,
+          suggestedTransactionIds: [],
+          matchedAt: new Date(),
+          matchedById: userId,
+        },
+      }),
+    ]);
+
+    if (transaction.type === TransactionType.INCOME) {
+      await this.nfse.issueForPaidTransaction(tenantId, transaction.id);
+    }
+
+    await this.learnCategory(
+      tenantId,
+      line,
+      categoryId,
+      dto.paymentMethodId ?? null,
+    );
+
+    return this.findLineById(lineId, tenantId);
+  }
+
+  async ignoreLine(lineId: string, tenantId: string, userId?: string) {
+    await this.findOpenLine(lineId, tenantId);
+
+    return this.prisma.bankStatementLine.update({
+      where: { id: lineId },
+      data: {
+        status: BankStatementLineStatus.IGNORED,
+        suggestedTransactionIds: [],
+        matchedAt: new Date(),
+        matchedById: userId,
+      },
+    });
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Mesmo tipo e valor, dentro da janela de datas. Uma candidata única (ou
+   * única com a referência na descrição) é conciliada; várias viram sugestão
+   */
+  private async autoMatch(tenantId: string, lines: BankStatementLine[]) {
+    if (lines.length === 0) {
+      return { matched: 0, suggested: 0 };
+    }
+
+    const dates = lines.map((line) => line.date.getTime());
+    const from = addDays(new Date(Math.min(...dates)), -MATCH_WINDOW_DAYS);
+    const to = addDays(new Date(Math.max(...dates)), MATCH_WINDOW_DAYS + 1);
+
+    const candidates = await this.prisma.financialTransaction.findMany({
+      where: {
+        tenantId,
+        status: { not: TransactionStatus.CANCELLED },
+        reconciledAt: null,
+        bankStatementLine: { is: null },
+        netAmount: {
+          in: [...new Set(lines.map((l) => Math.abs(Number(l.amount))))],
+        },
+        OR: [
+          { date: { gte: from, lt: to } },
+          { dueDate: { gte: from, lt: to } },
+          { paidAt: { gte: from, lt: to } },
+        ],
+      },
+      select: candidateSelect,
+    });
+
+    const rules = await this.prisma.bankCategoryRule.findMany({
+      where: { tenantId },
+    });
+
+    const used = new Set<string>();
+    let matched = 0;
+    let suggested = 0;
+
+    for (const line of lines) {
+      const ranked = this.rankCandidates(
+        line,
+        candidates.filter((t) => !used.has(t.id)),
+      );
+      const byReference = ranked.filter((c) => c.referenceMatch);
+      const match =
+        byReference.length === 1
+          ? byReference[0]
+          : ranked.length === 1
+            ? ranked[0]
+            : null;
+
+      if (match) {
+        used.add(match.transaction.id);
+        await this.reconcile(line, match.transaction);
+        matched++;
+      } else if (ranked.length > 1) {
+        await this.prisma.bankStatementLine.update({
+          where: { id: line.id },
+          data: {
+            status: BankStatementLineStatus.SUGGESTED,
+            suggestedTransactionIds: ranked
+              .slice(0, MAX_SUGGESTIONS)
+              .map((c) => c.transaction.id),
+          },
+        });
+        suggested++;
+      } else {
+        const pattern = descriptionPattern(line.description);
+        const rule = rules.find(
+          (r) => r.pattern === pattern && r.type === this.lineType(line),
+        );
+
+        if (rule) {
+          await this.prisma.bankStatementLine.update({
+            where: { id: line.id },
+            data: { suggestedCategoryId: rule.categoryId },
+          });
+        }
+      }
+    }
+
+    return { matched, suggested };
+  }
+
+  private rankCandidates(
+    line: BankStatementLine,
+    candidates: CandidateTransaction[],
+  ): RankedCandidate[] {
+    const type = this.lineType(line);
+    const amount = line.amount.abs();
+    const description = normalizeText(
+      `${line.description} ${line.reference ?? ''}`,
+    );
+
+    return candidates
+      .filter((t) => t.type === type && t.netAmount.equals(amount))
+      .map((transaction) => {
+        const reference = normalizeText(transaction.reference ?? '');
+
+        return {
+          transaction,
+          dayDiff: Math.abs(
+            (this.expectedDate(transaction).getTime() - line.date.getTime()) /
+              86400000,
+          ),
+          referenceMatch:
+            reference.length >= MIN_REFERENCE_LENGTH &&
+            description.includes(reference),
+        };
+      })
+      .filter((c) => c.dayDiff <= MATCH_WINDOW_DAYS)
+      .sort(
+        (a, b) =>
+          Number(b.referenceMatch) - Number(a.referenceMatch) ||
+          a.dayDiff - b.dayDiff,
+      );
+  }
+
+  // Pagas: data do pagamento; em aberto: vencimento ou data de competência
+  private expectedDate(transaction: CandidateTransaction): Date {
+    if (transaction.paidAt) {
+      return parseDateOnly(
+        toZonedDateTime(transaction.paidAt, DEFAULT_TIMEZONE).date,
+      );
+    }
+
+    return transaction.dueDate ?? transaction.date;
+  }
+
+  /**
+   * Vincula a linha à transação. Transações em aberto são baixadas na data
+   * do extrato; as já pagas apenas ficam marcadas como conferidas
+   */
+  private async reconcile(
+    line: BankStatementLine,
+    transaction: CandidateTransaction,
+    userId?: string,
+  ) {
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.financialTransaction.update({
+        where: { id: transaction.id },
+        data: {
+          reconciledAt: now,
+          ...(transaction.status !== TransactionStatus.PAID && {
+            status: TransactionStatus.PAID,
+            paidAt: zonedTimeToUtc(line.date, '12:00', DEFAULT_TIMEZONE),
+          }),
+        },
+      }),
+      this.prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: {
+          status: BankStatementLineStatus.MATCHED,
+          transactionId: transaction.id,
+          suggestedTransactionIds: [],
+          matchedAt: now,
+          matchedById: userId,
+        },
+      }),
+    ]);
+
+    // Baixa pelo extrato: mesma emissão automática da baixa manual
+    if (
+      transaction.type === TransactionType.INCOME &&
+      transaction.status !== TransactionStatus.PAID
+    ) {
+      await this.nfse.issueForPaidTransaction(line.tenantId, transaction.id);
+    }
+  }
+
+  private async learnCategory(
+    tenantId: string,
+    line: BankStatementLine,
+    categoryId: string,
+    paymentMethodId: string | null,
+  ) {
+    const pattern = descriptionPattern(line.description);
+
+    if (!pattern) {
+      return;
+    }
+
+    const type = this.lineType(line);
+
+    await this.prisma.bankCategoryRule.upsert({
+      where: { tenantId_pattern_type: { tenantId, pattern, type } },
+      create: { tenantId, pattern, type, categoryId, paymentMethodId },
+      update: {
+        categoryId,
+        paymentMethodId,
+        hits: { increment: 1 },
+        lastUsedAt: new Date(),
+      },
+    });
+  }
+
+  private lineType(line: BankStatementLine): TransactionType {
+    return line.amount.isNegative()
+      ? TransactionType.EXPENSE
+      : TransactionType.INCOME;
+  }
+
+  private async findOpenLine(id: string, tenantId: string) {
+    const line = await this.prisma.bankStatementLine.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!line) {
+      throw new NotFoundException('Lançamento do extrato não encontrado');
+    }
+
+    if (!OPEN_LINE_STATUSES.includes(line.status)) {
+      throw new BadRequestException('Lançamento do extrato já conciliado');
+    }
+
+    return line;
+  }
+
+  private async findLineById(id: string, tenantId: string) {
+    return this.prisma.bankStatementLine.findFirst({
+      where: { id, tenantId },
+      include: {
+        transaction: {
+          select: {
+            id: true,
+            description: true,
+            status: true,
+            netAmount: true,
+          },
+        },
+      },
+    });
+  }
+}
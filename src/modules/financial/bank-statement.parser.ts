@@ -0,0 +1,333 @@
+import { BadRequestException } from '@nestjs/common';
+import { BankStatementFormat } from '@prisma/client';
+import { createHash } from 'crypto';
+
+export interface ParsedStatementLine {
+  fingerprint: string;
+  date: string; // "2025-02-03"
+  amount: number; // Positivo = crédito, negativo = débito
+  description: string;
+  reference: string | null;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  accountId: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  lines: ParsedStatementLine[];
+}
+
+// Cabeçalhos aceitos no CSV (já normalizados, sem acento)
+const CSV_COLUMNS = {
+  date: ['data', 'date', 'dt'],
+  description: ['descricao', 'historico', 'lancamento', 'description', 'memo'],
+  amount: ['valor', 'amount', 'value'],
+  credit: ['credito', 'entrada'],
+  debit: ['debito', 'saida'],
+  reference: ['documento', 'doc', 'referencia', 'reference', 'fitid'],
+};
+
+export function parseBankStatement(
+  fileName: string,
+  content: Buffer,
+): ParsedStatement {
+  const text = decodeStatement(content);
+  const isOfx =
+    /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text.slice(0, 2000));
+
+  return isOfx ? parseOfx(text) : parseCsv(text);
+}
+
+/**
+ * OFX 1.x (SGML, sem fechamento de tags) e 2.x (XML)
+ */
+export function parseOfx(text: string): ParsedStatement {
+  const accountId = readOfxTag(text, 'ACCTID');
+  const blocks = text.match(
+    /<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi,
+  );
+
+  if (!blocks) {
+    throw new BadRequestException('Arquivo OFX sem lançamentos');
+  }
+
+  const lines = blocks.map((block) => {
+    const date = parseOfxDate(readOfxTag(block, 'DTPOSTED'));
+    const amount = parseAmount(readOfxTag(block, 'TRNAMT'));
+    const fitId = readOfxTag(block, 'FITID');
+
+    if (!date || amount === null) {
+      throw new BadRequestException(
+        'Lançamento OFX com data ou valor inválido',
+      );
+    }
+
+    const description =
+      [readOfxTag(block, 'NAME'), readOfxTag(block, 'MEMO')]
+        .filter(Boolean)
+        .join(' - ') || 'Sem descrição';
+
+    return {
+      fingerprint: fitId ? `ofx:${accountId ?? ''}:${fitId}` : '',
+      date,
+      amount,
+      description,
+      reference:
+        readOfxTag(block, 'CHECKNUM') || readOfxTag(block, 'REFNUM') || fitId,
+    };
+  });
+
+  return {
+    format: BankStatementFormat.OFX,
+    accountId,
+    periodStart: parseOfxDate(readOfxTag(text, 'DTSTART')),
+    periodEnd: parseOfxDate(readOfxTag(text, 'DTEND')),
+    lines: withFingerprints(lines),
+  };
+}
+
+/**
+ * CSV exportado pelo internet banking: separador ";" ou ",", valor único
+ * com sinal ou colunas separadas de crédito e débito
+ */
+export function parseCsv(text: string): ParsedStatement {
+  const rawRows = text.split(/\r?\n/).filter((row) => row.trim());
+  const delimiter = detectDelimiter(rawRows[0] ?? '');
+  const rows = rawRows.map((row) => splitCsvRow(row, delimiter));
+
+  if (rows.length < 2) {
+    throw new BadRequestException('Arquivo CSV sem lançamentos');
+  }
+
+  const header = rows[0].map((cell) => normalizeText(cell).split(/\s+/));
+  const taken: number[] = [];
+  // Por prioridade do nome: "Data Lançamento" é data, não descrição
+  const column = (names: string[]) => {
+    for (const name of names) {
+      const index = header.findIndex(
+        (words, i) => !taken.includes(i) && words.includes(name),
+      );
+      if (index >= 0) {
+        taken.push(index);
+        return index;
+      }
+    }
+    return -1;
+  };
+
+  const dateCol = column(CSV_COLUMNS.date);
+  const descriptionCol = column(CSV_COLUMNS.description);
+  const amountCol = column(CSV_COLUMNS.amount);
+  const creditCol = column(CSV_COLUMNS.credit);
+  const debitCol = column(CSV_COLUMNS.debit);
+  const referenceCol = column(CSV_COLUMNS.reference);
+
+  if (
+    dateCol < 0 ||
+    descriptionCol < 0 ||
+    (amountCol < 0 && (creditCol < 0 || debitCol < 0))
+  ) {
+    throw new BadRequestException(
+      'CSV deve ter as colunas de data, descrição e valor (ou crédito e débito)',
+    );
+  }
+
+  const lines: ParsedStatementLine[] = [];
+
+  for (const row of rows.slice(1)) {
+    const date = parseCsvDate(row[dateCol]);
+    const description = row[descriptionCol]?.trim() ?? '';
+
+    // Linhas de saldo e rodapé não são lançamentos
+    if (!date || normalizeText(description).startsWith('saldo')) {
+      continue;
+    }
+
+    const amount =
+      amountCol >= 0
+        ? parseAmount(row[amountCol])
+        : (parseAmount(row[creditCol]) ?? 0) -
+          Math.abs(parseAmount(row[debitCol]) ?? 0);
+
+    if (!amount) {
+      continue;
+    }
+
+    lines.push({
+      fingerprint: '',
+      date,
+      amount,
+      description: description || 'Sem descrição',
+      reference: (referenceCol >= 0 && row[referenceCol]?.trim()) || null,
+    });
+  }
+
+  const dates = lines.map((line) => line.date).sort();
+
+  return {
+    format: BankStatementFormat.CSV,
+    accountId: null,
+    periodStart: dates[0] ?? null,
+    periodEnd: dates[dates.length - 1] ?? null,
+    lines: withFingerprints(lines),
+  };
+}
+
+/**
+ * Chave usada para aprender a categoria de descrições parecidas:
+ * "PIX ENVIADO 0123 Maria" e "PIX ENVIADO 0456 João" viram "PIX ENVIADO MARIA"
+ */
+export function descriptionPattern(description: string): string {
+  return normalizeText(description)
+    .toUpperCase()
+    .replace(/[^A-Z ]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1)
+    .slice(0, 3)
+    .join(' ');
+}
+
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * "1.234,56", "-1234.56", "(12,00)", "150,00 D" e "R$ 10,00"
+ */
+export function parseAmount(raw: string | null | undefined): number | null {
+  if (!raw?.trim()) {
+    return null;
+  }
+
+  let value = raw
+    .trim()
+    .toUpperCase()
+    .replace(/R\$|\s/g, '');
+  let sign = 1;
+
+  if (/^\(.*\)$/.test(value)) {
+    sign = -1;
+    value = value.slice(1, -1);
+  }
+  if (/D$/.test(value)) {
+    sign = -1;
+  }
+  value = value.replace(/[CD]$/, '');
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > -1 && value.indexOf('.') !== lastDot) {
+    // Vários pontos: separador de milhar
+    value = value.replace(/\./g, '');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = Number(value);
+  return Number.isFinite(amount) ? Math.round(sign * amount * 100) / 100 : null;
+}
+
+function decodeStatement(content: Buffer): string {
+  const utf8 = content.toString('utf8');
+
+  // Bancos brasileiros ainda exportam OFX/CSV em Windows-1252
+  return utf8.includes('\uFFFD') ? content.toString('latin1') : utf8;
+}
+
+function readOfxTag(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match?.[1].trim() || null;
+}
+
+// "20250203", "20250203120000[-3:BRT]"
+function parseOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// "03/02/2025", "03/02/25" ou "2025-02-03"
+function parseCsvDate(value: string | undefined): string | null {
+  const text = value?.trim() ?? '';
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const br = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (!br) {
+    return null;
+  }
+
+  const year = br[3].length === 2 ? `20${br[3]}` : br[3];
+  return `${year}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`;
+}
+
+function detectDelimiter(headerRow: string): string {
+  return headerRow.includes(';') ? ';' : ',';
+}
+
+function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+
+    if (char === '"') {
+      if (quoted && row[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current);
+  return cells;
+}
+
+/**
+ * Linhas sem FITID ganham um hash estável. Lançamentos idênticos no mesmo
+ * arquivo (duas tarifas iguais no dia) são diferenciados pela ordem
+ */
+function withFingerprints(lines: ParsedStatementLine[]): ParsedStatementLine[] {
+  const seen = new Map<string, number>();
+
+  return lines.map((line) => {
+    const base =
+      line.fingerprint ||
+      createHash('sha1')
+        .update(
+          [
+            line.date,
+            line.amount.toFixed(2),
+            line.description,
+            line.reference,
+          ].join('|'),
+        )
+        .digest('hex');
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+
+    return {
+      ...line,
+      fingerprint: occurrence > 1 ? `${base}:${occurrence}` : base,
+    };
+  });
+}
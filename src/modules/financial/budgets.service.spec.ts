@@ -0,0 +1,286 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BudgetAlertLevel,
+  NotificationChannel,
+  NotificationType,
+  Prisma,
+  RecurrenceFrequency,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { BudgetsService } from './budgets.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('BudgetsService', () => {
+  let service: BudgetsService;
+  let prismaService: any;
+  let notificationsService: any;
+
+  const tenantId = 'tenant-123';
+
+  const budget = (overrides: Record<string, any> = {}) => ({
+    id: 'budget-1',
+    tenantId,
+    categoryId: 'category-rent',
+    locationId: null,
+    periodStart: new Date('2025-03-01T00:00:00.000Z'),
+    amount: new Prisma.Decimal(1000),
+    alertThreshold: 80,
+    alertLevel: null,
+    alertedAt: null,
+    category: { id: 'category-rent', name: 'Aluguel', color: null },
+    location: null,
+    tenant: { timezone: 'America/Sao_Paulo' },
+    ...overrides,
+  });
+
+  const spent = (
+    status: TransactionStatus,
+    amount: number,
+    overrides: Record<string, any> = {},
+  ) => ({
+    categoryId: 'category-rent',
+    locationId: null,
+    status,
+    _sum: { netAmount: new Prisma.Decimal(amount) },
+    ...overrides,
+  });
+
+  const recurring = (overrides: Record<string, any> = {}) => ({
+    id: 'recurring-1',
+    categoryId: 'category-rent',
+    locationId: null,
+    amount: new Prisma.Decimal(100),
+    frequency: RecurrenceFrequency.MONTHLY,
+    dayOfMonth: 20,
+    dayOfWeek: null,
+    startDate: new Date('2024-01-01T00:00:00.000Z'),
+    endDate: null,
+    lastGeneratedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      categoryBudget: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      financialCategory: {
+        findFirst: jest.fn(),
+      },
+      financialTransaction: {
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+      recurringExpense: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      tenant: {
+        findUnique: jest.fn().mockResolvedValue({ timezone: null }),
+      },
+      user: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'user-1' }]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BudgetsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: NotificationsService,
+          useValue: { sendNotification: jest.fn().mockResolvedValue({}) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BudgetsService>(BudgetsService);
+    prismaService = module.get(PrismaService);
+    notificationsService = module.get(NotificationsService);
+  });
+
+  describe('createBudget', () => {
+    it('should only accept expense categories', async () => {
+      prismaService.financialCategory.findFirst.mockResolvedValue({
+        id: 'category-sales',
+        type: TransactionType.INCOME,
+      });
+
+      await expect(
+        service.createBudget(tenantId, {
+          categoryId: 'category-sales',
+          month: '2025-03',
+          amount: 1000,
+        }),
+      ).rejects.toThrow('Orçamentos só podem ser definidos');
+    });
+
+    it('should reject a second company-wide budget for the same month', async () => {
+      prismaService.financialCategory.findFirst.mockResolvedValue({
+        id: 'category-rent',
+        type: TransactionType.EXPENSE,
+      });
+      prismaService.categoryBudget.findFirst.mockResolvedValue(budget());
+
+      await expect(
+        service.createBudget(tenantId, {
+          categoryId: 'category-rent',
+          month: '2025-03',
+          amount: 1000,
+        }),
+      ).rejects.toThrow('Já existe um orçamento');
+      expect(prismaService.categoryBudget.findFirst).toHaveBeenCalledWith({
+        where: {
+          tenantId,
+          categoryId: 'category-rent',
+          locationId: null,
+          periodStart: new Date('2025-03-01T00:00:00.000Z'),
+        },
+      });
+    });
+  });
+
+  describe('getBudgetReport', () => {
+    const now = new Date('2025-03-10T15:00:00.000Z');
+
+    it('should compare actual spend and project recurring expenses to month end', async () => {
+      prismaService.categoryBudget.findMany.mockResolvedValue([budget()]);
+      prismaService.financialTransaction.groupBy.mockResolvedValue([
+        spent(TransactionStatus.PAID, 550),
+        spent(TransactionStatus.PENDING, 150, { locationId: 'location-1' }),
+      ]);
+      prismaService.recurringExpense.findMany.mockResolvedValue([
+        // Mensal ainda não lançada no mês
+        recurring(),
+        // Mensal já lançada no mês
+        recurring({
+          id: 'recurring-2',
+          lastGeneratedAt: new Date('2025-03-05T12:00:00.000Z'),
+        }),
+        // Semanal às segundas: 17, 24 e 31 de março
+        recurring({
+          id: 'recurring-3',
+          amount: new Prisma.Decimal(10),
+          frequency: RecurrenceFrequency.WEEKLY,
+          dayOfWeek: 1,
+        }),
+        // Trimestral que só vence em abril
+        recurring({
+          id: 'recurring-4',
+          frequency: RecurrenceFrequency.QUARTERLY,
+          startDate: new Date('2025-01-01T00:00:00.000Z'),
+        }),
+      ]);
+
+      const result = await service.getBudgetReport(tenantId, {}, now);
+
+      expect(prismaService.categoryBudget.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            tenantId,
+            periodStart: new Date('2025-03-01T00:00:00.000Z'),
+            locationId: null,
+          },
+        }),
+      );
+      expect(result.budgets[0]).toMatchObject({
+        budgeted: 1000,
+        actual: 700,
+        paid: 550,
+        pending: 150,
+        variance: 300,
+        percentUsed: 70,
+        alertLevel: null,
+        recurringPending: 130,
+        projected: 830,
+        projectedVariance: 170,
+        projectedAlertLevel: BudgetAlertLevel.WARNING,
+      });
+      expect(result.totals).toMatchObject({ budgeted: 1000, projected: 830 });
+    });
+
+    it('should only count spend of the budget location', async () => {
+      prismaService.categoryBudget.findMany.mockResolvedValue([
+        budget({
+          locationId: 'location-1',
+          location: { id: 'location-1', name: 'Unidade Centro' },
+        }),
+      ]);
+      prismaService.financialTransaction.groupBy.mockResolvedValue([
+        spent(TransactionStatus.PAID, 500),
+        spent(TransactionStatus.PAID, 150, { locationId: 'location-1' }),
+      ]);
+      prismaService.recurringExpense.findMany.mockResolvedValue([
+        recurring({ locationId: 'location-1' }),
+      ]);
+
+      const result = await service.getBudgetReport(
+        tenantId,
+        { month: '2025-02', locationId: 'location-1' },
+        now,
+      );
+
+      expect(result.month).toBe('2025-02');
+      expect(result.budgets[0]).toMatchObject({
+        actual: 150,
+        // Mês encerrado: nada mais a projetar
+        projected: 150,
+      });
+    });
+  });
+
+  describe('checkBudgetAlerts', () => {
+    const now = new Date('2025-03-10T15:00:00.000Z');
+
+    it('should alert managers once per level crossed', async () => {
+      prismaService.categoryBudget.findMany.mockResolvedValue([
+        budget(),
+        budget({
+          id: 'budget-2',
+          categoryId: 'category-supplies',
+          category: { id: 'category-supplies', name: 'Insumos', color: null },
+          alertLevel: BudgetAlertLevel.WARNING,
+        }),
+      ]);
+      prismaService.financialTransaction.groupBy.mockResolvedValue([
+        spent(TransactionStatus.PAID, 850),
+        // Ainda em alerta, já avisado
+        spent(TransactionStatus.PAID, 900, { categoryId: 'category-supplies' }),
+      ]);
+
+      await expect(service.checkBudgetAlerts(now)).resolves.toBe(1);
+
+      expect(notificationsService.sendNotification).toHaveBeenCalledTimes(1);
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(
+        tenantId,
+        expect.objectContaining({
+          type: NotificationType.BUDGET_ALERT,
+          channel: NotificationChannel.EMAIL,
+          recipientId: 'user-1',
+          variables: expect.objectContaining({
+            categoria: 'Aluguel',
+            mes: '03/2025',
+            percentual: '85',
+          }),
+        }),
+        expect.any(Object),
+      );
+      expect(prismaService.categoryBudget.update).toHaveBeenCalledWith({
+        where: { id: 'budget-1' },
+        data: { alertLevel: BudgetAlertLevel.WARNING, alertedAt: now },
+      });
+    });
+
+    it('should ignore budgets of other months', async () => {
+      prismaService.categoryBudget.findMany.mockResolvedValue([
+        budget({ periodStart: new Date('2025-02-01T00:00:00.000Z') }),
+      ]);
+
+      await expect(service.checkBudgetAlerts(now)).resolves.toBe(0);
+      expect(prismaService.financialTransaction.groupBy).not.toHaveBeenCalled();
+    });
+  });
+});
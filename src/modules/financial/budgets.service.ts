@@ -0,0 +1,556 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BudgetAlertLevel,
+  CategoryBudget,
+  NotificationChannel,
+  NotificationType,
+  Prisma,
+  RecipientType,
+  RecurrenceFrequency,
+  RecurringExpense,
+  TransactionStatus,
+  TransactionType,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  addDays,
+  formatDateOnly,
+  getZonedToday,
+  parseDateOnly,
+  resolveTimezone,
+} from '../../common/utils/timezone.util';
+import { BudgetQueryDto, CreateBudgetDto, UpdateBudgetDto } from './dto';
+
+const ALERT_RANK: Record<BudgetAlertLevel, number> = {
+  [BudgetAlertLevel.WARNING]: 1,
+  [BudgetAlertLevel.EXCEEDED]: 2,
+};
+
+const ALERT_RECIPIENT_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.MANAGER];
+
+const DEFAULT_ALERT_CONTENT = `O orçamento de {{categoria}}{{unidade}} para {{mes}} {{situacao}}: {{realizado}} de {{orcamento}} ({{percentual}}%).`;
+
+const budgetInclude = {
+  category: { select: { id: true, name: true, color: true } },
+  location: { select: { id: true, name: true } },
+} as const;
+
+type BudgetWithRelations = Prisma.CategoryBudgetGetPayload<{
+  include: typeof budgetInclude;
+}>;
+
+@Injectable()
+export class BudgetsService {
+  private readonly logger = new Logger(BudgetsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  // ============================================================================
+  // BUDGETS - CRUD
+  // ============================================================================
+
+  async findBudgets(tenantId: string, query: BudgetQueryDto) {
+    const periodStart = await this.resolvePeriodStart(tenantId, query.month);
+
+    return this.prisma.categoryBudget.findMany({
+      where: {
+        tenantId,
+        periodStart,
+        ...(query.locationId && { locationId: query.locationId }),
+      },
+      include: budgetInclude,
+      orderBy: { category: { name: 'asc' } },
+    });
+  }
+
+  async findBudgetById(id: string, tenantId: string) {
+    const budget = await this.prisma.categoryBudget.findFirst({
+      where: { id, tenantId },
+      include: budgetInclude,
+    });
+
+    if (!budget) {
+      throw new NotFoundException('Orçamento não encontrado');
+    }
+
+    return budget;
+  }
+
+  async createBudget(tenantId: string, dto: CreateBudgetDto) {
+    const category = await this.prisma.financialCategory.findFirst({
+      where: { id: dto.categoryId, tenantId },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Categoria não encontrada');
+    }
+
+    if (category.type !== TransactionType.EXPENSE) {
+      throw new BadRequestException(
+        'Orçamentos só podem ser definidos para categorias de despesa',
+      );
+    }
+
+    if (dto.locationId) {
+      const location = await this.prisma.location.findFirst({
+        where: { id: dto.locationId, tenantId },
+      });
+      if (!location) {
+        throw new NotFoundException('Unidade não encontrada');
+      }
+    }
+
+    const periodStart = parseDateOnly(`${dto.month}-01`);
+
+    // O índice único não barra duplicidade com unidade nula
+    const existing = await this.prisma.categoryBudget.findFirst({
+      where: {
+        tenantId,
+        categoryId: dto.categoryId,
+        locationId: dto.locationId ?? null,
+        periodStart,
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'Já existe um orçamento para esta categoria e unidade no mês',
+      );
+    }
+
+    return this.prisma.categoryBudget.create({
+      data: {
+        tenantId,
+        categoryId: dto.categoryId,
+        locationId: dto.locationId,
+        periodStart,
+        amount: new Prisma.Decimal(dto.amount),
+        alertThreshold: dto.alertThreshold,
+        notes: dto.notes,
+      },
+      include: budgetInclude,
+    });
+  }
+
+  async updateBudget(id: string, tenantId: string, dto: UpdateBudgetDto) {
+    await this.findBudgetById(id, tenantId);
+
+    const limitChanged =
+      dto.amount !== undefined || dto.alertThreshold !== undefined;
+
+    return this.prisma.categoryBudget.update({
+      where: { id },
+      data: {
+        amount:
+          dto.amount !== undefined ? new Prisma.Decimal(dto.amount) : undefined,
+        alertThreshold: dto.alertThreshold,
+        notes: dto.notes,
+        // Novo limite: os alertas do mês voltam a valer
+        ...(limitChanged && { alertLevel: null, alertedAt: null }),
+      },
+      include: budgetInclude,
+    });
+  }
+
+  async deleteBudget(id: string, tenantId: string) {
+    await this.findBudgetById(id, tenantId);
+
+    await this.prisma.categoryBudget.delete({ where: { id } });
+    return { message: 'Orçamento removido com sucesso' };
+  }
+
+  // ============================================================================
+  // REPORT - Orçado x Realizado
+  // ============================================================================
+
+  /**
+   * Orçado x realizado do mês, com projeção até o fim do mês somando o que as
+   * despesas recorrentes ainda vão lançar
+   */
+  async getBudgetReport(
+    tenantId: string,
+    query: BudgetQueryDto,
+    now = new Date(),
+  ) {
+    const today = await this.getTenantToday(tenantId, now);
+    const periodStart = query.month
+      ? parseDateOnly(`${query.month}-01`)
+      : startOfMonth(today);
+    const periodEnd = addDays(addMonths(periodStart, 1), -1);
+
+    // Sem unidade, só os orçamentos da empresa toda (evita somar duas vezes)
+    const budgets = await this.prisma.categoryBudget.findMany({
+      where: { tenantId, periodStart, locationId: query.locationId ?? null },
+      include: budgetInclude,
+      orderBy: { category: { name: 'asc' } },
+    });
+
+    const rows = await this.computeBudgets(
+      tenantId,
+      budgets,
+      periodStart,
+      today,
+    );
+    const sum = (pick: (row: (typeof rows)[number]) => number) =>
+      round(rows.reduce((acc, row) => acc + pick(row), 0));
+
+    const budgeted = sum((row) => row.budgeted);
+    const actual = sum((row) => row.actual);
+    const projected = sum((row) => row.projected);
+
+    return {
+      month: formatDateOnly(periodStart).slice(0, 7),
+      period: { startDate: periodStart, endDate: periodEnd },
+      budgets: rows,
+      totals: {
+        budgeted,
+        actual,
+        paid: sum((row) => row.paid),
+        pending: sum((row) => row.pending),
+        variance: round(budgeted - actual),
+        recurringPending: sum((row) => row.recurringPending),
+        projected,
+        projectedVariance: round(budgeted - projected),
+        percentUsed: percentOf(actual, budgeted),
+      },
+    };
+  }
+
+  // ============================================================================
+  // ALERTS
+  // ============================================================================
+
+  /**
+   * Avisa gestores quando o realizado do mês passa do limite de alerta ou do
+   * orçamento. Cada nível é avisado uma vez por orçamento
+   */
+  async checkBudgetAlerts(now = new Date()): Promise<number> {
+    const utcMonth = startOfMonth(parseDateOnly(now));
+
+    // Margem de um mês para cobrir qualquer fuso; filtrado abaixo
+    const budgets = await this.prisma.categoryBudget.findMany({
+      where: {
+        periodStart: {
+          gte: addMonths(utcMonth, -1),
+          lte: addMonths(utcMonth, 1),
+        },
+        OR: [{ alertLevel: null }, { alertLevel: BudgetAlertLevel.WARNING }],
+      },
+      include: {
+        ...budgetInclude,
+        tenant: { select: { timezone: true } },
+      },
+    });
+
+    const byTenant = new Map<string, typeof budgets>();
+    for (const budget of budgets) {
+      byTenant.set(budget.tenantId, [
+        ...(byTenant.get(budget.tenantId) ?? []),
+        budget,
+      ]);
+    }
+
+    let alerted = 0;
+
+    for (const [tenantId, tenantBudgets] of byTenant) {
+      const today = getZonedToday(
+        resolveTimezone(tenantBudgets[0].tenant.timezone),
+        now,
+      );
+      const periodStart = startOfMonth(today);
+      const current = tenantBudgets.filter(
+        (budget) => budget.periodStart.getTime() === periodStart.getTime(),
+      );
+
+      if (current.length === 0) continue;
+
+      const rows = await this.computeBudgets(
+        tenantId,
+        current,
+        periodStart,
+        today,
+      );
+      const crossed = rows.filter((row, index) => {
+        const previous = current[index].alertLevel;
+        return (
+          row.alertLevel &&
+          (!previous || ALERT_RANK[row.alertLevel] > ALERT_RANK[previous])
+        );
+      });
+
+      if (crossed.length === 0) continue;
+
+      const recipients = await this.prisma.user.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+          role: { in: ALERT_RECIPIENT_ROLES },
+        },
+        select: { id: true },
+      });
+
+      for (const row of crossed) {
+        const exceeded = row.alertLevel === BudgetAlertLevel.EXCEEDED;
+
+        for (const recipient of recipients) {
+          try {
+            await this.notificationsService.sendNotification(
+              tenantId,
+              {
+                type: NotificationType.BUDGET_ALERT,
+                channel: NotificationChannel.EMAIL,
+                recipientType: RecipientType.USER,
+                recipientId: recipient.id,
+                variables: {
+                  categoria: row.category.name,
+                  unidade: row.location ? ` (${row.location.name})` : '',
+                  mes: formatMonth(periodStart),
+                  situacao: exceeded
+                    ? 'foi ultrapassado'
+                    : 'atingiu o limite de alerta',
+                  realizado: formatCurrency(row.actual),
+                  orcamento: formatCurrency(row.budgeted),
+                  percentual: String(row.percentUsed),
+                },
+              },
+              {
+                fallbackContent: DEFAULT_ALERT_CONTENT,
+                fallbackSubject: exceeded
+                  ? 'Orçamento ultrapassado'
+                  : 'Alerta de orçamento',
+              },
+            );
+          } catch (error) {
+            this.logger.error(
+              `Failed to send budget alert ${row.id} to user ${recipient.id}: ${error.message}`,
+            );
+          }
+        }
+
+        await this.prisma.categoryBudget.update({
+          where: { id: row.id },
+          data: { alertLevel: row.alertLevel, alertedAt: now },
+        });
+        alerted++;
+      }
+    }
+
+    return alerted;
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Realizado = despesas do mês não canceladas (pagas ou a pagar). Orçamento
+   * sem unidade soma a categoria em todas as unidades
+   */
+  private async computeBudgets(
+    tenantId: string,
+    budgets: BudgetWithRelations[],
+    periodStart: Date,
+    today: Date,
+  ) {
+    if (budgets.length === 0) return [];
+
+    const periodEnd = addDays(addMonths(periodStart, 1), -1);
+    const categoryIds = [...new Set(budgets.map((b) => b.categoryId))];
+
+    const [spent, recurring] = await Promise.all([
+      this.prisma.financialTransaction.groupBy({
+        by: ['categoryId', 'locationId', 'status'],
+        where: {
+          tenantId,
+          type: TransactionType.EXPENSE,
+          categoryId: { in: categoryIds },
+          status: { not: TransactionStatus.CANCELLED },
+          date: { gte: periodStart, lte: periodEnd },
+        },
+        _sum: { netAmount: true },
+      }),
+      this.prisma.recurringExpense.findMany({
+        where: { tenantId, isActive: true, categoryId: { in: categoryIds } },
+      }),
+    ]);
+
+    const inScope = (
+      budget: CategoryBudget,
+      item: { categoryId: string; locationId: string | null },
+    ) =>
+      item.categoryId === budget.categoryId &&
+      (!budget.locationId || item.locationId === budget.locationId);
+
+    return budgets.map((budget) => {
+      const rows = spent.filter((row) => inScope(budget, row));
+      const total = (statuses?: TransactionStatus[]) =>
+        round(
+          rows
+            .filter((row) => !statuses || statuses.includes(row.status))
+            .reduce(
+              (acc, row) => acc + (row._sum.netAmount?.toNumber() || 0),
+              0,
+            ),
+        );
+
+      const budgeted = budget.amount.toNumber();
+      const actual = total();
+      const recurringPending = round(
+        recurring
+          .filter((expense) => inScope(budget, expense))
+          .reduce(
+            (acc, expense) =>
+              acc +
+              expense.amount.toNumber() *
+                this.pendingOccurrences(expense, periodStart, periodEnd, today),
+            0,
+          ),
+      );
+      const projected = round(actual + recurringPending);
+
+      return {
+        id: budget.id,
+        category: budget.category,
+        location: budget.location,
+        alertThreshold: budget.alertThreshold,
+        budgeted,
+        actual,
+        paid: total([TransactionStatus.PAID]),
+        pending: total([TransactionStatus.PENDING, TransactionStatus.OVERDUE]),
+        // Orçado - realizado: negativo = estourou
+        variance: round(budgeted - actual),
+        percentUsed: percentOf(actual, budgeted),
+        alertLevel: this.getAlertLevel(budget, actual),
+        recurringPending,
+        projected,
+        projectedVariance: round(budgeted - projected),
+        projectedAlertLevel: this.getAlertLevel(budget, projected),
+      };
+    });
+  }
+
+  /**
+   * Quantos lançamentos a despesa recorrente ainda deve gerar no mês.
+   * Mensais, trimestrais e anuais contam uma vez se ainda não foram geradas
+   * no mês; semanais contam as semanas restantes a partir de amanhã
+   */
+  private pendingOccurrences(
+    expense: RecurringExpense,
+    periodStart: Date,
+    periodEnd: Date,
+    today: Date,
+  ): number {
+    if (today > periodEnd) return 0;
+
+    const activeOn = (day: Date) =>
+      day >= expense.startDate && (!expense.endDate || day <= expense.endDate);
+
+    if (expense.frequency === RecurrenceFrequency.WEEKLY) {
+      const weekday = expense.dayOfWeek ?? expense.startDate.getUTCDay();
+      let count = 0;
+
+      for (
+        let day = today >= periodStart ? addDays(today, 1) : periodStart;
+        day <= periodEnd;
+        day = addDays(day, 1)
+      ) {
+        if (day.getUTCDay() === weekday && activeOn(day)) count++;
+      }
+
+      return count;
+    }
+
+    if (expense.lastGeneratedAt && expense.lastGeneratedAt >= periodStart) {
+      return 0;
+    }
+
+    const monthsSinceStart =
+      (periodStart.getUTCFullYear() - expense.startDate.getUTCFullYear()) * 12 +
+      (periodStart.getUTCMonth() - expense.startDate.getUTCMonth());
+    const dueThisMonth =
+      expense.frequency === RecurrenceFrequency.MONTHLY ||
+      (expense.frequency === RecurrenceFrequency.QUARTERLY &&
+        monthsSinceStart % 3 === 0) ||
+      (expense.frequency === RecurrenceFrequency.YEARLY &&
+        monthsSinceStart % 12 === 0);
+
+    if (!dueThisMonth) return 0;
+
+    // Dia 31 em mês de 30 dias vence no último dia
+    const dueDay = Math.min(
+      expense.dayOfMonth ?? expense.startDate.getUTCDate(),
+      periodEnd.getUTCDate(),
+    );
+
+    return activeOn(addDays(periodStart, dueDay - 1)) ? 1 : 0;
+  }
+
+  private getAlertLevel(
+    budget: CategoryBudget,
+    spent: number,
+  ): BudgetAlertLevel | null {
+    const amount = budget.amount.toNumber();
+
+    if (spent >= amount) return BudgetAlertLevel.EXCEEDED;
+    if (spent >= (amount * budget.alertThreshold) / 100) {
+      return BudgetAlertLevel.WARNING;
+    }
+    return null;
+  }
+
+  private async resolvePeriodStart(tenantId: string, month?: string) {
+    return month
+      ? parseDateOnly(`${month}-01`)
+      : startOfMonth(await this.getTenantToday(tenantId));
+  }
+
+  private async getTenantToday(tenantId: string, now = new Date()) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    return getZonedToday(resolveTimezone(tenant?.timezone), now);
+  }
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1),
+  );
+}
+
+function formatMonth(periodStart: Date): string {
+  const [year, month] = formatDateOnly(periodStart).split('-');
+  return `${month}/${year}`;
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+}
+
+function percentOf(value: number, total: number): number {
+  return total > 0 ? Math.round((value / total) * 1000) / 10 : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  CommissionRuleType,
+  CommissionStatus,
+  PaymentMethodType,
+  Prisma,
+} from '@prisma/client';
+import { CommissionRulesService } from './commission-rules.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('CommissionRulesService', () => {
+  let service: CommissionRulesService;
+  let prismaService: any;
+
+  const tenantId = 'tenant-123';
+
+  const rule = (overrides: Record<string, any> = {}) => ({
+    id: 'rule-default',
+    tenantId,
+    providerId: 'provider-1',
+    serviceId: null,
+    type: CommissionRuleType.PERCENTAGE,
+    percentage: new Prisma.Decimal(40),
+    fixedAmount: null,
+    deductProductCost: false,
+    deductCardFees: false,
+    isActive: true,
+    tiers: [],
+    ...overrides,
+  });
+
+  const input = {
+    tenantId,
+    providerId: 'provider-1',
+    serviceId: 'service-1',
+    grossAmount: new Prisma.Decimal(200),
+    referenceDate: new Date('2025-02-04T00:00:00.000Z'),
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      providerCommissionConfig: {
+        findMany: jest.fn().mockResolvedValue([rule()]),
+      },
+      serviceProduct: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            { quantity: 2, product: { costPrice: new Prisma.Decimal(10) } },
+          ]),
+      },
+      paymentMethod: {
+        findUnique: jest.fn().mockResolvedValue({
+          type: PaymentMethodType.CREDIT_CARD,
+          feePercentage: new Prisma.Decimal(5),
+        }),
+      },
+      financialTransaction: {
+        aggregate: jest
+          .fn()
+          .mockResolvedValue({ _sum: { netAmount: new Prisma.Decimal(9000) } }),
+      },
+      clientPackageUsage: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            quantity: 2,
+            clientPackageItem: { unitPrice: new Prisma.Decimal(600) },
+          },
+        ]),
+        findFirst: jest.fn(),
+      },
+      commission: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'c-1', ...data })),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommissionRulesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<CommissionRulesService>(CommissionRulesService);
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('calculate', () => {
+    it('should prefer the service rule over the provider default', async () => {
+      prismaService.providerCommissionConfig.findMany.mockResolvedValue([
+        rule(),
+        rule({
+          id: 'rule-service',
+          serviceId: 'service-1',
+          percentage: new Prisma.Decimal(50),
+        }),
+      ]);
+
+      const result = await service.calculate(input);
+
+      expect(result?.configId).toBe('rule-service');
+      expect(result?.breakdown.ruleScope).toBe('PROVIDER_SERVICE');
+      expect(result?.amount.toNumber()).toBe(100);
+    });
+
+    it('should return null without an active rule', async () => {
+      prismaService.providerCommissionConfig.findMany.mockResolvedValue([]);
+
+      await expect(service.calculate(input)).resolves.toBeNull();
+    });
+
+    it('should deduct product cost and card fee before the percentage', async () => {
+      prismaService.providerCommissionConfig.findMany.mockResolvedValue([
+        rule({ deductProductCost: true, deductCardFees: true }),
+      ]);
+
+      const result = await service.calculate({
+        ...input,
+        paymentMethodId: 'method-1',
+      });
+
+      // 200 - 20 (produtos) - 10 (taxa de 5%) = 170 x 40%
+      expect(result?.breakdown).toMatchObject({
+        grossAmount: 200,
+        productCost: 20,
+        cardFee: 10,
+        baseAmount: 170,
+        percentage: 40,
+        amount: 68,
+      });
+    });
+
+    it('should multiply a fixed amount by the quantity', async () => {
+      prismaService.providerCommissionConfig.findMany.mockResolvedValue([
+        rule({
+          type: CommissionRuleType.FIXED,
+          percentage: null,
+          fixedAmount: new Prisma.Decimal(35),
+        }),
+      ]);
+
+      const result = await service.calculate({ ...input, quantity: 2 });
+
+      expect(result?.percentage).toBeNull();
+      expect(result?.amount.toNumber()).toBe(70);
+    });
+
+    it('should pick the tier of the monthly revenue', async () => {
+      prismaService.providerCommissionConfig.findMany.mockResolvedValue([
+        rule({
+          type: CommissionRuleType.TIERED,
+          percentage: null,
+          tiers: [
+            {
+              minRevenue: new Prisma.Decimal(0),
+              percentage: new Prisma.Decimal(30),
+            },
+            {
+              minRevenue: new Prisma.Decimal(10000),
+              percentage: new Prisma.Decimal(40),
+            },
+            {
+              minRevenue: new Prisma.Decimal(20000),
+              percentage: new Prisma.Decimal(50),
+            },
+          ],
+        }),
+      ]);
+
+      const result = await service.calculate(input);
+
+      // 9000 em receitas + 2 x 600 em pacotes = 10200
+      expect(result?.breakdown).toMatchObject({
+        monthlyRevenue: 10200,
+        tierMinRevenue: 10000,
+        percentage: 40,
+        amount: 80,
+      });
+      expect(prismaService.financialTransaction.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            date: {
+              gte: new Date('2025-02-01T00:00:00.000Z'),
+              lt: new Date('2025-03-01T00:00:00.000Z'),
+            },
+          }),
+        }),
+      );
+    });
+  });
+
+  describe('generateForPackageUsage', () => {
+    it('should create a commission linked to the usage', async () => {
+      prismaService.clientPackageUsage.findFirst.mockResolvedValue({
+        id: 'usage-1',
+        providerId: 'provider-1',
+        quantity: 1,
+        usedAt: new Date('2025-02-04T15:00:00.000Z'),
+        commission: null,
+        clientPackageItem: {
+          serviceId: 'service-1',
+          unitPrice: new Prisma.Decimal(150),
+        },
+      });
+
+      await service.generateForPackageUsage(tenantId, 'usage-1');
+
+      expect(prismaService.commission.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          clientPackageUsageId: 'usage-1',
+          providerId: 'provider-1',
+          configId: 'rule-default',
+          status: CommissionStatus.PENDING,
+        }),
+      });
+      const { data } = prismaService.commission.create.mock.calls[0][0];
+      expect(data.amount.toNumber()).toBe(60);
+    });
+  });
+});
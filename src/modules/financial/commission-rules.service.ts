@@ -0,0 +1,432 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  CommissionRuleType,
+  CommissionStatus,
+  PackageUsageStatus,
+  PaymentMethodType,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+
+const CARD_PAYMENT_TYPES: PaymentMethodType[] = [
+  PaymentMethodType.CREDIT_CARD,
+  PaymentMethodType.DEBIT_CARD,
+];
+
+const ruleInclude = {
+  tiers: { orderBy: { minRevenue: 'asc' } },
+} as const;
+
+type CommissionRule = Prisma.ProviderCommissionConfigGetPayload<{
+  include: typeof ruleInclude;
+}>;
+
+export type CommissionRuleScope = 'PROVIDER_SERVICE' | 'PROVIDER';
+
+export interface CommissionInput {
+  tenantId: string;
+  providerId: string;
+  serviceId?: string | null;
+  grossAmount: Decimal; // Valor cobrado pelo atendimento
+  quantity?: number; // Execuções do serviço (uso de pacote)
+  referenceDate: Date; // Define o mês usado nas faixas
+  paymentMethodId?: string | null;
+}
+
+/**
+ * Memória de cálculo gravada em Commission.breakdown
+ */
+export interface CommissionBreakdown {
+  ruleId: string;
+  ruleScope: CommissionRuleScope;
+  ruleType: CommissionRuleType;
+  grossAmount: number;
+  productCost: number;
+  cardFee: number;
+  baseAmount: number;
+  monthlyRevenue: number | null;
+  tierMinRevenue: number | null;
+  percentage: number | null;
+  fixedAmount: number | null;
+  amount: number;
+  steps: string[];
+}
+
+export interface CommissionCalculation {
+  configId: string;
+  baseAmount: Decimal;
+  percentage: Decimal | null;
+  amount: Decimal;
+  breakdown: CommissionBreakdown;
+}
+
+/**
+ * Motor de regras de comissão.
+ *
+ * Precedência: regra do profissional para o serviço > regra padrão do
+ * profissional (serviceId null). Sem regra ativa, não há comissão.
+ * Deduções (custo de produtos, taxa do cartão) são aplicadas sobre o
+ * valor bruto antes do percentual
+ */
+@Injectable()
+export class CommissionRulesService {
+  constructor(private prisma: PrismaService) {}
+
+  // ============================================================================
+  // CÁLCULO
+  // ============================================================================
+
+  async calculate(
+    input: CommissionInput,
+  ): Promise<CommissionCalculation | null> {
+    const match = await this.findRule(
+      input.tenantId,
+      input.providerId,
+      input.serviceId,
+    );
+    if (!match) return null;
+
+    const { rule, scope } = match;
+    const quantity = input.quantity ?? 1;
+    const steps: string[] = [
+      scope === 'PROVIDER_SERVICE'
+        ? 'Regra específica do profissional para o serviço'
+        : 'Regra padrão do profissional',
+      `Valor bruto: ${this.formatMoney(input.grossAmount)}`,
+    ];
+
+    let productCost = new Decimal(0);
+    if (rule.deductProductCost && input.serviceId) {
+      productCost = (await this.getProductCost(input.serviceId)).times(
+        quantity,
+      );
+      steps.push(`Custo de produtos: -${this.formatMoney(productCost)}`);
+    }
+
+    let cardFee = new Decimal(0);
+    if (rule.deductCardFees && input.paymentMethodId) {
+      const method = await this.prisma.paymentMethod.findUnique({
+        where: { id: input.paymentMethodId },
+      });
+      if (method?.feePercentage && CARD_PAYMENT_TYPES.includes(method.type)) {
+        cardFee = input.grossAmount
+          .times(method.feePercentage)
+          .dividedBy(100)
+          .toDecimalPlaces(2);
+        steps.push(
+          `Taxa do cartão (${method.feePercentage.toString()}%): -${this.formatMoney(cardFee)}`,
+        );
+      }
+    }
+
+    const baseAmount = Decimal.max(
+      input.grossAmount.minus(productCost).minus(cardFee),
+      0,
+    );
+    steps.push(`Base de cálculo: ${this.formatMoney(baseAmount)}`);
+
+    let percentage: Decimal | null = null;
+    let amount: Decimal;
+    let monthlyRevenue: Decimal | null = null;
+    let tierMinRevenue: Decimal | null = null;
+
+    switch (rule.type) {
+      case CommissionRuleType.FIXED: {
+        amount = (rule.fixedAmount ?? new Decimal(0)).times(quantity);
+        steps.push(
+          `Valor fixo: ${this.formatMoney(rule.fixedAmount ?? 0)} x ${quantity}`,
+        );
+        break;
+      }
+      case CommissionRuleType.TIERED: {
+        monthlyRevenue = await this.getMonthlyRevenue(
+          input.tenantId,
+          input.providerId,
+          input.referenceDate,
+        );
+        const tier = [...rule.tiers]
+          .reverse()
+          .find((t) => monthlyRevenue!.gte(t.minRevenue));
+
+        tierMinRevenue = tier?.minRevenue ?? null;
+        percentage = tier?.percentage ?? rule.percentage ?? new Decimal(0);
+        amount = baseAmount.times(percentage).dividedBy(100);
+        steps.push(
+          tier
+            ? `Faturamento do mês ${this.formatMoney(monthlyRevenue)} na faixa a partir de ${this.formatMoney(tier.minRevenue)}: ${percentage.toString()}%`
+            : `Faturamento do mês ${this.formatMoney(monthlyRevenue)} abaixo das faixas: ${percentage.toString()}%`,
+        );
+        break;
+      }
+      default: {
+        percentage = rule.percentage ?? new Decimal(0);
+        amount = baseAmount.times(percentage).dividedBy(100);
+        steps.push(`Percentual: ${percentage.toString()}%`);
+      }
+    }
+
+    amount = amount.toDecimalPlaces(2);
+    steps.push(`Comissão: ${this.formatMoney(amount)}`);
+
+    return {
+      configId: rule.id,
+      baseAmount,
+      percentage,
+      amount,
+      breakdown: {
+        ruleId: rule.id,
+        ruleScope: scope,
+        ruleType: rule.type,
+        grossAmount: input.grossAmount.toNumber(),
+        productCost: productCost.toNumber(),
+        cardFee: cardFee.toNumber(),
+        baseAmount: baseAmount.toNumber(),
+        monthlyRevenue: monthlyRevenue?.toNumber() ?? null,
+        tierMinRevenue: tierMinRevenue?.toNumber() ?? null,
+        percentage: percentage?.toNumber() ?? null,
+        fixedAmount: rule.fixedAmount?.toNumber() ?? null,
+        amount: amount.toNumber(),
+        steps,
+      },
+    };
+  }
+
+  // ============================================================================
+  // GERAÇÃO
+  // ============================================================================
+
+  /**
+   * Gera a comissão de uma receita vinculada a um profissional.
+   * Não duplica se a transação já tiver comissão ativa
+   */
+  async generateForTransaction(tenantId: string, transactionId: string) {
+    const existing = await this.prisma.commission.findFirst({
+      where: {
+        transactionId,
+        status: { not: CommissionStatus.CANCELLED },
+      },
+    });
+    if (existing) return existing;
+
+    const transaction = await this.prisma.financialTransaction.findFirst({
+      where: { id: transactionId, tenantId, type: TransactionType.INCOME },
+      include: { appointment: { select: { serviceId: true } } },
+    });
+    if (!transaction?.providerId) return null;
+
+    const calculation = await this.calculate({
+      tenantId,
+      providerId: transaction.providerId,
+      serviceId: transaction.appointment?.serviceId,
+      grossAmount: transaction.netAmount,
+      referenceDate: transaction.date,
+      paymentMethodId: transaction.paymentMethodId,
+    });
+    if (!calculation) return null;
+
+    return this.prisma.commission.create({
+      data: {
+        tenantId,
+        transactionId,
+        providerId: transaction.providerId,
+        ...this.toCommissionData(calculation),
+        status: CommissionStatus.PENDING,
+      },
+    });
+  }
+
+  /**
+   * Recalcula comissões pendentes da transação (ex.: forma de pagamento
+   * definida na baixa, que altera a taxa do cartão). Comissões já
+   * fechadas em folha não são alteradas
+   */
+  async recalculateForTransaction(tenantId: string, transactionId: string) {
+    const commissions = await this.prisma.commission.findMany({
+      where: {
+        tenantId,
+        transactionId,
+        status: CommissionStatus.PENDING,
+        payrollPeriodId: null,
+      },
+      include: {
+        transaction: {
+          include: { appointment: { select: { serviceId: true } } },
+        },
+      },
+    });
+
+    for (const commission of commissions) {
+      const transaction = commission.transaction!;
+      const calculation = await this.calculate({
+        tenantId,
+        providerId: commission.providerId,
+        serviceId: transaction.appointment?.serviceId,
+        grossAmount: transaction.netAmount,
+        referenceDate: transaction.date,
+        paymentMethodId: transaction.paymentMethodId,
+      });
+      if (!calculation) continue;
+
+      await this.prisma.commission.update({
+        where: { id: commission.id },
+        data: this.toCommissionData(calculation),
+      });
+    }
+  }
+
+  /**
+   * Gera a comissão do profissional que executou um serviço de pacote.
+   * A base é o valor unitário do serviço no pacote
+   */
+  async generateForPackageUsage(tenantId: string, usageId: string) {
+    const usage = await this.prisma.clientPackageUsage.findFirst({
+      where: { id: usageId, clientPackage: { tenantId } },
+      include: { clientPackageItem: true, commission: true },
+    });
+    if (!usage?.providerId) return null;
+    if (usage.commission) return usage.commission;
+
+    const calculation = await this.calculate({
+      tenantId,
+      providerId: usage.providerId,
+      serviceId: usage.clientPackageItem.serviceId,
+      grossAmount: usage.clientPackageItem.unitPrice.times(usage.quantity),
+      quantity: usage.quantity,
+      referenceDate: usage.usedAt,
+    });
+    if (!calculation) return null;
+
+    return this.prisma.commission.create({
+      data: {
+        tenantId,
+        clientPackageUsageId: usage.id,
+        providerId: usage.providerId,
+        ...this.toCommissionData(calculation),
+        status: CommissionStatus.PENDING,
+      },
+    });
+  }
+
+  async cancelForPackageUsage(tenantId: string, usageId: string) {
+    await this.prisma.commission.updateMany({
+      where: {
+        tenantId,
+        clientPackageUsageId: usageId,
+        status: CommissionStatus.PENDING,
+        payrollPeriodId: null,
+      },
+      data: { status: CommissionStatus.CANCELLED },
+    });
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async findRule(
+    tenantId: string,
+    providerId: string,
+    serviceId?: string | null,
+  ): Promise<{ rule: CommissionRule; scope: CommissionRuleScope } | null> {
+    const rules = await this.prisma.providerCommissionConfig.findMany({
+      where: {
+        tenantId,
+        providerId,
+        isActive: true,
+        OR: [{ serviceId: serviceId ?? null }, { serviceId: null }],
+      },
+      include: ruleInclude,
+    });
+
+    const serviceRule = serviceId
+      ? rules.find((r) => r.serviceId === serviceId)
+      : undefined;
+    if (serviceRule) return { rule: serviceRule, scope: 'PROVIDER_SERVICE' };
+
+    const defaultRule = rules.find((r) => r.serviceId === null);
+    return defaultRule ? { rule: defaultRule, scope: 'PROVIDER' } : null;
+  }
+
+  /**
+   * Custo dos produtos consumidos em uma execução do serviço
+   */
+  private async getProductCost(serviceId: string): Promise<Decimal> {
+    const products = await this.prisma.serviceProduct.findMany({
+      where: { serviceId },
+      include: { product: { select: { costPrice: true } } },
+    });
+
+    return products.reduce(
+      (sum, sp) => sum.plus(sp.product.costPrice.times(sp.quantity)),
+      new Decimal(0),
+    );
+  }
+
+  /**
+   * Faturamento do profissional no mês: receitas não canceladas vinculadas
+   * a ele e serviços de pacote que executou
+   */
+  private async getMonthlyRevenue(
+    tenantId: string,
+    providerId: string,
+    referenceDate: Date,
+  ): Promise<Decimal> {
+    const start = new Date(
+      Date.UTC(referenceDate.getUTCFullYear(), referenceDate.getUTCMonth(), 1),
+    );
+    const end = new Date(
+      Date.UTC(
+        referenceDate.getUTCFullYear(),
+        referenceDate.getUTCMonth() + 1,
+        1,
+      ),
+    );
+
+    const [transactions, usages] = await Promise.all([
+      this.prisma.financialTransaction.aggregate({
+        where: {
+          tenantId,
+          providerId,
+          type: TransactionType.INCOME,
+          status: { not: TransactionStatus.CANCELLED },
+          date: { gte: start, lt: end },
+        },
+        _sum: { netAmount: true },
+      }),
+      this.prisma.clientPackageUsage.findMany({
+        where: {
+          providerId,
+          status: PackageUsageStatus.USED,
+          usedAt: { gte: start, lt: end },
+          clientPackage: { tenantId },
+        },
+        select: {
+          quantity: true,
+          clientPackageItem: { select: { unitPrice: true } },
+        },
+      }),
+    ]);
+
+    return usages.reduce(
+      (sum, u) => sum.plus(u.clientPackageItem.unitPrice.times(u.quantity)),
+      transactions._sum.netAmount ?? new Decimal(0),
+    );
+  }
+
+  private toCommissionData(calculation: CommissionCalculation) {
+    return {
+      configId: calculation.configId,
+      baseAmount: calculation.baseAmount,
+      percentage: calculation.percentage,
+      amount: calculation.amount,
+      breakdown: calculation.breakdown as unknown as Prisma.InputJsonValue,
+    };
+  }
+
+  private formatMoney(value: Decimal | number): string {
+    return `R$ ${new Decimal(value).toFixed(2)}`;
+  }
+}
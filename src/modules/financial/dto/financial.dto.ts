@@ -8,15 +8,20 @@ import {
   IsNumber,
   IsDateString,
   IsInt,
+  IsArray,
+  ValidateNested,
   Min,
   Max,
+  Matches,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import {
   TransactionType,
   TransactionStatus,
   PaymentMethodType,
   RecurrenceFrequency,
   ExpenseType,
+  CommissionRuleType,
 } from '@prisma/client';
 
 // ============================================================================
@@ -69,6 +74,12 @@ export class CreatePaymentMethodDto {
 
   @IsEnum(PaymentMethodType, { message: 'Tipo inválido' })
   type: PaymentMethodType;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  feePercentage?: number;
 }
 
 export class UpdatePaymentMethodDto {
@@ -80,6 +91,12 @@ export class UpdatePaymentMethodDto {
   @IsOptional()
   type?: PaymentMethodType;
 
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  feePercentage?: number;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -145,6 +162,10 @@ export class CreateTransactionDto {
   @IsOptional()
   providerId?: string;
 
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
+
   @IsBoolean()
   @IsOptional()
   isRecurring?: boolean;
@@ -196,6 +217,10 @@ export class UpdateTransactionDto {
   @IsEnum(TransactionStatus, { message: 'Status inválido' })
   @IsOptional()
   status?: TransactionStatus;
+
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
 }
 
 export class PayTransactionDto {
@@ -212,6 +237,17 @@ export class PayTransactionDto {
 // DTOs para Commission
 // ============================================================================
 
+export class CommissionTierDto {
+  @IsNumber({}, { message: 'Faturamento mínimo deve ser um número' })
+  @Min(0)
+  minRevenue: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage: number;
+}
+
 export class CreateCommissionConfigDto {
   @IsUUID('4', { message: 'ID do profissional inválido' })
   @IsNotEmpty({ message: 'Profissional é obrigatório' })
@@ -221,19 +257,66 @@ export class CreateCommissionConfigDto {
   @IsOptional()
   serviceId?: string;
 
+  @IsEnum(CommissionRuleType, { message: 'Tipo de comissão inválido' })
+  @IsOptional()
+  type?: CommissionRuleType;
+
   @IsNumber()
   @Min(0)
   @Max(100)
-  percentage: number;
+  @IsOptional()
+  percentage?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  fixedAmount?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  deductProductCost?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  deductCardFees?: boolean;
+
+  @ValidateNested({ each: true })
+  @Type(() => CommissionTierDto)
+  @IsArray()
+  @IsOptional()
+  tiers?: CommissionTierDto[];
 }
 
 export class UpdateCommissionConfigDto {
+  @IsEnum(CommissionRuleType, { message: 'Tipo de comissão inválido' })
+  @IsOptional()
+  type?: CommissionRuleType;
+
   @IsNumber()
   @Min(0)
   @Max(100)
   @IsOptional()
   percentage?: number;
 
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  fixedAmount?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  deductProductCost?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  deductCardFees?: boolean;
+
+  @ValidateNested({ each: true })
+  @Type(() => CommissionTierDto)
+  @IsArray()
+  @IsOptional()
+  tiers?: CommissionTierDto[];
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -278,6 +361,10 @@ export class QueryTransactionsDto {
   @IsOptional()
   providerId?: string;
 
+  @IsUUID('4')
+  @IsOptional()
+  locationId?: string;
+
   @IsInt()
   @Min(1)
   @IsOptional()
@@ -363,6 +450,10 @@ export class CreateRecurringExpenseDto {
   @IsDateString({}, { message: 'Data de fim inválida' })
   @IsOptional()
   endDate?: string;
+
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
 }
 
 export class UpdateRecurringExpenseDto {
@@ -407,6 +498,10 @@ export class UpdateRecurringExpenseDto {
   @IsOptional()
   endDate?: string;
 
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -426,6 +521,94 @@ export class QueryRecurringExpensesDto {
   isActive?: boolean;
 }
 
+// ============================================================================
+// DTOs para Conciliação Bancária
+// ============================================================================
+
+export class MatchStatementLineDto {
+  @IsUUID('4', { message: 'ID da transação inválido' })
+  @IsNotEmpty({ message: 'Transação é obrigatória' })
+  transactionId: string;
+}
+
+export class CreateTransactionFromLineDto {
+  // Sem categoria, usa a aprendida para descrições parecidas
+  @IsUUID('4', { message: 'ID da categoria inválido' })
+  @IsOptional()
+  categoryId?: string;
+
+  @IsUUID('4', { message: 'ID do método de pagamento inválido' })
+  @IsOptional()
+  paymentMethodId?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+// ============================================================================
+// DTOs para Orçamentos por Categoria
+// ============================================================================
+
+const MONTH_FORMAT = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export class CreateBudgetDto {
+  @IsUUID('4', { message: 'ID da categoria inválido' })
+  @IsNotEmpty({ message: 'Categoria é obrigatória' })
+  categoryId: string;
+
+  // Sem unidade, o orçamento vale para a empresa toda
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
+
+  @Matches(MONTH_FORMAT, { message: 'Mês deve estar no formato AAAA-MM' })
+  month: string;
+
+  @IsNumber({}, { message: 'Valor deve ser um número' })
+  @Min(0.01, { message: 'Valor deve ser maior que zero' })
+  amount: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  alertThreshold?: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class UpdateBudgetDto {
+  @IsNumber({}, { message: 'Valor deve ser um número' })
+  @Min(0.01, { message: 'Valor deve ser maior que zero' })
+  @IsOptional()
+  amount?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  alertThreshold?: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class BudgetQueryDto {
+  // Padrão: mês atual
+  @Matches(MONTH_FORMAT, { message: 'Mês deve estar no formato AAAA-MM' })
+  @IsOptional()
+  month?: string;
+
+  // No relatório, sem unidade = orçamentos da empresa toda
+  @IsUUID('4')
+  @IsOptional()
+  locationId?: string;
+}
+
 // ============================================================================
 // DTOs para DRE (Demonstração do Resultado do Exercício)
 // ============================================================================
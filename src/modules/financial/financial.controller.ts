@@ -8,9 +8,15 @@ import {
   Param,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { FinancialService } from './financial.service';
+import { BankReconciliationService } from './bank-reconciliation.service';
+import { BudgetsService } from './budgets.service';
 import {
   CreateCategoryDto,
   UpdateCategoryDto,
@@ -29,6 +35,11 @@ import {
   UpdateRecurringExpenseDto,
   QueryRecurringExpensesDto,
   DREQueryDto,
+  MatchStatementLineDto,
+  CreateTransactionFromLineDto,
+  CreateBudgetDto,
+  UpdateBudgetDto,
+  BudgetQueryDto,
 } from './dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../../common/guards/permissions.guard';
@@ -43,7 +54,11 @@ import { TransactionType } from '@prisma/client';
 @Controller('financial')
 @UseGuards(JwtAuthGuard, PermissionsGuard)
 export class FinancialController {
-  constructor(private financialService: FinancialService) {}
+  constructor(
+    private financialService: FinancialService,
+    private bankReconciliation: BankReconciliationService,
+    private budgetsService: BudgetsService,
+  ) {}
 
   // ============================================================================
   // CATEGORIES
@@ -392,6 +407,65 @@ export class FinancialController {
     return this.financialService.getExpensesSummary(user.tenantId, query);
   }
 
+  // ============================================================================
+  // BUDGETS - Orçado x Realizado
+  // ============================================================================
+
+  @Get('budgets')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async findBudgets(
+    @Query() query: BudgetQueryDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.budgetsService.findBudgets(user.tenantId, query);
+  }
+
+  @Get('budgets/report')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async getBudgetReport(
+    @Query() query: BudgetQueryDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.budgetsService.getBudgetReport(user.tenantId, query);
+  }
+
+  @Get('budgets/:id')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async findBudgetById(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.budgetsService.findBudgetById(id, user.tenantId);
+  }
+
+  @Post('budgets')
+  @RequirePermissions(Permission.FINANCIAL_CREATE)
+  async createBudget(
+    @Body() dto: CreateBudgetDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.budgetsService.createBudget(user.tenantId, dto);
+  }
+
+  @Patch('budgets/:id')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async updateBudget(
+    @Param('id') id: string,
+    @Body() dto: UpdateBudgetDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.budgetsService.updateBudget(id, user.tenantId, dto);
+  }
+
+  @Delete('budgets/:id')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async deleteBudget(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.budgetsService.deleteBudget(id, user.tenantId);
+  }
+
   // ============================================================================
   // DRE - Demonstração do Resultado do Exercício
   // ============================================================================
@@ -413,4 +487,95 @@ export class FinancialController {
   ) {
     return this.financialService.getCashFlow(user.tenantId, query);
   }
+
+  // ============================================================================
+  // BANK STATEMENTS - Conciliação Bancária
+  // ============================================================================
+
+  @Post('bank-statements/import')
+  @RequirePermissions(Permission.FINANCIAL_CREATE)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      fileFilter: (req, file, callback) => {
+        if (!/\.(ofx|qfx|csv|txt)$/i.test(file.originalname)) {
+          return callback(
+            new BadRequestException('Envie um extrato em OFX ou CSV'),
+            false,
+          );
+        }
+        callback(null, true);
+      },
+      limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB
+      },
+    }),
+  )
+  async importBankStatement(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Arquivo não enviado');
+    }
+
+    return this.bankReconciliation.importStatement(
+      user.tenantId,
+      file,
+      user.id,
+    );
+  }
+
+  @Get('bank-statements')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async findBankStatements(@CurrentUser() user: CurrentUserData) {
+    return this.bankReconciliation.findImports(user.tenantId);
+  }
+
+  @Get('bank-statements/:id')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async findBankStatementById(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.bankReconciliation.findImportById(id, user.tenantId);
+  }
+
+  @Post('bank-statements/lines/:lineId/match')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async matchStatementLine(
+    @Param('lineId') lineId: string,
+    @Body() dto: MatchStatementLineDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.bankReconciliation.matchLine(
+      lineId,
+      user.tenantId,
+      dto.transactionId,
+      user.id,
+    );
+  }
+
+  @Post('bank-statements/lines/:lineId/create-transaction')
+  @RequirePermissions(Permission.FINANCIAL_CREATE)
+  async createTransactionFromStatementLine(
+    @Param('lineId') lineId: string,
+    @Body() dto: CreateTransactionFromLineDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.bankReconciliation.createTransactionFromLine(
+      lineId,
+      user.tenantId,
+      dto,
+      user.id,
+    );
+  }
+
+  @Post('bank-statements/lines/:lineId/ignore')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async ignoreStatementLine(
+    @Param('lineId') lineId: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.bankReconciliation.ignoreLine(lineId, user.tenantId, user.id);
+  }
 }
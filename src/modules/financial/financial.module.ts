@@ -1,10 +1,28 @@
 import { Module } from '@nestjs/common';
 import { FinancialController } from './financial.controller';
 import { FinancialService } from './financial.service';
+import { CommissionRulesService } from './commission-rules.service';
+import { BankReconciliationService } from './bank-reconciliation.service';
+import { BudgetsService } from './budgets.service';
+import { FinancialScheduler } from './financial.scheduler';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { NfseModule } from '../nfse/nfse.module';
 
 @Module({
+  imports: [NotificationsModule, NfseModule],
   controllers: [FinancialController],
-  providers: [FinancialService],
-  exports: [FinancialService],
+  providers: [
+    FinancialService,
+    CommissionRulesService,
+    BankReconciliationService,
+    BudgetsService,
+    FinancialScheduler,
+  ],
+  exports: [
+    FinancialService,
+    CommissionRulesService,
+    BankReconciliationService,
+    BudgetsService,
+  ],
 })
 export class FinancialModule {}
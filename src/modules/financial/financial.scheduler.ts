@@ -0,0 +1,49 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
+import { BudgetsService } from './budgets.service';
+import { FinancialService } from './financial.service';
+
+@Injectable()
+export class FinancialScheduler implements OnModuleInit {
+  private readonly logger = new Logger(FinancialScheduler.name);
+
+  constructor(
+    private readonly budgetsService: BudgetsService,
+    private readonly financialService: FinancialService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Lança as despesas recorrentes do dia, tenant a tenant
+    this.maintenance.register(
+      MAINTENANCE_JOBS.GENERATE_RECURRING_TRANSACTIONS,
+      (tenantId) => this.handleRecurringTransactions(tenantId!),
+    );
+    // Categorias que passaram do limite de alerta ou do orçamento do mês
+    this.maintenance.register(MAINTENANCE_JOBS.CHECK_BUDGET_ALERTS, () =>
+      this.handleBudgetAlerts(),
+    );
+  }
+
+  async handleRecurringTransactions(tenantId: string) {
+    const { count } =
+      await this.financialService.generateRecurringTransactions(tenantId);
+
+    if (count > 0) {
+      this.logger.log(`${count} despesa(s) recorrente(s) lançada(s)`);
+    }
+
+    return count;
+  }
+
+  async handleBudgetAlerts() {
+    const count = await this.budgetsService.checkBudgetAlerts();
+
+    if (count > 0) {
+      this.logger.log(`${count} alerta(s) de orçamento enviado(s)`);
+    }
+
+    return count;
+  }
+}
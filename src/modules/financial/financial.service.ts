@@ -26,13 +26,23 @@ import {
   QueryRecurringExpensesDto,
   DREQueryDto,
 } from './dto';
-import { TransactionType, TransactionStatus, CommissionStatus, ExpenseType } from '@prisma/client';
+import {
+  TransactionType,
+  TransactionStatus,
+  CommissionStatus,
+  CommissionRuleType,
+  ExpenseType,
+} from '@prisma/client';
+import { CommissionRulesService } from './commission-rules.service';
+import { NfseService } from '../nfse/nfse.service';
 
 @Injectable()
 export class FinancialService {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private commissionRules: CommissionRulesService,
+    private nfse: NfseService,
   ) {}
 
   // ============================================================================
@@ -152,6 +162,7 @@ export class FinancialService {
         tenantId,
         name: dto.name,
         type: dto.type,
+        feePercentage: dto.feePercentage,
       },
     });
   }
@@ -194,6 +205,7 @@ export class FinancialService {
     if (query?.status) where.status = query.status;
     if (query?.clientId) where.clientId = query.clientId;
     if (query?.providerId) where.providerId = query.providerId;
+    if (query?.locationId) where.locationId = query.locationId;
 
     if (query?.startDate || query?.endDate) {
       where.date = {};
@@ -278,6 +290,10 @@ export class FinancialService {
       }
     }
 
+    if (dto.locationId) {
+      await this.assertLocation(tenantId, dto.locationId);
+    }
+
     // Calcula valor líquido
     const amount = new Decimal(dto.amount);
     const discount = dto.discount ? new Decimal(dto.discount) : new Decimal(0);
@@ -301,6 +317,7 @@ export class FinancialService {
         appointmentId: dto.appointmentId,
         clientId: dto.clientId,
         providerId: dto.providerId,
+        locationId: dto.locationId,
         isRecurring: dto.isRecurring || false,
         createdBy,
         paidAt: dto.status === TransactionStatus.PAID ? new Date() : null,
@@ -312,8 +329,15 @@ export class FinancialService {
     });
 
     // Gera comissão se solicitado e se for receita
-    if (dto.generateCommission && dto.type === TransactionType.INCOME && dto.providerId) {
-      await this.generateCommission(tenantId, transaction.id, dto.providerId, netAmount);
+    if (
+      dto.generateCommission &&
+      dto.type === TransactionType.INCOME &&
+      dto.providerId
+    ) {
+      await this.commissionRules.generateForTransaction(
+        tenantId,
+        transaction.id,
+      );
     }
 
     // Invalida cache do dashboard
@@ -329,6 +353,10 @@ export class FinancialService {
       throw new BadRequestException('Transações pagas não podem ser editadas');
     }
 
+    if (dto.locationId) {
+      await this.assertLocation(tenantId, dto.locationId);
+    }
+
     // Recalcula valor líquido se necessário
     let netAmount = transaction.netAmount;
     if (dto.amount !== undefined || dto.discount !== undefined) {
@@ -351,6 +379,9 @@ export class FinancialService {
       },
     });
 
+    // Valor, data ou forma de pagamento alteram a comissão pendente
+    await this.commissionRules.recalculateForTransaction(tenantId, id);
+
     await this.redis.invalidateDashboard(tenantId);
     return updated;
   }
@@ -379,6 +410,15 @@ export class FinancialService {
       },
     });
 
+    // A forma de pagamento informada na baixa define a taxa do cartão
+    if (updated.paymentMethodId !== transaction.paymentMethodId) {
+      await this.commissionRules.recalculateForTransaction(tenantId, id);
+    }
+
+    if (updated.type === TransactionType.INCOME) {
+      await this.nfse.issueForPaidTransaction(tenantId, id);
+    }
+
     await this.redis.invalidateDashboard(tenantId);
     return updated;
   }
@@ -390,6 +430,8 @@ export class FinancialService {
       throw new BadRequestException('Transações pagas não podem ser canceladas');
     }
 
+    await this.assertNoClosedCommissions(id);
+
     // Cancela comissões associadas
     await this.prisma.commission.updateMany({
       where: { transactionId: id, status: CommissionStatus.PENDING },
@@ -412,6 +454,8 @@ export class FinancialService {
       throw new BadRequestException('Transações pagas não podem ser excluídas');
     }
 
+    await this.assertNoClosedCommissions(id);
+
     await this.prisma.financialTransaction.delete({ where: { id } });
     await this.redis.invalidateDashboard(tenantId);
 
@@ -446,6 +490,9 @@ export class FinancialService {
             netAmount: true,
           },
         },
+        clientPackageUsage: {
+          select: { id: true, usedAt: true, clientPackageId: true },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -464,6 +511,12 @@ export class FinancialService {
       throw new BadRequestException('Comissão já está paga');
     }
 
+    if (commission.payrollPeriodId) {
+      throw new BadRequestException(
+        'Comissão fechada em folha de pagamento. Realize o pagamento pela folha',
+      );
+    }
+
     return this.prisma.commission.update({
       where: { id },
       data: {
@@ -479,6 +532,7 @@ export class FinancialService {
         id: { in: commissionIds },
         tenantId,
         status: CommissionStatus.PENDING,
+        payrollPeriodId: null, // Comissões em folha são pagas pela folha
       },
       data: {
         status: CommissionStatus.PAID,
@@ -489,6 +543,25 @@ export class FinancialService {
     return { count: result.count, message: `${result.count} comissões pagas` };
   }
 
+  /**
+   * Comissões fechadas em folha ficam bloqueadas até a reabertura da folha
+   */
+  private async assertNoClosedCommissions(transactionId: string) {
+    const locked = await this.prisma.commission.count({
+      where: {
+        transactionId,
+        payrollPeriodId: { not: null },
+        status: { not: CommissionStatus.CANCELLED },
+      },
+    });
+
+    if (locked > 0) {
+      throw new BadRequestException(
+        'A transação possui comissões fechadas em folha de pagamento',
+      );
+    }
+  }
+
   // ============================================================================
   // COMMISSION CONFIG
   // ============================================================================
@@ -502,6 +575,7 @@ export class FinancialService {
       include: {
         provider: { select: { id: true, name: true } },
         service: { select: { id: true, name: true } },
+        tiers: { orderBy: { minRevenue: 'asc' } },
       },
       orderBy: [{ providerId: 'asc' }, { serviceId: 'asc' }],
     });
@@ -520,16 +594,34 @@ export class FinancialService {
       throw new ConflictException('Já existe uma configuração de comissão para este profissional/serviço');
     }
 
+    const type = dto.type ?? CommissionRuleType.PERCENTAGE;
+    this.validateCommissionRule(type, dto);
+
     return this.prisma.providerCommissionConfig.create({
       data: {
         tenantId,
         providerId: dto.providerId,
         serviceId: dto.serviceId,
-        percentage: new Decimal(dto.percentage),
+        type,
+        percentage:
+          dto.percentage !== undefined ? new Decimal(dto.percentage) : null,
+        fixedAmount:
+          dto.fixedAmount !== undefined ? new Decimal(dto.fixedAmount) : null,
+        deductProductCost: dto.deductProductCost ?? false,
+        deductCardFees: dto.deductCardFees ?? false,
+        tiers: dto.tiers?.length
+          ? {
+              create: dto.tiers.map((tier) => ({
+                minRevenue: new Decimal(tier.minRevenue),
+                percentage: new Decimal(tier.percentage),
+              })),
+            }
+          : undefined,
       },
       include: {
         provider: { select: { id: true, name: true } },
         service: { select: { id: true, name: true } },
+        tiers: { orderBy: { minRevenue: 'asc' } },
       },
     });
   }
@@ -537,18 +629,51 @@ export class FinancialService {
   async updateCommissionConfig(id: string, tenantId: string, dto: UpdateCommissionConfigDto) {
     const config = await this.prisma.providerCommissionConfig.findFirst({
       where: { id, tenantId },
+      include: { tiers: true },
     });
 
     if (!config) {
       throw new NotFoundException('Configuração de comissão não encontrada');
     }
 
+    this.validateCommissionRule(dto.type ?? config.type, {
+      percentage: dto.percentage ?? config.percentage?.toNumber(),
+      fixedAmount: dto.fixedAmount ?? config.fixedAmount?.toNumber(),
+      tiers:
+        dto.tiers ??
+        config.tiers.map((t) => ({
+          minRevenue: t.minRevenue.toNumber(),
+          percentage: t.percentage.toNumber(),
+        })),
+    });
+
     return this.prisma.providerCommissionConfig.update({
       where: { id },
       data: {
-        percentage: dto.percentage !== undefined ? new Decimal(dto.percentage) : undefined,
+        type: dto.type,
+        percentage:
+          dto.percentage !== undefined
+            ? new Decimal(dto.percentage)
+            : undefined,
+        fixedAmount:
+          dto.fixedAmount !== undefined
+            ? new Decimal(dto.fixedAmount)
+            : undefined,
+        deductProductCost: dto.deductProductCost,
+        deductCardFees: dto.deductCardFees,
         isActive: dto.isActive,
+        // Faixas informadas substituem as anteriores
+        tiers: dto.tiers
+          ? {
+              deleteMany: {},
+              create: dto.tiers.map((tier) => ({
+                minRevenue: new Decimal(tier.minRevenue),
+                percentage: new Decimal(tier.percentage),
+              })),
+            }
+          : undefined,
       },
+      include: { tiers: { orderBy: { minRevenue: 'asc' } } },
     });
   }
 
@@ -685,38 +810,42 @@ export class FinancialService {
   // HELPERS
   // ============================================================================
 
-  private async generateCommission(
-    tenantId: string,
-    transactionId: string,
-    providerId: string,
-    baseAmount: Decimal,
+  /**
+   * Garante que a regra de comissão tenha o valor exigido pelo seu tipo
+   */
+  private validateCommissionRule(
+    type: CommissionRuleType,
+    rule: {
+      percentage?: number;
+      fixedAmount?: number;
+      tiers?: { minRevenue: number; percentage: number }[];
+    },
   ) {
-    // Busca configuração de comissão do profissional
-    const config = await this.prisma.providerCommissionConfig.findFirst({
-      where: {
-        tenantId,
-        providerId,
-        isActive: true,
-        serviceId: null, // Pega config padrão (sem serviço específico)
-      },
-    });
+    if (
+      type === CommissionRuleType.PERCENTAGE &&
+      rule.percentage === undefined
+    ) {
+      throw new BadRequestException('Informe o percentual da comissão');
+    }
 
-    if (!config) return null;
+    if (type === CommissionRuleType.FIXED && rule.fixedAmount === undefined) {
+      throw new BadRequestException('Informe o valor fixo da comissão');
+    }
 
-    const percentage = config.percentage;
-    const amount = baseAmount.times(percentage).dividedBy(100);
+    if (type === CommissionRuleType.TIERED) {
+      if (!rule.tiers?.length) {
+        throw new BadRequestException(
+          'Informe as faixas de faturamento da comissão',
+        );
+      }
 
-    return this.prisma.commission.create({
-      data: {
-        tenantId,
-        transactionId,
-        providerId,
-        baseAmount,
-        percentage,
-        amount,
-        status: CommissionStatus.PENDING,
-      },
-    });
+      const minRevenues = rule.tiers.map((t) => t.minRevenue);
+      if (new Set(minRevenues).size !== minRevenues.length) {
+        throw new BadRequestException(
+          'As faixas de faturamento devem ser distintas',
+        );
+      }
+    }
   }
 
   /**
@@ -818,6 +947,10 @@ export class FinancialService {
       throw new NotFoundException('Categoria de despesa não encontrada');
     }
 
+    if (dto.locationId) {
+      await this.assertLocation(tenantId, dto.locationId);
+    }
+
     return this.prisma.recurringExpense.create({
       data: {
         tenantId,
@@ -831,6 +964,7 @@ export class FinancialService {
         expenseType: dto.expenseType || ExpenseType.FIXED,
         startDate: new Date(dto.startDate),
         endDate: dto.endDate ? new Date(dto.endDate) : null,
+        locationId: dto.locationId,
       },
       include: {
         category: { select: { id: true, name: true, color: true } },
@@ -841,6 +975,10 @@ export class FinancialService {
   async updateRecurringExpense(id: string, tenantId: string, dto: UpdateRecurringExpenseDto) {
     await this.findRecurringExpenseById(id, tenantId);
 
+    if (dto.locationId) {
+      await this.assertLocation(tenantId, dto.locationId);
+    }
+
     return this.prisma.recurringExpense.update({
       where: { id },
       data: {
@@ -892,6 +1030,7 @@ export class FinancialService {
           description: expense.name,
           notes: expense.description || undefined,
           status: TransactionStatus.PENDING,
+          locationId: expense.locationId || undefined,
         });
 
         // Atualiza última geração
@@ -907,6 +1046,16 @@ export class FinancialService {
     return { count: generated.length, transactions: generated };
   }
 
+  private async assertLocation(tenantId: string, locationId: string) {
+    const location = await this.prisma.location.findFirst({
+      where: { id: locationId, tenantId },
+    });
+
+    if (!location) {
+      throw new NotFoundException('Unidade não encontrada');
+    }
+  }
+
   private shouldGenerateTransaction(expense: any, today: Date): boolean {
     const lastGenerated = expense.lastGeneratedAt;
 
@@ -1042,12 +1191,13 @@ export class FinancialService {
       _sum: { netAmount: true },
     });
 
-    // Comissões pagas no período
+    // Comissões pagas no período (as pagas em folha já entram como despesa)
     const commissionsPaid = await this.prisma.commission.aggregate({
       where: {
         tenantId,
         status: CommissionStatus.PAID,
         paidAt: { gte: startDate, lte: endDate },
+        payrollPeriodId: null,
       },
       _sum: { amount: true },
     });
@@ -1138,12 +1288,21 @@ export class FinancialService {
         type: true,
         netAmount: true,
         paidAt: true,
+        reconciledAt: true,
       },
       orderBy: { paidAt: 'asc' },
     });
 
-    // Agrupa por dia/mês dependendo do período
-    const groupedData = new Map<string, { income: number; expense: number }>();
+    // Agrupa por dia/mês dependendo do período. "reconciled" soma o que já
+    // foi conferido contra o extrato bancário
+    const groupedData = new Map<
+      string,
+      {
+        income: number;
+        expense: number;
+        reconciled: { income: number; expense: number };
+      }
+    >();
 
     for (const t of transactions) {
       const dateKey = query.groupBy === 'monthly'
@@ -1151,14 +1310,18 @@ export class FinancialService {
         : t.paidAt!.toISOString().split('T')[0];
 
       if (!groupedData.has(dateKey)) {
-        groupedData.set(dateKey, { income: 0, expense: 0 });
+        groupedData.set(dateKey, {
+          income: 0,
+          expense: 0,
+          reconciled: { income: 0, expense: 0 },
+        });
       }
 
       const data = groupedData.get(dateKey)!;
-      if (t.type === TransactionType.INCOME) {
-        data.income += t.netAmount.toNumber();
-      } else {
-        data.expense += t.netAmount.toNumber();
+      const key = t.type === TransactionType.INCOME ? 'income' : 'expense';
+      data[key] += t.netAmount.toNumber();
+      if (t.reconciledAt) {
+        data.reconciled[key] += t.netAmount.toNumber();
       }
     }
 
@@ -1172,16 +1335,32 @@ export class FinancialService {
         expense: data.expense,
         net: data.income - data.expense,
         balance,
+        reconciled: data.reconciled,
+        unreconciled: {
+          income: data.income - data.reconciled.income,
+          expense: data.expense - data.reconciled.expense,
+        },
       };
     });
 
+    const sum = (pick: (c: (typeof cashFlow)[number]) => number) =>
+      cashFlow.reduce((acc, c) => acc + pick(c), 0);
+
     return {
       period: { startDate, endDate },
       cashFlow,
       totals: {
-        income: cashFlow.reduce((acc, c) => acc + c.income, 0),
-        expense: cashFlow.reduce((acc, c) => acc + c.expense, 0),
+        income: sum((c) => c.income),
+        expense: sum((c) => c.expense),
         finalBalance: balance,
+        reconciled: {
+          income: sum((c) => c.reconciled.income),
+          expense: sum((c) => c.reconciled.expense),
+        },
+        unreconciled: {
+          income: sum((c) => c.unreconciled.income),
+          expense: sum((c) => c.unreconciled.expense),
+        },
       },
     };
   }
@@ -1,4 +1,7 @@
 export * from './financial.module';
 export * from './financial.service';
+export * from './commission-rules.service';
+export * from './bank-reconciliation.service';
+export * from './budgets.service';
 export * from './financial.controller';
 export * from './dto';
@@ -22,6 +22,10 @@ import {
   Prisma,
 } from '@prisma/client';
 import { randomBytes } from 'crypto';
+import {
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
 
 // Interface para representar tokens OAuth
 interface OAuthTokens {
@@ -360,6 +364,8 @@ export class GoogleCalendarService {
         client: { select: { name: true, phone: true } },
         provider: { select: { id: true, name: true } },
         service: { select: { name: true, duration: true } },
+        tenant: { select: { timezone: true } },
+        location: { include: { location: { select: { timezone: true } } } },
       },
     });
 
@@ -386,8 +392,22 @@ export class GoogleCalendarService {
       where: { appointmentId },
     });
 
-    // Preparar dados do evento
-    const eventData = this.buildEventData(appointment, sync);
+    // Preparar dados do evento no fuso da unidade (ou do tenant)
+    const timeZone = resolveTimezone(
+      appointment.location?.location.timezone,
+      appointment.tenant.timezone,
+    );
+    const eventData = this.buildEventData(appointment, timeZone);
+    const eventStart = zonedTimeToUtc(
+      appointment.date,
+      appointment.startTime,
+      timeZone,
+    );
+    const eventEnd = zonedTimeToUtc(
+      appointment.date,
+      appointment.endTime,
+      timeZone,
+    );
 
     try {
       let googleEventId: string;
@@ -421,8 +441,8 @@ export class GoogleCalendarService {
           syncStatus: EventSyncStatus.SYNCED,
           lastSyncAt: new Date(),
           eventTitle: eventData.summary,
-          eventStart: new Date(eventData.start.dateTime),
-          eventEnd: new Date(eventData.end.dateTime),
+          eventStart,
+          eventEnd,
           eventLink,
         },
         update: {
@@ -430,8 +450,8 @@ export class GoogleCalendarService {
           lastSyncAt: new Date(),
           lastSyncError: null,
           eventTitle: eventData.summary,
-          eventStart: new Date(eventData.start.dateTime),
-          eventEnd: new Date(eventData.end.dateTime),
+          eventStart,
+          eventEnd,
           eventLink,
         },
       });
@@ -798,11 +818,12 @@ export class GoogleCalendarService {
       client: { name: string; phone: string | null };
       service: { name: string; duration: number };
     },
-    sync: { tenantId: string; calendarId: string | null },
+    timeZone: string,
   ) {
+    // Horário de parede sem offset; o Google aplica o timeZone informado
     const dateStr = appointment.date.toISOString().split('T')[0];
-    const startDateTime = new Date(`${dateStr}T${appointment.startTime}:00`);
-    const endDateTime = new Date(`${dateStr}T${appointment.endTime}:00`);
+    const startDateTime = `${dateStr}T${appointment.startTime}:00`;
+    const endDateTime = `${dateStr}T${appointment.endTime}:00`;
 
     const summary = `${appointment.service.name} - ${appointment.client.name}`;
     let description = `Cliente: ${appointment.client.name}`;
@@ -820,12 +841,12 @@ export class GoogleCalendarService {
       summary,
       description,
       start: {
-        dateTime: startDateTime.toISOString(),
-        timeZone: 'America/Sao_Paulo',
+        dateTime: startDateTime,
+        timeZone,
       },
       end: {
-        dateTime: endDateTime.toISOString(),
-        timeZone: 'America/Sao_Paulo',
+        dateTime: endDateTime,
+        timeZone,
       },
       reminders: {
         useDefault: false,
@@ -1 +1,3 @@
 export * from './leads.dto';
+export * from './lead-automation.dto';
+export * from './lead-assignment.dto';
@@ -0,0 +1,71 @@
+import {
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { LeadAssignmentStrategy, LeadSource } from '@prisma/client';
+
+// ============================================================================
+// DTOs para Distribuição de Leads
+// ============================================================================
+
+export class UpdateLeadAssignmentSettingsDto {
+  @IsEnum(LeadAssignmentStrategy, { message: 'Estratégia inválida' })
+  @IsOptional()
+  strategy?: LeadAssignmentStrategy;
+
+  @IsBoolean()
+  @IsOptional()
+  isEnabled?: boolean;
+
+  // null desliga a reatribuição
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  @IsOptional()
+  reassignAfterHours?: number | null;
+}
+
+export class AddLeadAssignmentMemberDto {
+  @IsUUID('4', { message: 'ID do usuário inválido' })
+  userId: string;
+
+  @IsArray()
+  @IsEnum(LeadSource, { each: true, message: 'Origem inválida' })
+  @IsOptional()
+  sources?: LeadSource[];
+
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isAvailable?: boolean;
+}
+
+export class UpdateLeadAssignmentMemberDto {
+  @IsArray()
+  @IsEnum(LeadSource, { each: true, message: 'Origem inválida' })
+  @IsOptional()
+  sources?: LeadSource[];
+
+  // null = atende qualquer unidade
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string | null;
+
+  @IsBoolean()
+  @IsOptional()
+  isAvailable?: boolean;
+}
+
+export class UpdateLeadAvailabilityDto {
+  @IsBoolean()
+  isAvailable: boolean;
+}
@@ -0,0 +1,183 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  LeadSource,
+  LeadStage,
+  LeadPriority,
+  LeadAutomationTrigger,
+} from '@prisma/client';
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export enum LeadAutomationActionType {
+  ASSIGN_USER = 'ASSIGN_USER', // Atribuir a um usuário
+  ADD_TAG = 'ADD_TAG', // Adicionar tag
+  SCHEDULE_FOLLOW_UP = 'SCHEDULE_FOLLOW_UP', // Agendar follow-up para daqui N dias
+  SEND_TEMPLATE = 'SEND_TEMPLATE', // Enviar template de WhatsApp/email ao lead
+  MOVE_STAGE = 'MOVE_STAGE', // Mover para outro estágio
+}
+
+// ============================================================================
+// DTOs para Automações de Leads
+// ============================================================================
+
+// Condições vazias = vale para todo lead do gatilho
+export class LeadAutomationConditionsDto {
+  @IsArray()
+  @IsEnum(LeadStage, { each: true, message: 'Estágio inválido' })
+  @IsOptional()
+  stages?: LeadStage[]; // Estágio atual do lead
+
+  @IsArray()
+  @IsEnum(LeadStage, { each: true, message: 'Estágio inválido' })
+  @IsOptional()
+  fromStages?: LeadStage[]; // Estágio anterior (apenas STAGE_CHANGED)
+
+  @IsArray()
+  @IsEnum(LeadSource, { each: true, message: 'Origem inválida' })
+  @IsOptional()
+  sources?: LeadSource[];
+
+  @IsArray()
+  @IsEnum(LeadPriority, { each: true, message: 'Prioridade inválida' })
+  @IsOptional()
+  priorities?: LeadPriority[];
+
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  tagIds?: string[]; // Lead com qualquer uma das tags
+
+  @IsBoolean()
+  @IsOptional()
+  unassignedOnly?: boolean; // Apenas leads sem responsável
+}
+
+export class LeadAutomationActionDto {
+  @IsEnum(LeadAutomationActionType, { message: 'Tipo de ação inválido' })
+  type: LeadAutomationActionType;
+
+  @IsUUID('4')
+  @IsOptional()
+  userId?: string; // ASSIGN_USER
+
+  @IsUUID('4')
+  @IsOptional()
+  tagId?: string; // ADD_TAG
+
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  followUpDays?: number; // SCHEDULE_FOLLOW_UP
+
+  @IsUUID('4')
+  @IsOptional()
+  templateId?: string; // SEND_TEMPLATE (o canal vem do template)
+
+  @IsEnum(LeadStage, { message: 'Estágio inválido' })
+  @IsOptional()
+  stage?: LeadStage; // MOVE_STAGE
+}
+
+export class CreateLeadAutomationDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Nome da automação é obrigatório' })
+  @MaxLength(100)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsEnum(LeadAutomationTrigger, { message: 'Gatilho inválido' })
+  trigger: LeadAutomationTrigger;
+
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  inactivityDays?: number; // Obrigatório para NO_INTERACTION
+
+  @ValidateNested()
+  @Type(() => LeadAutomationConditionsDto)
+  @IsOptional()
+  conditions?: LeadAutomationConditionsDto;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Informe ao menos uma ação' })
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => LeadAutomationActionDto)
+  actions: LeadAutomationActionDto[];
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  position?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class UpdateLeadAutomationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsEnum(LeadAutomationTrigger, { message: 'Gatilho inválido' })
+  @IsOptional()
+  trigger?: LeadAutomationTrigger;
+
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  inactivityDays?: number;
+
+  @ValidateNested()
+  @Type(() => LeadAutomationConditionsDto)
+  @IsOptional()
+  conditions?: LeadAutomationConditionsDto;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Informe ao menos uma ação' })
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => LeadAutomationActionDto)
+  @IsOptional()
+  actions?: LeadAutomationActionDto[];
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  position?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -71,6 +71,10 @@ export class CreateLeadDto {
   @IsOptional()
   assignedToId?: string;
 
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
+
   @IsString()
   @IsOptional()
   notes?: string;
@@ -128,6 +132,10 @@ export class UpdateLeadDto {
   @IsOptional()
   assignedToId?: string;
 
+  @IsUUID('4', { message: 'ID da unidade inválido' })
+  @IsOptional()
+  locationId?: string;
+
   @IsString()
   @IsOptional()
   notes?: string;
@@ -236,6 +244,14 @@ export class QueryLeadsDto {
   @IsOptional()
   assignedToId?: string;
 
+  @IsBoolean()
+  @IsOptional()
+  mine?: boolean; // Apenas leads do usuário logado
+
+  @IsBoolean()
+  @IsOptional()
+  unassigned?: boolean; // Apenas leads sem responsável
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { LeadAssignmentService } from './lead-assignment.service';
+import {
+  UpdateLeadAssignmentSettingsDto,
+  AddLeadAssignmentMemberDto,
+  UpdateLeadAssignmentMemberDto,
+  UpdateLeadAvailabilityDto,
+} from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/permissions/permissions';
+import type { CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Leads')
+@ApiBearerAuth('access-token')
+@Controller('leads/assignment')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class LeadAssignmentController {
+  constructor(private leadAssignmentService: LeadAssignmentService) {}
+
+  @Get()
+  @RequirePermissions(Permission.LEADS_VIEW)
+  async getSettings(@CurrentUser() user: CurrentUserData) {
+    return this.leadAssignmentService.getSettings(user.tenantId);
+  }
+
+  @Put()
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async updateSettings(
+    @Body() dto: UpdateLeadAssignmentSettingsDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAssignmentService.updateSettings(user.tenantId, dto);
+  }
+
+  // Cada usuário liga/desliga o recebimento dos próprios leads
+  @Patch('availability')
+  @RequirePermissions(Permission.LEADS_VIEW)
+  async setAvailability(
+    @Body() dto: UpdateLeadAvailabilityDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAssignmentService.setAvailability(
+      user.tenantId,
+      user.id,
+      dto.isAvailable,
+    );
+  }
+
+  @Post('members')
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async addMember(
+    @Body() dto: AddLeadAssignmentMemberDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAssignmentService.addMember(user.tenantId, dto);
+  }
+
+  @Patch('members/:userId')
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async updateMember(
+    @Param('userId') userId: string,
+    @Body() dto: UpdateLeadAssignmentMemberDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAssignmentService.updateMember(user.tenantId, userId, dto);
+  }
+
+  @Delete('members/:userId')
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async removeMember(
+    @Param('userId') userId: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAssignmentService.removeMember(user.tenantId, userId);
+  }
+}
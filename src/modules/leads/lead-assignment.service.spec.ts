@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { InteractionType, LeadAssignmentStrategy } from '@prisma/client';
+import { LeadAssignmentService } from './lead-assignment.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+
+describe('LeadAssignmentService', () => {
+  let service: LeadAssignmentService;
+  let prismaService: any;
+
+  const tenantId = 'tenant-123';
+
+  // Ana está há mais tempo sem lead; Bia atende só Instagram; Carla é da
+  // unidade Centro
+  const member = (userId: string, overrides: Record<string, any> = {}) => ({
+    id: `member-${userId}`,
+    tenantId,
+    userId,
+    isAvailable: true,
+    sources: [],
+    locationId: null,
+    lastAssignedAt: null,
+    user: { id: userId, name: userId, email: `${userId}@belu.com` },
+    ...overrides,
+  });
+
+  const members = [
+    member('ana'),
+    member('bia', {
+      sources: ['INSTAGRAM'],
+      lastAssignedAt: new Date('2025-06-29T10:00:00.000Z'),
+    }),
+    member('carla', {
+      locationId: 'centro',
+      lastAssignedAt: new Date('2025-06-30T09:00:00.000Z'),
+    }),
+  ];
+
+  const settings = (strategy: LeadAssignmentStrategy, overrides = {}) => ({
+    tenantId,
+    strategy,
+    isEnabled: true,
+    reassignAfterHours: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      leadAssignmentSettings: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue(settings(LeadAssignmentStrategy.ROUND_ROBIN)),
+      },
+      leadAssignmentMember: {
+        findMany: jest.fn().mockResolvedValue(members),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      lead: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'lead-1',
+          source: 'WEBSITE',
+          locationId: null,
+        }),
+        findMany: jest.fn().mockResolvedValue([]),
+        groupBy: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      leadInteraction: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadAssignmentService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: { delByPattern: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LeadAssignmentService>(LeadAssignmentService);
+    prismaService = module.get(PrismaService);
+  });
+
+  const assignedUserId = () =>
+    prismaService.lead.update.mock.calls[0][0].data.assignedToId;
+
+  describe('assign', () => {
+    it('should give the lead to whoever waited longest and reserve the turn', async () => {
+      const result = await service.assign(tenantId, 'lead-1');
+
+      expect(result?.assignedTo.id).toBe('ana');
+      expect(
+        prismaService.leadAssignmentMember.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 'member-ana', lastAssignedAt: null },
+        data: { lastAssignedAt: expect.any(Date) },
+      });
+      expect(prismaService.leadInteraction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: InteractionType.AUTOMATION,
+          title: 'Lead atribuído a ana',
+        }),
+      });
+    });
+
+    it('should try the next turn when another lead took it first', async () => {
+      prismaService.leadAssignmentMember.findMany
+        .mockResolvedValueOnce(members)
+        .mockResolvedValueOnce(members.slice(1));
+      prismaService.leadAssignmentMember.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      await service.assign(tenantId, 'lead-1');
+
+      expect(assignedUserId()).toBe('bia');
+    });
+
+    it('should prefer users of the lead source', async () => {
+      prismaService.leadAssignmentSettings.findUnique.mockResolvedValue(
+        settings(LeadAssignmentStrategy.BY_SOURCE),
+      );
+      prismaService.lead.findFirst.mockResolvedValue({
+        id: 'lead-1',
+        source: 'INSTAGRAM',
+        locationId: null,
+      });
+
+      await service.assign(tenantId, 'lead-1');
+
+      expect(assignedUserId()).toBe('bia');
+    });
+
+    it('should fall back to users of any location', async () => {
+      prismaService.leadAssignmentSettings.findUnique.mockResolvedValue(
+        settings(LeadAssignmentStrategy.BY_LOCATION),
+      );
+      prismaService.lead.findFirst.mockResolvedValue({
+        id: 'lead-1',
+        source: 'WEBSITE',
+        locationId: 'shopping',
+      });
+
+      await service.assign(tenantId, 'lead-1');
+
+      // Ana e Bia atendem qualquer unidade; Ana está há mais tempo sem lead
+      expect(assignedUserId()).toBe('ana');
+    });
+
+    it('should pick the user with fewest open leads', async () => {
+      prismaService.leadAssignmentSettings.findUnique.mockResolvedValue(
+        settings(LeadAssignmentStrategy.LEAST_OPEN),
+      );
+      prismaService.lead.groupBy.mockResolvedValue([
+        { assignedToId: 'ana', _count: { _all: 5 } },
+        { assignedToId: 'bia', _count: { _all: 2 } },
+        { assignedToId: 'carla', _count: { _all: 3 } },
+      ]);
+
+      await service.assign(tenantId, 'lead-1');
+
+      expect(assignedUserId()).toBe('bia');
+    });
+
+    it('should leave the lead unassigned when distribution is off', async () => {
+      prismaService.leadAssignmentSettings.findUnique.mockResolvedValue(
+        settings(LeadAssignmentStrategy.ROUND_ROBIN, { isEnabled: false }),
+      );
+
+      await expect(service.assign(tenantId, 'lead-1')).resolves.toBeNull();
+      expect(prismaService.lead.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reassignStaleLeads', () => {
+    it('should reassign only leads the assignee did not touch', async () => {
+      const now = new Date('2025-06-30T12:00:00.000Z');
+      const assignedAt = new Date('2025-06-29T08:00:00.000Z');
+      prismaService.leadAssignmentSettings.findUnique.mockResolvedValue(
+        settings(LeadAssignmentStrategy.ROUND_ROBIN, {
+          reassignAfterHours: 24,
+        }),
+      );
+      prismaService.lead.findMany.mockResolvedValue([
+        {
+          id: 'lead-1',
+          source: 'WEBSITE',
+          locationId: null,
+          assignedToId: 'ana',
+          assignedAt,
+          assignedTo: { name: 'ana' },
+        },
+        {
+          id: 'lead-2',
+          source: 'WEBSITE',
+          locationId: null,
+          assignedToId: 'bia',
+          assignedAt,
+          assignedTo: { name: 'bia' },
+        },
+      ]);
+      prismaService.leadInteraction.findMany.mockResolvedValue([
+        {
+          leadId: 'lead-2',
+          createdBy: 'bia',
+          createdAt: new Date('2025-06-29T09:00:00.000Z'),
+        },
+      ]);
+      prismaService.leadAssignmentMember.findMany.mockResolvedValue(
+        members.slice(1),
+      );
+
+      await expect(service.reassignStaleLeads(tenantId, now)).resolves.toBe(1);
+
+      expect(prismaService.lead.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            assignedAt: { lt: new Date('2025-06-29T12:00:00.000Z') },
+          }),
+        }),
+      );
+      expect(prismaService.leadAssignmentMember.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: { not: 'ana' } }),
+        }),
+      );
+      expect(prismaService.lead.update).toHaveBeenCalledTimes(1);
+      expect(prismaService.leadInteraction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          leadId: 'lead-1',
+          title: 'Lead reatribuído de ana para bia',
+        }),
+      });
+    });
+  });
+});
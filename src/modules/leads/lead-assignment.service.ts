@@ -0,0 +1,480 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  InteractionType,
+  LeadAssignmentStrategy,
+  LeadSource,
+  LeadStage,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+import {
+  UpdateLeadAssignmentSettingsDto,
+  AddLeadAssignmentMemberDto,
+  UpdateLeadAssignmentMemberDto,
+} from './dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Leads avaliados para reatribuição a cada execução do job
+const REASSIGN_BATCH_SIZE = 200;
+
+// Tentativas de reservar a vez no rodízio quando outro lead chega junto
+const PICK_ATTEMPTS = 3;
+
+const OPEN_LEAD_WHERE: Prisma.LeadWhereInput = {
+  isActive: true,
+  stage: { notIn: [LeadStage.WON, LeadStage.LOST] },
+};
+
+const STRATEGY_LABELS: Record<LeadAssignmentStrategy, string> = {
+  ROUND_ROBIN: 'rodízio',
+  LEAST_OPEN: 'menos leads em aberto',
+  BY_SOURCE: 'por origem',
+  BY_LOCATION: 'por unidade',
+};
+
+const memberInclude = {
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.LeadAssignmentMemberInclude;
+
+type AssignmentMember = Prisma.LeadAssignmentMemberGetPayload<{
+  include: typeof memberInclude;
+}>;
+
+type AssignableLead = {
+  id: string;
+  source: LeadSource;
+  locationId: string | null;
+};
+
+@Injectable()
+export class LeadAssignmentService {
+  private readonly logger = new Logger(LeadAssignmentService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+  ) {}
+
+  // ============================================================================
+  // CONFIGURAÇÃO
+  // ============================================================================
+
+  async getSettings(tenantId: string) {
+    const [settings, members, openLeads] = await Promise.all([
+      this.prisma.leadAssignmentSettings.findUnique({ where: { tenantId } }),
+      this.prisma.leadAssignmentMember.findMany({
+        where: { tenantId },
+        include: {
+          user: {
+            select: { id: true, name: true, email: true, isActive: true },
+          },
+          location: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.lead.groupBy({
+        by: ['assignedToId'],
+        where: { tenantId, ...OPEN_LEAD_WHERE, assignedToId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const openByUser = new Map(
+      openLeads.map((row) => [row.assignedToId, row._count._all]),
+    );
+
+    return {
+      strategy: settings?.strategy ?? LeadAssignmentStrategy.ROUND_ROBIN,
+      isEnabled: settings?.isEnabled ?? false,
+      reassignAfterHours: settings?.reassignAfterHours ?? null,
+      members: members.map((member) => ({
+        ...member,
+        openLeads: openByUser.get(member.userId) ?? 0,
+      })),
+    };
+  }
+
+  async updateSettings(tenantId: string, dto: UpdateLeadAssignmentSettingsDto) {
+    await this.prisma.leadAssignmentSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...dto },
+      update: dto,
+    });
+
+    return this.getSettings(tenantId);
+  }
+
+  async addMember(tenantId: string, dto: AddLeadAssignmentMemberDto) {
+    const user = await this.prisma.user.findFirst({
+      where: { id: dto.userId, tenantId, isActive: true },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+    if (dto.locationId) {
+      await this.ensureLocation(tenantId, dto.locationId);
+    }
+
+    const existing = await this.prisma.leadAssignmentMember.findUnique({
+      where: { userId: dto.userId },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException('Usuário já participa da distribuição');
+    }
+
+    return this.prisma.leadAssignmentMember.create({
+      data: {
+        tenantId,
+        userId: dto.userId,
+        sources: dto.sources ?? [],
+        locationId: dto.locationId,
+        isAvailable: dto.isAvailable ?? true,
+      },
+      include: memberInclude,
+    });
+  }
+
+  async updateMember(
+    tenantId: string,
+    userId: string,
+    dto: UpdateLeadAssignmentMemberDto,
+  ) {
+    await this.findMember(tenantId, userId);
+    if (dto.locationId) {
+      await this.ensureLocation(tenantId, dto.locationId);
+    }
+
+    return this.prisma.leadAssignmentMember.update({
+      where: { userId },
+      data: dto,
+      include: memberInclude,
+    });
+  }
+
+  async removeMember(tenantId: string, userId: string) {
+    await this.findMember(tenantId, userId);
+
+    await this.prisma.leadAssignmentMember.delete({ where: { userId } });
+
+    return { message: 'Usuário removido da distribuição' };
+  }
+
+  /**
+   * Disponibilidade do próprio usuário (folga, férias, fora do turno)
+   */
+  async setAvailability(
+    tenantId: string,
+    userId: string,
+    isAvailable: boolean,
+  ) {
+    const member = await this.prisma.leadAssignmentMember.findFirst({
+      where: { tenantId, userId },
+      select: { id: true },
+    });
+    if (!member) {
+      throw new NotFoundException(
+        'Você não participa da distribuição de leads',
+      );
+    }
+
+    return this.prisma.leadAssignmentMember.update({
+      where: { id: member.id },
+      data: { isAvailable },
+      include: memberInclude,
+    });
+  }
+
+  // ============================================================================
+  // DISTRIBUIÇÃO
+  // ============================================================================
+
+  /**
+   * Atribui um lead novo conforme a estratégia do tenant. Retorna null com a
+   * distribuição desligada ou sem ninguém disponível: o lead fica sem dono
+   */
+  async assign(tenantId: string, leadId: string) {
+    const settings = await this.prisma.leadAssignmentSettings.findUnique({
+      where: { tenantId },
+    });
+    if (!settings?.isEnabled) {
+      return null;
+    }
+
+    const lead = await this.prisma.lead.findFirst({
+      where: { id: leadId, tenantId },
+      select: { id: true, source: true, locationId: true },
+    });
+    if (!lead) {
+      return null;
+    }
+
+    const member = await this.pickMember(tenantId, settings.strategy, lead);
+    if (!member) {
+      this.logger.warn(`No available user to assign lead ${leadId}`);
+      return null;
+    }
+
+    const assignedAt = await this.assignTo(
+      tenantId,
+      lead.id,
+      member,
+      `Lead atribuído a ${member.user.name}`,
+      `Distribuição automática (${STRATEGY_LABELS[settings.strategy]})`,
+    );
+
+    return { assignedTo: member.user, assignedAt };
+  }
+
+  /**
+   * Job de manutenção: repassa leads em aberto cujo responsável não registrou
+   * nenhuma interação desde a atribuição
+   */
+  async reassignStaleLeads(tenantId: string, now = new Date()) {
+    const settings = await this.prisma.leadAssignmentSettings.findUnique({
+      where: { tenantId },
+    });
+    if (!settings?.isEnabled || !settings.reassignAfterHours) {
+      return 0;
+    }
+
+    const cutoff = new Date(
+      now.getTime() - settings.reassignAfterHours * HOUR_MS,
+    );
+
+    // Leads sem assignedAt (atribuídos antes da distribuição) ficam de fora
+    const leads = await this.prisma.lead.findMany({
+      where: {
+        tenantId,
+        ...OPEN_LEAD_WHERE,
+        assignedToId: { not: null },
+        assignedAt: { lt: cutoff },
+      },
+      select: {
+        id: true,
+        source: true,
+        locationId: true,
+        assignedToId: true,
+        assignedAt: true,
+        assignedTo: { select: { name: true } },
+      },
+      orderBy: { assignedAt: 'asc' },
+      take: REASSIGN_BATCH_SIZE,
+    });
+
+    if (leads.length === 0) {
+      return 0;
+    }
+
+    const touches = await this.prisma.leadInteraction.findMany({
+      where: {
+        tenantId,
+        leadId: { in: leads.map((lead) => lead.id) },
+        type: { not: InteractionType.AUTOMATION },
+        createdBy: { not: null },
+        createdAt: { gte: leads[0].assignedAt! },
+      },
+      select: { leadId: true, createdBy: true, createdAt: true },
+    });
+
+    let reassigned = 0;
+
+    for (const lead of leads) {
+      const touched = touches.some(
+        (touch) =>
+          touch.leadId === lead.id &&
+          touch.createdBy === lead.assignedToId &&
+          touch.createdAt >= lead.assignedAt!,
+      );
+      if (touched) {
+        continue;
+      }
+
+      const member = await this.pickMember(
+        tenantId,
+        settings.strategy,
+        lead,
+        lead.assignedToId!,
+      );
+      if (!member) {
+        continue;
+      }
+
+      await this.assignTo(
+        tenantId,
+        lead.id,
+        member,
+        `Lead reatribuído de ${lead.assignedTo?.name ?? 'responsável anterior'} para ${member.user.name}`,
+        `Sem interação do responsável há ${settings.reassignAfterHours}h`,
+      );
+      reassigned++;
+    }
+
+    if (reassigned > 0) {
+      await this.redis.delByPattern(`leads:${tenantId}:*`);
+    }
+
+    return reassigned;
+  }
+
+  /**
+   * Escolhe o próximo usuário e reserva a vez dele no rodízio. A reserva é
+   * condicionada ao lastAssignedAt lido, então dois leads simultâneos não
+   * caem para a mesma pessoa
+   */
+  private async pickMember(
+    tenantId: string,
+    strategy: LeadAssignmentStrategy,
+    lead: AssignableLead,
+    excludeUserId?: string,
+  ): Promise<AssignmentMember | null> {
+    for (let attempt = 0; attempt < PICK_ATTEMPTS; attempt++) {
+      const members = await this.prisma.leadAssignmentMember.findMany({
+        where: {
+          tenantId,
+          isAvailable: true,
+          user: { isActive: true },
+          ...(excludeUserId && { userId: { not: excludeUserId } }),
+        },
+        include: memberInclude,
+        // Quem está há mais tempo sem receber lead vem primeiro
+        orderBy: [
+          { lastAssignedAt: { sort: 'asc', nulls: 'first' } },
+          { createdAt: 'asc' },
+        ],
+      });
+
+      const candidates = this.filterCandidates(strategy, members, lead);
+      if (candidates.length === 0) {
+        return null;
+      }
+
+      const member =
+        strategy === LeadAssignmentStrategy.LEAST_OPEN
+          ? await this.leastOpen(tenantId, candidates)
+          : candidates[0];
+
+      const { count } = await this.prisma.leadAssignmentMember.updateMany({
+        where: { id: member.id, lastAssignedAt: member.lastAssignedAt },
+        data: { lastAssignedAt: new Date() },
+      });
+      if (count === 1) {
+        return member;
+      }
+    }
+
+    return null;
+  }
+
+  // Sem ninguém específico para a origem/unidade, vale quem atende qualquer uma
+  private filterCandidates(
+    strategy: LeadAssignmentStrategy,
+    members: AssignmentMember[],
+    lead: AssignableLead,
+  ) {
+    switch (strategy) {
+      case LeadAssignmentStrategy.BY_SOURCE: {
+        const specific = members.filter((member) =>
+          member.sources.includes(lead.source),
+        );
+        return specific.length > 0
+          ? specific
+          : members.filter((member) => member.sources.length === 0);
+      }
+
+      case LeadAssignmentStrategy.BY_LOCATION: {
+        const specific = lead.locationId
+          ? members.filter((member) => member.locationId === lead.locationId)
+          : [];
+        return specific.length > 0
+          ? specific
+          : members.filter((member) => !member.locationId);
+      }
+
+      default:
+        return members;
+    }
+  }
+
+  // Empate fica com quem está há mais tempo sem lead (ordem dos candidatos)
+  private async leastOpen(tenantId: string, candidates: AssignmentMember[]) {
+    const openLeads = await this.prisma.lead.groupBy({
+      by: ['assignedToId'],
+      where: {
+        tenantId,
+        ...OPEN_LEAD_WHERE,
+        assignedToId: { in: candidates.map((member) => member.userId) },
+      },
+      _count: { _all: true },
+    });
+
+    const openByUser = new Map(
+      openLeads.map((row) => [row.assignedToId, row._count._all]),
+    );
+
+    return candidates.reduce((best, member) =>
+      (openByUser.get(member.userId) ?? 0) < (openByUser.get(best.userId) ?? 0)
+        ? member
+        : best,
+    );
+  }
+
+  private async assignTo(
+    tenantId: string,
+    leadId: string,
+    member: AssignmentMember,
+    title: string,
+    description: string,
+  ) {
+    const assignedAt = new Date();
+
+    await this.prisma.lead.update({
+      where: { id: leadId },
+      data: { assignedToId: member.userId, assignedAt },
+    });
+
+    await this.prisma.leadInteraction.create({
+      data: {
+        tenantId,
+        leadId,
+        type: InteractionType.AUTOMATION,
+        title,
+        description,
+      },
+    });
+
+    return assignedAt;
+  }
+
+  private async findMember(tenantId: string, userId: string) {
+    const member = await this.prisma.leadAssignmentMember.findFirst({
+      where: { tenantId, userId },
+      select: { id: true },
+    });
+
+    if (!member) {
+      throw new NotFoundException('Usuário não participa da distribuição');
+    }
+
+    return member;
+  }
+
+  private async ensureLocation(tenantId: string, locationId: string) {
+    const location = await this.prisma.location.findFirst({
+      where: { id: locationId, tenantId },
+      select: { id: true },
+    });
+
+    if (!location) {
+      throw new NotFoundException('Unidade não encontrada');
+    }
+  }
+}
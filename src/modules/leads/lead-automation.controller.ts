@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { LeadAutomationService } from './lead-automation.service';
+import { CreateLeadAutomationDto, UpdateLeadAutomationDto } from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { PlanFeatureGuard } from '../../common/guards/plan.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { RequirePlanFeature } from '../../common/decorators/plan-feature.decorator';
+import { Permission } from '../../common/permissions/permissions';
+import type { CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Leads')
+@ApiBearerAuth('access-token')
+@Controller('leads/automations')
+@UseGuards(JwtAuthGuard, PermissionsGuard, PlanFeatureGuard)
+@RequirePlanFeature('LEADS_AUTOMATION')
+export class LeadAutomationController {
+  constructor(private leadAutomationService: LeadAutomationService) {}
+
+  @Get()
+  @RequirePermissions(Permission.LEADS_VIEW)
+  async findAll(@CurrentUser() user: CurrentUserData) {
+    return this.leadAutomationService.findAll(user.tenantId);
+  }
+
+  @Get(':id')
+  @RequirePermissions(Permission.LEADS_VIEW)
+  async findById(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAutomationService.findById(id, user.tenantId);
+  }
+
+  @Post()
+  @RequirePermissions(Permission.LEADS_EDIT)
+  async create(
+    @Body() dto: CreateLeadAutomationDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAutomationService.create(user.tenantId, dto, user.id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions(Permission.LEADS_EDIT)
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateLeadAutomationDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.leadAutomationService.update(id, user.tenantId, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions(Permission.LEADS_EDIT)
+  async delete(@Param('id') id: string, @CurrentUser() user: CurrentUserData) {
+    return this.leadAutomationService.delete(id, user.tenantId);
+  }
+}
@@ -0,0 +1,261 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  InteractionType,
+  LeadAutomationTrigger,
+  LeadStage,
+} from '@prisma/client';
+import { LeadAutomationService } from './lead-automation.service';
+import { LeadAutomationActionType } from './dto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+import { QueuesService } from '../../queues/queues.service';
+import { EntitlementsService } from '../plans/entitlements.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('LeadAutomationService', () => {
+  let service: LeadAutomationService;
+  let prismaService: any;
+  let queuesService: any;
+  let entitlementsService: any;
+
+  const tenantId = 'tenant-123';
+
+  const lead = {
+    id: 'lead-1',
+    tenantId,
+    name: 'Ana Lima',
+    stage: LeadStage.NEW,
+    source: 'INSTAGRAM',
+    priority: 'MEDIUM',
+    assignedToId: null,
+    nextFollowUpAt: null,
+    tags: [],
+    tenant: { name: 'Studio Belu' },
+  };
+
+  const rule = (overrides: Record<string, any> = {}) => ({
+    id: 'rule-1',
+    tenantId,
+    name: 'Instagram para a Bia',
+    trigger: LeadAutomationTrigger.LEAD_CREATED,
+    inactivityDays: null,
+    conditions: { sources: ['INSTAGRAM'] },
+    actions: [
+      { type: LeadAutomationActionType.ASSIGN_USER, userId: 'user-1' },
+      { type: LeadAutomationActionType.SCHEDULE_FOLLOW_UP, followUpDays: 1 },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      leadAutomationRule: {
+        findMany: jest.fn().mockResolvedValue([rule()]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        count: jest.fn().mockResolvedValue(1),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      lead: {
+        findFirst: jest
+          .fn()
+          .mockImplementation(() =>
+            Promise.resolve({ ...lead, tags: [...lead.tags] }),
+          ),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      leadInteraction: { create: jest.fn().mockResolvedValue({}) },
+      user: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'user-1', name: 'Bia' }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadAutomationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: { delByPattern: jest.fn().mockResolvedValue(undefined) },
+        },
+        {
+          provide: QueuesService,
+          useValue: { runLeadAutomation: jest.fn().mockResolvedValue({}) },
+        },
+        {
+          provide: EntitlementsService,
+          useValue: { hasFeature: jest.fn().mockResolvedValue(true) },
+        },
+        {
+          provide: NotificationsService,
+          useValue: {
+            findTemplateById: jest.fn(),
+            sendNotification: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LeadAutomationService>(LeadAutomationService);
+    prismaService = module.get(PrismaService);
+    queuesService = module.get(QueuesService);
+    entitlementsService = module.get(EntitlementsService);
+  });
+
+  describe('execute', () => {
+    it('should apply the actions of matching rules and log one interaction', async () => {
+      await expect(
+        service.execute({
+          tenantId,
+          leadId: 'lead-1',
+          trigger: LeadAutomationTrigger.LEAD_CREATED,
+        }),
+      ).resolves.toBe(1);
+
+      expect(prismaService.lead.update).toHaveBeenCalledWith({
+        where: { id: 'lead-1' },
+        data: { assignedToId: 'user-1', assignedAt: expect.any(Date) },
+      });
+      expect(prismaService.lead.update).toHaveBeenCalledWith({
+        where: { id: 'lead-1' },
+        data: { nextFollowUpAt: expect.any(Date) },
+      });
+      expect(prismaService.leadInteraction.create).toHaveBeenCalledTimes(1);
+      expect(prismaService.leadInteraction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: InteractionType.AUTOMATION,
+          title: 'Automação: Instagram para a Bia',
+          outcome: 'Executada',
+          automationRuleId: 'rule-1',
+        }),
+      });
+    });
+
+    it('should skip rules whose conditions do not match', async () => {
+      prismaService.leadAutomationRule.findMany.mockResolvedValue([
+        rule({ conditions: { sources: ['WEBSITE'] } }),
+      ]);
+
+      await expect(
+        service.execute({
+          tenantId,
+          leadId: 'lead-1',
+          trigger: LeadAutomationTrigger.LEAD_CREATED,
+        }),
+      ).resolves.toBe(0);
+      expect(prismaService.lead.update).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when the plan lacks the feature', async () => {
+      entitlementsService.hasFeature.mockResolvedValue(false);
+
+      await service.execute({
+        tenantId,
+        leadId: 'lead-1',
+        trigger: LeadAutomationTrigger.LEAD_CREATED,
+      });
+
+      expect(prismaService.leadAutomationRule.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should chain stage moves without running a rule twice', async () => {
+      prismaService.leadAutomationRule.findMany.mockResolvedValue([
+        rule({
+          id: 'rule-2',
+          trigger: LeadAutomationTrigger.STAGE_CHANGED,
+          conditions: {},
+          actions: [
+            {
+              type: LeadAutomationActionType.MOVE_STAGE,
+              stage: LeadStage.QUALIFIED,
+            },
+          ],
+        }),
+      ]);
+      prismaService.lead.findFirst
+        .mockResolvedValueOnce({ ...lead, stage: LeadStage.CONTACTED })
+        .mockResolvedValueOnce({ ...lead, stage: LeadStage.QUALIFIED });
+
+      await service.execute({
+        tenantId,
+        leadId: 'lead-1',
+        trigger: LeadAutomationTrigger.STAGE_CHANGED,
+        fromStage: LeadStage.NEW,
+        executedRuleIds: ['rule-1'],
+      });
+
+      expect(prismaService.leadAutomationRule.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { notIn: ['rule-1'] } }),
+        }),
+      );
+      expect(queuesService.runLeadAutomation).toHaveBeenCalledWith({
+        tenantId,
+        leadId: 'lead-1',
+        trigger: LeadAutomationTrigger.STAGE_CHANGED,
+        fromStage: LeadStage.CONTACTED,
+        executedRuleIds: ['rule-1', 'rule-2'],
+      });
+    });
+  });
+
+  describe('dispatchInactivityRules', () => {
+    it('should enqueue idle leads not yet handled by the rule', async () => {
+      const now = new Date('2025-06-30T12:00:00.000Z');
+      prismaService.leadAutomationRule.findMany.mockResolvedValue([
+        rule({
+          trigger: LeadAutomationTrigger.NO_INTERACTION,
+          inactivityDays: 7,
+          conditions: { stages: [LeadStage.CONTACTED] },
+        }),
+      ]);
+      prismaService.lead.findMany.mockResolvedValue([{ id: 'lead-1' }]);
+
+      await expect(
+        service.dispatchInactivityRules(tenantId, now),
+      ).resolves.toBe(1);
+
+      const cutoff = new Date('2025-06-23T12:00:00.000Z');
+      expect(prismaService.lead.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            createdAt: { lt: cutoff },
+            interactions: {
+              none: {
+                createdAt: { gte: cutoff },
+                OR: [
+                  { type: { not: InteractionType.AUTOMATION } },
+                  { automationRuleId: 'rule-1' },
+                ],
+              },
+            },
+            AND: [{ stage: { in: [LeadStage.CONTACTED] } }],
+          }),
+        }),
+      );
+      expect(queuesService.runLeadAutomation).toHaveBeenCalledWith({
+        tenantId,
+        leadId: 'lead-1',
+        trigger: LeadAutomationTrigger.NO_INTERACTION,
+        ruleId: 'rule-1',
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should require the inactivity window for NO_INTERACTION rules', async () => {
+      await expect(
+        service.create(tenantId, {
+          name: 'Sem contato',
+          trigger: LeadAutomationTrigger.NO_INTERACTION,
+          actions: [
+            {
+              type: LeadAutomationActionType.SCHEDULE_FOLLOW_UP,
+              followUpDays: 0,
+            },
+          ],
+        }),
+      ).rejects.toThrow('dias sem interação');
+    });
+  });
+});
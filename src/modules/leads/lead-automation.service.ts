@@ -0,0 +1,685 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  InteractionType,
+  LeadAutomationRule,
+  LeadAutomationTrigger,
+  LeadStage,
+  NotificationChannel,
+  Prisma,
+  RecipientType,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+import { QueuesService } from '../../queues/queues.service';
+import { LeadAutomationJobData } from '../../queues/queues.constants';
+import { EntitlementsService } from '../plans/entitlements.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  CreateLeadAutomationDto,
+  UpdateLeadAutomationDto,
+  LeadAutomationActionDto,
+  LeadAutomationActionType,
+  LeadAutomationConditionsDto,
+} from './dto';
+
+const FEATURE_CODE = 'LEADS_AUTOMATION';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Uma regra roda no máximo uma vez por cadeia de mudanças de estágio,
+// e a cadeia para ao atingir esse número de regras
+const MAX_CHAIN_RULES = 10;
+
+// Leads enfileirados por regra de inatividade a cada execução do job
+const INACTIVITY_BATCH_SIZE = 200;
+
+const automationLeadInclude = {
+  tags: { select: { id: true } },
+  tenant: { select: { name: true } },
+} satisfies Prisma.LeadInclude;
+
+type AutomationLead = Prisma.LeadGetPayload<{
+  include: typeof automationLeadInclude;
+}>;
+
+type RuleDefinition = Pick<LeadAutomationRule, 'trigger' | 'inactivityDays'> & {
+  conditions: LeadAutomationConditionsDto;
+  actions: LeadAutomationActionDto[];
+};
+
+@Injectable()
+export class LeadAutomationService {
+  private readonly logger = new Logger(LeadAutomationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private queuesService: QueuesService,
+    private entitlements: EntitlementsService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  // ============================================================================
+  // REGRAS - CRUD
+  // ============================================================================
+
+  async findAll(tenantId: string) {
+    return this.prisma.leadAutomationRule.findMany({
+      where: { tenantId },
+      orderBy: [{ trigger: 'asc' }, { position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findById(id: string, tenantId: string) {
+    const rule = await this.prisma.leadAutomationRule.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Automação não encontrada');
+    }
+
+    return rule;
+  }
+
+  async create(
+    tenantId: string,
+    dto: CreateLeadAutomationDto,
+    userId?: string,
+  ) {
+    const conditions = dto.conditions ?? {};
+
+    await this.validateRule(tenantId, {
+      trigger: dto.trigger,
+      inactivityDays: dto.inactivityDays ?? null,
+      conditions,
+      actions: dto.actions,
+    });
+    await this.ensureUniqueName(tenantId, dto.name);
+
+    return this.prisma.leadAutomationRule.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        description: dto.description,
+        trigger: dto.trigger,
+        inactivityDays: dto.inactivityDays,
+        conditions: conditions as unknown as Prisma.InputJsonValue,
+        actions: dto.actions as unknown as Prisma.InputJsonValue,
+        position: dto.position ?? 0,
+        isActive: dto.isActive ?? true,
+        createdById: userId,
+      },
+    });
+  }
+
+  async update(id: string, tenantId: string, dto: UpdateLeadAutomationDto) {
+    const rule = await this.findById(id, tenantId);
+
+    // Valida a regra resultante, já que gatilho, condições e ações dependem
+    // uns dos outros
+    await this.validateRule(tenantId, {
+      trigger: dto.trigger ?? rule.trigger,
+      inactivityDays: dto.inactivityDays ?? rule.inactivityDays,
+      conditions: dto.conditions ?? this.getConditions(rule),
+      actions: dto.actions ?? this.getActions(rule),
+    });
+    if (dto.name && dto.name !== rule.name) {
+      await this.ensureUniqueName(tenantId, dto.name);
+    }
+
+    return this.prisma.leadAutomationRule.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        trigger: dto.trigger,
+        inactivityDays: dto.inactivityDays,
+        conditions: dto.conditions as unknown as Prisma.InputJsonValue,
+        actions: dto.actions as unknown as Prisma.InputJsonValue,
+        position: dto.position,
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  async delete(id: string, tenantId: string) {
+    await this.findById(id, tenantId);
+
+    await this.prisma.leadAutomationRule.delete({ where: { id } });
+
+    return { message: 'Automação excluída com sucesso' };
+  }
+
+  // ============================================================================
+  // DISPARO - Enfileiramento na fila de notificações
+  // ============================================================================
+
+  /**
+   * Enfileira as automações do gatilho para o lead. Nunca lança: uma falha
+   * aqui não pode impedir a criação ou a mudança de estágio do lead
+   */
+  async dispatch(
+    tenantId: string,
+    leadId: string,
+    trigger: LeadAutomationTrigger,
+    context: Pick<LeadAutomationJobData, 'fromStage' | 'executedRuleIds'> = {},
+  ) {
+    try {
+      const activeRules = await this.prisma.leadAutomationRule.count({
+        where: { tenantId, trigger, isActive: true },
+      });
+
+      if (activeRules === 0) {
+        return;
+      }
+
+      await this.queuesService.runLeadAutomation({
+        tenantId,
+        leadId,
+        trigger,
+        ...context,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch ${trigger} automations for lead ${leadId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Job de manutenção: enfileira as regras NO_INTERACTION para os leads em
+   * aberto sem interação manual há N dias. A própria execução deixa uma
+   * interação da regra, então o lead só volta a ser elegível N dias depois
+   */
+  async dispatchInactivityRules(tenantId: string, now = new Date()) {
+    if (!(await this.entitlements.hasFeature(tenantId, FEATURE_CODE))) {
+      return 0;
+    }
+
+    const rules = await this.prisma.leadAutomationRule.findMany({
+      where: {
+        tenantId,
+        trigger: LeadAutomationTrigger.NO_INTERACTION,
+        isActive: true,
+        inactivityDays: { not: null },
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    let queued = 0;
+
+    for (const rule of rules) {
+      const cutoff = new Date(now.getTime() - rule.inactivityDays! * DAY_MS);
+
+      const leads = await this.prisma.lead.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+          stage: { notIn: [LeadStage.WON, LeadStage.LOST] },
+          createdAt: { lt: cutoff },
+          interactions: {
+            none: {
+              createdAt: { gte: cutoff },
+              OR: [
+                { type: { not: InteractionType.AUTOMATION } },
+                { automationRuleId: rule.id },
+              ],
+            },
+          },
+          AND: [this.buildConditionsWhere(this.getConditions(rule))],
+        },
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+        take: INACTIVITY_BATCH_SIZE,
+      });
+
+      for (const lead of leads) {
+        await this.queuesService.runLeadAutomation({
+          tenantId,
+          leadId: lead.id,
+          trigger: LeadAutomationTrigger.NO_INTERACTION,
+          ruleId: rule.id,
+        });
+        queued++;
+      }
+    }
+
+    return queued;
+  }
+
+  // ============================================================================
+  // EXECUÇÃO - Chamada pelo NotificationProcessor
+  // ============================================================================
+
+  async execute(data: LeadAutomationJobData) {
+    const { tenantId, leadId, fromStage } = data;
+    const trigger = data.trigger as LeadAutomationTrigger;
+    const chain = [...(data.executedRuleIds ?? [])];
+
+    // O plano pode ter mudado desde o enfileiramento
+    if (!(await this.entitlements.hasFeature(tenantId, FEATURE_CODE))) {
+      return 0;
+    }
+
+    const rules = await this.prisma.leadAutomationRule.findMany({
+      where: {
+        tenantId,
+        trigger,
+        isActive: true,
+        id: data.ruleId ?? { notIn: data.executedRuleIds ?? [] },
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    let lead = await this.findLead(leadId, tenantId);
+    if (!lead) {
+      return 0;
+    }
+
+    const initialStage = lead.stage;
+    let executed = 0;
+
+    for (const rule of rules) {
+      if (chain.length >= MAX_CHAIN_RULES) {
+        this.logger.warn(
+          `Lead ${leadId} reached the automation chain limit, skipping remaining rules`,
+        );
+        break;
+      }
+
+      if (!this.matches(this.getConditions(rule), lead, fromStage)) {
+        continue;
+      }
+
+      chain.push(rule.id);
+      await this.runRule(rule, lead);
+      executed++;
+
+      // As próximas regras avaliam o lead já alterado
+      lead = await this.findLead(leadId, tenantId);
+      if (!lead) {
+        break;
+      }
+    }
+
+    if (executed > 0) {
+      await this.redis.delByPattern(`leads:${tenantId}:*`);
+    }
+
+    // Mudança de estágio feita por automação dispara STAGE_CHANGED, levando
+    // as regras já executadas para que nenhuma rode duas vezes na cadeia
+    if (lead && lead.stage !== initialStage && chain.length < MAX_CHAIN_RULES) {
+      await this.dispatch(
+        tenantId,
+        leadId,
+        LeadAutomationTrigger.STAGE_CHANGED,
+        {
+          fromStage: initialStage,
+          executedRuleIds: chain,
+        },
+      );
+    }
+
+    return executed;
+  }
+
+  private async runRule(rule: LeadAutomationRule, lead: AutomationLead) {
+    const results: string[] = [];
+    let failures = 0;
+
+    for (const action of this.getActions(rule)) {
+      try {
+        const result = await this.applyAction(rule, action, lead);
+        if (result) {
+          results.push(result);
+        }
+      } catch (error) {
+        failures++;
+        results.push(`Falha em ${action.type}: ${(error as Error).message}`);
+        this.logger.warn(
+          `Automation ${rule.id} failed ${action.type} for lead ${lead.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    let outcome = 'Executada';
+    if (failures > 0) {
+      outcome = 'Executada com falhas';
+    } else if (results.length === 0) {
+      outcome = 'Nenhuma alteração necessária';
+    }
+
+    // Uma interação por execução: é o histórico da automação no lead e a
+    // marca usada pelo gatilho de inatividade
+    await this.prisma.leadInteraction.create({
+      data: {
+        tenantId: rule.tenantId,
+        leadId: lead.id,
+        type: InteractionType.AUTOMATION,
+        title: `Automação: ${rule.name}`,
+        description: results.length > 0 ? results.join('\n') : undefined,
+        outcome,
+        automationRuleId: rule.id,
+      },
+    });
+
+    await this.prisma.leadAutomationRule.update({
+      where: { id: rule.id },
+      data: { runCount: { increment: 1 }, lastRunAt: new Date() },
+    });
+  }
+
+  /**
+   * Aplica a ação e devolve a descrição para o histórico, ou null quando o
+   * lead já estava no estado desejado
+   */
+  private async applyAction(
+    rule: LeadAutomationRule,
+    action: LeadAutomationActionDto,
+    lead: AutomationLead,
+  ): Promise<string | null> {
+    const { tenantId } = rule;
+
+    switch (action.type) {
+      case LeadAutomationActionType.ASSIGN_USER: {
+        if (lead.assignedToId === action.userId) {
+          return null;
+        }
+
+        const user = await this.prisma.user.findFirst({
+          where: { id: action.userId, tenantId, isActive: true },
+          select: { id: true, name: true },
+        });
+        if (!user) {
+          throw new Error('Usuário não encontrado ou inativo');
+        }
+
+        await this.prisma.lead.update({
+          where: { id: lead.id },
+          data: { assignedToId: user.id, assignedAt: new Date() },
+        });
+        lead.assignedToId = user.id;
+
+        return `Lead atribuído a ${user.name}`;
+      }
+
+      case LeadAutomationActionType.ADD_TAG: {
+        if (lead.tags.some((tag) => tag.id === action.tagId)) {
+          return null;
+        }
+
+        const tag = await this.prisma.leadTag.findFirst({
+          where: { id: action.tagId, tenantId },
+        });
+        if (!tag) {
+          throw new Error('Tag não encontrada');
+        }
+
+        await this.prisma.lead.update({
+          where: { id: lead.id },
+          data: { tags: { connect: { id: tag.id } } },
+        });
+        lead.tags.push({ id: tag.id });
+
+        return `Tag "${tag.name}" adicionada`;
+      }
+
+      case LeadAutomationActionType.SCHEDULE_FOLLOW_UP: {
+        const days = action.followUpDays ?? 0;
+        const nextFollowUpAt = new Date(Date.now() + days * DAY_MS);
+
+        await this.prisma.lead.update({
+          where: { id: lead.id },
+          data: { nextFollowUpAt },
+        });
+        lead.nextFollowUpAt = nextFollowUpAt;
+
+        return days === 0
+          ? 'Follow-up agendado para hoje'
+          : `Follow-up agendado para daqui ${days} dia(s)`;
+      }
+
+      case LeadAutomationActionType.SEND_TEMPLATE: {
+        const template = await this.notificationsService.findTemplateById(
+          action.templateId!,
+          tenantId,
+        );
+        if (!template.isActive) {
+          throw new Error(`Template "${template.name}" está inativo`);
+        }
+
+        await this.notificationsService.sendNotification(tenantId, {
+          type: template.type,
+          channel: template.channel,
+          recipientType: RecipientType.LEAD,
+          recipientId: lead.id,
+          leadId: lead.id,
+          templateId: template.id,
+          variables: {
+            nome: lead.name,
+            primeiro_nome: lead.name.split(' ')[0],
+            empresa: lead.tenant.name,
+          },
+        });
+
+        return `Template "${template.name}" enviado por ${template.channel}`;
+      }
+
+      case LeadAutomationActionType.MOVE_STAGE: {
+        const stage = action.stage!;
+        if (lead.stage === stage) {
+          return null;
+        }
+
+        const data: Prisma.LeadUpdateInput = { stage };
+        if (stage === LeadStage.LOST) {
+          data.lostReason = `Automação: ${rule.name}`;
+          data.lostAt = new Date();
+          data.isActive = false;
+        }
+
+        await this.prisma.lead.update({ where: { id: lead.id }, data });
+
+        const previousStage = lead.stage;
+        lead.stage = stage;
+
+        return `Estágio alterado: ${previousStage} → ${stage}`;
+      }
+
+      default:
+        throw new Error(`Ação desconhecida: ${String(action.type)}`);
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private matches(
+    conditions: LeadAutomationConditionsDto,
+    lead: AutomationLead,
+    fromStage?: string,
+  ) {
+    if (conditions.stages?.length && !conditions.stages.includes(lead.stage)) {
+      return false;
+    }
+    if (
+      conditions.fromStages?.length &&
+      !conditions.fromStages.includes(fromStage as LeadStage)
+    ) {
+      return false;
+    }
+    if (
+      conditions.sources?.length &&
+      !conditions.sources.includes(lead.source)
+    ) {
+      return false;
+    }
+    if (
+      conditions.priorities?.length &&
+      !conditions.priorities.includes(lead.priority)
+    ) {
+      return false;
+    }
+    if (
+      conditions.tagIds?.length &&
+      !lead.tags.some((tag) => conditions.tagIds!.includes(tag.id))
+    ) {
+      return false;
+    }
+    if (conditions.unassignedOnly && lead.assignedToId) {
+      return false;
+    }
+
+    return true;
+  }
+
+  // Mesmas condições de matches(), para filtrar direto na consulta
+  private buildConditionsWhere(
+    conditions: LeadAutomationConditionsDto,
+  ): Prisma.LeadWhereInput {
+    const where: Prisma.LeadWhereInput = {};
+
+    if (conditions.stages?.length) {
+      where.stage = { in: conditions.stages };
+    }
+    if (conditions.sources?.length) {
+      where.source = { in: conditions.sources };
+    }
+    if (conditions.priorities?.length) {
+      where.priority = { in: conditions.priorities };
+    }
+    if (conditions.tagIds?.length) {
+      where.tags = { some: { id: { in: conditions.tagIds } } };
+    }
+    if (conditions.unassignedOnly) {
+      where.assignedToId = null;
+    }
+
+    return where;
+  }
+
+  private async validateRule(tenantId: string, rule: RuleDefinition) {
+    if (
+      rule.trigger === LeadAutomationTrigger.NO_INTERACTION &&
+      !rule.inactivityDays
+    ) {
+      throw new BadRequestException(
+        'Informe os dias sem interação para este gatilho',
+      );
+    }
+
+    if (
+      rule.conditions.fromStages?.length &&
+      rule.trigger !== LeadAutomationTrigger.STAGE_CHANGED
+    ) {
+      throw new BadRequestException(
+        'Estágio anterior só se aplica ao gatilho de mudança de estágio',
+      );
+    }
+
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case LeadAutomationActionType.ASSIGN_USER: {
+          const user = action.userId
+            ? await this.prisma.user.findFirst({
+                where: { id: action.userId, tenantId },
+                select: { id: true },
+              })
+            : null;
+          if (!user) {
+            throw new BadRequestException('Usuário da ação não encontrado');
+          }
+          break;
+        }
+
+        case LeadAutomationActionType.ADD_TAG: {
+          const tag = action.tagId
+            ? await this.prisma.leadTag.findFirst({
+                where: { id: action.tagId, tenantId },
+                select: { id: true },
+              })
+            : null;
+          if (!tag) {
+            throw new BadRequestException('Tag da ação não encontrada');
+          }
+          break;
+        }
+
+        case LeadAutomationActionType.SCHEDULE_FOLLOW_UP:
+          if (action.followUpDays === undefined) {
+            throw new BadRequestException(
+              'Informe em quantos dias o follow-up deve ser agendado',
+            );
+          }
+          break;
+
+        case LeadAutomationActionType.SEND_TEMPLATE: {
+          const template = action.templateId
+            ? await this.prisma.notificationTemplate.findFirst({
+                where: { id: action.templateId, tenantId },
+                select: { channel: true },
+              })
+            : null;
+          if (!template) {
+            throw new BadRequestException('Template da ação não encontrado');
+          }
+          const channels: NotificationChannel[] = [
+            NotificationChannel.WHATSAPP,
+            NotificationChannel.EMAIL,
+          ];
+          if (!channels.includes(template.channel)) {
+            throw new BadRequestException(
+              'Apenas templates de WhatsApp ou email podem ser enviados',
+            );
+          }
+          break;
+        }
+
+        case LeadAutomationActionType.MOVE_STAGE:
+          if (!action.stage) {
+            throw new BadRequestException('Informe o estágio de destino');
+          }
+          // Conversão cria o cliente e precisa passar por convertToClient
+          if (action.stage === LeadStage.WON) {
+            throw new BadRequestException(
+              'A conversão do lead não pode ser automatizada',
+            );
+          }
+          break;
+      }
+    }
+  }
+
+  private async ensureUniqueName(tenantId: string, name: string) {
+    const existing = await this.prisma.leadAutomationRule.findFirst({
+      where: { tenantId, name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException('Já existe uma automação com esse nome');
+    }
+  }
+
+  private findLead(id: string, tenantId: string) {
+    return this.prisma.lead.findFirst({
+      where: { id, tenantId },
+      include: automationLeadInclude,
+    });
+  }
+
+  private getConditions(rule: LeadAutomationRule) {
+    return (rule.conditions ?? {}) as unknown as LeadAutomationConditionsDto;
+  }
+
+  private getActions(rule: LeadAutomationRule) {
+    return rule.actions as unknown as LeadAutomationActionDto[];
+  }
+}
@@ -46,7 +46,7 @@ export class LeadsController {
     @Query() query: QueryLeadsDto,
     @CurrentUser() user: CurrentUserData,
   ) {
-    return this.leadsService.findAll(user.tenantId, query);
+    return this.leadsService.findAll(user.tenantId, query, user.id);
   }
 
   @Get(':id')
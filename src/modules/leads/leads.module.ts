@@ -1,13 +1,29 @@
 import { Module } from '@nestjs/common';
 import { LeadsController } from './leads.controller';
+import { LeadAutomationController } from './lead-automation.controller';
+import { LeadAssignmentController } from './lead-assignment.controller';
 import { LeadsService } from './leads.service';
+import { LeadAutomationService } from './lead-automation.service';
+import { LeadAssignmentService } from './lead-assignment.service';
+import { LeadsScheduler } from './leads.scheduler';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { RedisModule } from '../../redis/redis.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [PrismaModule, RedisModule],
-  controllers: [LeadsController],
-  providers: [LeadsService],
-  exports: [LeadsService],
+  imports: [PrismaModule, RedisModule, NotificationsModule],
+  // Rotas fixas antes: senão GET /leads/automations cai em GET /leads/:id
+  controllers: [
+    LeadAutomationController,
+    LeadAssignmentController,
+    LeadsController,
+  ],
+  providers: [
+    LeadsService,
+    LeadAutomationService,
+    LeadAssignmentService,
+    LeadsScheduler,
+  ],
+  exports: [LeadsService, LeadAutomationService, LeadAssignmentService],
 })
 export class LeadsModule {}
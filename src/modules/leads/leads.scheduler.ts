@@ -0,0 +1,28 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
+import { LeadAutomationService } from './lead-automation.service';
+import { LeadAssignmentService } from './lead-assignment.service';
+
+@Injectable()
+export class LeadsScheduler implements OnModuleInit {
+  constructor(
+    private readonly leadAutomation: LeadAutomationService,
+    private readonly leadAssignment: LeadAssignmentService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Enfileira as automações de leads sem interação há N dias
+    this.maintenance.register(
+      MAINTENANCE_JOBS.LEAD_INACTIVITY_AUTOMATIONS,
+      (tenantId) => this.leadAutomation.dispatchInactivityRules(tenantId!),
+    );
+
+    // Repassa leads que o responsável não trabalhou no prazo configurado
+    this.maintenance.register(
+      MAINTENANCE_JOBS.REASSIGN_STALE_LEADS,
+      (tenantId) => this.leadAssignment.reassignStaleLeads(tenantId!),
+    );
+  }
+}
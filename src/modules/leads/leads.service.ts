@@ -6,6 +6,8 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis/redis.service';
+import { LeadAutomationService } from './lead-automation.service';
+import { LeadAssignmentService } from './lead-assignment.service';
 import {
   CreateLeadDto,
   UpdateLeadDto,
@@ -17,7 +19,12 @@ import {
   QueryLeadsDto,
   LeadsByStageDto,
 } from './dto';
-import { LeadStage, InteractionType, Prisma } from '@prisma/client';
+import {
+  LeadStage,
+  InteractionType,
+  LeadAutomationTrigger,
+  Prisma,
+} from '@prisma/client';
 
 @Injectable()
 export class LeadsService {
@@ -27,13 +34,15 @@ export class LeadsService {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private leadAutomation: LeadAutomationService,
+    private leadAssignment: LeadAssignmentService,
   ) {}
 
   // ============================================================================
   // LEADS - CRUD
   // ============================================================================
 
-  async findAll(tenantId: string, query?: QueryLeadsDto) {
+  async findAll(tenantId: string, query?: QueryLeadsDto, userId?: string) {
     const where: Prisma.LeadWhereInput = { tenantId };
 
     if (query?.stage) {
@@ -52,6 +61,13 @@ export class LeadsService {
       where.assignedToId = query.assignedToId;
     }
 
+    // Visões "meus leads" e "sem responsável"
+    if (query?.mine && userId) {
+      where.assignedToId = userId;
+    } else if (query?.unassigned) {
+      where.assignedToId = null;
+    }
+
     if (query?.isActive !== undefined) {
       where.isActive = query.isActive;
     }
@@ -165,6 +181,7 @@ export class LeadsService {
       data: {
         tenantId,
         ...leadData,
+        assignedAt: leadData.assignedToId ? new Date() : undefined,
         tags: tagIds
           ? {
               connect: tagIds.map((id) => ({ id })),
@@ -186,12 +203,30 @@ export class LeadsService {
       description: `Lead cadastrado no sistema`,
     }, userId);
 
+    // Sem responsável informado, aplica a distribuição do tenant
+    const assignment = lead.assignedToId
+      ? null
+      : await this.leadAssignment.assign(tenantId, lead.id);
+
     await this.invalidateCache(tenantId);
+    await this.leadAutomation.dispatch(
+      tenantId,
+      lead.id,
+      LeadAutomationTrigger.LEAD_CREATED,
+    );
+
+    if (assignment) {
+      return {
+        ...lead,
+        ...assignment,
+        assignedToId: assignment.assignedTo.id,
+      };
+    }
     return lead;
   }
 
   async update(id: string, tenantId: string, dto: UpdateLeadDto) {
-    await this.findById(id, tenantId);
+    const existing = await this.findById(id, tenantId);
 
     const { tagIds, ...updateData } = dto;
 
@@ -199,6 +234,10 @@ export class LeadsService {
       where: { id },
       data: {
         ...updateData,
+        assignedAt:
+          dto.assignedToId && dto.assignedToId !== existing.assignedToId
+            ? new Date()
+            : undefined,
         tags: tagIds
           ? {
               set: tagIds.map((tagId) => ({ id: tagId })),
@@ -282,6 +321,14 @@ export class LeadsService {
     }, userId);
 
     await this.invalidateCache(tenantId);
+    if (previousStage !== dto.stage) {
+      await this.leadAutomation.dispatch(
+        tenantId,
+        id,
+        LeadAutomationTrigger.STAGE_CHANGED,
+        { fromStage: previousStage },
+      );
+    }
     return updatedLead;
   }
 
@@ -590,6 +637,8 @@ export class LeadsService {
       _avg: { estimatedValue: true },
     });
 
+    const byAssignee = await this.getConversionByAssignee(where);
+
     return {
       totalLeads,
       wonLeads,
@@ -598,9 +647,59 @@ export class LeadsService {
       conversionRate: Number(conversionRate.toFixed(2)),
       lossRate: Number(lossRate.toFixed(2)),
       averageValue: Number(avgValue._avg?.estimatedValue || 0),
+      byAssignee,
     };
   }
 
+  // Mesmas métricas por responsável (assignedToId null = sem responsável)
+  private async getConversionByAssignee(where: Prisma.LeadWhereInput) {
+    const rows = await this.prisma.lead.groupBy({
+      by: ['assignedToId', 'stage'],
+      where,
+      _count: { _all: true },
+    });
+
+    const userIds = [
+      ...new Set(rows.map((row) => row.assignedToId).filter(Boolean)),
+    ] as string[];
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(users.map((user) => [user.id, user.name]));
+
+    const byAssignee = new Map<
+      string | null,
+      { totalLeads: number; wonLeads: number; lostLeads: number }
+    >();
+    for (const row of rows) {
+      const entry = byAssignee.get(row.assignedToId) ?? {
+        totalLeads: 0,
+        wonLeads: 0,
+        lostLeads: 0,
+      };
+      entry.totalLeads += row._count._all;
+      if (row.stage === LeadStage.WON) {
+        entry.wonLeads += row._count._all;
+      } else if (row.stage === LeadStage.LOST) {
+        entry.lostLeads += row._count._all;
+      }
+      byAssignee.set(row.assignedToId, entry);
+    }
+
+    return [...byAssignee.entries()]
+      .map(([assignedToId, entry]) => ({
+        assignedToId,
+        name: assignedToId ? (names.get(assignedToId) ?? null) : null,
+        ...entry,
+        activeLeads: entry.totalLeads - entry.wonLeads - entry.lostLeads,
+        conversionRate: Number(
+          ((entry.wonLeads / entry.totalLeads) * 100).toFixed(2),
+        ),
+      }))
+      .sort((a, b) => b.totalLeads - a.totalLeads);
+  }
+
   async getFollowUpsToday(tenantId: string) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
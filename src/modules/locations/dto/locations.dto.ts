@@ -13,6 +13,7 @@ import {
   Min,
   Max,
   ValidateNested,
+  IsTimeZone,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { TransferStatus } from '@prisma/client';
@@ -117,7 +118,7 @@ export class CreateLocationDto {
   businessHours?: BusinessHoursDto;
 
   // Configurações
-  @IsString()
+  @IsTimeZone({ message: 'Fuso horário inválido' })
   @IsOptional()
   timezone?: string;
 
@@ -195,7 +196,7 @@ export class UpdateLocationDto {
   @IsOptional()
   businessHours?: BusinessHoursDto;
 
-  @IsString()
+  @IsTimeZone({ message: 'Fuso horário inválido' })
   @IsOptional()
   timezone?: string;
 
@@ -0,0 +1,206 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsNumber,
+  IsInt,
+  IsUUID,
+  IsEmail,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { NfseProvider, ServiceInvoiceStatus, TaxRegime } from '@prisma/client';
+
+const CNPJ_FORMAT = /^\d{14}$/;
+const MUNICIPALITY_CODE_FORMAT = /^\d{7}$/;
+const SERVICE_CODE_FORMAT = /^\d{2}\.\d{2}$/;
+
+// ============================================================================
+// DTOs para FiscalSettings
+// ============================================================================
+
+export class ConfigureFiscalSettingsDto {
+  @Matches(CNPJ_FORMAT, { message: 'CNPJ deve ter 14 dígitos, sem pontuação' })
+  cnpj: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Razão social é obrigatória' })
+  legalName: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Inscrição municipal é obrigatória' })
+  municipalRegistration: string;
+
+  @Matches(MUNICIPALITY_CODE_FORMAT, {
+    message: 'Código IBGE do município deve ter 7 dígitos',
+  })
+  municipalityCode: string;
+
+  @IsEnum(TaxRegime, { message: 'Regime tributário inválido' })
+  @IsOptional()
+  taxRegime?: TaxRegime;
+
+  @Matches(SERVICE_CODE_FORMAT, {
+    message: 'Código de serviço deve estar no formato 00.00 (LC 116)',
+  })
+  defaultServiceCode: string;
+
+  @IsNumber({}, { message: 'Alíquota de ISS deve ser um número' })
+  @Min(0)
+  @Max(5, { message: 'Alíquota de ISS máxima é 5%' })
+  @Type(() => Number)
+  issRate: number;
+
+  @IsString()
+  @IsOptional()
+  rpsSeries?: string;
+
+  // Continuação da numeração de outro emissor
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  nextRpsNumber?: number;
+
+  @IsEnum(NfseProvider, { message: 'Provedor de NFS-e inválido' })
+  @IsOptional()
+  provider?: NfseProvider;
+
+  @IsString()
+  @IsOptional()
+  apiKey?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isTestMode?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  autoIssue?: boolean;
+}
+
+export class UpdateFiscalSettingsDto {
+  @Matches(CNPJ_FORMAT, { message: 'CNPJ deve ter 14 dígitos, sem pontuação' })
+  @IsOptional()
+  cnpj?: string;
+
+  @IsString()
+  @IsOptional()
+  legalName?: string;
+
+  @IsString()
+  @IsOptional()
+  municipalRegistration?: string;
+
+  @Matches(MUNICIPALITY_CODE_FORMAT, {
+    message: 'Código IBGE do município deve ter 7 dígitos',
+  })
+  @IsOptional()
+  municipalityCode?: string;
+
+  @IsEnum(TaxRegime, { message: 'Regime tributário inválido' })
+  @IsOptional()
+  taxRegime?: TaxRegime;
+
+  @Matches(SERVICE_CODE_FORMAT, {
+    message: 'Código de serviço deve estar no formato 00.00 (LC 116)',
+  })
+  @IsOptional()
+  defaultServiceCode?: string;
+
+  @IsNumber({}, { message: 'Alíquota de ISS deve ser um número' })
+  @Min(0)
+  @Max(5, { message: 'Alíquota de ISS máxima é 5%' })
+  @IsOptional()
+  @Type(() => Number)
+  issRate?: number;
+
+  @IsString()
+  @IsOptional()
+  rpsSeries?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  nextRpsNumber?: number;
+
+  @IsEnum(NfseProvider, { message: 'Provedor de NFS-e inválido' })
+  @IsOptional()
+  provider?: NfseProvider;
+
+  @IsString()
+  @IsOptional()
+  apiKey?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isTestMode?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  autoIssue?: boolean;
+}
+
+// ============================================================================
+// DTOs para ServiceInvoice
+// ============================================================================
+
+export class IssueServiceInvoiceDto {
+  @IsUUID('4', { message: 'ID da transação inválido' })
+  @IsNotEmpty({ message: 'Transação é obrigatória' })
+  transactionId: string;
+
+  // Sem descrição, usa a da transação
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @Matches(/^(\d{11}|\d{14})$/, {
+    message: 'CPF/CNPJ do tomador deve ter 11 ou 14 dígitos',
+  })
+  @IsOptional()
+  takerDocument?: string;
+
+  @IsEmail({}, { message: 'E-mail do tomador inválido' })
+  @IsOptional()
+  takerEmail?: string;
+}
+
+export class CancelServiceInvoiceDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Motivo do cancelamento é obrigatório' })
+  reason: string;
+}
+
+export class QueryServiceInvoicesDto {
+  @IsEnum(ServiceInvoiceStatus)
+  @IsOptional()
+  status?: ServiceInvoiceStatus;
+
+  @IsUUID('4')
+  @IsOptional()
+  clientId?: string;
+
+  @IsUUID('4')
+  @IsOptional()
+  transactionId?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number;
+}
@@ -0,0 +1,4 @@
+export * from './nfse.module';
+export * from './nfse.service';
+export * from './nfse.controller';
+export * from './dto';
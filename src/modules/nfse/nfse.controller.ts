@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { NfseService } from './nfse.service';
+import {
+  ConfigureFiscalSettingsDto,
+  UpdateFiscalSettingsDto,
+  IssueServiceInvoiceDto,
+  CancelServiceInvoiceDto,
+  QueryServiceInvoicesDto,
+} from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/permissions/permissions';
+import type { CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('NFS-e')
+@ApiBearerAuth('access-token')
+@Controller('nfse')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class NfseController {
+  constructor(private nfseService: NfseService) {}
+
+  // ============================================================================
+  // FISCAL SETTINGS
+  // ============================================================================
+
+  @Get('settings')
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async getSettings(@CurrentUser() user: CurrentUserData) {
+    return this.nfseService.getSettings(user.tenantId);
+  }
+
+  @Post('settings')
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async configureSettings(
+    @Body() dto: ConfigureFiscalSettingsDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.nfseService.configureSettings(user.tenantId, dto);
+  }
+
+  @Patch('settings')
+  @RequirePermissions(Permission.SETTINGS_EDIT)
+  async updateSettings(
+    @Body() dto: UpdateFiscalSettingsDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.nfseService.updateSettings(user.tenantId, dto);
+  }
+
+  // ============================================================================
+  // SERVICE INVOICES
+  // ============================================================================
+
+  @Get('invoices')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async findAll(
+    @Query() query: QueryServiceInvoicesDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.nfseService.findAll(user.tenantId, query);
+  }
+
+  @Get('invoices/:id')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async findById(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.nfseService.findById(id, user.tenantId);
+  }
+
+  @Get('invoices/:id/files')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async getFiles(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.nfseService.getFiles(id, user.tenantId);
+  }
+
+  @Post('invoices')
+  @RequirePermissions(Permission.FINANCIAL_CREATE)
+  async issue(
+    @Body() dto: IssueServiceInvoiceDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.nfseService.requestIssue(user.tenantId, dto);
+  }
+
+  @Post('invoices/:id/retry')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async retry(@Param('id') id: string, @CurrentUser() user: CurrentUserData) {
+    return this.nfseService.retry(id, user.tenantId);
+  }
+
+  @Post('invoices/:id/cancel')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async cancel(
+    @Param('id') id: string,
+    @Body() dto: CancelServiceInvoiceDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.nfseService.cancel(id, user.tenantId, dto);
+  }
+}
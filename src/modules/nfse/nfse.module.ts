@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { NfseController } from './nfse.controller';
+import { NfseService } from './nfse.service';
+import { NfseProviderFactory } from './providers';
+import { PdfModule } from '../pdf/pdf.module';
+
+@Module({
+  imports: [PdfModule],
+  controllers: [NfseController],
+  providers: [NfseService, NfseProviderFactory],
+  exports: [NfseService],
+})
+export class NfseModule {}
@@ -0,0 +1,314 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  NfseProvider,
+  Prisma,
+  ServiceInvoiceStatus,
+  TaxRegime,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { NfseService } from './nfse.service';
+import { NfseProviderFactory, FAKE_REJECTED_DESCRIPTION } from './providers';
+import { PrismaService } from '../../prisma/prisma.service';
+import { QueuesService } from '../../queues/queues.service';
+import { StorageService } from '../storage/storage.service';
+import { PdfService } from '../pdf/pdf.service';
+
+// StorageService importa o uuid (ESM), que o jest não transforma
+jest.mock('../storage/storage.service', () => ({
+  StorageService: class StorageService {},
+}));
+
+describe('NfseService', () => {
+  let service: NfseService;
+  let prismaService: any;
+  let queuesService: any;
+  let storageService: any;
+  let providers: NfseProviderFactory;
+
+  const tenantId = 'tenant-123';
+
+  const settings = {
+    id: 'settings-1',
+    tenantId,
+    cnpj: '12345678000199',
+    legalName: 'Studio Belu LTDA',
+    municipalRegistration: '123456',
+    municipalityCode: '3550308',
+    taxRegime: TaxRegime.SIMPLES_NACIONAL,
+    defaultServiceCode: '06.01',
+    issRate: new Prisma.Decimal(2),
+    rpsSeries: 'A',
+    nextRpsNumber: 42,
+    provider: NfseProvider.FAKE,
+    apiKey: null,
+    isTestMode: true,
+    isActive: true,
+    autoIssue: true,
+  };
+
+  const transaction = (overrides: Record<string, any> = {}) => ({
+    id: 'transaction-1',
+    tenantId,
+    type: TransactionType.INCOME,
+    status: TransactionStatus.PAID,
+    description: 'Corte e escova',
+    netAmount: new Prisma.Decimal(150),
+    clientId: 'client-1',
+    client: { id: 'client-1', name: 'Maria Souza', email: 'maria@email.com' },
+    appointmentId: 'appointment-1',
+    appointment: {
+      service: {
+        fiscalServiceCode: '06.02',
+        issRate: new Prisma.Decimal(5),
+      },
+    },
+    clientPackageId: null,
+    clientPackage: null,
+    ...overrides,
+  });
+
+  const invoice = (overrides: Record<string, any> = {}) => ({
+    id: 'invoice-1',
+    tenantId,
+    transactionId: 'transaction-1',
+    clientId: 'client-1',
+    rpsSeries: 'A',
+    rpsNumber: 42,
+    status: ServiceInvoiceStatus.PENDING,
+    provider: NfseProvider.FAKE,
+    serviceCode: '06.02',
+    description: 'Corte e escova',
+    amount: new Prisma.Decimal(150),
+    issRate: new Prisma.Decimal(5),
+    issAmount: new Prisma.Decimal(7.5),
+    takerName: 'Maria Souza',
+    takerDocument: null,
+    takerEmail: 'maria@email.com',
+    externalId: null,
+    number: null,
+    verificationCode: null,
+    issuedAt: null,
+    attempts: 0,
+    createdAt: new Date('2025-03-10T15:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      fiscalSettings: {
+        findUnique: jest.fn().mockResolvedValue(settings),
+        update: jest.fn().mockResolvedValue({ nextRpsNumber: 43 }),
+      },
+      financialTransaction: {
+        findFirst: jest.fn().mockResolvedValue(transaction()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      serviceInvoice: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn(),
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve({ id: 'invoice-1', ...data }),
+          ),
+        update: jest
+          .fn()
+          .mockImplementation(({ where, data }) =>
+            Promise.resolve({ ...invoice(), id: where.id, ...data }),
+          ),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+
+    const prismaMock = Object.assign(mockPrismaService, {
+      $transaction: jest.fn((fn: (tx: typeof mockPrismaService) => unknown) =>
+        fn(mockPrismaService),
+      ),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NfseService,
+        NfseProviderFactory,
+        { provide: PrismaService, useValue: prismaMock },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        {
+          provide: QueuesService,
+          useValue: {
+            issueNfse: jest.fn().mockResolvedValue({}),
+            checkNfseStatus: jest.fn().mockResolvedValue({}),
+          },
+        },
+        {
+          provide: StorageService,
+          useValue: {
+            uploadBuffer: jest
+              .fn()
+              .mockImplementation((_content, _tenant, fileName) =>
+                Promise.resolve({ key: `${tenantId}/nfse/${fileName}` }),
+              ),
+          },
+        },
+        {
+          provide: PdfService,
+          useValue: {
+            generateServiceInvoicePdf: jest
+              .fn()
+              .mockResolvedValue(Buffer.from('pdf')),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NfseService>(NfseService);
+    prismaService = module.get(PrismaService);
+    queuesService = module.get(QueuesService);
+    storageService = module.get(StorageService);
+    providers = module.get(NfseProviderFactory);
+  });
+
+  describe('requestIssue', () => {
+    it('should reserve the next RPS and queue the invoice with the service tax data', async () => {
+      const result = await service.requestIssue(tenantId, {
+        transactionId: 'transaction-1',
+      });
+
+      expect(prismaService.fiscalSettings.update).toHaveBeenCalledWith({
+        where: { id: 'settings-1' },
+        data: { nextRpsNumber: { increment: 1 } },
+        select: { nextRpsNumber: true },
+      });
+      expect(result).toMatchObject({
+        rpsSeries: 'A',
+        rpsNumber: 42,
+        serviceCode: '06.02',
+        takerName: 'Maria Souza',
+      });
+      expect(result.issAmount.toNumber()).toBe(7.5);
+      expect(queuesService.issueNfse).toHaveBeenCalledWith({
+        tenantId,
+        serviceInvoiceId: 'invoice-1',
+      });
+    });
+
+    it('should not issue twice for the same transaction', async () => {
+      prismaService.serviceInvoice.findFirst.mockResolvedValue(
+        invoice({ status: ServiceInvoiceStatus.ISSUED }),
+      );
+
+      await expect(
+        service.requestIssue(tenantId, { transactionId: 'transaction-1' }),
+      ).rejects.toThrow('Transação já possui NFS-e');
+      // A verificação roda com a receita travada, na mesma transação
+      expect(prismaService.$queryRaw).toHaveBeenCalled();
+      expect(prismaService.fiscalSettings.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('issueForPaidTransaction', () => {
+    it('should skip manual income when auto issue is on', async () => {
+      prismaService.financialTransaction.findFirst.mockResolvedValue(
+        transaction({ appointmentId: null, appointment: null }),
+      );
+
+      await expect(
+        service.issueForPaidTransaction(tenantId, 'transaction-1'),
+      ).resolves.toBeNull();
+      expect(queuesService.issueNfse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processIssue', () => {
+    it('should store the issued invoice and its files', async () => {
+      prismaService.serviceInvoice.findUnique.mockResolvedValue(invoice());
+
+      await service.processIssue('invoice-1');
+
+      expect(prismaService.serviceInvoice.update).toHaveBeenCalledWith({
+        where: { id: 'invoice-1' },
+        data: expect.objectContaining({
+          status: ServiceInvoiceStatus.ISSUED,
+          number: expect.any(String),
+        }),
+      });
+      expect(
+        prismaService.financialTransaction.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 'transaction-1', reference: null },
+        data: { reference: expect.stringMatching(/^NFS-e \d+$/) },
+      });
+      expect(storageService.uploadBuffer).toHaveBeenCalledTimes(2);
+      expect(prismaService.serviceInvoice.update).toHaveBeenLastCalledWith({
+        where: { id: 'invoice-1' },
+        data: {
+          pdfKey: expect.stringMatching(/\.pdf$/),
+          xmlKey: expect.stringMatching(/\.xml$/),
+        },
+      });
+    });
+
+    it('should mark the invoice as failed when the provider rejects it', async () => {
+      prismaService.serviceInvoice.findUnique.mockResolvedValue(
+        invoice({ description: FAKE_REJECTED_DESCRIPTION }),
+      );
+
+      await service.processIssue('invoice-1');
+
+      expect(prismaService.serviceInvoice.update).toHaveBeenLastCalledWith({
+        where: { id: 'invoice-1' },
+        data: {
+          status: ServiceInvoiceStatus.FAILED,
+          errorMessage: expect.stringContaining('E160'),
+        },
+      });
+      expect(storageService.uploadBuffer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should only cancel issued invoices', async () => {
+      prismaService.serviceInvoice.findFirst.mockResolvedValue(invoice());
+
+      await expect(
+        service.cancel('invoice-1', tenantId, { reason: 'Erro de valor' }),
+      ).rejects.toThrow('Apenas notas autorizadas');
+    });
+
+    it('should cancel the invoice on the provider', async () => {
+      const adapter = providers.forSettings(settings);
+      const issued = await adapter.issue({
+        rps: { series: 'A', number: 42, issuedOn: new Date() },
+        issuer: settings,
+        taker: { name: 'Maria Souza' },
+        service: {
+          code: '06.02',
+          description: 'Corte e escova',
+          amount: 150,
+          issRate: 5,
+          issAmount: 7.5,
+        },
+      });
+      prismaService.serviceInvoice.findFirst.mockResolvedValue(
+        invoice({
+          status: ServiceInvoiceStatus.ISSUED,
+          externalId: issued.externalId,
+        }),
+      );
+
+      const result = await service.cancel('invoice-1', tenantId, {
+        reason: 'Erro de valor',
+      });
+
+      expect(result.status).toBe(ServiceInvoiceStatus.CANCELLED);
+      await expect(
+        adapter.getStatus(issued.externalId!),
+      ).resolves.toMatchObject({ status: 'CANCELLED' });
+      expect(() => adapter.cancel(issued.externalId!, 'Erro de valor')).toThrow(
+        'não pode ser cancelada',
+      );
+    });
+  });
+});
@@ -0,0 +1,604 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  FiscalSettings,
+  Prisma,
+  ServiceInvoice,
+  ServiceInvoiceStatus,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { QueuesService } from '../../queues/queues.service';
+import { StorageService } from '../storage/storage.service';
+import { PdfService } from '../pdf/pdf.service';
+import { NfseProviderFactory, NfseResult } from './providers';
+import {
+  ConfigureFiscalSettingsDto,
+  UpdateFiscalSettingsDto,
+  IssueServiceInvoiceDto,
+  CancelServiceInvoiceDto,
+  QueryServiceInvoicesDto,
+} from './dto';
+
+// Prefeituras que processam em lote: consulta a cada minuto, por até 30 minutos
+const STATUS_CHECK_DELAY_MS = 60 * 1000;
+const MAX_STATUS_CHECKS = 30;
+
+// Uma receita só tem uma nota válida por vez
+const ACTIVE_STATUSES: ServiceInvoiceStatus[] = [
+  ServiceInvoiceStatus.PENDING,
+  ServiceInvoiceStatus.PROCESSING,
+  ServiceInvoiceStatus.ISSUED,
+];
+
+const fiscalServiceSelect = {
+  select: { fiscalServiceCode: true, issRate: true },
+} as const;
+
+@Injectable()
+export class NfseService {
+  private readonly logger = new Logger(NfseService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private queues: QueuesService,
+    private storage: StorageService,
+    private pdfService: PdfService,
+    private providers: NfseProviderFactory,
+  ) {}
+
+  // ============================================================================
+  // FISCAL SETTINGS
+  // ============================================================================
+
+  async getSettings(tenantId: string) {
+    const settings = await this.prisma.fiscalSettings.findUnique({
+      where: { tenantId },
+    });
+
+    if (!settings) {
+      return null;
+    }
+
+    // Esconder credenciais sensíveis
+    return { ...settings, apiKey: settings.apiKey ? '********' : null };
+  }
+
+  async configureSettings(tenantId: string, dto: ConfigureFiscalSettingsDto) {
+    const data = { ...dto, issRate: new Prisma.Decimal(dto.issRate) };
+
+    const settings = await this.prisma.fiscalSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...data },
+      update: data,
+    });
+
+    return { ...settings, apiKey: settings.apiKey ? '********' : null };
+  }
+
+  async updateSettings(tenantId: string, dto: UpdateFiscalSettingsDto) {
+    const existing = await this.prisma.fiscalSettings.findUnique({
+      where: { tenantId },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Configuração fiscal não encontrada');
+    }
+
+    const settings = await this.prisma.fiscalSettings.update({
+      where: { tenantId },
+      data: {
+        ...dto,
+        issRate:
+          dto.issRate !== undefined
+            ? new Prisma.Decimal(dto.issRate)
+            : undefined,
+      },
+    });
+
+    return { ...settings, apiKey: settings.apiKey ? '********' : null };
+  }
+
+  // ============================================================================
+  // SERVICE INVOICES
+  // ============================================================================
+
+  async findAll(tenantId: string, query: QueryServiceInvoicesDto) {
+    const where: Prisma.ServiceInvoiceWhereInput = { tenantId };
+
+    if (query.status) where.status = query.status;
+    if (query.clientId) where.clientId = query.clientId;
+    if (query.transactionId) where.transactionId = query.transactionId;
+
+    return this.prisma.serviceInvoice.findMany({
+      where,
+      include: {
+        client: { select: { id: true, name: true } },
+        transaction: { select: { id: true, description: true, date: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit || 50,
+      skip: query.offset || 0,
+    });
+  }
+
+  async findById(id: string, tenantId: string) {
+    const invoice = await this.prisma.serviceInvoice.findFirst({
+      where: { id, tenantId },
+      include: {
+        client: { select: { id: true, name: true } },
+        transaction: { select: { id: true, description: true, date: true } },
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('NFS-e não encontrada');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Links temporários do PDF e do XML da nota autorizada
+   */
+  async getFiles(id: string, tenantId: string) {
+    const invoice = await this.findById(id, tenantId);
+
+    return {
+      pdfUrl: invoice.pdfKey
+        ? await this.storage.getSignedUrl(invoice.pdfKey)
+        : null,
+      xmlUrl: invoice.xmlKey
+        ? await this.storage.getSignedUrl(invoice.xmlKey)
+        : null,
+    };
+  }
+
+  /**
+   * Emissão manual para uma receita paga. A nota vai para a fila e é
+   * enviada ao provedor em segundo plano
+   */
+  async requestIssue(tenantId: string, dto: IssueServiceInvoiceDto) {
+    const settings = await this.getActiveSettings(tenantId);
+    const transaction = await this.findIssuableTransaction(
+      tenantId,
+      dto.transactionId,
+    );
+
+    return this.createInvoice(settings, transaction, dto);
+  }
+
+  /**
+   * Emissão automática na baixa de atendimento ou venda de pacote, quando
+   * habilitada. Nunca falha a baixa: retorna null quando não gera nota
+   */
+  async issueForPaidTransaction(
+    tenantId: string,
+    transactionId: string,
+  ): Promise<ServiceInvoice | null> {
+    try {
+      const settings = await this.prisma.fiscalSettings.findUnique({
+        where: { tenantId },
+      });
+
+      if (!settings?.isActive || !settings.autoIssue) {
+        return null;
+      }
+
+      const transaction = await this.findIssuableTransaction(
+        tenantId,
+        transactionId,
+      );
+
+      if (!transaction.appointmentId && !transaction.clientPackageId) {
+        return null;
+      }
+
+      return await this.createInvoice(settings, transaction);
+    } catch (error) {
+      this.logger.error(
+        `Failed to request service invoice for transaction ${transactionId}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Reenvia uma nota rejeitada com o mesmo RPS (RPS rejeitado não é consumido)
+   */
+  async retry(id: string, tenantId: string) {
+    const invoice = await this.findById(id, tenantId);
+
+    if (invoice.status !== ServiceInvoiceStatus.FAILED) {
+      throw new BadRequestException(
+        'Apenas notas com falha podem ser reenviadas',
+      );
+    }
+
+    const updated = await this.prisma.serviceInvoice.update({
+      where: { id },
+      data: {
+        status: ServiceInvoiceStatus.PENDING,
+        errorMessage: null,
+        attempts: 0,
+      },
+    });
+
+    await this.queues.issueNfse({ tenantId, serviceInvoiceId: id });
+    return updated;
+  }
+
+  async cancel(id: string, tenantId: string, dto: CancelServiceInvoiceDto) {
+    const invoice = await this.findById(id, tenantId);
+
+    if (invoice.status !== ServiceInvoiceStatus.ISSUED) {
+      throw new BadRequestException(
+        'Apenas notas autorizadas podem ser canceladas',
+      );
+    }
+
+    const settings = await this.getActiveSettings(tenantId);
+    await this.providers
+      .forSettings(settings)
+      .cancel(invoice.externalId!, dto.reason);
+
+    return this.prisma.serviceInvoice.update({
+      where: { id },
+      data: {
+        status: ServiceInvoiceStatus.CANCELLED,
+        cancelReason: dto.reason,
+        cancelledAt: new Date(),
+      },
+    });
+  }
+
+  // ============================================================================
+  // PROCESSAMENTO (fila de billing)
+  // ============================================================================
+
+  /**
+   * Envia a nota ao provedor. Erros de comunicação sobem para a fila
+   * retentar; o mesmo RPS garante que a prefeitura não emita duas vezes
+   */
+  async processIssue(serviceInvoiceId: string) {
+    const invoice = await this.prisma.serviceInvoice.findUnique({
+      where: { id: serviceInvoiceId },
+    });
+
+    if (!invoice || invoice.status !== ServiceInvoiceStatus.PENDING) {
+      return;
+    }
+
+    const settings = await this.getActiveSettings(invoice.tenantId);
+
+    await this.prisma.serviceInvoice.update({
+      where: { id: invoice.id },
+      data: { attempts: { increment: 1 } },
+    });
+
+    const result = await this.providers.forSettings(settings).issue({
+      rps: {
+        series: invoice.rpsSeries,
+        number: invoice.rpsNumber,
+        issuedOn: invoice.createdAt,
+      },
+      issuer: {
+        cnpj: settings.cnpj,
+        legalName: settings.legalName,
+        municipalRegistration: settings.municipalRegistration,
+        municipalityCode: settings.municipalityCode,
+        taxRegime: settings.taxRegime,
+      },
+      taker: {
+        name: invoice.takerName,
+        document: invoice.takerDocument,
+        email: invoice.takerEmail,
+      },
+      service: {
+        code: invoice.serviceCode,
+        description: invoice.description,
+        amount: invoice.amount.toNumber(),
+        issRate: invoice.issRate.toNumber(),
+        issAmount: invoice.issAmount.toNumber(),
+      },
+    });
+
+    await this.applyResult(invoice, settings, result);
+  }
+
+  async processStatusCheck(serviceInvoiceId: string) {
+    const invoice = await this.prisma.serviceInvoice.findUnique({
+      where: { id: serviceInvoiceId },
+    });
+
+    if (
+      !invoice?.externalId ||
+      invoice.status !== ServiceInvoiceStatus.PROCESSING
+    ) {
+      return;
+    }
+
+    const settings = await this.getActiveSettings(invoice.tenantId);
+    const result = await this.providers
+      .forSettings(settings)
+      .getStatus(invoice.externalId);
+
+    await this.applyResult(invoice, settings, result);
+  }
+
+  /**
+   * Retentativas esgotadas na fila
+   */
+  async markFailed(serviceInvoiceId: string, errorMessage: string) {
+    await this.prisma.serviceInvoice.updateMany({
+      where: {
+        id: serviceInvoiceId,
+        status: {
+          in: [ServiceInvoiceStatus.PENDING, ServiceInvoiceStatus.PROCESSING],
+        },
+      },
+      data: { status: ServiceInvoiceStatus.FAILED, errorMessage },
+    });
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async getActiveSettings(tenantId: string): Promise<FiscalSettings> {
+    const settings = await this.prisma.fiscalSettings.findUnique({
+      where: { tenantId },
+    });
+
+    if (!settings?.isActive) {
+      throw new BadRequestException('Emissão de NFS-e não está habilitada');
+    }
+
+    return settings;
+  }
+
+  private async findIssuableTransaction(
+    tenantId: string,
+    transactionId: string,
+  ) {
+    const transaction = await this.prisma.financialTransaction.findFirst({
+      where: { id: transactionId, tenantId },
+      include: {
+        client: { select: { id: true, name: true, email: true } },
+        appointment: { select: { service: fiscalServiceSelect } },
+        clientPackage: {
+          select: {
+            items: { select: { service: fiscalServiceSelect } },
+          },
+        },
+      },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException('Transação não encontrada');
+    }
+
+    if (
+      transaction.type !== TransactionType.INCOME ||
+      transaction.status !== TransactionStatus.PAID
+    ) {
+      throw new BadRequestException(
+        'NFS-e só pode ser emitida para receitas pagas',
+      );
+    }
+
+    return transaction;
+  }
+
+  private async createInvoice(
+    settings: FiscalSettings,
+    transaction: Awaited<ReturnType<NfseService['findIssuableTransaction']>>,
+    overrides: Partial<IssueServiceInvoiceDto> = {},
+  ) {
+    // Código e alíquota do serviço atendido, ou o padrão do tenant
+    const service =
+      transaction.appointment?.service ??
+      transaction.clientPackage?.items.find(
+        (item) => item.service.fiscalServiceCode,
+      )?.service;
+    const amount = transaction.netAmount;
+    const issRate = service?.issRate ?? settings.issRate;
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      // Trava a receita: emissões concorrentes da mesma transação esperam
+      // aqui e encontram a nota criada pela primeira
+      await tx.$queryRaw`SELECT id FROM "FinancialTransaction" WHERE id = ${transaction.id} FOR UPDATE`;
+
+      const active = await tx.serviceInvoice.findFirst({
+        where: {
+          transactionId: transaction.id,
+          status: { in: ACTIVE_STATUSES },
+        },
+      });
+
+      if (active) {
+        throw new ConflictException('Transação já possui NFS-e');
+      }
+
+      // Reserva o número do RPS de forma atômica
+      const { nextRpsNumber } = await tx.fiscalSettings.update({
+        where: { id: settings.id },
+        data: { nextRpsNumber: { increment: 1 } },
+        select: { nextRpsNumber: true },
+      });
+
+      return tx.serviceInvoice.create({
+        data: {
+          tenantId: settings.tenantId,
+          transactionId: transaction.id,
+          clientId: transaction.clientId,
+          rpsSeries: settings.rpsSeries,
+          rpsNumber: nextRpsNumber - 1,
+          provider: settings.provider,
+          serviceCode:
+            service?.fiscalServiceCode ?? settings.defaultServiceCode,
+          description: overrides.description ?? transaction.description,
+          amount,
+          issRate,
+          issAmount: amount.mul(issRate).div(100).toDecimalPlaces(2),
+          takerName: transaction.client?.name ?? 'Consumidor não identificado',
+          takerDocument: overrides.takerDocument,
+          takerEmail: overrides.takerEmail ?? transaction.client?.email,
+        },
+      });
+    });
+
+    await this.queues.issueNfse({
+      tenantId: settings.tenantId,
+      serviceInvoiceId: invoice.id,
+    });
+
+    return invoice;
+  }
+
+  private async applyResult(
+    invoice: ServiceInvoice,
+    settings: FiscalSettings,
+    result: NfseResult,
+  ) {
+    if (result.status === 'REJECTED') {
+      await this.prisma.serviceInvoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: ServiceInvoiceStatus.FAILED,
+          errorMessage: result.errorMessage ?? 'Nota rejeitada pelo provedor',
+        },
+      });
+      return;
+    }
+
+    // Cancelada direto no portal da prefeitura
+    if (result.status === 'CANCELLED') {
+      await this.prisma.serviceInvoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: ServiceInvoiceStatus.CANCELLED,
+          cancelledAt: invoice.cancelledAt ?? new Date(),
+        },
+      });
+      return;
+    }
+
+    if (result.status === 'PROCESSING') {
+      const checks = invoice.attempts + 1;
+
+      await this.prisma.serviceInvoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: ServiceInvoiceStatus.PROCESSING,
+          externalId: result.externalId,
+          attempts: checks,
+        },
+      });
+
+      if (checks > MAX_STATUS_CHECKS) {
+        await this.markFailed(
+          invoice.id,
+          'Prefeitura não confirmou a emissão. Consulte a nota no portal',
+        );
+      } else {
+        await this.queues.checkNfseStatus(
+          { tenantId: invoice.tenantId, serviceInvoiceId: invoice.id },
+          STATUS_CHECK_DELAY_MS,
+        );
+      }
+      return;
+    }
+
+    // Autorizada: grava antes dos arquivos para não perder a nota se o
+    // armazenamento falhar
+    const issued = await this.prisma.serviceInvoice.update({
+      where: { id: invoice.id },
+      data: {
+        status: ServiceInvoiceStatus.ISSUED,
+        externalId: result.externalId,
+        number: result.number,
+        verificationCode: result.verificationCode,
+        issuedAt: result.issuedAt ?? new Date(),
+        errorMessage: null,
+      },
+    });
+
+    await this.prisma.financialTransaction.updateMany({
+      where: { id: invoice.transactionId, reference: null },
+      data: { reference: `NFS-e ${result.number}` },
+    });
+
+    try {
+      await this.storeFiles(issued, settings, result);
+    } catch (error) {
+      this.logger.error(
+        `Failed to store files of service invoice ${invoice.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async storeFiles(
+    invoice: ServiceInvoice,
+    settings: FiscalSettings,
+    result: NfseResult,
+  ) {
+    const baseName = `nfse-${invoice.number}`;
+
+    const xml = result.xml
+      ? await this.storage.uploadBuffer(
+          Buffer.from(result.xml, 'utf8'),
+          invoice.tenantId,
+          `${baseName}.xml`,
+          'application/xml',
+          'nfse',
+        )
+      : null;
+
+    const pdfContent =
+      result.pdf ??
+      (await this.pdfService.generateServiceInvoicePdf({
+        issuer: {
+          legalName: settings.legalName,
+          cnpj: settings.cnpj,
+          municipalRegistration: settings.municipalRegistration,
+        },
+        taker: {
+          name: invoice.takerName,
+          document: invoice.takerDocument,
+          email: invoice.takerEmail,
+        },
+        number: invoice.number!,
+        verificationCode: invoice.verificationCode,
+        rps: { series: invoice.rpsSeries, number: invoice.rpsNumber },
+        issuedAt: invoice.issuedAt!,
+        service: {
+          code: invoice.serviceCode,
+          description: invoice.description,
+          amount: invoice.amount.toNumber(),
+          issRate: invoice.issRate.toNumber(),
+          issAmount: invoice.issAmount.toNumber(),
+        },
+        isTestMode: settings.isTestMode,
+      }));
+
+    const pdf = await this.storage.uploadBuffer(
+      pdfContent,
+      invoice.tenantId,
+      `${baseName}.pdf`,
+      'application/pdf',
+      'nfse',
+    );
+
+    await this.prisma.serviceInvoice.update({
+      where: { id: invoice.id },
+      data: { pdfKey: pdf.key, xmlKey: xml?.key ?? null },
+    });
+  }
+}
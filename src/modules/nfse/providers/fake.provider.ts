@@ -0,0 +1,91 @@
+import { BadRequestException } from '@nestjs/common';
+import { NfseProvider } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import {
+  NfseIssueInput,
+  NfseProviderAdapter,
+  NfseResult,
+} from './nfse-provider.interface';
+
+// Descrições com este trecho são rejeitadas na emissão
+export const FAKE_REJECTED_DESCRIPTION = 'fake_rejected';
+
+/**
+ * Emissor em memória para desenvolvimento e testes. Autoriza na hora e
+ * respeita o RPS como as prefeituras: reenviar o mesmo RPS devolve a mesma nota
+ */
+export class FakeNfseProvider implements NfseProviderAdapter {
+  readonly provider = NfseProvider.FAKE;
+
+  readonly invoices = new Map<string, NfseResult & { cancelled: boolean }>();
+  private readonly byRps = new Map<string, string>();
+  private lastNumber = 0;
+
+  issue(input: NfseIssueInput): Promise<NfseResult> {
+    const rpsKey = `${input.issuer.cnpj}:${input.rps.series}:${input.rps.number}`;
+    const existing = this.byRps.get(rpsKey);
+    if (existing) {
+      return this.getStatus(existing);
+    }
+
+    if (input.service.description.includes(FAKE_REJECTED_DESCRIPTION)) {
+      return Promise.resolve({
+        status: 'REJECTED',
+        externalId: null,
+        errorMessage: 'E160 - Código de serviço não permitido no município',
+      });
+    }
+
+    const externalId = `fake_nfse_${randomUUID()}`;
+    const number = String(++this.lastNumber);
+    const issuedAt = new Date();
+    const result: NfseResult = {
+      status: 'ISSUED',
+      externalId,
+      number,
+      verificationCode: externalId.slice(-8).toUpperCase(),
+      issuedAt,
+      xml: this.buildXml(input, number, issuedAt),
+    };
+
+    this.invoices.set(externalId, { ...result, cancelled: false });
+    this.byRps.set(rpsKey, externalId);
+
+    return Promise.resolve(result);
+  }
+
+  getStatus(externalId: string): Promise<NfseResult> {
+    const invoice = this.invoices.get(externalId);
+    if (!invoice) {
+      throw new BadRequestException('NFS-e não encontrada no provedor');
+    }
+
+    const { cancelled, ...result } = invoice;
+    return Promise.resolve(
+      cancelled ? { ...result, status: 'CANCELLED' } : result,
+    );
+  }
+
+  cancel(externalId: string): Promise<void> {
+    const invoice = this.invoices.get(externalId);
+    if (!invoice || invoice.cancelled) {
+      throw new BadRequestException('NFS-e não pode ser cancelada');
+    }
+
+    invoice.cancelled = true;
+    return Promise.resolve();
+  }
+
+  private buildXml(input: NfseIssueInput, number: string, issuedAt: Date) {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<CompNfse><Nfse><InfNfse>',
+      `<Numero>${number}</Numero>`,
+      `<DataEmissao>${issuedAt.toISOString()}</DataEmissao>`,
+      `<IdentificacaoRps><Numero>${input.rps.number}</Numero><Serie>${input.rps.series}</Serie></IdentificacaoRps>`,
+      `<PrestadorServico><Cnpj>${input.issuer.cnpj}</Cnpj><InscricaoMunicipal>${input.issuer.municipalRegistration}</InscricaoMunicipal></PrestadorServico>`,
+      `<Servico><ItemListaServico>${input.service.code}</ItemListaServico><ValorServicos>${input.service.amount.toFixed(2)}</ValorServicos><Aliquota>${input.service.issRate.toFixed(2)}</Aliquota><ValorIss>${input.service.issAmount.toFixed(2)}</ValorIss></Servico>`,
+      '</InfNfse></Nfse></CompNfse>',
+    ].join('');
+  }
+}
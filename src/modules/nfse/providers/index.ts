@@ -0,0 +1,3 @@
+export * from './nfse-provider.interface';
+export * from './nfse-provider.factory';
+export * from './fake.provider';
@@ -0,0 +1,35 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NfseProvider } from '@prisma/client';
+import { NfseProviderAdapter } from './nfse-provider.interface';
+import { FakeNfseProvider } from './fake.provider';
+
+@Injectable()
+export class NfseProviderFactory {
+  // Única instância: o estado em memória precisa sobreviver entre chamadas
+  private readonly fake = new FakeNfseProvider();
+
+  constructor(private readonly config: ConfigService) {}
+
+  /**
+   * Emissor configurado pelo tenant. Novos provedores (prefeituras ou
+   * agregadores) entram no enum NfseProvider e ganham um adapter aqui
+   */
+  forSettings(settings: {
+    provider: NfseProvider;
+    apiKey: string | null;
+  }): NfseProviderAdapter {
+    switch (settings.provider) {
+      case NfseProvider.FAKE:
+        // Nota de mentira em produção não tem validade fiscal
+        if (this.config.get('NODE_ENV') === 'production') {
+          throw new BadRequestException('Provedor de NFS-e não configurado');
+        }
+        return this.fake;
+      default:
+        throw new BadRequestException(
+          `Provedor de NFS-e ${String(settings.provider)} não suportado`,
+        );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { NfseProvider, TaxRegime } from '@prisma/client';
+
+export interface NfseIssuer {
+  cnpj: string;
+  legalName: string;
+  municipalRegistration: string;
+  municipalityCode: string; // Código IBGE
+  taxRegime: TaxRegime;
+}
+
+export interface NfseIssueInput {
+  // Mesmo RPS = mesma nota (evita emitir duas vezes em retentativas)
+  rps: { series: string; number: number; issuedOn: Date };
+  issuer: NfseIssuer;
+  taker: {
+    name: string;
+    document?: string | null; // CPF/CNPJ
+    email?: string | null;
+  };
+  service: {
+    code: string; // Item da lista de serviços (LC 116)
+    description: string;
+    amount: number; // Em reais
+    issRate: number; // %
+    issAmount: number;
+  };
+}
+
+export interface NfseResult {
+  status: 'ISSUED' | 'PROCESSING' | 'REJECTED' | 'CANCELLED';
+  externalId: string | null;
+  number?: string;
+  verificationCode?: string;
+  issuedAt?: Date;
+  xml?: string;
+  pdf?: Buffer; // Sem PDF, o sistema gera o espelho da nota
+  errorMessage?: string;
+}
+
+/**
+ * Operações comuns dos emissores de NFS-e (prefeitura direta ou agregador).
+ * Rejeições retornam status REJECTED; erros de comunicação lançam exceção
+ * e a emissão é retentada pela fila
+ */
+export interface NfseProviderAdapter {
+  readonly provider: NfseProvider;
+
+  issue(input: NfseIssueInput): Promise<NfseResult>;
+
+  /**
+   * Consulta uma nota enviada a prefeituras que processam em lote
+   */
+  getStatus(externalId: string): Promise<NfseResult>;
+
+  cancel(externalId: string, reason: string): Promise<void>;
+}
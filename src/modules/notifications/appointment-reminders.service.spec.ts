@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  AppointmentStatus,
+  NotificationChannel,
+  NotificationStatus,
+} from '@prisma/client';
+import { AppointmentRemindersService } from './appointment-reminders.service';
+import { NotificationsService } from './notifications.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('AppointmentRemindersService', () => {
+  let service: AppointmentRemindersService;
+  let prismaService: any;
+  let notificationsService: any;
+
+  const tenantId = 'tenant-123';
+
+  const policy = {
+    tenantId,
+    isActive: true,
+    offsets: [1440, 120],
+    channel: NotificationChannel.WHATSAPP,
+    fallbackChannel: NotificationChannel.EMAIL,
+    tenant: { whatsAppConfig: { isActive: true } },
+  };
+
+  // 14:00 em São Paulo = 17:00 UTC
+  const appointment = {
+    id: 'appointment-1',
+    clientId: 'client-1',
+    status: AppointmentStatus.SCHEDULED,
+    date: new Date('2025-02-04T00:00:00.000Z'),
+    startTime: '14:00',
+    client: { name: 'Maria', phone: '11999999999', email: 'maria@email.com' },
+    service: { name: 'Corte' },
+    provider: { name: 'Ana' },
+    tenant: { timezone: 'America/Sao_Paulo' },
+    location: null,
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      reminderPolicy: { findMany: jest.fn().mockResolvedValue([policy]) },
+      appointment: { findMany: jest.fn().mockResolvedValue([appointment]) },
+      notification: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn(({ where }) =>
+          Promise.resolve({ count: where.id.in.length }),
+        ),
+      },
+    };
+
+    const mockNotificationsService = {
+      sendNotification: jest.fn().mockResolvedValue({ id: 'notification-1' }),
+      buildAppointmentVariables: jest.fn().mockReturnValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppointmentRemindersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<AppointmentRemindersService>(
+      AppointmentRemindersService,
+    );
+    prismaService = module.get(PrismaService);
+    notificationsService = module.get(NotificationsService);
+  });
+
+  describe('scheduleDueReminders', () => {
+    it('should schedule only the reminder that is due', async () => {
+      // 24h antes: 17:00 UTC do dia anterior
+      const now = new Date('2025-02-03T16:58:00.000Z');
+
+      await expect(service.scheduleDueReminders(now)).resolves.toBe(1);
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(
+        tenantId,
+        expect.objectContaining({
+          channel: NotificationChannel.WHATSAPP,
+          appointmentId: 'appointment-1',
+          scheduledAt: '2025-02-03T17:00:00.000Z',
+        }),
+        expect.objectContaining({ reminderOffset: 1440 }),
+      );
+    });
+
+    it('should not schedule a reminder twice', async () => {
+      const now = new Date('2025-02-03T16:58:00.000Z');
+      prismaService.notification.findMany.mockResolvedValue([
+        {
+          appointmentId: 'appointment-1',
+          reminderOffset: 1440,
+          scheduledAt: new Date('2025-02-03T17:00:00.000Z'),
+        },
+      ]);
+
+      await expect(service.scheduleDueReminders(now)).resolves.toBe(0);
+      expect(notificationsService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to email when WhatsApp is not active', async () => {
+      const now = new Date('2025-02-04T14:55:00.000Z');
+      prismaService.reminderPolicy.findMany.mockResolvedValue([
+        { ...policy, tenant: { whatsAppConfig: null } },
+      ]);
+
+      await service.scheduleDueReminders(now);
+
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(
+        tenantId,
+        expect.objectContaining({
+          channel: NotificationChannel.EMAIL,
+          scheduledAt: '2025-02-04T15:00:00.000Z',
+        }),
+        expect.objectContaining({ reminderOffset: 120 }),
+      );
+    });
+  });
+
+  describe('cancelStaleReminders', () => {
+    it('should cancel reminders of cancelled or rescheduled appointments', async () => {
+      prismaService.notification.findMany.mockResolvedValue([
+        {
+          id: 'still-valid',
+          appointmentId: 'appointment-1',
+          reminderOffset: 120,
+          scheduledAt: new Date('2025-02-04T15:00:00.000Z'),
+        },
+        {
+          id: 'rescheduled',
+          appointmentId: 'appointment-1',
+          reminderOffset: 1440,
+          scheduledAt: new Date('2025-02-02T17:00:00.000Z'),
+        },
+        {
+          id: 'cancelled',
+          appointmentId: 'appointment-2',
+          reminderOffset: 120,
+          scheduledAt: new Date('2025-02-04T15:00:00.000Z'),
+        },
+      ]);
+      prismaService.appointment.findMany.mockResolvedValue([
+        appointment,
+        {
+          ...appointment,
+          id: 'appointment-2',
+          status: AppointmentStatus.CANCELLED,
+        },
+      ]);
+
+      await expect(service.cancelStaleReminders()).resolves.toBe(2);
+      expect(prismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['rescheduled', 'cancelled'] },
+          status: NotificationStatus.SCHEDULED,
+        },
+        data: { status: NotificationStatus.CANCELLED },
+      });
+    });
+  });
+});
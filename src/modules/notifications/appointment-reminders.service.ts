@@ -0,0 +1,307 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from './notifications.service';
+import { UpdateReminderPolicyDto } from './dto';
+import {
+  AppointmentStatus,
+  NotificationChannel,
+  NotificationStatus,
+  NotificationType,
+  Prisma,
+  RecipientType,
+} from '@prisma/client';
+import {
+  addDays,
+  parseDateOnly,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+import { REPEATABLE_JOBS } from '../../queues/queues.constants';
+
+// Janela coberta por cada execução do agendador
+const SCHEDULER_WINDOW_MS = REPEATABLE_JOBS.APPOINTMENT_REMINDERS.every;
+
+// Atraso máximo tolerado para enviar um lembrete cujo horário já passou
+const REMINDER_GRACE_MINUTES = 60;
+
+const ACTIVE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+];
+
+const DEFAULT_REMINDER_CONTENT = `Olá {{nome}}! Lembramos do seu agendamento:
+
+📅 Data: {{data}}
+🕐 Horário: {{hora}}
+💆 Serviço: {{servico}}
+👤 Profissional: {{profissional}}`;
+
+const appointmentInclude = {
+  client: true,
+  service: true,
+  provider: true,
+  tenant: { select: { timezone: true } },
+  location: { include: { location: { select: { timezone: true } } } },
+} as const;
+
+type ReminderAppointment = Prisma.AppointmentGetPayload<{
+  include: typeof appointmentInclude;
+}>;
+
+/**
+ * Lembretes automáticos de agendamento conforme a política do tenant.
+ * Cada agendamento recebe no máximo um lembrete por antecedência; o
+ * histórico de Notification (appointmentId + reminderOffset + scheduledAt)
+ * evita duplicidades entre execuções
+ */
+@Injectable()
+export class AppointmentRemindersService {
+  private readonly logger = new Logger(AppointmentRemindersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  // ============================================================================
+  // POLÍTICA
+  // ============================================================================
+
+  async getPolicy(tenantId: string) {
+    return this.prisma.reminderPolicy.findUnique({ where: { tenantId } });
+  }
+
+  async upsertPolicy(tenantId: string, dto: UpdateReminderPolicyDto) {
+    const data = {
+      ...dto,
+      offsets: dto.offsets
+        ? [...new Set(dto.offsets)].sort((a, b) => b - a)
+        : undefined,
+    };
+
+    return this.prisma.reminderPolicy.upsert({
+      where: { tenantId },
+      update: data,
+      create: { tenantId, ...data },
+    });
+  }
+
+  // ============================================================================
+  // AGENDADOR
+  // ============================================================================
+
+  /**
+   * Cria as notificações agendadas (SCHEDULED) dos lembretes que vencem
+   * até a próxima execução do agendador
+   */
+  async scheduleDueReminders(now = new Date()): Promise<number> {
+    const policies = await this.prisma.reminderPolicy.findMany({
+      where: { isActive: true },
+      include: {
+        tenant: { select: { whatsAppConfig: { select: { isActive: true } } } },
+      },
+    });
+
+    let created = 0;
+
+    for (const policy of policies) {
+      if (policy.offsets.length === 0) continue;
+
+      const horizon = new Date(
+        now.getTime() +
+          Math.max(...policy.offsets) * 60000 +
+          SCHEDULER_WINDOW_MS,
+      );
+
+      const appointments = await this.prisma.appointment.findMany({
+        where: {
+          tenantId: policy.tenantId,
+          status: { in: ACTIVE_STATUSES },
+          // Margem de um dia para cobrir qualquer fuso
+          date: {
+            gte: addDays(parseDateOnly(now), -1),
+            lte: addDays(parseDateOnly(horizon), 1),
+          },
+        },
+        include: appointmentInclude,
+      });
+
+      if (appointments.length === 0) continue;
+
+      const sent = await this.prisma.notification.findMany({
+        where: {
+          tenantId: policy.tenantId,
+          appointmentId: { in: appointments.map((a) => a.id) },
+          reminderOffset: { not: null },
+        },
+        select: {
+          appointmentId: true,
+          reminderOffset: true,
+          scheduledAt: true,
+        },
+      });
+      const sentKeys = new Set(
+        sent.map((n) =>
+          this.reminderKey(n.appointmentId!, n.reminderOffset!, n.scheduledAt),
+        ),
+      );
+
+      const whatsAppActive = !!policy.tenant.whatsAppConfig?.isActive;
+
+      for (const appointment of appointments) {
+        const startsAt = this.getStartsAt(appointment);
+        if (startsAt <= now) continue;
+
+        for (const offset of policy.offsets) {
+          const sendAt = new Date(startsAt.getTime() - offset * 60000);
+
+          if (
+            sendAt.getTime() > now.getTime() + SCHEDULER_WINDOW_MS ||
+            sendAt.getTime() < now.getTime() - REMINDER_GRACE_MINUTES * 60000 ||
+            sentKeys.has(this.reminderKey(appointment.id, offset, sendAt))
+          ) {
+            continue;
+          }
+
+          const channel = this.resolveChannel(
+            policy,
+            appointment,
+            whatsAppActive,
+          );
+          if (!channel) continue;
+
+          try {
+            await this.notificationsService.sendNotification(
+              policy.tenantId,
+              {
+                type: NotificationType.APPOINTMENT_REMINDER,
+                channel,
+                recipientType: RecipientType.CLIENT,
+                recipientId: appointment.clientId,
+                appointmentId: appointment.id,
+                scheduledAt: sendAt.toISOString(),
+                variables:
+                  this.notificationsService.buildAppointmentVariables(
+                    appointment,
+                  ),
+              },
+              {
+                reminderOffset: offset,
+                fallbackContent: DEFAULT_REMINDER_CONTENT,
+                fallbackSubject: 'Lembrete de agendamento',
+              },
+            );
+            created++;
+          } catch (error) {
+            this.logger.error(
+              `Failed to schedule reminder for appointment ${appointment.id}: ${error.message}`,
+            );
+          }
+        }
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Cancela lembretes ainda não enviados de agendamentos cancelados,
+   * concluídos ou remarcados (o novo horário gera um novo lembrete)
+   */
+  async cancelStaleReminders(): Promise<number> {
+    const pending = await this.prisma.notification.findMany({
+      where: {
+        status: NotificationStatus.SCHEDULED,
+        reminderOffset: { not: null },
+        appointmentId: { not: null },
+      },
+      select: {
+        id: true,
+        appointmentId: true,
+        reminderOffset: true,
+        scheduledAt: true,
+      },
+    });
+
+    if (pending.length === 0) return 0;
+
+    const appointments = await this.prisma.appointment.findMany({
+      where: { id: { in: [...new Set(pending.map((n) => n.appointmentId!))] } },
+      include: appointmentInclude,
+    });
+    const byId = new Map(appointments.map((a) => [a.id, a]));
+
+    const staleIds = pending
+      .filter((notification) => {
+        const appointment = byId.get(notification.appointmentId!);
+        if (!appointment || !ACTIVE_STATUSES.includes(appointment.status)) {
+          return true;
+        }
+
+        const sendAt =
+          this.getStartsAt(appointment).getTime() -
+          notification.reminderOffset! * 60000;
+        return notification.scheduledAt?.getTime() !== sendAt;
+      })
+      .map((n) => n.id);
+
+    if (staleIds.length === 0) return 0;
+
+    const { count } = await this.prisma.notification.updateMany({
+      where: { id: { in: staleIds }, status: NotificationStatus.SCHEDULED },
+      data: { status: NotificationStatus.CANCELLED },
+    });
+
+    return count;
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private getStartsAt(appointment: ReminderAppointment): Date {
+    const timeZone = resolveTimezone(
+      appointment.location?.location.timezone,
+      appointment.tenant.timezone,
+    );
+    return zonedTimeToUtc(appointment.date, appointment.startTime, timeZone);
+  }
+
+  /**
+   * Canal da política, ou o canal alternativo quando o cliente não pode
+   * ser alcançado pelo principal
+   */
+  private resolveChannel(
+    policy: {
+      channel: NotificationChannel;
+      fallbackChannel: NotificationChannel | null;
+    },
+    appointment: ReminderAppointment,
+    whatsAppActive: boolean,
+  ): NotificationChannel | null {
+    const canReach = (channel: NotificationChannel | null) => {
+      switch (channel) {
+        case NotificationChannel.WHATSAPP:
+          return whatsAppActive && !!appointment.client.phone;
+        case NotificationChannel.EMAIL:
+          return !!appointment.client.email;
+        case NotificationChannel.SMS:
+          return !!appointment.client.phone;
+        default:
+          return false;
+      }
+    };
+
+    if (canReach(policy.channel)) return policy.channel;
+    if (canReach(policy.fallbackChannel)) return policy.fallbackChannel;
+    return null;
+  }
+
+  private reminderKey(
+    appointmentId: string,
+    offset: number,
+    scheduledAt: Date | null,
+  ): string {
+    return `${appointmentId}:${offset}:${scheduledAt?.getTime()}`;
+  }
+}
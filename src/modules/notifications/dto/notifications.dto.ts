@@ -11,6 +11,7 @@ import {
   Min,
   Max,
   IsPhoneNumber,
+  ArrayMaxSize,
 } from 'class-validator';
 import {
   NotificationType,
@@ -130,7 +131,13 @@ export class SendBulkNotificationDto {
 
   @IsArray()
   @IsUUID('4', { each: true })
-  recipientIds: string[];
+  @IsOptional()
+  recipientIds?: string[];
+
+  // Alternativa aos IDs: envia para os clientes de um segmento salvo
+  @IsUUID('4', { message: 'Segmento inválido' })
+  @IsOptional()
+  segmentId?: string;
 
   @IsEnum(RecipientType, { message: 'Tipo de destinatário inválido' })
   recipientType: RecipientType;
@@ -150,6 +157,33 @@ export class SendAppointmentReminderDto {
   hoursBeforeAppointment?: number; // Horas antes do agendamento (default: 24)
 }
 
+// ============================================================================
+// DTOs para ReminderPolicy
+// ============================================================================
+
+export class UpdateReminderPolicyDto {
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  // Antecedências em minutos (ex: [1440, 120] = 24h e 2h antes)
+  @IsArray()
+  @ArrayMaxSize(5, { message: 'Informe no máximo 5 lembretes' })
+  @IsInt({ each: true })
+  @Min(15, { each: true, message: 'Antecedência mínima de 15 minutos' })
+  @Max(10080, { each: true, message: 'Antecedência máxima de 7 dias' })
+  @IsOptional()
+  offsets?: number[];
+
+  @IsEnum(NotificationChannel, { message: 'Canal inválido' })
+  @IsOptional()
+  channel?: NotificationChannel;
+
+  @IsEnum(NotificationChannel, { message: 'Canal alternativo inválido' })
+  @IsOptional()
+  fallbackChannel?: NotificationChannel | null;
+}
+
 // ============================================================================
 // DTOs para WhatsAppConfig
 // ============================================================================
@@ -3,15 +3,25 @@ import {
   Get,
   Post,
   Patch,
+  Put,
   Delete,
   Body,
   Param,
   Query,
   UseGuards,
   Request,
+  Req,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
 } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { NotificationsService } from './notifications.service';
+import { AppointmentRemindersService } from './appointment-reminders.service';
+import { WhatsAppWebhookService } from './whatsapp-webhook.service';
 import {
   CreateTemplateDto,
   UpdateTemplateDto,
@@ -22,7 +32,7 @@ import {
   UpdateWhatsAppConfigDto,
   QueryTemplatesDto,
   QueryNotificationsDto,
-  WhatsAppWebhookDto,
+  UpdateReminderPolicyDto,
 } from './dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RequirePermissions } from '../../common/decorators/permissions.decorator';
@@ -33,7 +43,10 @@ import { Permission } from '../../common/permissions/permissions';
 @Controller('notifications')
 @UseGuards(JwtAuthGuard)
 export class NotificationsController {
-  constructor(private readonly notificationsService: NotificationsService) {}
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly appointmentRemindersService: AppointmentRemindersService,
+  ) {}
 
   // ============================================================================
   // TEMPLATES
@@ -119,6 +132,25 @@ export class NotificationsController {
     );
   }
 
+  // ============================================================================
+  // LEMBRETES AUTOMÁTICOS
+  // ============================================================================
+
+  @Get('reminder-policy')
+  @RequirePermissions(Permission.NOTIFICATIONS_VIEW)
+  getReminderPolicy(@Request() req) {
+    return this.appointmentRemindersService.getPolicy(req.user.tenantId);
+  }
+
+  @Put('reminder-policy')
+  @RequirePermissions(Permission.NOTIFICATIONS_MANAGE)
+  updateReminderPolicy(@Request() req, @Body() dto: UpdateReminderPolicyDto) {
+    return this.appointmentRemindersService.upsertPolicy(
+      req.user.tenantId,
+      dto,
+    );
+  }
+
   // ============================================================================
   // NOTIFICATIONS - Consulta
   // ============================================================================
@@ -182,10 +214,57 @@ export class NotificationsController {
   testWhatsAppConnection(@Request() req) {
     return this.notificationsService.testWhatsAppConnection(req.user.tenantId);
   }
+}
 
-  // ============================================================================
-  // WEBHOOKS (Público - sem autenticação)
-  // ============================================================================
-  // TODO: Implementar endpoints de webhook para receber status de entrega
-  // Exemplo: POST /notifications/webhook/whatsapp
+// ============================================================================
+// WEBHOOK WHATSAPP (Público - sem autenticação JWT)
+// ============================================================================
+
+@Controller('notifications/webhook/whatsapp')
+export class WhatsAppWebhookController {
+  constructor(
+    private readonly whatsAppWebhookService: WhatsAppWebhookService,
+  ) {}
+
+  /**
+   * Verificação do webhook pela Meta
+   * URL: GET /notifications/webhook/whatsapp/:tenantId
+   */
+  @Get(':tenantId')
+  verifyWebhook(
+    @Param('tenantId', ParseUUIDPipe) tenantId: string,
+    @Query('hub.mode') mode?: string,
+    @Query('hub.verify_token') verifyToken?: string,
+    @Query('hub.challenge') challenge?: string,
+  ) {
+    return this.whatsAppWebhookService.verifySubscription(
+      tenantId,
+      mode,
+      verifyToken,
+      challenge,
+    );
+  }
+
+  /**
+   * Mensagens recebidas e status de entrega
+   * URL: POST /notifications/webhook/whatsapp/:tenantId
+   *
+   * - Meta Cloud API: header X-Hub-Signature-256 (HMAC com o App Secret)
+   * - Evolution API: header X-Webhook-Secret (webhookSecret da configuração)
+   */
+  @Post(':tenantId')
+  @HttpCode(HttpStatus.OK)
+  receiveWebhook(
+    @Param('tenantId', ParseUUIDPipe) tenantId: string,
+    @Body() payload: any,
+    @Req() req: RawBodyRequest<ExpressRequest>,
+    @Headers() headers: Record<string, string>,
+  ) {
+    return this.whatsAppWebhookService.handleWebhook(
+      tenantId,
+      payload,
+      req.rawBody,
+      headers,
+    );
+  }
 }
@@ -1,13 +1,24 @@
 import { Module } from '@nestjs/common';
-import { NotificationsController } from './notifications.controller';
+import {
+  NotificationsController,
+  WhatsAppWebhookController,
+} from './notifications.controller';
 import { NotificationsService } from './notifications.service';
+import { AppointmentRemindersService } from './appointment-reminders.service';
+import { WhatsAppWebhookService } from './whatsapp-webhook.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { RedisModule } from '../../redis/redis.module';
+import { AppointmentsModule } from '../appointments/appointments.module';
+import { SegmentsModule } from '../segments/segments.module';
 
 @Module({
-  imports: [PrismaModule, RedisModule],
-  controllers: [NotificationsController],
-  providers: [NotificationsService],
-  exports: [NotificationsService],
+  imports: [PrismaModule, RedisModule, AppointmentsModule, SegmentsModule],
+  controllers: [NotificationsController, WhatsAppWebhookController],
+  providers: [
+    NotificationsService,
+    AppointmentRemindersService,
+    WhatsAppWebhookService,
+  ],
+  exports: [NotificationsService, AppointmentRemindersService],
 })
 export class NotificationsModule {}
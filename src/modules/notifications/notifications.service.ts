@@ -6,6 +6,7 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis/redis.service';
+import { SegmentsService } from '../segments/segments.service';
 import {
   CreateTemplateDto,
   UpdateTemplateDto,
@@ -25,6 +26,16 @@ import {
   WhatsAppProvider,
   Prisma,
 } from '@prisma/client';
+import {
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+
+export interface SendNotificationOptions {
+  reminderOffset?: number; // Lembrete automático: antecedência em minutos
+  fallbackContent?: string; // Usado quando não há template ativo para o tipo/canal
+  fallbackSubject?: string;
+}
 
 @Injectable()
 export class NotificationsService {
@@ -35,6 +46,7 @@ export class NotificationsService {
     private prisma: PrismaService,
     private redis: RedisService,
     private config: ConfigService,
+    private segments: SegmentsService,
   ) {}
 
   // ============================================================================
@@ -128,7 +140,11 @@ export class NotificationsService {
   // NOTIFICATIONS - Envio
   // ============================================================================
 
-  async sendNotification(tenantId: string, dto: SendNotificationDto) {
+  async sendNotification(
+    tenantId: string,
+    dto: SendNotificationDto,
+    options?: SendNotificationOptions,
+  ) {
     // Buscar destinatário
     const recipient = await this.getRecipient(
       tenantId,
@@ -162,6 +178,12 @@ export class NotificationsService {
         subject = defaultTemplate.subject
           ? this.replaceVariables(defaultTemplate.subject, dto.variables || {})
           : null;
+      } else if (options?.fallbackContent) {
+        content = this.replaceVariables(
+          options.fallbackContent,
+          dto.variables || {},
+        );
+        subject = options.fallbackSubject ?? null;
       }
     }
 
@@ -179,11 +201,13 @@ export class NotificationsService {
         recipientName: recipient.name,
         recipientPhone: recipient.phone,
         recipientEmail: recipient.email,
+        type: dto.type,
         channel: dto.channel || NotificationChannel.WHATSAPP,
         subject,
         content,
         appointmentId: dto.appointmentId,
         leadId: dto.leadId,
+        reminderOffset: options?.reminderOffset,
         scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : null,
         status: dto.scheduledAt
           ? NotificationStatus.SCHEDULED
@@ -200,9 +224,10 @@ export class NotificationsService {
   }
 
   async sendBulkNotification(tenantId: string, dto: SendBulkNotificationDto) {
+    const recipientIds = await this.resolveBulkRecipients(tenantId, dto);
     const results: any[] = [];
 
-    for (const recipientId of dto.recipientIds) {
+    for (const recipientId of recipientIds) {
       try {
         const notification = await this.sendNotification(tenantId, {
           type: dto.type,
@@ -219,7 +244,7 @@ export class NotificationsService {
     }
 
     return {
-      total: dto.recipientIds.length,
+      total: recipientIds.length,
       success: results.filter((r) => r.status === 'success').length,
       failed: results.filter((r) => r.status === 'error').length,
       results,
@@ -233,6 +258,8 @@ export class NotificationsService {
         client: true,
         service: true,
         provider: true,
+        tenant: { select: { timezone: true } },
+        location: { include: { location: { select: { timezone: true } } } },
       },
     });
 
@@ -240,13 +267,24 @@ export class NotificationsService {
       throw new NotFoundException('Agendamento não encontrado');
     }
 
-    const variables = {
-      nome: appointment.client.name,
-      data: this.formatDate(appointment.date),
-      hora: appointment.startTime,
-      servico: appointment.service.name,
-      profissional: appointment.provider.name,
-    };
+    // Data + horário são de parede no fuso da unidade (ou do tenant)
+    const timeZone = resolveTimezone(
+      appointment.location?.location.timezone,
+      appointment.tenant.timezone,
+    );
+    const startsAt = zonedTimeToUtc(
+      appointment.date,
+      appointment.startTime,
+      timeZone,
+    );
+
+    if (startsAt <= new Date()) {
+      throw new BadRequestException(
+        'Não é possível enviar lembrete de um agendamento que já passou',
+      );
+    }
+
+    const variables = this.buildAppointmentVariables(appointment);
 
     return this.sendNotification(tenantId, {
       type: NotificationType.APPOINTMENT_REMINDER,
@@ -272,13 +310,7 @@ export class NotificationsService {
       throw new NotFoundException('Agendamento não encontrado');
     }
 
-    const variables = {
-      nome: appointment.client.name,
-      data: this.formatDate(appointment.date),
-      hora: appointment.startTime,
-      servico: appointment.service.name,
-      profissional: appointment.provider.name,
-    };
+    const variables = this.buildAppointmentVariables(appointment);
 
     return this.sendNotification(tenantId, {
       type: NotificationType.APPOINTMENT_CONFIRMATION,
@@ -290,6 +322,25 @@ export class NotificationsService {
     });
   }
 
+  /**
+   * Variáveis de template de um agendamento ({{nome}}, {{data}}, ...)
+   */
+  buildAppointmentVariables(appointment: {
+    date: Date;
+    startTime: string;
+    client: { name: string };
+    service: { name: string };
+    provider: { name: string };
+  }): Record<string, string> {
+    return {
+      nome: appointment.client.name,
+      data: this.formatDate(appointment.date),
+      hora: appointment.startTime,
+      servico: appointment.service.name,
+      profissional: appointment.provider.name,
+    };
+  }
+
   // ============================================================================
   // NOTIFICATIONS - Consulta
   // ============================================================================
@@ -685,6 +736,33 @@ Entre em contato para reagendar! 📞`,
   // HELPERS
   // ============================================================================
 
+  /**
+   * Destinatários do envio em massa: IDs informados ou clientes de um segmento
+   */
+  private async resolveBulkRecipients(
+    tenantId: string,
+    dto: SendBulkNotificationDto,
+  ): Promise<string[]> {
+    if (dto.segmentId) {
+      if (dto.recipientIds?.length) {
+        throw new BadRequestException(
+          'Informe os destinatários ou um segmento, não ambos',
+        );
+      }
+      if (dto.recipientType !== RecipientType.CLIENT) {
+        throw new BadRequestException('Segmentos só contêm clientes');
+      }
+
+      return this.segments.resolveClientIds(tenantId, dto.segmentId);
+    }
+
+    if (!dto.recipientIds?.length) {
+      throw new BadRequestException('Informe os destinatários ou um segmento');
+    }
+
+    return dto.recipientIds;
+  }
+
   private async getRecipient(
     tenantId: string,
     type: RecipientType,
@@ -751,8 +829,12 @@ Entre em contato para reagendar! 📞`,
     return result;
   }
 
+  /**
+   * Formata uma data pura (@db.Date, meia-noite UTC) sem deslocar o dia
+   */
   private formatDate(date: Date): string {
     return date.toLocaleDateString('pt-BR', {
+      timeZone: 'UTC',
       weekday: 'long',
       day: '2-digit',
       month: '2-digit',
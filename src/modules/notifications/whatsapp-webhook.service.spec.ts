@@ -0,0 +1,307 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import {
+  Prisma,
+  AppointmentStatus,
+  NotificationStatus,
+  NotificationType,
+  WhatsAppProvider,
+  WhatsAppWebhookResult,
+} from '@prisma/client';
+import {
+  WhatsAppWebhookService,
+  parseConfirmationReply,
+} from './whatsapp-webhook.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AppointmentsService } from '../appointments/appointments.service';
+import { CancellationPolicyService } from '../appointments/cancellation-policy.service';
+import { NotificationsService } from './notifications.service';
+
+describe('WhatsAppWebhookService', () => {
+  let service: WhatsAppWebhookService;
+  let prismaService: any;
+  let appointmentsService: any;
+  let cancellationPolicy: any;
+  let notificationsService: any;
+
+  const tenantId = 'tenant-123';
+  const appSecret = 'app-secret';
+
+  const metaConfig = {
+    tenantId,
+    provider: WhatsAppProvider.META_CLOUD_API,
+    apiSecret: appSecret,
+    webhookSecret: 'verify-token',
+    isActive: true,
+  };
+
+  const metaPayload = (value: any) => ({
+    object: 'whatsapp_business_account',
+    entry: [{ changes: [{ value }] }],
+  });
+
+  const sign = (body: Buffer) =>
+    `sha256=${createHmac('sha256', appSecret).update(body).digest('hex')}`;
+
+  const send = (payload: any) => {
+    const rawBody = Buffer.from(JSON.stringify(payload));
+    return service.handleWebhook(tenantId, payload, rawBody, {
+      'x-hub-signature-256': sign(rawBody),
+    });
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      whatsAppConfig: { findUnique: jest.fn().mockResolvedValue(metaConfig) },
+      client: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            { id: 'client-1', phone: '(11) 99999-1234', whatsapp: null },
+          ]),
+      },
+      appointment: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: 'appointment-1',
+            clientId: 'client-1',
+            status: AppointmentStatus.SCHEDULED,
+            date: new Date('2099-01-10T00:00:00.000Z'),
+            startTime: '10:00',
+            tenant: { timezone: 'America/Sao_Paulo' },
+            location: null,
+          },
+        ]),
+      },
+      notification: {
+        // Lembrete enviado para o agendamento
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ appointmentId: 'appointment-1' }]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      whatsAppWebhookEvent: {
+        create: jest.fn().mockResolvedValue({ id: 'event-1' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const mockAppointmentsService = {
+      updateStatus: jest.fn().mockResolvedValue({}),
+    };
+
+    const mockCancellationPolicy = {
+      checkCancellation: jest
+        .fn()
+        .mockResolvedValue({ allowed: true, fee: 0, message: null }),
+    };
+
+    const mockNotificationsService = {
+      sendNotification: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WhatsAppWebhookService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AppointmentsService, useValue: mockAppointmentsService },
+        {
+          provide: CancellationPolicyService,
+          useValue: mockCancellationPolicy,
+        },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<WhatsAppWebhookService>(WhatsAppWebhookService);
+    prismaService = module.get(PrismaService);
+    appointmentsService = module.get(AppointmentsService);
+    cancellationPolicy = module.get(CancellationPolicyService);
+    notificationsService = module.get(NotificationsService);
+  });
+
+  describe('parseConfirmationReply', () => {
+    it('should recognize confirm and cancel replies', () => {
+      expect(parseConfirmationReply(' Sim! ')).toBe('CONFIRM');
+      expect(parseConfirmationReply('NÃO')).toBe('CANCEL');
+      expect(parseConfirmationReply('nao')).toBe('CANCEL');
+      expect(parseConfirmationReply('Qual o endereço?')).toBeNull();
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should reject a request with an invalid signature', async () => {
+      const payload = metaPayload({ messages: [] });
+
+      await expect(
+        service.handleWebhook(tenantId, payload, Buffer.from('{}'), {
+          'x-hub-signature-256': 'sha256=invalid',
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should confirm the pending appointment of the sender', async () => {
+      await send(
+        metaPayload({
+          messages: [
+            { id: 'wamid.1', from: '5511999991234', text: { body: 'SIM' } },
+          ],
+        }),
+      );
+
+      expect(appointmentsService.updateStatus).toHaveBeenCalledWith(
+        'appointment-1',
+        tenantId,
+        { status: AppointmentStatus.CONFIRMED },
+      );
+      expect(prismaService.whatsAppWebhookEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          externalId: 'wamid.1',
+          result: WhatsAppWebhookResult.PROCESSING,
+        }),
+      });
+      expect(prismaService.whatsAppWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({
+          appointmentId: 'appointment-1',
+          result: WhatsAppWebhookResult.APPOINTMENT_CONFIRMED,
+        }),
+      });
+    });
+
+    it('should ignore a reply when no confirmation or reminder was sent', async () => {
+      prismaService.notification.findMany.mockResolvedValue([]);
+
+      await send(
+        metaPayload({
+          messages: [
+            { id: 'wamid.3', from: '5511999991234', text: { body: 'OK' } },
+          ],
+        }),
+      );
+
+      expect(prismaService.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            type: {
+              in: [
+                NotificationType.APPOINTMENT_CONFIRMATION,
+                NotificationType.APPOINTMENT_REMINDER,
+              ],
+            },
+            sentAt: { gte: expect.any(Date) },
+          }),
+        }),
+      );
+      expect(appointmentsService.updateStatus).not.toHaveBeenCalled();
+      expect(prismaService.whatsAppWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({
+          result: WhatsAppWebhookResult.NOT_FOUND,
+        }),
+      });
+    });
+
+    it('should keep the appointment when the cancellation is too late', async () => {
+      cancellationPolicy.checkCancellation.mockResolvedValue({
+        allowed: false,
+        fee: 0,
+        message:
+          'Cancelamentos devem ser feitos com pelo menos 24 horas de antecedência. Entre em contato com o estabelecimento.',
+      });
+
+      await send(
+        metaPayload({
+          messages: [
+            { id: 'wamid.4', from: '5511999991234', text: { body: 'NÃO' } },
+          ],
+        }),
+      );
+
+      expect(appointmentsService.updateStatus).not.toHaveBeenCalled();
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(
+        tenantId,
+        expect.objectContaining({
+          recipientId: 'client-1',
+          appointmentId: 'appointment-1',
+          customContent: expect.stringContaining(
+            'Seu agendamento continua marcado',
+          ),
+        }),
+      );
+      expect(prismaService.whatsAppWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({
+          result: WhatsAppWebhookResult.CANCELLATION_REFUSED,
+        }),
+      });
+    });
+
+    it('should ignore a message the provider delivered again', async () => {
+      prismaService.whatsAppWebhookEvent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      await send(
+        metaPayload({
+          messages: [
+            { id: 'wamid.1', from: '5511999991234', text: { body: 'NÃO' } },
+          ],
+        }),
+      );
+
+      expect(appointmentsService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not downgrade a notification already read', async () => {
+      prismaService.notification.findFirst.mockResolvedValue({
+        id: 'notification-1',
+        status: NotificationStatus.READ,
+        sentAt: new Date(),
+        deliveredAt: new Date(),
+        readAt: new Date(),
+      });
+
+      await send(
+        metaPayload({
+          statuses: [
+            { id: 'wamid.2', status: 'delivered', timestamp: '1738600000' },
+          ],
+        }),
+      );
+
+      expect(prismaService.notification.update).not.toHaveBeenCalled();
+    });
+
+    it('should set deliveredAt from a delivery callback', async () => {
+      prismaService.notification.findFirst.mockResolvedValue({
+        id: 'notification-1',
+        status: NotificationStatus.SENT,
+        sentAt: new Date(),
+        deliveredAt: null,
+        readAt: null,
+      });
+
+      await send(
+        metaPayload({
+          statuses: [
+            { id: 'wamid.2', status: 'delivered', timestamp: '1738600000' },
+          ],
+        }),
+      );
+
+      expect(prismaService.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-1' },
+        data: {
+          status: NotificationStatus.DELIVERED,
+          deliveredAt: new Date(1738600000 * 1000),
+        },
+      });
+    });
+  });
+});
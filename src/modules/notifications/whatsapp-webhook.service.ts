@@ -0,0 +1,771 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AppointmentsService } from '../appointments/appointments.service';
+import { CancellationPolicyService } from '../appointments/cancellation-policy.service';
+import { NotificationsService } from './notifications.service';
+import {
+  AppointmentStatus,
+  NotificationChannel,
+  NotificationStatus,
+  NotificationType,
+  Prisma,
+  RecipientType,
+  WhatsAppConfig,
+  WhatsAppProvider,
+  WhatsAppWebhookEventType,
+  WhatsAppWebhookResult,
+} from '@prisma/client';
+import {
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+
+type ReplyIntent = 'CONFIRM' | 'CANCEL';
+
+interface InboundMessage {
+  externalId?: string;
+  phone: string;
+  text: string;
+  payload: Prisma.InputJsonValue;
+}
+
+interface StatusCallback {
+  externalId: string;
+  status: NotificationStatus;
+  phone?: string;
+  at: Date;
+  errorMessage?: string;
+  payload: Prisma.InputJsonValue;
+}
+
+// Campos lidos do webhook da Meta Cloud API
+interface MetaMessage {
+  id?: string;
+  from?: string;
+  text?: { body?: string };
+  button?: { text?: string };
+  interactive?: { button_reply?: { title?: string } };
+}
+
+interface MetaStatus {
+  id?: string;
+  status?: string;
+  recipient_id?: string;
+  timestamp?: string;
+  errors?: { title?: string }[];
+}
+
+interface MetaWebhookPayload {
+  entry?: {
+    changes?: {
+      value?: { messages?: MetaMessage[]; statuses?: MetaStatus[] };
+    }[];
+  }[];
+}
+
+// Campos lidos do webhook da Evolution API
+interface EvolutionMessageData {
+  key?: { id?: string; remoteJid?: string; fromMe?: boolean };
+  remoteJid?: string;
+  keyId?: string;
+  status?: string;
+  message?: {
+    conversation?: string;
+    extendedTextMessage?: { text?: string };
+    buttonsResponseMessage?: { selectedDisplayText?: string };
+  };
+}
+
+interface EvolutionWebhookPayload {
+  event?: string;
+  data?: EvolutionMessageData | EvolutionMessageData[];
+}
+
+const CONFIRM_REPLIES = [
+  'SIM',
+  'S',
+  'CONFIRMO',
+  'CONFIRMAR',
+  'CONFIRMADO',
+  'OK',
+  '1',
+];
+const CANCEL_REPLIES = ['NAO', 'N', 'CANCELAR', 'CANCELA', 'CANCELO', '2'];
+
+// Mensagens às quais a resposta do cliente se refere
+const REPLYABLE_TYPES: NotificationType[] = [
+  NotificationType.APPOINTMENT_CONFIRMATION,
+  NotificationType.APPOINTMENT_REMINDER,
+];
+
+// Respostas só valem para confirmações/lembretes enviados nesse período
+const REPLY_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+const META_STATUSES: Record<string, NotificationStatus> = {
+  sent: NotificationStatus.SENT,
+  delivered: NotificationStatus.DELIVERED,
+  read: NotificationStatus.READ,
+  failed: NotificationStatus.FAILED,
+};
+
+const EVOLUTION_STATUSES: Record<string, NotificationStatus> = {
+  SERVER_ACK: NotificationStatus.SENT,
+  DELIVERY_ACK: NotificationStatus.DELIVERED,
+  READ: NotificationStatus.READ,
+  PLAYED: NotificationStatus.READ,
+  ERROR: NotificationStatus.FAILED,
+};
+
+// Ordem de progresso da entrega (callbacks podem chegar fora de ordem)
+const DELIVERY_RANK: Partial<Record<NotificationStatus, number>> = {
+  [NotificationStatus.SENDING]: 0,
+  [NotificationStatus.SENT]: 1,
+  [NotificationStatus.DELIVERED]: 2,
+  [NotificationStatus.READ]: 3,
+};
+
+/**
+ * Interpreta a resposta do cliente a uma confirmação ou lembrete
+ * ("SIM" / "NÃO", sem diferenciar acentos e maiúsculas)
+ */
+export function parseConfirmationReply(text: string): ReplyIntent | null {
+  const normalized = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, '')
+    .trim();
+
+  if (CONFIRM_REPLIES.includes(normalized)) return 'CONFIRM';
+  if (CANCEL_REPLIES.includes(normalized)) return 'CANCEL';
+  return null;
+}
+
+/**
+ * Webhook de entrada do WhatsApp: respostas de confirmação dos clientes
+ * e callbacks de status das mensagens enviadas. Todo evento recebido é
+ * registrado em WhatsAppWebhookEvent
+ */
+@Injectable()
+export class WhatsAppWebhookService {
+  private readonly logger = new Logger(WhatsAppWebhookService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private appointmentsService: AppointmentsService,
+    private cancellationPolicy: CancellationPolicyService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Verificação de assinatura do webhook pela Meta (hub.challenge)
+   */
+  async verifySubscription(
+    tenantId: string,
+    mode?: string,
+    verifyToken?: string,
+    challenge?: string,
+  ): Promise<string> {
+    const config = await this.getConfig(tenantId);
+
+    if (
+      mode !== 'subscribe' ||
+      !challenge ||
+      !this.safeEqual(verifyToken, config.webhookSecret)
+    ) {
+      throw new UnauthorizedException('Token de verificação inválido');
+    }
+
+    return challenge;
+  }
+
+  async handleWebhook(
+    tenantId: string,
+    payload: unknown,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | undefined>,
+  ) {
+    const config = await this.getConfig(tenantId);
+    this.verifySignature(config, rawBody, headers);
+
+    const { messages, statuses } = this.parsePayload(config.provider, payload);
+
+    for (const status of statuses) {
+      await this.handleStatus(config, status);
+    }
+
+    for (const message of messages) {
+      await this.handleMessage(config, message);
+    }
+
+    return {
+      received: true,
+      messages: messages.length,
+      statuses: statuses.length,
+    };
+  }
+
+  // ============================================================================
+  // ASSINATURA
+  // ============================================================================
+
+  private verifySignature(
+    config: WhatsAppConfig,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | undefined>,
+  ) {
+    switch (config.provider) {
+      case WhatsAppProvider.META_CLOUD_API: {
+        // HMAC SHA-256 do corpo bruto com o App Secret
+        const signature = headers['x-hub-signature-256'];
+        const expected =
+          config.apiSecret && rawBody
+            ? `sha256=${createHmac('sha256', config.apiSecret).update(rawBody).digest('hex')}`
+            : null;
+
+        if (!this.safeEqual(signature, expected)) {
+          this.logger.warn(
+            `Invalid Meta signature for tenant ${config.tenantId}`,
+          );
+          throw new UnauthorizedException('Assinatura inválida');
+        }
+        return;
+      }
+
+      case WhatsAppProvider.EVOLUTION_API:
+        // A Evolution API não assina as requisições: o segredo é enviado
+        // em um header configurado no webhook da instância
+        if (
+          !this.safeEqual(headers['x-webhook-secret'], config.webhookSecret)
+        ) {
+          this.logger.warn(
+            `Invalid Evolution API secret for tenant ${config.tenantId}`,
+          );
+          throw new UnauthorizedException('Assinatura inválida');
+        }
+        return;
+
+      default:
+        throw new BadRequestException(
+          `Webhook não suportado para o provedor ${config.provider}`,
+        );
+    }
+  }
+
+  private safeEqual(
+    received: string | undefined,
+    expected: string | null | undefined,
+  ): boolean {
+    if (!received || !expected) return false;
+
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  // ============================================================================
+  // PAYLOADS DOS PROVEDORES
+  // ============================================================================
+
+  private parsePayload(
+    provider: WhatsAppProvider,
+    payload: unknown,
+  ): { messages: InboundMessage[]; statuses: StatusCallback[] } {
+    return provider === WhatsAppProvider.META_CLOUD_API
+      ? this.parseMetaPayload(payload as MetaWebhookPayload)
+      : this.parseEvolutionPayload(payload as EvolutionWebhookPayload);
+  }
+
+  private parseMetaPayload(payload: MetaWebhookPayload | null) {
+    const messages: InboundMessage[] = [];
+    const statuses: StatusCallback[] = [];
+
+    for (const entry of payload?.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        const value = change.value ?? {};
+
+        for (const message of value.messages ?? []) {
+          if (!message.from) continue;
+
+          messages.push({
+            externalId: message.id,
+            phone: message.from,
+            text:
+              message.text?.body ??
+              message.button?.text ??
+              message.interactive?.button_reply?.title ??
+              '',
+            payload: message as Prisma.InputJsonObject,
+          });
+        }
+
+        for (const status of value.statuses ?? []) {
+          const mapped = status.status && META_STATUSES[status.status];
+          if (!mapped || !status.id) continue;
+
+          statuses.push({
+            externalId: status.id,
+            status: mapped,
+            phone: status.recipient_id,
+            at: status.timestamp
+              ? new Date(Number(status.timestamp) * 1000)
+              : new Date(),
+            errorMessage: status.errors?.[0]?.title,
+            payload: status as Prisma.InputJsonObject,
+          });
+        }
+      }
+    }
+
+    return { messages, statuses };
+  }
+
+  private parseEvolutionPayload(payload: EvolutionWebhookPayload | null) {
+    const messages: InboundMessage[] = [];
+    const statuses: StatusCallback[] = [];
+
+    // Eventos chegam como "messages.upsert" ou "MESSAGES_UPSERT"
+    const event = String(payload?.event ?? '')
+      .toLowerCase()
+      .replace('_', '.');
+    const items = Array.isArray(payload?.data) ? payload.data : [payload?.data];
+
+    for (const data of items) {
+      if (!data) continue;
+
+      const remoteJid = data.key?.remoteJid ?? data.remoteJid ?? '';
+
+      // Ignora grupos e mensagens enviadas pela própria instância
+      if (remoteJid.endsWith('@g.us')) continue;
+
+      if (event === 'messages.upsert' && !data.key?.fromMe) {
+        messages.push({
+          externalId: data.key?.id,
+          phone: remoteJid.split('@')[0],
+          text:
+            data.message?.conversation ??
+            data.message?.extendedTextMessage?.text ??
+            data.message?.buttonsResponseMessage?.selectedDisplayText ??
+            '',
+          payload: data as Prisma.InputJsonObject,
+        });
+      }
+
+      if (event === 'messages.update') {
+        const mapped = data.status && EVOLUTION_STATUSES[data.status];
+        const externalId = data.keyId ?? data.key?.id;
+        if (!mapped || !externalId) continue;
+
+        statuses.push({
+          externalId,
+          status: mapped,
+          phone: remoteJid.split('@')[0] || undefined,
+          at: new Date(),
+          payload: data as Prisma.InputJsonObject,
+        });
+      }
+    }
+
+    return { messages, statuses };
+  }
+
+  // ============================================================================
+  // PROCESSAMENTO
+  // ============================================================================
+
+  /**
+   * Resposta do cliente: confirma ou cancela o próximo agendamento pendente.
+   * O evento é registrado antes de agir para que a mesma mensagem reenviada
+   * pelo provedor não seja processada duas vezes.
+   */
+  private async handleMessage(config: WhatsAppConfig, message: InboundMessage) {
+    const eventId = await this.claimMessage({
+      tenantId: config.tenantId,
+      provider: config.provider,
+      type: WhatsAppWebhookEventType.MESSAGE,
+      externalId: message.externalId,
+      phone: message.phone,
+      content: message.text,
+      payload: message.payload,
+      result: WhatsAppWebhookResult.PROCESSING,
+    });
+
+    if (!eventId) {
+      this.logger.debug(
+        `Duplicate WhatsApp message ${message.externalId} ignored`,
+      );
+      return;
+    }
+
+    try {
+      const intent = parseConfirmationReply(message.text);
+      const clientIds = await this.findClientIdsByPhone(
+        config.tenantId,
+        message.phone,
+      );
+
+      if (!intent || clientIds.length === 0) {
+        await this.finishEvent(eventId, {
+          clientId: clientIds[0],
+          result: intent
+            ? WhatsAppWebhookResult.NOT_FOUND
+            : WhatsAppWebhookResult.IGNORED,
+        });
+        return;
+      }
+
+      const appointment = await this.findPendingAppointment(
+        config.tenantId,
+        clientIds,
+      );
+
+      if (!appointment) {
+        await this.finishEvent(eventId, {
+          clientId: clientIds[0],
+          result: WhatsAppWebhookResult.NOT_FOUND,
+        });
+        return;
+      }
+
+      if (
+        intent === 'CONFIRM' &&
+        appointment.status === AppointmentStatus.CONFIRMED
+      ) {
+        await this.finishEvent(eventId, {
+          clientId: appointment.clientId,
+          appointmentId: appointment.id,
+          result: WhatsAppWebhookResult.IGNORED,
+        });
+        return;
+      }
+
+      // Cancelamento pelo cliente respeita a antecedência mínima da
+      // política, como no portal do cliente
+      if (intent === 'CANCEL') {
+        const check = await this.cancellationPolicy.checkCancellation(
+          appointment.id,
+        );
+
+        if (!check.allowed) {
+          await this.replyToClient(
+            config.tenantId,
+            appointment,
+            `Seu agendamento continua marcado. ${check.message}`,
+          );
+          await this.finishEvent(eventId, {
+            clientId: appointment.clientId,
+            appointmentId: appointment.id,
+            result: WhatsAppWebhookResult.CANCELLATION_REFUSED,
+          });
+          return;
+        }
+      }
+
+      const status =
+        intent === 'CONFIRM'
+          ? AppointmentStatus.CONFIRMED
+          : AppointmentStatus.CANCELLED;
+
+      await this.appointmentsService.updateStatus(
+        appointment.id,
+        config.tenantId,
+        { status },
+      );
+
+      await this.finishEvent(eventId, {
+        clientId: appointment.clientId,
+        appointmentId: appointment.id,
+        result:
+          intent === 'CONFIRM'
+            ? WhatsAppWebhookResult.APPOINTMENT_CONFIRMED
+            : WhatsAppWebhookResult.APPOINTMENT_CANCELLED,
+      });
+
+      this.logger.log(
+        `Appointment ${appointment.id} ${status} by WhatsApp reply from ${message.phone}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to process WhatsApp message from ${message.phone}: ${(error as Error).message}`,
+      );
+      await this.finishEvent(eventId, {
+        result: WhatsAppWebhookResult.FAILED,
+        errorMessage: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Callback de status: atualiza a notificação enviada sem regredir o
+   * status (ex: "delivered" depois de "read")
+   */
+  private async handleStatus(config: WhatsAppConfig, callback: StatusCallback) {
+    const event = {
+      tenantId: config.tenantId,
+      provider: config.provider,
+      type: WhatsAppWebhookEventType.STATUS,
+      // Vários status chegam para a mesma mensagem; o ID fica no payload
+      // e a notificação é ligada por notificationId
+      phone: callback.phone,
+      content: callback.status,
+      payload: callback.payload,
+    };
+
+    try {
+      const notification = await this.prisma.notification.findFirst({
+        where: { tenantId: config.tenantId, externalId: callback.externalId },
+      });
+
+      if (!notification) {
+        await this.logEvent({
+          ...event,
+          result: WhatsAppWebhookResult.NOT_FOUND,
+        });
+        return;
+      }
+
+      const data: Prisma.NotificationUpdateInput = {};
+      const currentRank = DELIVERY_RANK[notification.status] ?? -1;
+      const newRank = DELIVERY_RANK[callback.status];
+
+      if (callback.status === NotificationStatus.FAILED) {
+        if (currentRank < DELIVERY_RANK[NotificationStatus.DELIVERED]!) {
+          data.status = NotificationStatus.FAILED;
+          data.failedAt = callback.at;
+          data.errorMessage = callback.errorMessage;
+        }
+      } else {
+        if (newRank !== undefined && newRank > currentRank) {
+          data.status = callback.status;
+        }
+        if (
+          callback.status === NotificationStatus.SENT &&
+          !notification.sentAt
+        ) {
+          data.sentAt = callback.at;
+        }
+        if (
+          (callback.status === NotificationStatus.DELIVERED ||
+            callback.status === NotificationStatus.READ) &&
+          !notification.deliveredAt
+        ) {
+          data.deliveredAt = callback.at;
+        }
+        if (
+          callback.status === NotificationStatus.READ &&
+          !notification.readAt
+        ) {
+          data.readAt = callback.at;
+        }
+      }
+
+      if (Object.keys(data).length > 0) {
+        await this.prisma.notification.update({
+          where: { id: notification.id },
+          data,
+        });
+      }
+
+      await this.logEvent({
+        ...event,
+        notificationId: notification.id,
+        appointmentId: notification.appointmentId,
+        result: WhatsAppWebhookResult.NOTIFICATION_UPDATED,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to process WhatsApp status ${callback.externalId}: ${(error as Error).message}`,
+      );
+      await this.logEvent({
+        ...event,
+        result: WhatsAppWebhookResult.FAILED,
+        errorMessage: (error as Error).message,
+      });
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async getConfig(tenantId: string): Promise<WhatsAppConfig> {
+    const config = await this.prisma.whatsAppConfig.findUnique({
+      where: { tenantId },
+    });
+
+    if (!config || !config.isActive) {
+      throw new NotFoundException('Configuração WhatsApp não encontrada');
+    }
+
+    return config;
+  }
+
+  /**
+   * Clientes cujo telefone ou WhatsApp termina com os mesmos 8 dígitos
+   * do remetente (ignora DDI, DDD e o nono dígito omitido pelo WhatsApp)
+   */
+  private async findClientIdsByPhone(
+    tenantId: string,
+    phone: string,
+  ): Promise<string[]> {
+    const suffix = phone.replace(/\D/g, '').slice(-8);
+    if (suffix.length < 8) return [];
+
+    const clients = await this.prisma.client.findMany({
+      where: {
+        tenantId,
+        deletedAt: null,
+        OR: [
+          { phone: { contains: suffix.slice(-4) } },
+          { whatsapp: { contains: suffix.slice(-4) } },
+        ],
+      },
+      select: { id: true, phone: true, whatsapp: true },
+    });
+
+    return clients
+      .filter((client) =>
+        [client.phone, client.whatsapp].some((number) =>
+          number?.replace(/\D/g, '').endsWith(suffix),
+        ),
+      )
+      .map((client) => client.id);
+  }
+
+  /**
+   * Agendamento ao qual a resposta se refere: o último que recebeu uma
+   * confirmação ou lembrete pelo WhatsApp nos últimos dias e ainda pode ser
+   * confirmado/cancelado. Sem mensagem recente, a resposta é ignorada
+   */
+  private async findPendingAppointment(tenantId: string, clientIds: string[]) {
+    const now = new Date();
+
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        tenantId,
+        recipientType: RecipientType.CLIENT,
+        recipientId: { in: clientIds },
+        channel: NotificationChannel.WHATSAPP,
+        type: { in: REPLYABLE_TYPES },
+        appointmentId: { not: null },
+        sentAt: { gte: new Date(now.getTime() - REPLY_WINDOW_MS) },
+      },
+      orderBy: { sentAt: 'desc' },
+      select: { appointmentId: true },
+      take: 20,
+    });
+
+    if (notifications.length === 0) return null;
+
+    const appointments = await this.prisma.appointment.findMany({
+      where: {
+        tenantId,
+        id: { in: notifications.map((n) => n.appointmentId!) },
+        clientId: { in: clientIds },
+        status: {
+          in: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED],
+        },
+      },
+      include: {
+        tenant: { select: { timezone: true } },
+        location: { include: { location: { select: { timezone: true } } } },
+      },
+    });
+
+    const upcoming = appointments.filter((appointment) => {
+      const timeZone = resolveTimezone(
+        appointment.location?.location.timezone,
+        appointment.tenant.timezone,
+      );
+      return (
+        zonedTimeToUtc(appointment.date, appointment.startTime, timeZone) > now
+      );
+    });
+
+    // Notificações em ordem da mais recente
+    for (const notification of notifications) {
+      const appointment = upcoming.find(
+        (a) => a.id === notification.appointmentId,
+      );
+      if (appointment) return appointment;
+    }
+
+    return null;
+  }
+
+  /**
+   * Responde ao cliente pelo WhatsApp; falha no envio não desfaz o evento
+   */
+  private async replyToClient(
+    tenantId: string,
+    appointment: { id: string; clientId: string },
+    content: string,
+  ) {
+    try {
+      await this.notificationsService.sendNotification(tenantId, {
+        type: NotificationType.CUSTOM,
+        channel: NotificationChannel.WHATSAPP,
+        recipientType: RecipientType.CLIENT,
+        recipientId: appointment.clientId,
+        appointmentId: appointment.id,
+        customContent: content,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to reply to client ${appointment.clientId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Registra a mensagem recebida; retorna null se ela já foi registrada
+   */
+  private async claimMessage(
+    data: Prisma.WhatsAppWebhookEventUncheckedCreateInput,
+  ): Promise<string | null> {
+    try {
+      const event = await this.prisma.whatsAppWebhookEvent.create({ data });
+      return event.id;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async finishEvent(
+    id: string,
+    data: Prisma.WhatsAppWebhookEventUncheckedUpdateInput,
+  ) {
+    try {
+      await this.prisma.whatsAppWebhookEvent.update({ where: { id }, data });
+    } catch (error) {
+      this.logger.error(
+        `Failed to update WhatsApp webhook event ${id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async logEvent(
+    data: Prisma.WhatsAppWebhookEventUncheckedCreateInput,
+  ) {
+    try {
+      await this.prisma.whatsAppWebhookEvent.create({ data });
+    } catch (error) {
+      this.logger.error(
+        `Failed to log WhatsApp webhook event: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -12,6 +12,9 @@ import {
   Max,
   ValidateNested,
   IsArray,
+  IsIn,
+  IsEmail,
+  Length,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import {
@@ -286,6 +289,101 @@ export class CheckoutDto {
   couponCode?: string;
 }
 
+// ============================================================================
+// DTOs para Cobranças PIX / Boleto
+// ============================================================================
+
+export class ChargePayerAddressDto {
+  @IsString()
+  @IsNotEmpty()
+  zipCode: string;
+
+  @IsString()
+  @IsNotEmpty()
+  street: string;
+
+  @IsString()
+  @IsNotEmpty()
+  number: string;
+
+  @IsString()
+  @IsNotEmpty()
+  neighborhood: string;
+
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @IsString()
+  @Length(2, 2, { message: 'UF deve ter 2 letras' })
+  state: string;
+}
+
+export class ChargePayerDto {
+  @IsString()
+  @IsOptional()
+  name?: string; // Padrão: nome do cliente
+
+  @IsEmail({}, { message: 'E-mail inválido' })
+  @IsOptional()
+  email?: string;
+
+  @IsString()
+  @IsOptional()
+  document?: string; // CPF/CNPJ - obrigatório para boleto
+
+  @ValidateNested()
+  @Type(() => ChargePayerAddressDto)
+  @IsOptional()
+  address?: ChargePayerAddressDto; // Obrigatório para boleto
+}
+
+/**
+ * Cobrança PIX ou boleto vinculada a exatamente um: fatura, pacote do
+ * cliente ou sinal de agendamento
+ */
+export class CreateChargeDto {
+  @IsIn([PaymentType.PIX, PaymentType.BOLETO], {
+    message: 'Cobrança deve ser PIX ou boleto',
+  })
+  method: PaymentType;
+
+  @IsUUID('4')
+  @IsOptional()
+  invoiceId?: string;
+
+  @IsUUID('4')
+  @IsOptional()
+  clientPackageId?: string;
+
+  @IsUUID('4')
+  @IsOptional()
+  appointmentId?: string;
+
+  // Padrão: saldo em aberto do vínculo
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @IsOptional()
+  amount?: number;
+
+  // Boleto: vencimento (padrão: 3 dias)
+  @IsDateString()
+  @IsOptional()
+  dueDate?: string;
+
+  // PIX: validade do QR Code (padrão: 30 minutos)
+  @IsInt()
+  @Min(5)
+  @Max(10080) // 7 dias
+  @IsOptional()
+  expiresInMinutes?: number;
+
+  @ValidateNested()
+  @Type(() => ChargePayerDto)
+  @IsOptional()
+  payer?: ChargePayerDto;
+}
+
 // ============================================================================
 // DTOs de Query/Filtro
 // ============================================================================
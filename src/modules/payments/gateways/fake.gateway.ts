@@ -0,0 +1,155 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaymentStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import {
+  BoletoChargeInput,
+  BoletoChargeResult,
+  ChargeInput,
+  ChargeResult,
+  GatewayCustomerInput,
+  PaymentGateway,
+  PixChargeInput,
+  PixChargeResult,
+  RefundResult,
+  SavedPaymentMethod,
+} from './payment-gateway.interface';
+
+// Tokens de cartão com este trecho são recusados na cobrança
+export const FAKE_DECLINED_TOKEN = 'fake_declined';
+
+interface FakeCharge {
+  amount: number;
+  refunded: number;
+  result: ChargeResult;
+}
+
+/**
+ * Gateway em memória para desenvolvimento e testes. Nenhuma chamada externa;
+ * respeita a chave de idempotência como os gateways reais
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly provider = 'FAKE' as const;
+
+  readonly customers = new Map<string, GatewayCustomerInput>();
+  readonly paymentMethods = new Map<
+    string,
+    { customerId: string; token: string }
+  >();
+  readonly charges = new Map<string, FakeCharge>();
+  private readonly idempotency = new Map<string, ChargeResult>();
+
+  createCustomer(input: GatewayCustomerInput) {
+    const customerId = `fake_cus_${randomUUID()}`;
+    this.customers.set(customerId, input);
+    return Promise.resolve({ customerId });
+  }
+
+  saveCard(customerId: string, cardToken: string): Promise<SavedPaymentMethod> {
+    if (!this.customers.has(customerId)) {
+      throw new BadRequestException('Cliente não encontrado no gateway');
+    }
+
+    const paymentMethodId = `fake_pm_${randomUUID()}`;
+    this.paymentMethods.set(paymentMethodId, { customerId, token: cardToken });
+
+    return Promise.resolve({
+      paymentMethodId,
+      cardBrand: 'visa',
+      cardLast4: '4242',
+    });
+  }
+
+  charge(input: ChargeInput): Promise<ChargeResult> {
+    const previous = this.idempotency.get(input.idempotencyKey);
+    if (previous) {
+      return Promise.resolve(previous);
+    }
+
+    const method = this.paymentMethods.get(input.paymentMethodId);
+    if (!method || method.customerId !== input.customerId) {
+      throw new BadRequestException('Método de pagamento não encontrado');
+    }
+
+    const externalId = `fake_ch_${randomUUID()}`;
+    const result: ChargeResult = method.token.includes(FAKE_DECLINED_TOKEN)
+      ? {
+          externalId,
+          status: PaymentStatus.FAILED,
+          failureCode: 'card_declined',
+          failureMessage: 'Cartão recusado',
+        }
+      : {
+          externalId,
+          status: PaymentStatus.SUCCEEDED,
+          cardBrand: 'visa',
+          cardLast4: '4242',
+        };
+
+    this.charges.set(externalId, { amount: input.amount, refunded: 0, result });
+    this.idempotency.set(input.idempotencyKey, result);
+
+    return Promise.resolve(result);
+  }
+
+  createPixCharge(input: PixChargeInput): Promise<PixChargeResult> {
+    const externalId = `fake_pix_${randomUUID()}`;
+    this.charges.set(externalId, {
+      amount: input.amount,
+      refunded: 0,
+      result: { externalId, status: PaymentStatus.PROCESSING },
+    });
+
+    return Promise.resolve({
+      externalId,
+      pixCode: `00020126FAKEPIX${externalId}`,
+      pixQrCode: null,
+      expiresAt: input.expiresAt,
+    });
+  }
+
+  createBoletoCharge(input: BoletoChargeInput): Promise<BoletoChargeResult> {
+    if (!input.payer.document) {
+      throw new BadRequestException('CPF/CNPJ do pagador é obrigatório');
+    }
+
+    const externalId = `fake_bol_${randomUUID()}`;
+    this.charges.set(externalId, {
+      amount: input.amount,
+      refunded: 0,
+      result: { externalId, status: PaymentStatus.PROCESSING },
+    });
+
+    return Promise.resolve({
+      externalId,
+      boletoCode: '23793.38128 60000.000003 00000.000408 1 00000000000000',
+      boletoPdfUrl: null,
+    });
+  }
+
+  cancel(externalId: string): Promise<void> {
+    const charge = this.charges.get(externalId);
+    if (!charge || charge.result.status === PaymentStatus.SUCCEEDED) {
+      throw new BadRequestException('Cobrança não pode ser cancelada');
+    }
+
+    charge.result = { ...charge.result, status: PaymentStatus.CANCELLED };
+    return Promise.resolve();
+  }
+
+  refund(externalId: string, amount?: number): Promise<RefundResult> {
+    const charge = this.charges.get(externalId);
+    if (!charge || charge.result.status !== PaymentStatus.SUCCEEDED) {
+      throw new BadRequestException('Cobrança não pode ser reembolsada');
+    }
+
+    charge.refunded += amount ?? charge.amount - charge.refunded;
+
+    return Promise.resolve({
+      refundId: `fake_re_${randomUUID()}`,
+      status:
+        charge.refunded < charge.amount
+          ? PaymentStatus.PARTIALLY_REFUNDED
+          : PaymentStatus.REFUNDED,
+    });
+  }
+}
@@ -0,0 +1,5 @@
+export * from './payment-gateway.interface';
+export * from './payment-gateway.factory';
+export * from './stripe.gateway';
+export * from './mercado-pago.gateway';
+export * from './fake.gateway';
@@ -0,0 +1,303 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaymentStatus } from '@prisma/client';
+import {
+  BoletoChargeInput,
+  BoletoChargeResult,
+  ChargeInput,
+  ChargeResult,
+  GatewayCustomerInput,
+  PaymentGateway,
+  PixChargeInput,
+  PixChargeResult,
+  RefundResult,
+  SavedPaymentMethod,
+} from './payment-gateway.interface';
+
+const MERCADO_PAGO_API_URL = 'https://api.mercadopago.com';
+
+// Campos lidos das respostas da API do Mercado Pago
+interface MercadoPagoCard {
+  id: string | number;
+  last_four_digits?: string;
+  payment_method?: { id?: string };
+}
+
+export interface MercadoPagoPayment {
+  id: number;
+  status: string;
+  status_detail?: string;
+  external_reference?: string | null;
+  point_of_interaction?: {
+    transaction_data?: { qr_code?: string; qr_code_base64?: string };
+  };
+  transaction_details?: {
+    digitable_line?: string;
+    external_resource_url?: string;
+  };
+  barcode?: { content?: string };
+}
+
+export interface MercadoPagoPreference {
+  id: string;
+  init_point: string;
+  sandbox_init_point: string;
+}
+
+// Notificação do webhook: traz só o tipo e o ID do recurso
+export interface MercadoPagoNotification {
+  id?: string | number;
+  type?: string;
+  action?: string;
+  data?: { id?: string | number };
+}
+
+export class MercadoPagoGateway implements PaymentGateway {
+  readonly provider = 'MERCADO_PAGO' as const;
+
+  constructor(private readonly secretKey: string) {}
+
+  async createCustomer(input: GatewayCustomerInput) {
+    const [firstName, ...lastName] = input.name.trim().split(/\s+/);
+    const document = input.document?.replace(/\D/g, '');
+
+    const customer = await this.request<{ id: string }>('/v1/customers', {
+      method: 'POST',
+      body: JSON.stringify({
+        email: input.email,
+        first_name: firstName,
+        last_name: lastName.join(' ') || undefined,
+        ...(document && {
+          identification: {
+            type: document.length > 11 ? 'CNPJ' : 'CPF',
+            number: document,
+          },
+        }),
+      }),
+    });
+
+    return { customerId: String(customer.id) };
+  }
+
+  async saveCard(
+    customerId: string,
+    cardToken: string,
+  ): Promise<SavedPaymentMethod> {
+    const card = await this.request<MercadoPagoCard>(
+      `/v1/customers/${customerId}/cards`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ token: cardToken }),
+      },
+    );
+
+    return {
+      paymentMethodId: String(card.id),
+      cardBrand: card.payment_method?.id,
+      cardLast4: card.last_four_digits,
+    };
+  }
+
+  async charge(input: ChargeInput): Promise<ChargeResult> {
+    // Cartão salvo precisa de um token novo a cada cobrança
+    const [card, token] = await Promise.all([
+      this.request<MercadoPagoCard>(
+        `/v1/customers/${input.customerId}/cards/${input.paymentMethodId}`,
+      ),
+      this.request<{ id: string }>('/v1/card_tokens', {
+        method: 'POST',
+        body: JSON.stringify({
+          card_id: input.paymentMethodId,
+          customer_id: input.customerId,
+        }),
+      }),
+    ]);
+
+    const payment = await this.request<MercadoPagoPayment>(
+      '/v1/payments',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          transaction_amount: input.amount,
+          token: token.id,
+          description: input.description,
+          installments: 1,
+          payment_method_id: card.payment_method?.id,
+          payer: { type: 'customer', id: input.customerId },
+          external_reference: input.metadata?.paymentId,
+          metadata: input.metadata,
+        }),
+      },
+      input.idempotencyKey,
+    );
+
+    const status = this.mapStatus(payment.status);
+
+    return {
+      externalId: String(payment.id),
+      status,
+      ...(status === PaymentStatus.FAILED && {
+        failureCode: payment.status_detail,
+        failureMessage: `Pagamento recusado (${payment.status_detail})`,
+      }),
+      cardBrand: card.payment_method?.id,
+      cardLast4: card.last_four_digits,
+    };
+  }
+
+  async createPixCharge(input: PixChargeInput): Promise<PixChargeResult> {
+    const payment = await this.request<MercadoPagoPayment>(
+      '/v1/payments',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          transaction_amount: input.amount,
+          description: input.description,
+          payment_method_id: 'pix',
+          payer: { email: input.payerEmail },
+          date_of_expiration: input.expiresAt.toISOString(),
+          external_reference: input.metadata?.paymentId,
+          metadata: input.metadata,
+        }),
+      },
+      input.idempotencyKey,
+    );
+
+    const data = payment.point_of_interaction?.transaction_data;
+
+    if (!data?.qr_code) {
+      throw new BadRequestException(
+        'Erro na API do Mercado Pago: PIX sem QR Code',
+      );
+    }
+
+    return {
+      externalId: String(payment.id),
+      pixCode: data.qr_code,
+      pixQrCode: data.qr_code_base64 ?? null,
+      expiresAt: input.expiresAt,
+    };
+  }
+
+  async createBoletoCharge(
+    input: BoletoChargeInput,
+  ): Promise<BoletoChargeResult> {
+    const { payer } = input;
+    const [firstName, ...lastName] = payer.name.trim().split(/\s+/);
+    const document = payer.document?.replace(/\D/g, '') ?? '';
+
+    const payment = await this.request<MercadoPagoPayment>(
+      '/v1/payments',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          transaction_amount: input.amount,
+          description: input.description,
+          payment_method_id: 'bolbradesco',
+          payer: {
+            email: payer.email,
+            first_name: firstName,
+            last_name: lastName.join(' ') || firstName,
+            identification: {
+              type: document.length > 11 ? 'CNPJ' : 'CPF',
+              number: document,
+            },
+            ...(payer.address && {
+              address: {
+                zip_code: payer.address.zipCode.replace(/\D/g, ''),
+                street_name: payer.address.street,
+                street_number: payer.address.number,
+                neighborhood: payer.address.neighborhood,
+                city: payer.address.city,
+                federal_unit: payer.address.state,
+              },
+            }),
+          },
+          date_of_expiration: input.dueDate.toISOString(),
+          external_reference: input.metadata?.paymentId,
+          metadata: input.metadata,
+        }),
+      },
+      input.idempotencyKey,
+    );
+
+    const boletoCode =
+      payment.transaction_details?.digitable_line ?? payment.barcode?.content;
+
+    if (!boletoCode) {
+      throw new BadRequestException(
+        'Erro na API do Mercado Pago: boleto sem linha digitável',
+      );
+    }
+
+    return {
+      externalId: String(payment.id),
+      boletoCode,
+      boletoPdfUrl: payment.transaction_details?.external_resource_url ?? null,
+    };
+  }
+
+  async cancel(externalId: string): Promise<void> {
+    await this.request(`/v1/payments/${externalId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status: 'cancelled' }),
+    });
+  }
+
+  async refund(externalId: string, amount?: number): Promise<RefundResult> {
+    const refund = await this.request<{ id: number }>(
+      `/v1/payments/${externalId}/refunds`,
+      {
+        method: 'POST',
+        body: JSON.stringify(amount !== undefined ? { amount } : {}),
+      },
+    );
+
+    return {
+      refundId: String(refund.id),
+      status:
+        amount !== undefined
+          ? PaymentStatus.PARTIALLY_REFUNDED
+          : PaymentStatus.REFUNDED,
+    };
+  }
+
+  /**
+   * Chamada à API do Mercado Pago (JSON)
+   */
+  async request<T>(
+    path: string,
+    options: RequestInit = {},
+    idempotencyKey?: string,
+  ): Promise<T> {
+    const response = await fetch(`${MERCADO_PAGO_API_URL}${path}`, {
+      ...options,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json',
+        ...(idempotencyKey && { 'X-Idempotency-Key': idempotencyKey }),
+      },
+    });
+
+    const data: unknown = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new BadRequestException(
+        `Erro na API do Mercado Pago: ${(data as { message?: string }).message || response.statusText}`,
+      );
+    }
+
+    return data as T;
+  }
+
+  private mapStatus(status: string): PaymentStatus {
+    switch (status) {
+      case 'approved':
+        return PaymentStatus.SUCCEEDED;
+      case 'rejected':
+      case 'cancelled':
+        return PaymentStatus.FAILED;
+      default:
+        return PaymentStatus.PROCESSING;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentGatewayProvider } from '@prisma/client';
+import { PaymentGateway } from './payment-gateway.interface';
+import { StripeGateway } from './stripe.gateway';
+import { MercadoPagoGateway } from './mercado-pago.gateway';
+import { FakePaymentGateway } from './fake.gateway';
+
+@Injectable()
+export class PaymentGatewayFactory {
+  private readonly logger = new Logger(PaymentGatewayFactory.name);
+
+  // Única instância: o estado em memória precisa sobreviver entre chamadas
+  private readonly fake = new FakePaymentGateway();
+  private platformGateway: PaymentGateway | null = null;
+
+  constructor(private readonly config: ConfigService) {}
+
+  /**
+   * Gateway configurado pelo tenant (sinais e cobranças dos clientes dele)
+   */
+  forConfig(gatewayConfig: {
+    provider: PaymentGatewayProvider;
+    secretKey: string | null;
+  }): PaymentGateway {
+    if (!gatewayConfig.secretKey) {
+      throw new BadRequestException('Gateway de pagamento não configurado');
+    }
+
+    switch (gatewayConfig.provider) {
+      case PaymentGatewayProvider.STRIPE:
+        return new StripeGateway(gatewayConfig.secretKey);
+      case PaymentGatewayProvider.MERCADO_PAGO:
+        return new MercadoPagoGateway(gatewayConfig.secretKey);
+      default:
+        throw new BadRequestException(
+          `Provedor ${gatewayConfig.provider} não suportado`,
+        );
+    }
+  }
+
+  /**
+   * Gateway da plataforma, que cobra as assinaturas e faturas dos tenants.
+   * Sem configuração usa o gateway em memória, exceto em produção
+   */
+  forPlatform(): PaymentGateway {
+    if (this.platformGateway) {
+      return this.platformGateway;
+    }
+
+    const provider = this.config.get<string>('PAYMENT_GATEWAY_PROVIDER');
+    const secretKey = this.config.get<string>('PAYMENT_GATEWAY_SECRET_KEY');
+
+    if (!provider || provider === 'FAKE') {
+      if (this.config.get('NODE_ENV') === 'production') {
+        throw new BadRequestException(
+          'Gateway de pagamento da plataforma não configurado',
+        );
+      }
+
+      this.logger.warn('Using in-memory payment gateway');
+      this.platformGateway = this.fake;
+    } else {
+      this.platformGateway = this.forConfig({
+        provider: provider as PaymentGatewayProvider,
+        secretKey: secretKey ?? null,
+      });
+    }
+
+    return this.platformGateway;
+  }
+}
@@ -0,0 +1,124 @@
+import { PaymentStatus } from '@prisma/client';
+
+/**
+ * Provedor usado pelo gateway. FAKE é a implementação em memória
+ * (desenvolvimento e testes), sem contrapartida no enum do banco
+ */
+export type GatewayProvider = 'STRIPE' | 'MERCADO_PAGO' | 'FAKE';
+
+export interface GatewayCustomerInput {
+  name: string;
+  email?: string | null;
+  document?: string | null; // CPF/CNPJ
+  metadata?: Record<string, string>;
+}
+
+export interface SavedPaymentMethod {
+  paymentMethodId: string;
+  cardBrand?: string;
+  cardLast4?: string;
+}
+
+export interface ChargeInput {
+  amount: number; // Em reais
+  description: string;
+  customerId: string;
+  paymentMethodId: string;
+  // Mesma chave = mesma cobrança (evita cobrar duas vezes em retentativas)
+  idempotencyKey: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ChargeResult {
+  externalId: string | null;
+  status: PaymentStatus; // SUCCEEDED, PROCESSING ou FAILED
+  failureCode?: string;
+  failureMessage?: string;
+  cardBrand?: string;
+  cardLast4?: string;
+}
+
+export interface PixChargeInput {
+  amount: number;
+  description: string;
+  payerEmail?: string | null;
+  expiresAt: Date;
+  idempotencyKey: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PixChargeResult {
+  externalId: string;
+  pixCode: string; // Copia e cola
+  pixQrCode: string | null; // Imagem (base64 ou URL)
+  expiresAt: Date;
+}
+
+export interface ChargePayer {
+  name: string;
+  email?: string | null;
+  document?: string | null; // CPF/CNPJ
+  address?: {
+    zipCode: string;
+    street: string;
+    number: string;
+    neighborhood: string;
+    city: string;
+    state: string; // UF
+  } | null;
+}
+
+export interface BoletoChargeInput {
+  amount: number;
+  description: string;
+  payer: ChargePayer; // Boleto exige documento e endereço
+  dueDate: Date;
+  idempotencyKey: string;
+  metadata?: Record<string, string>;
+}
+
+export interface BoletoChargeResult {
+  externalId: string;
+  boletoCode: string; // Linha digitável
+  boletoPdfUrl: string | null;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: PaymentStatus; // REFUNDED ou PARTIALLY_REFUNDED
+}
+
+/**
+ * Operações comuns dos gateways de pagamento. Cobranças, retentativas de
+ * faturas e checkout passam por aqui em vez de chamar a API de cada provedor
+ */
+export interface PaymentGateway {
+  readonly provider: GatewayProvider;
+
+  createCustomer(input: GatewayCustomerInput): Promise<{ customerId: string }>;
+
+  /**
+   * Salva um cartão tokenizado no front-end para cobranças futuras
+   */
+  saveCard(customerId: string, cardToken: string): Promise<SavedPaymentMethod>;
+
+  /**
+   * Cobra um método salvo sem o cliente presente (recorrência/retentativa).
+   * Recusas retornam status FAILED; erros de comunicação lançam exceção
+   */
+  charge(input: ChargeInput): Promise<ChargeResult>;
+
+  createPixCharge(input: PixChargeInput): Promise<PixChargeResult>;
+
+  createBoletoCharge(input: BoletoChargeInput): Promise<BoletoChargeResult>;
+
+  /**
+   * Cancela uma cobrança ainda não paga (PIX/boleto expirado, reserva liberada)
+   */
+  cancel(externalId: string): Promise<void>;
+
+  /**
+   * Reembolsa total (sem amount) ou parcialmente uma cobrança
+   */
+  refund(externalId: string, amount?: number): Promise<RefundResult>;
+}
@@ -0,0 +1,405 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BadRequestException } from '@nestjs/common';
+import { PaymentStatus } from '@prisma/client';
+import {
+  BoletoChargeInput,
+  BoletoChargeResult,
+  ChargeInput,
+  ChargeResult,
+  GatewayCustomerInput,
+  PaymentGateway,
+  PixChargeInput,
+  PixChargeResult,
+  RefundResult,
+  SavedPaymentMethod,
+} from './payment-gateway.interface';
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+// Tolerância do timestamp assinado (mesmo padrão das bibliotecas do Stripe)
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// Campos lidos das respostas da API do Stripe
+interface StripeCard {
+  brand?: string;
+  last4?: string;
+}
+
+export interface StripePaymentIntent {
+  id: string;
+  status: string;
+  client_secret?: string | null;
+  last_payment_error?: { code?: string; message?: string } | null;
+  charges?: {
+    data?: { payment_method_details?: { card?: StripeCard } }[];
+  };
+  next_action?: {
+    pix_display_qr_code?: {
+      data: string;
+      image_url_png?: string;
+      expires_at?: number;
+    };
+    boleto_display_details?: {
+      number: string;
+      pdf?: string;
+      hosted_voucher_url?: string;
+    };
+  } | null;
+}
+
+export interface StripeInvoice {
+  id: string;
+}
+
+export interface StripeSubscription {
+  id: string;
+  status: string;
+  current_period_start: number;
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: { id: string } };
+}
+
+interface StripeErrorBody {
+  error?: {
+    type?: string;
+    code?: string;
+    decline_code?: string;
+    message?: string;
+    payment_intent?: { id: string };
+  };
+}
+
+type StripeResponse<T> =
+  | { ok: true; data: T }
+  | { ok: false; statusText: string; data: StripeErrorBody };
+
+export class StripeGateway implements PaymentGateway {
+  readonly provider = 'STRIPE' as const;
+
+  constructor(private readonly secretKey: string) {}
+
+  /**
+   * Valida o header Stripe-Signature (t=...,v1=...): HMAC SHA-256 de
+   * "timestamp.corpo bruto" com o segredo do endpoint do webhook
+   */
+  static verifyWebhookSignature(
+    rawBody: Buffer,
+    header: string | undefined,
+    secret: string,
+    now = Date.now(),
+  ): boolean {
+    if (!header) return false;
+
+    const parts = header.split(',').map((part) => part.trim().split('='));
+    const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+    const signatures = parts
+      .filter(([key]) => key === 'v1')
+      .map(([, value]) => value);
+
+    if (
+      !timestamp ||
+      Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS
+    ) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      createHmac('sha256', secret)
+        .update(`${timestamp}.`)
+        .update(rawBody)
+        .digest('hex'),
+    );
+
+    return signatures.some((signature) => {
+      const received = Buffer.from(signature ?? '');
+      return (
+        received.length === expected.length &&
+        timingSafeEqual(received, expected)
+      );
+    });
+  }
+
+  async createCustomer(input: GatewayCustomerInput) {
+    const customer = await this.request<{ id: string }>('/customers', {
+      name: input.name,
+      ...(input.email && { email: input.email }),
+      ...this.metadata(input.metadata),
+    });
+
+    return { customerId: customer.id };
+  }
+
+  async saveCard(
+    customerId: string,
+    cardToken: string,
+  ): Promise<SavedPaymentMethod> {
+    // Aceita tanto PaymentMethod (pm_...) quanto token legado (tok_...)
+    let paymentMethodId = cardToken;
+    if (cardToken.startsWith('tok_')) {
+      const created = await this.request<{ id: string }>('/payment_methods', {
+        type: 'card',
+        'card[token]': cardToken,
+      });
+      paymentMethodId = created.id;
+    }
+
+    const method = await this.request<{ card?: StripeCard }>(
+      `/payment_methods/${paymentMethodId}/attach`,
+      { customer: customerId },
+    );
+
+    await this.request(`/customers/${customerId}`, {
+      'invoice_settings[default_payment_method]': paymentMethodId,
+    });
+
+    return {
+      paymentMethodId,
+      cardBrand: method.card?.brand,
+      cardLast4: method.card?.last4,
+    };
+  }
+
+  async charge(input: ChargeInput): Promise<ChargeResult> {
+    const response = await this.send<StripePaymentIntent>(
+      '/payment_intents',
+      {
+        amount: String(Math.round(input.amount * 100)),
+        currency: 'brl',
+        customer: input.customerId,
+        payment_method: input.paymentMethodId,
+        description: input.description,
+        off_session: 'true',
+        confirm: 'true',
+        ...this.metadata(input.metadata),
+      },
+      input.idempotencyKey,
+    );
+
+    // Recusa do cartão: a API responde 402 com o PaymentIntent no erro
+    if (!response.ok) {
+      const error = response.data.error;
+      if (error?.type !== 'card_error') {
+        throw this.toException(response);
+      }
+
+      return {
+        externalId: error.payment_intent?.id ?? null,
+        status: PaymentStatus.FAILED,
+        failureCode: error.decline_code || error.code,
+        failureMessage: error.message,
+      };
+    }
+
+    const intent = response.data;
+    const card = intent.charges?.data?.[0]?.payment_method_details?.card;
+
+    return {
+      externalId: intent.id,
+      status: this.mapStatus(intent.status),
+      failureCode: intent.last_payment_error?.code,
+      failureMessage: intent.last_payment_error?.message,
+      cardBrand: card?.brand,
+      cardLast4: card?.last4,
+    };
+  }
+
+  async createPixCharge(input: PixChargeInput): Promise<PixChargeResult> {
+    const expiresAfterSeconds = Math.max(
+      10,
+      Math.round((input.expiresAt.getTime() - Date.now()) / 1000),
+    );
+
+    const response = await this.send<StripePaymentIntent>(
+      '/payment_intents',
+      {
+        amount: String(Math.round(input.amount * 100)),
+        currency: 'brl',
+        description: input.description,
+        'payment_method_types[]': 'pix',
+        'payment_method_data[type]': 'pix',
+        'payment_method_options[pix][expires_after_seconds]':
+          String(expiresAfterSeconds),
+        confirm: 'true',
+        ...this.metadata(input.metadata),
+      },
+      input.idempotencyKey,
+    );
+
+    if (!response.ok) {
+      throw this.toException(response);
+    }
+
+    const qrCode = response.data.next_action?.pix_display_qr_code;
+
+    if (!qrCode) {
+      throw new BadRequestException('Erro na API do Stripe: PIX sem QR Code');
+    }
+
+    return {
+      externalId: response.data.id,
+      pixCode: qrCode.data,
+      pixQrCode: qrCode.image_url_png ?? null,
+      expiresAt: qrCode.expires_at
+        ? new Date(qrCode.expires_at * 1000)
+        : input.expiresAt,
+    };
+  }
+
+  async createBoletoCharge(
+    input: BoletoChargeInput,
+  ): Promise<BoletoChargeResult> {
+    const { payer } = input;
+    const expiresAfterDays = Math.max(
+      1,
+      Math.ceil((input.dueDate.getTime() - Date.now()) / 86400000),
+    );
+
+    const response = await this.send<StripePaymentIntent>(
+      '/payment_intents',
+      {
+        amount: String(Math.round(input.amount * 100)),
+        currency: 'brl',
+        description: input.description,
+        'payment_method_types[]': 'boleto',
+        'payment_method_data[type]': 'boleto',
+        'payment_method_data[boleto][tax_id]': payer.document ?? '',
+        'payment_method_data[billing_details][name]': payer.name,
+        'payment_method_data[billing_details][email]': payer.email ?? '',
+        'payment_method_data[billing_details][address][line1]': payer.address
+          ? `${payer.address.street}, ${payer.address.number}`
+          : '',
+        'payment_method_data[billing_details][address][line2]':
+          payer.address?.neighborhood ?? '',
+        'payment_method_data[billing_details][address][city]':
+          payer.address?.city ?? '',
+        'payment_method_data[billing_details][address][state]':
+          payer.address?.state ?? '',
+        'payment_method_data[billing_details][address][postal_code]':
+          payer.address?.zipCode ?? '',
+        'payment_method_data[billing_details][address][country]': 'BR',
+        'payment_method_options[boleto][expires_after_days]':
+          String(expiresAfterDays),
+        confirm: 'true',
+        ...this.metadata(input.metadata),
+      },
+      input.idempotencyKey,
+    );
+
+    if (!response.ok) {
+      throw this.toException(response);
+    }
+
+    const boleto = response.data.next_action?.boleto_display_details;
+
+    if (!boleto) {
+      throw new BadRequestException(
+        'Erro na API do Stripe: boleto sem linha digitável',
+      );
+    }
+
+    return {
+      externalId: response.data.id,
+      boletoCode: boleto.number,
+      boletoPdfUrl: boleto.pdf ?? boleto.hosted_voucher_url ?? null,
+    };
+  }
+
+  async cancel(externalId: string): Promise<void> {
+    await this.request(`/payment_intents/${externalId}/cancel`, {});
+  }
+
+  async refund(externalId: string, amount?: number): Promise<RefundResult> {
+    const refund = await this.request<{ id: string }>('/refunds', {
+      payment_intent: externalId,
+      ...(amount !== undefined && {
+        amount: String(Math.round(amount * 100)),
+      }),
+    });
+
+    return {
+      refundId: refund.id,
+      status:
+        amount !== undefined
+          ? PaymentStatus.PARTIALLY_REFUNDED
+          : PaymentStatus.REFUNDED,
+    };
+  }
+
+  /**
+   * Chamada à API do Stripe (form-urlencoded). GET quando não há parâmetros
+   */
+  async request<T>(path: string, params?: Record<string, string>) {
+    const response = await this.send<T>(path, params);
+
+    if (!response.ok) {
+      throw this.toException(response);
+    }
+
+    return response.data;
+  }
+
+  private async send<T>(
+    path: string,
+    params?: Record<string, string>,
+    idempotencyKey?: string,
+  ): Promise<StripeResponse<T>> {
+    const response = await fetch(`${STRIPE_API_URL}${path}`, {
+      method: params ? 'POST' : 'GET',
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+      },
+      body: params ? new URLSearchParams(params).toString() : undefined,
+    });
+
+    const data: unknown = await response.json().catch(() => ({}));
+
+    return response.ok
+      ? { ok: true, data: data as T }
+      : {
+          ok: false,
+          statusText: response.statusText,
+          data: data as StripeErrorBody,
+        };
+  }
+
+  private toException({
+    data,
+    statusText,
+  }: {
+    data: StripeErrorBody;
+    statusText: string;
+  }) {
+    return new BadRequestException(
+      `Erro na API do Stripe: ${data.error?.message || statusText}`,
+    );
+  }
+
+  private metadata(metadata?: Record<string, string>) {
+    return Object.fromEntries(
+      Object.entries(metadata ?? {}).map(([key, value]) => [
+        `metadata[${key}]`,
+        value,
+      ]),
+    );
+  }
+
+  private mapStatus(status: string): PaymentStatus {
+    switch (status) {
+      case 'succeeded':
+        return PaymentStatus.SUCCEEDED;
+      case 'canceled':
+      case 'requires_payment_method':
+        return PaymentStatus.FAILED;
+      default:
+        return PaymentStatus.PROCESSING;
+    }
+  }
+}
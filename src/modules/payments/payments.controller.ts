@@ -10,11 +10,13 @@ import {
   Headers,
   UseGuards,
   Request,
-  RawBodyRequest,
   Req,
 } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { PaymentsService } from './payments.service';
+import type { MercadoPagoNotification } from './gateways';
 import {
   ConfigureGatewayDto,
   UpdateGatewayConfigDto,
@@ -26,6 +28,7 @@ import {
   CreateInvoiceDto,
   UpdateInvoiceDto,
   CheckoutDto,
+  CreateChargeDto,
   QueryPaymentsDto,
   QueryInvoicesDto,
 } from './dto';
@@ -151,6 +154,16 @@ export class PaymentsController {
     return this.paymentsService.createPayment(req.user.tenantId, dto);
   }
 
+  @Post('charges')
+  @RequirePermissions(Permission.FINANCIAL_CREATE)
+  createCharge(@Request() req, @Body() dto: CreateChargeDto) {
+    return this.paymentsService.createCharge(
+      req.user.tenantId,
+      req.user.id,
+      dto,
+    );
+  }
+
   @Post(':id/refund')
   @RequirePermissions(Permission.FINANCIAL_EDIT)
   refundPayment(
@@ -208,16 +221,28 @@ export class PaymentsController {
 export class PaymentsWebhookController {
   constructor(private readonly paymentsService: PaymentsService) {}
 
+  /**
+   * Stripe: ?tenantId= para a conta do tenant (sinais e cobranças); sem ele,
+   * eventos da conta da plataforma. Header Stripe-Signature obrigatório
+   */
   @Post('stripe')
   async handleStripeWebhook(
-    @Body() payload: any,
+    @Req() req: RawBodyRequest<ExpressRequest>,
     @Headers('stripe-signature') signature: string,
+    @Query('tenantId') tenantId?: string,
   ) {
-    return this.paymentsService.handleStripeWebhook(payload, signature);
+    return this.paymentsService.handleStripeWebhook(
+      req.rawBody,
+      signature,
+      tenantId,
+    );
   }
 
   @Post('mercadopago')
-  async handleMercadoPagoWebhook(@Body() payload: any) {
-    return this.paymentsService.handleMercadoPagoWebhook(payload);
+  async handleMercadoPagoWebhook(
+    @Body() payload: MercadoPagoNotification,
+    @Query('tenantId') tenantId?: string,
+  ) {
+    return this.paymentsService.handleMercadoPagoWebhook(payload, tenantId);
   }
 }
@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { PaymentsController, PaymentsWebhookController } from './payments.controller';
 import { PaymentsService } from './payments.service';
+import { PaymentsScheduler } from './payments.scheduler';
+import { PaymentGatewayFactory } from './gateways';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { RedisModule } from '../../redis/redis.module';
+import { NfseModule } from '../nfse/nfse.module';
 
 @Module({
-  imports: [PrismaModule, RedisModule],
+  imports: [PrismaModule, RedisModule, NfseModule],
   controllers: [PaymentsController, PaymentsWebhookController],
-  providers: [PaymentsService],
-  exports: [PaymentsService],
+  providers: [PaymentsService, PaymentsScheduler, PaymentGatewayFactory],
+  exports: [PaymentsService, PaymentGatewayFactory],
 })
 export class PaymentsModule {}
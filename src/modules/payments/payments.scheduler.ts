@@ -0,0 +1,46 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
+import { PaymentsService } from './payments.service';
+
+@Injectable()
+export class PaymentsScheduler implements OnModuleInit {
+  private readonly logger = new Logger(PaymentsScheduler.name);
+
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Libera a cada minuto os horários com sinal não pago
+    this.maintenance.register(
+      MAINTENANCE_JOBS.RELEASE_EXPIRED_DEPOSIT_HOLDS,
+      () => this.handleExpiredDepositHolds(),
+    );
+    // PIX e boletos vencidos sem pagamento
+    this.maintenance.register(MAINTENANCE_JOBS.EXPIRE_UNPAID_CHARGES, () =>
+      this.handleExpiredCharges(),
+    );
+  }
+
+  async handleExpiredDepositHolds() {
+    const count = await this.paymentsService.releaseExpiredDepositHolds();
+
+    if (count > 0) {
+      this.logger.log(`${count} horário(s) liberado(s) por sinal não pago`);
+    }
+
+    return count;
+  }
+
+  async handleExpiredCharges() {
+    const count = await this.paymentsService.expireUnpaidCharges();
+
+    if (count > 0) {
+      this.logger.log(`${count} cobrança(s) PIX/boleto expirada(s)`);
+    }
+
+    return count;
+  }
+}
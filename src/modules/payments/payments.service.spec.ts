@@ -0,0 +1,476 @@
+import { createHmac } from 'crypto';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  AppointmentStatus,
+  ClientPackageStatus,
+  DepositType,
+  InvoiceStatus,
+  PaymentStatus,
+  PaymentType,
+  PlanType,
+  Prisma,
+  SubscriptionStatus,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PaymentsService } from './payments.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+import { NfseService } from '../nfse/nfse.service';
+import {
+  FAKE_DECLINED_TOKEN,
+  FakePaymentGateway,
+  PaymentGatewayFactory,
+} from './gateways';
+
+// StorageService importa o uuid (ESM), que o jest não transforma
+jest.mock('../storage/storage.service', () => ({
+  StorageService: class StorageService {},
+}));
+
+const WEBHOOK_SECRET = 'whsec_test';
+
+// Corpo bruto e header Stripe-Signature como o Stripe envia
+const signStripeEvent = (event: object, secret = WEBHOOK_SECRET) => {
+  const rawBody = Buffer.from(JSON.stringify(event));
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody.toString()}`)
+    .digest('hex');
+
+  return [rawBody, `t=${timestamp},v1=${signature}`] as const;
+};
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let prismaService: any;
+  let gateway: FakePaymentGateway;
+  let nfseService: { issueForPaidTransaction: jest.Mock };
+
+  beforeEach(async () => {
+    gateway = new FakePaymentGateway();
+
+    const mockPrismaService = {
+      paymentGatewayConfig: {
+        findUnique: jest.fn().mockResolvedValue({
+          isActive: true,
+          depositHoldMinutes: 15,
+          webhookSecret: WEBHOOK_SECRET,
+        }),
+      },
+      appointment: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn(({ where }) =>
+          Promise.resolve({ count: where.id.in.length }),
+        ),
+      },
+      payment: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn(({ data }) =>
+          Promise.resolve({ id: 'payment-1', ...data }),
+        ),
+        update: jest.fn(({ where, data }) =>
+          Promise.resolve({ id: where.id, ...data }),
+        ),
+      },
+      subscription: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) =>
+          Promise.resolve({ id: 'subscription-1', ...data }),
+        ),
+      },
+      invoice: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn(({ data }) =>
+          Promise.resolve({ id: 'invoice-1', ...data }),
+        ),
+        update: jest.fn(({ where, data }) =>
+          Promise.resolve({ id: where.id, ...data }),
+        ),
+      },
+      tenant: {
+        findUnique: jest.fn().mockResolvedValue({ name: 'Clínica Teste' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      clientPackage: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        update: jest.fn(({ where, data }) =>
+          Promise.resolve({ id: where.id, ...data }),
+        ),
+      },
+      financialCategory: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'category-1' }),
+      },
+      paymentMethod: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'method-pix' }),
+      },
+      financialTransaction: {
+        create: jest.fn(({ data }) =>
+          Promise.resolve({ id: 'transaction-1', ...data }),
+        ),
+        update: jest.fn(({ where, data }) =>
+          Promise.resolve({
+            id: where.id,
+            type: TransactionType.INCOME,
+            ...data,
+          }),
+        ),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      paymentWebhookEvent: {
+        create: jest.fn().mockResolvedValue({}),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: { invalidatePlanEntitlements: jest.fn() },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        {
+          provide: NfseService,
+          useValue: { issueForPaidTransaction: jest.fn() },
+        },
+        {
+          provide: PaymentGatewayFactory,
+          useValue: {
+            forPlatform: () => gateway,
+            forConfig: () => gateway,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+    prismaService = module.get(PrismaService);
+    nfseService = module.get(NfseService);
+  });
+
+  describe('calculateDeposit', () => {
+    it('should add fixed and percentage deposits, capped at the price', () => {
+      const result = service.calculateDeposit([
+        {
+          price: 80,
+          service: {
+            depositType: DepositType.PERCENTAGE,
+            depositValue: new Prisma.Decimal(30),
+          },
+        },
+        {
+          price: 40,
+          service: {
+            depositType: DepositType.FIXED,
+            depositValue: new Prisma.Decimal(50),
+          },
+        },
+        { price: 100, service: { depositType: null, depositValue: null } },
+      ]);
+
+      expect(result).toBe(64);
+    });
+  });
+
+  describe('getDepositHoldExpiry', () => {
+    it('should hold the slot only when the gateway is active', async () => {
+      const now = new Date('2025-02-03T12:00:00.000Z');
+
+      await expect(
+        service.getDepositHoldExpiry('tenant-1', now),
+      ).resolves.toEqual(new Date('2025-02-03T12:15:00.000Z'));
+
+      prismaService.paymentGatewayConfig.findUnique.mockResolvedValue({
+        isActive: false,
+        depositHoldMinutes: 15,
+      });
+
+      await expect(
+        service.getDepositHoldExpiry('tenant-1', now),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('releaseExpiredDepositHolds', () => {
+    it('should cancel unpaid appointments and expire their payments', async () => {
+      prismaService.appointment.findMany.mockResolvedValue([
+        { id: 'appointment-1' },
+      ]);
+      prismaService.payment.findMany.mockResolvedValue([
+        {
+          id: 'payment-1',
+          externalId: null,
+          tenant: { paymentGatewayConfig: null },
+        },
+      ]);
+
+      await expect(service.releaseExpiredDepositHolds()).resolves.toBe(1);
+      expect(prismaService.appointment.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['appointment-1'] },
+          status: AppointmentStatus.PENDING_PAYMENT,
+        },
+        data: { status: AppointmentStatus.CANCELLED },
+      });
+      expect(prismaService.payment.update).toHaveBeenCalledWith({
+        where: { id: 'payment-1' },
+        data: { status: PaymentStatus.EXPIRED },
+      });
+    });
+  });
+
+  describe('checkout', () => {
+    const dto = {
+      planType: PlanType.PROFESSIONAL,
+      paymentMethod: PaymentType.CREDIT_CARD,
+      cardToken: 'tok_visa',
+    };
+
+    it('should charge the first period and save the card on the subscription', async () => {
+      const result = await service.checkout('tenant-1', dto);
+
+      expect(result.payment?.subscriptionId).toBe('subscription-1');
+      expect(prismaService.payment.update).toHaveBeenCalledWith({
+        where: { id: 'payment-1' },
+        data: expect.objectContaining({
+          status: PaymentStatus.SUCCEEDED,
+          cardLast4: '4242',
+        }),
+      });
+      expect(prismaService.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'invoice-1' },
+        data: { status: InvoiceStatus.PAID, paidAt: expect.any(Date) },
+      });
+
+      const { data } = prismaService.subscription.create.mock.calls[0][0];
+      expect(data.status).toBe(SubscriptionStatus.ACTIVE);
+      expect(gateway.paymentMethods.has(data.externalPaymentMethodId)).toBe(
+        true,
+      );
+    });
+
+    it('should not create the subscription when the card is declined', async () => {
+      await expect(
+        service.checkout('tenant-1', {
+          ...dto,
+          cardToken: FAKE_DECLINED_TOKEN,
+        }),
+      ).rejects.toThrow('Pagamento recusado: Cartão recusado');
+
+      expect(prismaService.subscription.create).not.toHaveBeenCalled();
+      expect(prismaService.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'invoice-1' },
+        data: { status: InvoiceStatus.VOID },
+      });
+    });
+  });
+
+  describe('createCharge', () => {
+    const clientPackage = {
+      id: 'package-1',
+      tenantId: 'tenant-1',
+      clientId: 'client-1',
+      name: 'Pacote 10 sessões',
+      salePrice: new Prisma.Decimal(500),
+      discountAmount: new Prisma.Decimal(0),
+      paidAmount: new Prisma.Decimal(200),
+      status: ClientPackageStatus.PENDING_PAYMENT,
+      client: { name: 'Maria Silva', email: 'maria@example.com' },
+    };
+
+    it('should create a PIX charge with a pending receivable for the open amount', async () => {
+      prismaService.clientPackage.findFirst.mockResolvedValue(clientPackage);
+
+      await service.createCharge('tenant-1', 'user-1', {
+        method: PaymentType.PIX,
+        clientPackageId: 'package-1',
+      });
+
+      expect(prismaService.financialTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 300,
+          reference: 'payment-1',
+          status: TransactionStatus.PENDING,
+          paymentMethodId: 'method-pix',
+          clientPackageId: 'package-1',
+        }),
+      });
+      expect(prismaService.payment.update).toHaveBeenCalledWith({
+        where: { id: 'payment-1' },
+        data: expect.objectContaining({
+          status: PaymentStatus.PROCESSING,
+          pixCode: expect.stringContaining('FAKEPIX'),
+        }),
+      });
+      expect(prismaService.payment.update).toHaveBeenLastCalledWith({
+        where: { id: 'payment-1' },
+        data: { financialTransactionId: 'transaction-1' },
+      });
+    });
+
+    it('should require the payer document and address for boleto', async () => {
+      prismaService.clientPackage.findFirst.mockResolvedValue(clientPackage);
+
+      await expect(
+        service.createCharge('tenant-1', 'user-1', {
+          method: PaymentType.BOLETO,
+          clientPackageId: 'package-1',
+        }),
+      ).rejects.toThrow('CPF/CNPJ e endereço do pagador são obrigatórios');
+      expect(prismaService.payment.create).not.toHaveBeenCalled();
+    });
+
+    it('should settle the receivable and activate the package when paid', async () => {
+      prismaService.payment.findFirst.mockResolvedValue({
+        id: 'payment-1',
+        tenantId: 'tenant-1',
+        amount: new Prisma.Decimal(300),
+        status: PaymentStatus.PROCESSING,
+        appointmentId: null,
+        invoiceId: null,
+        clientPackageId: 'package-1',
+        financialTransactionId: 'transaction-1',
+      });
+      prismaService.clientPackage.update.mockResolvedValueOnce({
+        ...clientPackage,
+        paidAmount: new Prisma.Decimal(500),
+      });
+
+      await service.handleStripeWebhook(
+        ...signStripeEvent({
+          id: 'evt_2',
+          type: 'payment_intent.succeeded',
+          data: { object: { id: 'pi_2' } },
+        }),
+        'tenant-1',
+      );
+
+      expect(prismaService.financialTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'transaction-1' },
+        data: { status: TransactionStatus.PAID, paidAt: expect.any(Date) },
+      });
+      expect(nfseService.issueForPaidTransaction).toHaveBeenCalledWith(
+        'tenant-1',
+        'transaction-1',
+      );
+      expect(prismaService.clientPackage.update).toHaveBeenLastCalledWith({
+        where: { id: 'package-1' },
+        data: { status: ClientPackageStatus.ACTIVE },
+      });
+    });
+  });
+
+  describe('expireUnpaidCharges', () => {
+    it('should expire unpaid charges and cancel their receivables', async () => {
+      prismaService.payment.findMany.mockResolvedValue([
+        {
+          id: 'payment-1',
+          tenantId: 'tenant-1',
+          externalId: null,
+          financialTransactionId: 'transaction-1',
+        },
+        {
+          id: 'payment-2',
+          tenantId: 'tenant-1',
+          externalId: null,
+          financialTransactionId: null,
+        },
+      ]);
+      // O segundo foi pago pelo webhook antes do job
+      prismaService.payment.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.expireUnpaidCharges()).resolves.toBe(1);
+      expect(
+        prismaService.financialTransaction.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: 'transaction-1',
+          status: {
+            in: [TransactionStatus.PENDING, TransactionStatus.OVERDUE],
+          },
+        },
+        data: { status: TransactionStatus.CANCELLED },
+      });
+    });
+  });
+
+  describe('webhooks', () => {
+    it('should reject Stripe events with a forged signature', async () => {
+      prismaService.payment.findFirst.mockResolvedValue({
+        id: 'payment-1',
+        tenantId: 'tenant-1',
+        status: PaymentStatus.PROCESSING,
+        financialTransactionId: 'transaction-1',
+      });
+      const [rawBody, signature] = signStripeEvent(
+        {
+          id: 'evt_forged',
+          type: 'payment_intent.succeeded',
+          data: { object: { id: 'pi_1' } },
+        },
+        'whsec_attacker',
+      );
+
+      await expect(
+        service.handleStripeWebhook(rawBody, signature, 'tenant-1'),
+      ).rejects.toThrow('Assinatura inválida');
+      expect(prismaService.paymentWebhookEvent.create).not.toHaveBeenCalled();
+      expect(prismaService.payment.updateMany).not.toHaveBeenCalled();
+      expect(prismaService.financialTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip gateway events that were already processed', async () => {
+      prismaService.paymentWebhookEvent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+      const payload = {
+        id: 'evt_1',
+        type: 'payment_intent.succeeded',
+        data: { object: { id: 'pi_1' } },
+      };
+
+      await expect(
+        service.handleStripeWebhook(...signStripeEvent(payload), 'tenant-1'),
+      ).resolves.toEqual({ received: true, duplicate: true });
+      expect(prismaService.payment.update).not.toHaveBeenCalled();
+    });
+
+    it('should hand a confirmed invoice payment to the billing handler', async () => {
+      const invoicePaid = jest.fn().mockResolvedValue(undefined);
+      service.onInvoicePaid(invoicePaid);
+      prismaService.payment.findFirst.mockResolvedValue({
+        id: 'payment-1',
+        tenantId: 'tenant-1',
+        amount: new Prisma.Decimal(199),
+        status: PaymentStatus.PROCESSING,
+        appointmentId: null,
+        invoiceId: 'invoice-1',
+        clientPackageId: null,
+        financialTransactionId: null,
+      });
+
+      await service.handleStripeWebhook(
+        ...signStripeEvent({
+          id: 'evt_3',
+          type: 'payment_intent.succeeded',
+          data: { object: { id: 'pi_3' } },
+        }),
+        'tenant-1',
+      );
+
+      expect(invoicePaid).toHaveBeenCalledWith('invoice-1', 'payment-1');
+      expect(prismaService.invoice.update).not.toHaveBeenCalled();
+    });
+  });
+});
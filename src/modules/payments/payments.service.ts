@@ -1,7 +1,9 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
@@ -17,23 +19,103 @@ import {
   CreateInvoiceDto,
   UpdateInvoiceDto,
   CheckoutDto,
+  CreateChargeDto,
   QueryPaymentsDto,
   QueryInvoicesDto,
   PlanPricingDto,
 } from './dto';
 import {
+  AppointmentStatus,
+  ClientPackageStatus,
+  DepositType,
+  Invoice,
+  Payment,
+  PaymentGatewayConfig,
   PaymentGatewayProvider,
+  PaymentMethodType,
   PlanType,
   PaymentType,
   PaymentStatus,
   SubscriptionStatus,
   InvoiceStatus,
+  TransactionStatus,
+  TransactionType,
   Prisma,
 } from '@prisma/client';
 import { PLAN_LIMITS } from '../../common/permissions/permissions';
+import { NfseService } from '../nfse/nfse.service';
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getZonedToday,
+  parseDateOnly,
+  toZonedDateTime,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+import {
+  ChargePayer,
+  ChargeResult,
+  MercadoPagoGateway,
+  MercadoPagoNotification,
+  MercadoPagoPayment,
+  MercadoPagoPreference,
+  PaymentGateway,
+  PaymentGatewayFactory,
+  StripeEvent,
+  StripeGateway,
+  StripeInvoice,
+  StripePaymentIntent,
+  StripeSubscription,
+} from './gateways';
+
+export interface DepositItem {
+  price: Prisma.Decimal | number;
+  service: {
+    depositType: DepositType | null;
+    depositValue: Prisma.Decimal | null;
+  };
+}
+
+export interface ChargeSavedCardInput {
+  tenantId: string;
+  subscriptionId?: string | null;
+  invoiceId: string;
+  amount: Prisma.Decimal | number;
+  description: string;
+  customerId: string;
+  paymentMethodId: string;
+  idempotencyKey: string;
+}
+
+export interface CreateAppointmentDepositInput {
+  appointmentId: string; // Primeiro agendamento (ou o único)
+  amount: number;
+  description: string;
+  expiresAt: Date;
+  paymentMethod?: PaymentType; // PIX ou, sem informar, checkout do gateway
+}
+
+/**
+ * Conclusão de uma fatura paga (renovação da assinatura), registrada pelo
+ * módulo de cobrança
+ */
+export type InvoicePaidHandler = (
+  invoiceId: string,
+  paymentId: string,
+) => Promise<void>;
+
+const DEPOSIT_CATEGORY_NAME = 'Sinais de Agendamento';
+const PACKAGE_CATEGORY_NAME = 'Pacotes de Serviços';
+
+const PIX_DEFAULT_EXPIRATION_MINUTES = 30;
+const BOLETO_DEFAULT_DUE_DAYS = 3;
+// Boleto pago no vencimento pode levar alguns dias para compensar
+const BOLETO_COMPENSATION_DAYS = 3;
 
 @Injectable()
 export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+  private invoicePaidHandler?: InvoicePaidHandler;
   private readonly CACHE_PREFIX = 'payments';
   private readonly CACHE_TTL = 300;
 
@@ -49,8 +131,17 @@ export class PaymentsService {
     private prisma: PrismaService,
     private redis: RedisService,
     private config: ConfigService,
+    private gateways: PaymentGatewayFactory,
+    private nfse: NfseService,
   ) {}
 
+  /**
+   * Registra quem conclui a fatura quando o gateway confirma o pagamento
+   */
+  onInvoicePaid(handler: InvoicePaidHandler) {
+    this.invoicePaidHandler = handler;
+  }
+
   // ============================================================================
   // GATEWAY CONFIG
   // ============================================================================
@@ -159,6 +250,19 @@ export class PaymentsService {
   }
 
   async createSubscription(tenantId: string, dto: CreateSubscriptionDto) {
+    const { subscription } = await this.subscribe(tenantId, dto);
+    return subscription;
+  }
+
+  /**
+   * Cria a assinatura e cobra o primeiro período pelo gateway da plataforma.
+   * Cartão recusado não cria a assinatura; PIX fica aguardando o webhook
+   */
+  private async subscribe(
+    tenantId: string,
+    dto: CreateSubscriptionDto,
+    customer: { name?: string; email?: string; document?: string } = {},
+  ) {
     // Verificar se já existe assinatura
     const existing = await this.prisma.subscription.findUnique({
       where: { tenantId },
@@ -168,15 +272,6 @@ export class PaymentsService {
       throw new BadRequestException('Já existe uma assinatura ativa');
     }
 
-    // Buscar configuração do gateway
-    const gatewayConfig = await this.prisma.paymentGatewayConfig.findUnique({
-      where: { tenantId },
-    });
-
-    if (!gatewayConfig || !gatewayConfig.isActive) {
-      throw new BadRequestException('Gateway de pagamento não configurado');
-    }
-
     const now = new Date();
     const periodEnd = new Date(now);
     periodEnd.setMonth(periodEnd.getMonth() + 1);
@@ -195,38 +290,147 @@ export class PaymentsService {
       status = SubscriptionStatus.TRIALING;
     }
 
-    // Criar assinatura no banco
-    const subscription = await this.prisma.subscription.create({
-      data: {
-        tenantId,
-        planType: dto.planType,
-        status,
-        currentPeriodStart: now,
-        currentPeriodEnd: periodEnd,
-        amount: amount / 100,
-        trialStart,
-        trialEnd,
-      },
-    });
+    const chargeNow = !dto.startTrial && dto.planType !== PlanType.FREE;
+    const isCard = dto.paymentMethod === PaymentType.CREDIT_CARD;
+
+    if (chargeNow && !isCard && dto.paymentMethod !== PaymentType.PIX) {
+      throw new BadRequestException(
+        `Método de pagamento ${dto.paymentMethod} não disponível para assinaturas`,
+      );
+    }
+
+    if (chargeNow && isCard && !dto.cardToken) {
+      throw new BadRequestException('Informe o cartão para assinar o plano');
+    }
+
+    const gateway = this.gateways.forPlatform();
+
+    // Cartão salvo para as renovações e retentativas de cobrança
+    let customerId = existing?.externalCustomerId ?? null;
+    let paymentMethodId = existing?.externalPaymentMethodId ?? null;
+
+    if (dto.cardToken) {
+      if (!customerId) {
+        const tenant = await this.prisma.tenant.findUnique({
+          where: { id: tenantId },
+          select: { name: true },
+        });
+
+        ({ customerId } = await gateway.createCustomer({
+          name: customer.name || dto.cardHolderName || tenant?.name || tenantId,
+          email: customer.email,
+          document: customer.document,
+          metadata: { tenantId },
+        }));
+      }
+
+      ({ paymentMethodId } = await gateway.saveCard(customerId, dto.cardToken));
+    }
+
+    // Cobrar o primeiro período antes de liberar o plano
+    let invoice: Invoice | null = null;
+    let payment: Payment | null = null;
+
+    if (chargeNow) {
+      const description = `Assinatura ${this.getPlanName(dto.planType)} - Mensal`;
+      invoice = await this.createInvoice(tenantId, {
+        subtotal: amount / 100,
+        dueDate: now.toISOString(),
+        description,
+      });
+
+      if (isCard) {
+        payment = await this.chargeSavedCard({
+          tenantId,
+          invoiceId: invoice.id,
+          amount: amount / 100,
+          description: description,
+          customerId: customerId!,
+          paymentMethodId: paymentMethodId!,
+          idempotencyKey: `invoice-${invoice.id}-checkout`,
+        });
+
+        if (payment.status === PaymentStatus.FAILED) {
+          await this.prisma.invoice.update({
+            where: { id: invoice.id },
+            data: { status: InvoiceStatus.VOID },
+          });
+          throw new BadRequestException(
+            `Pagamento recusado: ${payment.failureMessage || 'tente outro cartão'}`,
+          );
+        }
+
+        if (payment.status === PaymentStatus.SUCCEEDED) {
+          invoice = await this.prisma.invoice.update({
+            where: { id: invoice.id },
+            data: { status: InvoiceStatus.PAID, paidAt: payment.paidAt },
+          });
+        }
+      } else {
+        payment = await this.createPixCharge(
+          gateway,
+          await this.prisma.payment.create({
+            data: {
+              tenantId,
+              invoiceId: invoice.id,
+              amount: invoice.total,
+              paymentMethod: PaymentType.PIX,
+              status: PaymentStatus.PENDING,
+            },
+          }),
+          description,
+        );
+      }
+    }
+
+    const data = {
+      planType: dto.planType,
+      status,
+      currentPeriodStart: now,
+      currentPeriodEnd: periodEnd,
+      amount: amount / 100,
+      trialStart,
+      trialEnd,
+      externalCustomerId: customerId,
+      externalPaymentMethodId: paymentMethodId,
+    };
+
+    // Assinatura anterior não ativa (cancelada, inadimplente...) é reaproveitada
+    const subscription = existing
+      ? await this.prisma.subscription.update({
+          where: { tenantId },
+          data: {
+            ...data,
+            cancelAtPeriodEnd: false,
+            cancelledAt: null,
+          },
+        })
+      : await this.prisma.subscription.create({
+          data: { tenantId, ...data },
+        });
+
+    if (invoice) {
+      invoice = await this.prisma.invoice.update({
+        where: { id: invoice.id },
+        data: { subscriptionId: subscription.id },
+      });
+    }
+
+    if (payment) {
+      payment = await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { subscriptionId: subscription.id },
+      });
+    }
 
     // Atualizar plano do tenant
     await this.prisma.tenant.update({
       where: { id: tenantId },
       data: { plan: dto.planType },
     });
+    await this.redis.invalidatePlanEntitlements(tenantId);
 
-    // Se não for trial e não for plano gratuito, criar pagamento
-    if (!dto.startTrial && dto.planType !== PlanType.FREE) {
-      await this.createPaymentForSubscription(
-        tenantId,
-        subscription.id,
-        amount,
-        dto.paymentMethod,
-        dto.cardToken,
-      );
-    }
-
-    return subscription;
+    return { subscription, invoice, payment };
   }
 
   async updateSubscription(tenantId: string, dto: UpdateSubscriptionDto) {
@@ -255,10 +459,13 @@ export class PaymentsService {
       updateData.cancelAtPeriodEnd = dto.cancelAtPeriodEnd;
     }
 
-    return this.prisma.subscription.update({
+    const updated = await this.prisma.subscription.update({
       where: { tenantId },
       data: updateData,
     });
+
+    await this.redis.invalidatePlanEntitlements(tenantId);
+    return updated;
   }
 
   async cancelSubscription(tenantId: string, dto: CancelSubscriptionDto) {
@@ -285,6 +492,7 @@ export class PaymentsService {
         where: { id: tenantId },
         data: { plan: PlanType.FREE },
       });
+      await this.redis.invalidatePlanEntitlements(tenantId);
     } else {
       // Cancelar no fim do período
       await this.prisma.subscription.update({
@@ -390,13 +598,7 @@ export class PaymentsService {
 
   async createPayment(tenantId: string, dto: CreatePaymentDto) {
     // Buscar configuração do gateway
-    const gatewayConfig = await this.prisma.paymentGatewayConfig.findUnique({
-      where: { tenantId },
-    });
-
-    if (!gatewayConfig || !gatewayConfig.isActive) {
-      throw new BadRequestException('Gateway de pagamento não configurado');
-    }
+    const gatewayConfig = await this.getActiveGatewayConfig(tenantId);
 
     // Criar pagamento no banco
     const payment = await this.prisma.payment.create({
@@ -446,10 +648,17 @@ export class PaymentsService {
       );
     }
 
-    // TODO: Implementar reembolso real no gateway
-
     const isPartialRefund = refundAmount < Number(payment.amount);
 
+    if (payment.externalId) {
+      const gateway = await this.getPaymentGateway(payment);
+
+      await gateway.refund(
+        payment.externalId,
+        isPartialRefund ? refundAmount : undefined,
+      );
+    }
+
     return this.prisma.payment.update({
       where: { id },
       data: {
@@ -463,106 +672,575 @@ export class PaymentsService {
     });
   }
 
-  private async createPaymentForSubscription(
-    tenantId: string,
-    subscriptionId: string,
-    amount: number,
-    paymentMethod: PaymentType,
-    cardToken?: string,
+  /**
+   * Cobra uma fatura no cartão salvo pelo gateway da plataforma. A chave de
+   * idempotência identifica a tentativa: repeti-la não gera nova cobrança
+   */
+  async chargeSavedCard(input: ChargeSavedCardInput) {
+    const payment = await this.prisma.payment.create({
+      data: {
+        tenantId: input.tenantId,
+        subscriptionId: input.subscriptionId,
+        invoiceId: input.invoiceId,
+        amount: input.amount,
+        paymentMethod: PaymentType.CREDIT_CARD,
+        externalCustomerId: input.customerId,
+        status: PaymentStatus.PROCESSING,
+      },
+    });
+
+    try {
+      const result = await this.gateways.forPlatform().charge({
+        amount: Number(input.amount),
+        description: input.description,
+        customerId: input.customerId,
+        paymentMethodId: input.paymentMethodId,
+        idempotencyKey: input.idempotencyKey,
+        metadata: { paymentId: payment.id, tenantId: input.tenantId },
+      });
+
+      return await this.applyChargeResult(payment.id, result);
+    } catch (error) {
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.FAILED,
+          failureMessage: (error as Error).message,
+        },
+      });
+      throw error;
+    }
+  }
+
+  private async createPixCharge(
+    gateway: PaymentGateway,
+    payment: Payment,
+    description: string,
+    expiresAt = new Date(Date.now() + PIX_DEFAULT_EXPIRATION_MINUTES * 60000),
+    payerEmail?: string | null,
   ) {
-    return this.prisma.payment.create({
+    const pix = await gateway.createPixCharge({
+      amount: Number(payment.amount),
+      description,
+      payerEmail,
+      expiresAt,
+      idempotencyKey: `payment-${payment.id}`,
+      metadata: { paymentId: payment.id, tenantId: payment.tenantId },
+    });
+
+    return this.prisma.payment.update({
+      where: { id: payment.id },
       data: {
-        tenantId,
-        subscriptionId,
-        amount: amount / 100,
-        paymentMethod,
-        status: PaymentStatus.PENDING,
+        externalId: pix.externalId,
+        status: PaymentStatus.PROCESSING,
+        pixCode: pix.pixCode,
+        pixQrCode: pix.pixQrCode,
+        pixExpiresAt: pix.expiresAt,
       },
     });
   }
 
   private async processPayment(
-    gatewayConfig: { provider: PaymentGatewayProvider; secretKey: string | null },
-    payment: { id: string; amount: any; paymentMethod: PaymentType },
+    gatewayConfig: {
+      provider: PaymentGatewayProvider;
+      secretKey: string | null;
+    },
+    payment: Payment,
     dto: CreatePaymentDto,
   ) {
-    // TODO: Implementar integração real com gateways
+    const gateway = this.gateways.forConfig(gatewayConfig);
+    const description = dto.description || `Pagamento ${payment.id}`;
+
+    switch (dto.paymentMethod) {
+      case PaymentType.PIX:
+        return this.createPixCharge(gateway, payment, description);
+
+      case PaymentType.CREDIT_CARD:
+      case PaymentType.DEBIT_CARD: {
+        if (!dto.cardToken) {
+          throw new BadRequestException('Token do cartão é obrigatório');
+        }
+
+        const { customerId } = await gateway.createCustomer({
+          name: dto.cardHolderName || 'Cliente',
+          metadata: { tenantId: payment.tenantId },
+        });
+        const card = await gateway.saveCard(customerId, dto.cardToken);
+        const result = await gateway.charge({
+          amount: Number(payment.amount),
+          description,
+          customerId,
+          paymentMethodId: card.paymentMethodId,
+          idempotencyKey: `payment-${payment.id}`,
+          metadata: { paymentId: payment.id, tenantId: payment.tenantId },
+        });
+
+        return this.applyChargeResult(payment.id, {
+          ...result,
+          cardBrand: result.cardBrand ?? card.cardBrand,
+          cardLast4: result.cardLast4 ?? card.cardLast4,
+        });
+      }
 
-    switch (gatewayConfig.provider) {
-      case PaymentGatewayProvider.STRIPE:
-        return this.processStripePayment(payment, dto);
-      case PaymentGatewayProvider.MERCADO_PAGO:
-        return this.processMercadoPagoPayment(payment, dto);
       default:
-        throw new BadRequestException(`Provedor ${gatewayConfig.provider} não suportado`);
+        throw new BadRequestException(
+          `Método ${dto.paymentMethod} não suportado pelo gateway`,
+        );
     }
   }
 
-  private async processStripePayment(
-    payment: { id: string; amount: any; paymentMethod: PaymentType },
-    dto: CreatePaymentDto,
-  ) {
-    // TODO: Implementar Stripe
-    // Esta é uma implementação de exemplo
+  private applyChargeResult(paymentId: string, result: ChargeResult) {
+    return this.prisma.payment.update({
+      where: { id: paymentId },
+      data: {
+        externalId: result.externalId,
+        status: result.status,
+        failureCode: result.failureCode,
+        failureMessage: result.failureMessage,
+        cardBrand: result.cardBrand,
+        cardLast4: result.cardLast4,
+        paidAt: result.status === PaymentStatus.SUCCEEDED ? new Date() : null,
+      },
+    });
+  }
 
-    const updatedPayment = await this.prisma.payment.update({
-      where: { id: payment.id },
+  /**
+   * Faturas e assinaturas são cobradas pela plataforma; o resto, pelo
+   * gateway configurado pelo tenant
+   */
+  private async getPaymentGateway(payment: {
+    tenantId: string;
+    invoiceId: string | null;
+    subscriptionId: string | null;
+  }) {
+    if (payment.invoiceId || payment.subscriptionId) {
+      return this.gateways.forPlatform();
+    }
+
+    return this.gateways.forConfig(
+      await this.getActiveGatewayConfig(payment.tenantId),
+    );
+  }
+
+  private async getActiveGatewayConfig(tenantId: string) {
+    const gatewayConfig = await this.prisma.paymentGatewayConfig.findUnique({
+      where: { tenantId },
+    });
+
+    if (!gatewayConfig || !gatewayConfig.isActive) {
+      throw new BadRequestException('Gateway de pagamento não configurado');
+    }
+
+    return gatewayConfig;
+  }
+
+  // ============================================================================
+  // COBRANÇAS PIX / BOLETO
+  // ============================================================================
+
+  /**
+   * Gera uma cobrança PIX (QR Code dinâmico) ou boleto no gateway. Pacotes e
+   * sinais lançam uma conta a receber pendente, baixada pelo webhook
+   */
+  async createCharge(tenantId: string, userId: string, dto: CreateChargeDto) {
+    const links = [dto.invoiceId, dto.clientPackageId, dto.appointmentId];
+    if (links.filter(Boolean).length !== 1) {
+      throw new BadRequestException(
+        'Informe exatamente um vínculo: fatura, pacote ou agendamento',
+      );
+    }
+
+    const target = await this.resolveChargeTarget(tenantId, dto);
+    const amount = dto.amount ?? target.openAmount;
+
+    if (amount <= 0) {
+      throw new BadRequestException('Não há saldo em aberto para cobrar');
+    }
+
+    if (amount > target.openAmount) {
+      throw new BadRequestException('Valor maior que o saldo em aberto');
+    }
+
+    const payer = {
+      name: dto.payer?.name || target.payer.name,
+      email: dto.payer?.email ?? target.payer.email,
+      document: dto.payer?.document,
+      address: dto.payer?.address,
+    };
+
+    if (
+      dto.method === PaymentType.BOLETO &&
+      (!payer.document || !payer.address)
+    ) {
+      throw new BadRequestException(
+        'CPF/CNPJ e endereço do pagador são obrigatórios para boleto',
+      );
+    }
+
+    const now = new Date();
+    const dueDate = dto.dueDate
+      ? parseDateOnly(dto.dueDate)
+      : addDays(getZonedToday(DEFAULT_TIMEZONE, now), BOLETO_DEFAULT_DUE_DAYS);
+    // Boleto vence no fim do dia, no horário de Brasília
+    const expiresAt =
+      dto.method === PaymentType.PIX
+        ? new Date(
+            now.getTime() +
+              (dto.expiresInMinutes ?? PIX_DEFAULT_EXPIRATION_MINUTES) * 60000,
+          )
+        : zonedTimeToUtc(dueDate, '23:59', DEFAULT_TIMEZONE);
+
+    if (expiresAt <= now) {
+      throw new BadRequestException('O vencimento deve ser uma data futura');
+    }
+
+    const gateway = await this.getPaymentGateway({
+      tenantId,
+      invoiceId: dto.invoiceId ?? null,
+      subscriptionId: null,
+    });
+
+    const payment = await this.prisma.payment.create({
       data: {
-        status: PaymentStatus.PROCESSING,
+        tenantId,
+        invoiceId: dto.invoiceId,
+        clientPackageId: dto.clientPackageId,
+        appointmentId: dto.appointmentId,
+        amount,
+        paymentMethod: dto.method,
+        status: PaymentStatus.PENDING,
+        metadata: { type: 'CHARGE', description: target.description },
       },
     });
 
-    if (dto.paymentMethod === PaymentType.PIX) {
-      // Gerar código PIX
-      return this.prisma.payment.update({
+    // Conta a receber do tenant (faturas são receita da plataforma)
+    const transaction = target.income
+      ? await this.prisma.financialTransaction.create({
+          data: {
+            tenantId,
+            type: TransactionType.INCOME,
+            categoryId: (
+              await this.findOrCreateIncomeCategory(
+                tenantId,
+                target.income.categoryName,
+              )
+            ).id,
+            paymentMethodId: await this.findPaymentMethodId(
+              tenantId,
+              dto.method === PaymentType.PIX
+                ? PaymentMethodType.PIX
+                : PaymentMethodType.BOLETO,
+            ),
+            amount,
+            netAmount: amount,
+            date: getZonedToday(DEFAULT_TIMEZONE, now),
+            dueDate: parseDateOnly(
+              toZonedDateTime(expiresAt, DEFAULT_TIMEZONE).date,
+            ),
+            description: target.description,
+            reference: payment.id,
+            status: TransactionStatus.PENDING,
+            clientId: target.income.clientId,
+            appointmentId: dto.appointmentId,
+            providerId: target.income.providerId,
+            clientPackageId: dto.clientPackageId,
+            createdBy: userId,
+          },
+        })
+      : null;
+
+    try {
+      const charged =
+        dto.method === PaymentType.PIX
+          ? await this.createPixCharge(
+              gateway,
+              payment,
+              target.description,
+              expiresAt,
+              payer.email,
+            )
+          : await this.createBoletoCharge(
+              gateway,
+              payment,
+              target.description,
+              payer,
+              expiresAt,
+            );
+
+      if (!transaction) {
+        return charged;
+      }
+
+      return await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { financialTransactionId: transaction.id },
+      });
+    } catch (error) {
+      await this.prisma.payment.update({
         where: { id: payment.id },
         data: {
-          pixCode: `PIX_CODE_${payment.id}`,
-          pixQrCode: 'BASE64_QR_CODE_HERE',
-          pixExpiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutos
+          status: PaymentStatus.FAILED,
+          failureMessage: (error as Error).message,
         },
       });
+
+      if (transaction) {
+        await this.prisma.financialTransaction.update({
+          where: { id: transaction.id },
+          data: { status: TransactionStatus.CANCELLED },
+        });
+      }
+      throw error;
     }
+  }
 
-    if (dto.paymentMethod === PaymentType.BOLETO) {
-      // Gerar boleto
-      return this.prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          boletoCode: `23793.38128 60000.000003 00000.000408 1 84340000012345`,
-          boletoPdfUrl: `https://example.com/boleto/${payment.id}.pdf`,
-          boletoExpiresAt: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // 3 dias
+  /**
+   * Cancela cobranças PIX e boleto não pagas depois da validade
+   */
+  async expireUnpaidCharges(now = new Date()): Promise<number> {
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+        OR: [
+          { paymentMethod: PaymentType.PIX, pixExpiresAt: { lte: now } },
+          {
+            paymentMethod: PaymentType.BOLETO,
+            boletoExpiresAt: { lte: addDays(now, -BOLETO_COMPENSATION_DAYS) },
+          },
+        ],
+      },
+    });
+
+    let expired = 0;
+
+    for (const payment of payments) {
+      // O webhook pode ter confirmado o pagamento enquanto o job rodava
+      const { count } = await this.prisma.payment.updateMany({
+        where: {
+          id: payment.id,
+          status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
         },
+        data: { status: PaymentStatus.EXPIRED },
       });
+
+      if (count > 0) {
+        expired++;
+        await this.cancelUnpaidCharge(payment);
+      }
     }
 
-    // Cartão de crédito - processamento direto
-    return this.prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: PaymentStatus.SUCCEEDED,
-        paidAt: new Date(),
-        cardBrand: 'visa',
-        cardLast4: '4242',
-      },
+    return expired;
+  }
+
+  private async resolveChargeTarget(tenantId: string, dto: CreateChargeDto) {
+    if (dto.invoiceId) {
+      const invoice = await this.findInvoiceById(dto.invoiceId, tenantId);
+
+      if (invoice.status !== InvoiceStatus.OPEN) {
+        throw new BadRequestException('Fatura não está em aberto');
+      }
+
+      const tenant = await this.prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { name: true },
+      });
+
+      return {
+        openAmount: Number(invoice.total),
+        description: `Fatura ${invoice.invoiceNumber ?? invoice.id}`,
+        payer: { name: tenant?.name ?? tenantId, email: null },
+        income: null,
+      };
+    }
+
+    if (dto.clientPackageId) {
+      const clientPackage = await this.prisma.clientPackage.findFirst({
+        where: { id: dto.clientPackageId, tenantId },
+        include: { client: true },
+      });
+
+      if (!clientPackage) {
+        throw new NotFoundException('Pacote não encontrado');
+      }
+
+      if (clientPackage.status === ClientPackageStatus.CANCELLED) {
+        throw new BadRequestException('Pacote cancelado');
+      }
+
+      const openAmount =
+        Number(clientPackage.salePrice) -
+        Number(clientPackage.discountAmount) -
+        Number(clientPackage.paidAmount);
+
+      return {
+        openAmount: Math.round(openAmount * 100) / 100,
+        description: `Pacote ${clientPackage.name} - ${clientPackage.client.name}`,
+        payer: clientPackage.client,
+        income: {
+          categoryName: PACKAGE_CATEGORY_NAME,
+          clientId: clientPackage.clientId,
+          providerId: null,
+        },
+      };
+    }
+
+    const appointment = await this.prisma.appointment.findFirst({
+      where: { id: dto.appointmentId, tenantId },
+      include: { service: true, client: true },
     });
+
+    if (!appointment) {
+      throw new NotFoundException('Agendamento não encontrado');
+    }
+
+    if (appointment.status === AppointmentStatus.CANCELLED) {
+      throw new BadRequestException('Agendamento cancelado');
+    }
+
+    // Sem regra de sinal no serviço, o sinal pode ser qualquer valor até o preço
+    const deposit = this.calculateDeposit([appointment]);
+
+    return {
+      openAmount: deposit || Number(appointment.price),
+      description: `Sinal - ${appointment.service.name} - ${appointment.client.name}`,
+      payer: appointment.client,
+      income: {
+        categoryName: DEPOSIT_CATEGORY_NAME,
+        clientId: appointment.clientId,
+        providerId: appointment.providerId,
+      },
+    };
   }
 
-  private async processMercadoPagoPayment(
-    payment: { id: string; amount: any; paymentMethod: PaymentType },
-    dto: CreatePaymentDto,
+  private async createBoletoCharge(
+    gateway: PaymentGateway,
+    payment: Payment,
+    description: string,
+    payer: ChargePayer,
+    expiresAt: Date,
   ) {
-    // TODO: Implementar Mercado Pago
-    console.log(`[Mercado Pago] Processando pagamento ${payment.id}`);
+    const boleto = await gateway.createBoletoCharge({
+      amount: Number(payment.amount),
+      description,
+      payer,
+      dueDate: expiresAt,
+      idempotencyKey: `payment-${payment.id}`,
+      metadata: { paymentId: payment.id, tenantId: payment.tenantId },
+    });
 
     return this.prisma.payment.update({
       where: { id: payment.id },
       data: {
+        externalId: boleto.externalId,
         status: PaymentStatus.PROCESSING,
+        boletoCode: boleto.boletoCode,
+        boletoPdfUrl: boleto.boletoPdfUrl,
+        boletoExpiresAt: expiresAt,
       },
     });
   }
 
+  /**
+   * Cancela no gateway a cobrança não paga e a conta a receber vinculada
+   */
+  private async cancelUnpaidCharge(payment: Payment) {
+    await this.cancelChargeTransaction(payment);
+
+    if (!payment.externalId) {
+      return;
+    }
+
+    try {
+      const gateway = await this.getPaymentGateway(payment);
+      await gateway.cancel(payment.externalId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to cancel charge ${payment.externalId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async cancelChargeTransaction(payment: Payment) {
+    if (payment.financialTransactionId) {
+      await this.prisma.financialTransaction.updateMany({
+        where: {
+          id: payment.financialTransactionId,
+          status: {
+            in: [TransactionStatus.PENDING, TransactionStatus.OVERDUE],
+          },
+        },
+        data: { status: TransactionStatus.CANCELLED },
+      });
+    }
+  }
+
+  /**
+   * Baixa a conta a receber e o saldo do pacote de uma cobrança paga
+   */
+  private async reconcileCharge(payment: Payment, paidAt: Date) {
+    if (payment.financialTransactionId) {
+      const transaction = await this.prisma.financialTransaction.update({
+        where: { id: payment.financialTransactionId },
+        data: { status: TransactionStatus.PAID, paidAt },
+      });
+
+      if (transaction.type === TransactionType.INCOME) {
+        await this.nfse.issueForPaidTransaction(
+          payment.tenantId,
+          transaction.id,
+        );
+      }
+    }
+
+    if (payment.clientPackageId) {
+      const clientPackage = await this.prisma.clientPackage.update({
+        where: { id: payment.clientPackageId },
+        data: { paidAmount: { increment: payment.amount } },
+      });
+
+      const totalDue =
+        Number(clientPackage.salePrice) - Number(clientPackage.discountAmount);
+
+      if (
+        clientPackage.status === ClientPackageStatus.PENDING_PAYMENT &&
+        Number(clientPackage.paidAmount) >= totalDue
+      ) {
+        await this.prisma.clientPackage.update({
+          where: { id: clientPackage.id },
+          data: { status: ClientPackageStatus.ACTIVE },
+        });
+      }
+    }
+  }
+
+  private async findOrCreateIncomeCategory(tenantId: string, name: string) {
+    const category = await this.prisma.financialCategory.findFirst({
+      where: { tenantId, name, type: TransactionType.INCOME },
+    });
+
+    if (category) {
+      return category;
+    }
+
+    return this.prisma.financialCategory.create({
+      data: {
+        tenantId,
+        name,
+        type: TransactionType.INCOME,
+        isSystem: true,
+      },
+    });
+  }
+
+  private async findPaymentMethodId(tenantId: string, type: PaymentMethodType) {
+    const method = await this.prisma.paymentMethod.findFirst({
+      where: { tenantId, type, isActive: true },
+      select: { id: true },
+    });
+
+    return method?.id;
+  }
+
   // ============================================================================
   // INVOICES
   // ============================================================================
@@ -700,119 +1378,632 @@ export class PaymentsService {
   // ============================================================================
 
   async checkout(tenantId: string, dto: CheckoutDto) {
-    // 1. Criar ou atualizar assinatura
-    const subscription = await this.createSubscription(tenantId, {
-      planType: dto.planType,
-      paymentMethod: dto.paymentMethod,
-      cardToken: dto.cardToken,
-      cardHolderName: dto.cardHolderName,
-      couponCode: dto.couponCode,
+    // Assinatura, fatura e cobrança do primeiro período pelo gateway
+    return this.subscribe(
+      tenantId,
+      {
+        planType: dto.planType,
+        paymentMethod: dto.paymentMethod,
+        cardToken: dto.cardToken,
+        cardHolderName: dto.cardHolderName,
+        couponCode: dto.couponCode,
+      },
+      {
+        name: dto.customerName,
+        email: dto.customerEmail,
+        document: dto.customerDocument,
+      },
+    );
+  }
+
+  // ============================================================================
+  // SINAL DE AGENDAMENTO (Agendamento online)
+  // ============================================================================
+
+  /**
+   * Fim da reserva do horário enquanto o cliente paga o sinal.
+   * Retorna null quando o tenant não tem gateway ativo (sem cobrança de sinal)
+   */
+  async getDepositHoldExpiry(tenantId: string, now = new Date()) {
+    const gatewayConfig = await this.prisma.paymentGatewayConfig.findUnique({
+      where: { tenantId },
+      select: { isActive: true, depositHoldMinutes: true },
     });
 
-    // 2. Criar fatura
-    const amount = this.PLAN_PRICES[dto.planType].monthly / 100;
-    const invoice = await this.createInvoice(tenantId, {
-      subtotal: amount,
-      dueDate: new Date().toISOString(),
-      description: `Assinatura ${this.getPlanName(dto.planType)} - Mensal`,
+    if (!gatewayConfig?.isActive) {
+      return null;
+    }
+
+    return new Date(now.getTime() + gatewayConfig.depositHoldMinutes * 60000);
+  }
+
+  /**
+   * Valor do sinal: soma da regra de cada serviço (fixo ou percentual
+   * do preço cobrado), nunca maior que o próprio preço
+   */
+  calculateDeposit(items: DepositItem[]): number {
+    const cents = items.reduce((sum, item) => {
+      const { depositType, depositValue } = item.service;
+      if (!depositType || !depositValue) return sum;
+
+      const price = Number(item.price);
+      const deposit =
+        depositType === DepositType.PERCENTAGE
+          ? (price * Number(depositValue)) / 100
+          : Number(depositValue);
+
+      return sum + Math.round(Math.min(deposit, price) * 100);
+    }, 0);
+
+    return cents / 100;
+  }
+
+  /**
+   * Cria o pagamento do sinal no gateway do tenant. O agendamento fica
+   * PENDING_PAYMENT até o webhook de confirmação ou a expiração da reserva
+   */
+  async createAppointmentDeposit(
+    tenantId: string,
+    input: CreateAppointmentDepositInput,
+  ) {
+    const gatewayConfig = await this.prisma.paymentGatewayConfig.findUnique({
+      where: { tenantId },
     });
 
-    // 3. Atualizar assinatura com fatura
-    await this.prisma.invoice.update({
-      where: { id: invoice.id },
-      data: { subscriptionId: subscription.id },
+    if (!gatewayConfig || !gatewayConfig.isActive || !gatewayConfig.secretKey) {
+      throw new BadRequestException('Gateway de pagamento não configurado');
+    }
+
+    const payment = await this.prisma.payment.create({
+      data: {
+        tenantId,
+        appointmentId: input.appointmentId,
+        amount: input.amount,
+        ...(input.paymentMethod && { paymentMethod: input.paymentMethod }),
+        status: PaymentStatus.PENDING,
+        metadata: {
+          type: 'APPOINTMENT_DEPOSIT',
+          description: input.description,
+        },
+      },
     });
 
-    // 4. Criar pagamento
-    const payment = await this.createPayment(tenantId, {
-      amount,
-      paymentMethod: dto.paymentMethod,
-      cardToken: dto.cardToken,
-      invoiceId: invoice.id,
+    try {
+      // PIX: QR Code dinâmico válido até o fim da reserva do horário
+      if (input.paymentMethod === PaymentType.PIX) {
+        const pix = await this.createPixCharge(
+          this.gateways.forConfig(gatewayConfig),
+          payment,
+          input.description,
+          input.expiresAt,
+        );
+
+        return {
+          paymentId: payment.id,
+          provider: gatewayConfig.provider,
+          amount: input.amount,
+          expiresAt: input.expiresAt,
+          clientSecret: null,
+          checkoutUrl: null,
+          pixCode: pix.pixCode,
+          pixQrCode: pix.pixQrCode,
+        };
+      }
+
+      switch (gatewayConfig.provider) {
+        case PaymentGatewayProvider.STRIPE:
+          return await this.createStripeDeposit(gatewayConfig, payment, input);
+        case PaymentGatewayProvider.MERCADO_PAGO:
+          return await this.createMercadoPagoDeposit(
+            gatewayConfig,
+            payment,
+            input,
+          );
+        default:
+          throw new BadRequestException(
+            `Provedor ${gatewayConfig.provider} não suportado`,
+          );
+      }
+    } catch (error) {
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.FAILED,
+          failureMessage: (error as Error).message,
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Libera os horários cujo sinal não foi pago dentro do prazo
+   */
+  async releaseExpiredDepositHolds(now = new Date()): Promise<number> {
+    const expired = await this.prisma.appointment.findMany({
+      where: {
+        status: AppointmentStatus.PENDING_PAYMENT,
+        holdExpiresAt: { lte: now },
+      },
+      select: { id: true },
+    });
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const appointmentIds = expired.map((a) => a.id);
+
+    const { count } = await this.prisma.appointment.updateMany({
+      where: {
+        id: { in: appointmentIds },
+        status: AppointmentStatus.PENDING_PAYMENT,
+      },
+      data: { status: AppointmentStatus.CANCELLED },
+    });
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        appointmentId: { in: appointmentIds },
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+      },
+    });
+
+    for (const payment of payments) {
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: PaymentStatus.EXPIRED },
+      });
+
+      // Evita que o cliente pague um horário que já foi liberado
+      await this.cancelUnpaidCharge(payment);
+    }
+
+    return count;
+  }
+
+  private async createStripeDeposit(
+    gatewayConfig: PaymentGatewayConfig,
+    payment: Payment,
+    input: CreateAppointmentDepositInput,
+  ) {
+    const intent = await this.stripeRequest<StripePaymentIntent>(
+      gatewayConfig,
+      '/payment_intents',
+      {
+        amount: String(Math.round(input.amount * 100)),
+        currency: 'brl',
+        description: input.description,
+        'automatic_payment_methods[enabled]': 'true',
+        'metadata[paymentId]': payment.id,
+        'metadata[tenantId]': payment.tenantId,
+      },
+    );
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: { externalId: intent.id, status: PaymentStatus.PROCESSING },
     });
 
     return {
-      subscription,
-      invoice,
-      payment,
+      paymentId: payment.id,
+      provider: PaymentGatewayProvider.STRIPE,
+      amount: input.amount,
+      expiresAt: input.expiresAt,
+      clientSecret: intent.client_secret ?? null,
+      checkoutUrl: null,
+      pixCode: null,
+      pixQrCode: null,
     };
   }
 
+  private async createMercadoPagoDeposit(
+    gatewayConfig: PaymentGatewayConfig,
+    payment: Payment,
+    input: CreateAppointmentDepositInput,
+  ) {
+    const baseUrl =
+      this.config.get<string>('APP_URL') || 'https://api.belu.com.br';
+
+    const preference = await this.mercadoPagoRequest<MercadoPagoPreference>(
+      gatewayConfig,
+      '/checkout/preferences',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          items: [
+            {
+              title: input.description,
+              quantity: 1,
+              currency_id: 'BRL',
+              unit_price: input.amount,
+            },
+          ],
+          external_reference: payment.id,
+          notification_url: `${baseUrl}/api/webhooks/payments/mercadopago?tenantId=${payment.tenantId}`,
+          expires: true,
+          expiration_date_to: input.expiresAt.toISOString(),
+        }),
+      },
+    );
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.PROCESSING },
+    });
+
+    return {
+      paymentId: payment.id,
+      provider: PaymentGatewayProvider.MERCADO_PAGO,
+      amount: input.amount,
+      expiresAt: input.expiresAt,
+      clientSecret: null,
+      checkoutUrl: gatewayConfig.isTestMode
+        ? preference.sandbox_init_point
+        : preference.init_point,
+      pixCode: null,
+      pixQrCode: null,
+    };
+  }
+
+  /**
+   * Confirma os agendamentos do sinal pago e lança a receita no financeiro
+   */
+  private async confirmAppointmentDeposit(payment: Payment) {
+    const appointment = await this.prisma.appointment.findUnique({
+      where: { id: payment.appointmentId! },
+      include: { service: true, client: true },
+    });
+
+    if (!appointment) {
+      return;
+    }
+
+    // Combo: todos os serviços do grupo são confirmados juntos
+    const { count } = await this.prisma.appointment.updateMany({
+      where: {
+        ...(appointment.groupId
+          ? { groupId: appointment.groupId }
+          : { id: appointment.id }),
+        status: AppointmentStatus.PENDING_PAYMENT,
+      },
+      data: { status: AppointmentStatus.CONFIRMED, holdExpiresAt: null },
+    });
+
+    if (count === 0) {
+      this.logger.warn(
+        `Deposit ${payment.id} paid after the hold of appointment ${appointment.id} was released`,
+      );
+    }
+
+    const existing = await this.prisma.financialTransaction.findFirst({
+      where: { tenantId: payment.tenantId, reference: payment.id },
+    });
+
+    if (existing) {
+      return;
+    }
+
+    const category = await this.findOrCreateIncomeCategory(
+      payment.tenantId,
+      DEPOSIT_CATEGORY_NAME,
+    );
+
+    const paidAt = payment.paidAt ?? new Date();
+
+    const transaction = await this.prisma.financialTransaction.create({
+      data: {
+        tenantId: payment.tenantId,
+        type: TransactionType.INCOME,
+        categoryId: category.id,
+        amount: payment.amount,
+        netAmount: payment.amount,
+        date: paidAt,
+        paidAt,
+        description: `Sinal - ${appointment.service.name} - ${appointment.client.name}`,
+        notes:
+          count === 0
+            ? 'Pagamento recebido após a expiração da reserva do horário'
+            : undefined,
+        reference: payment.id,
+        status: TransactionStatus.PAID,
+        appointmentId: appointment.id,
+        clientId: appointment.clientId,
+        providerId: appointment.providerId,
+      },
+    });
+
+    await this.nfse.issueForPaidTransaction(payment.tenantId, transaction.id);
+  }
+
+  private stripeRequest<T>(
+    gatewayConfig: PaymentGatewayConfig,
+    path: string,
+    params?: Record<string, string>,
+  ) {
+    return new StripeGateway(gatewayConfig.secretKey ?? '').request<T>(
+      path,
+      params,
+    );
+  }
+
+  private mercadoPagoRequest<T>(
+    gatewayConfig: PaymentGatewayConfig,
+    path: string,
+    options: RequestInit = {},
+  ) {
+    return new MercadoPagoGateway(gatewayConfig.secretKey ?? '').request<T>(
+      path,
+      options,
+    );
+  }
+
   // ============================================================================
   // WEBHOOKS
   // ============================================================================
 
-  async handleStripeWebhook(payload: any, signature: string) {
-    // TODO: Verificar assinatura do webhook
-    // TODO: Processar eventos do Stripe
-
-    const event = payload;
-
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        await this.handlePaymentSucceeded(event.data.object);
-        break;
-      case 'payment_intent.payment_failed':
-        await this.handlePaymentFailed(event.data.object);
-        break;
-      case 'invoice.paid':
-        await this.handleInvoicePaid(event.data.object);
-        break;
-      case 'customer.subscription.updated':
-        await this.handleSubscriptionUpdated(event.data.object);
-        break;
-      case 'customer.subscription.deleted':
-        await this.handleSubscriptionDeleted(event.data.object);
-        break;
+  /**
+   * Webhook do Stripe. Com tenantId o evento vem da conta do tenant e é
+   * assinado com o segredo do webhook dele; sem tenantId, da conta da
+   * plataforma (assinaturas e faturas dos tenants)
+   */
+  async handleStripeWebhook(
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+    tenantId?: string,
+  ) {
+    const secret = tenantId
+      ? (
+          await this.prisma.paymentGatewayConfig.findUnique({
+            where: { tenantId },
+          })
+        )?.webhookSecret
+      : this.config.get<string>('PAYMENT_GATEWAY_WEBHOOK_SECRET');
+
+    if (
+      !rawBody ||
+      !secret ||
+      !StripeGateway.verifyWebhookSignature(rawBody, signature, secret)
+    ) {
+      this.logger.warn(
+        `Invalid Stripe signature${tenantId ? ` for tenant ${tenantId}` : ''}`,
+      );
+      throw new UnauthorizedException('Assinatura inválida');
     }
 
-    return { received: true };
+    const event = JSON.parse(rawBody.toString('utf8')) as StripeEvent;
+    const object = event.data.object;
+
+    return this.processWebhookEvent(
+      PaymentGatewayProvider.STRIPE,
+      event.id,
+      { type: event.type, tenantId, payload: event },
+      async () => {
+        switch (event.type) {
+          case 'payment_intent.succeeded':
+            await this.handlePaymentSucceeded(
+              object as StripePaymentIntent,
+              tenantId,
+            );
+            break;
+          case 'payment_intent.payment_failed':
+            await this.handlePaymentFailed(
+              object as StripePaymentIntent,
+              tenantId,
+            );
+            break;
+          case 'invoice.paid':
+            await this.handleInvoicePaid(object as StripeInvoice, tenantId);
+            break;
+          case 'customer.subscription.updated':
+            await this.handleSubscriptionUpdated(object as StripeSubscription);
+            break;
+          case 'customer.subscription.deleted':
+            await this.handleSubscriptionDeleted(object as StripeSubscription);
+            break;
+        }
+      },
+    );
   }
 
-  async handleMercadoPagoWebhook(payload: any) {
-    // TODO: Processar eventos do Mercado Pago
+  async handleMercadoPagoWebhook(
+    payload: MercadoPagoNotification,
+    tenantId?: string,
+  ) {
+    return this.processWebhookEvent(
+      PaymentGatewayProvider.MERCADO_PAGO,
+      payload.id,
+      { type: payload.action ?? payload.type, tenantId, payload },
+      () => this.handleMercadoPagoNotification(payload, tenantId),
+    );
+  }
 
-    const action = payload.action;
-    const type = payload.type;
+  /**
+   * Processa cada evento do gateway uma única vez. O registro é criado antes
+   * do processamento (a chave única barra entregas concorrentes) e removido
+   * em caso de erro, para que a reentrega do gateway tente de novo
+   */
+  private async processWebhookEvent(
+    provider: PaymentGatewayProvider,
+    eventId: string | number | undefined,
+    event: { type?: string; tenantId?: string; payload: object },
+    handler: () => Promise<void>,
+  ) {
+    if (!eventId) {
+      await handler();
+      return { received: true };
+    }
 
-    if (type === 'payment') {
-      // Buscar detalhes do pagamento na API do Mercado Pago
-      // Atualizar status no banco
+    const key = { provider, eventId: String(eventId) };
+
+    try {
+      await this.prisma.paymentWebhookEvent.create({
+        data: {
+          ...key,
+          type: event.type,
+          tenantId: event.tenantId,
+          payload: event.payload as Prisma.InputJsonObject,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.log(`Skipping duplicate ${provider} event ${eventId}`);
+        return { received: true, duplicate: true };
+      }
+      throw error;
+    }
+
+    try {
+      await handler();
+    } catch (error) {
+      await this.prisma.paymentWebhookEvent
+        .delete({ where: { provider_eventId: key } })
+        .catch(() => undefined);
+      throw error;
     }
 
     return { received: true };
   }
 
-  private async handlePaymentSucceeded(paymentIntent: any) {
+  private async handleMercadoPagoNotification(
+    payload: MercadoPagoNotification,
+    tenantId?: string,
+  ) {
+    if (payload.type !== 'payment' || !payload.data?.id || !tenantId) {
+      return;
+    }
+
+    const gatewayConfig = await this.prisma.paymentGatewayConfig.findUnique({
+      where: { tenantId },
+    });
+
+    if (!gatewayConfig?.secretKey) {
+      return;
+    }
+
+    // A notificação traz apenas o ID; o status vem da API do Mercado Pago
+    const mpPayment = await this.mercadoPagoRequest<MercadoPagoPayment>(
+      gatewayConfig,
+      `/v1/payments/${payload.data.id}`,
+    );
+
+    if (!mpPayment.external_reference) {
+      return;
+    }
+
     const payment = await this.prisma.payment.findFirst({
-      where: { externalId: paymentIntent.id },
+      where: { id: mpPayment.external_reference, tenantId },
     });
 
-    if (payment) {
+    if (!payment) {
+      return;
+    }
+
+    if (mpPayment.status === 'approved') {
+      await this.markPaymentSucceeded(payment, String(mpPayment.id));
+    } else if (['rejected', 'cancelled'].includes(mpPayment.status)) {
       await this.prisma.payment.update({
         where: { id: payment.id },
         data: {
-          status: PaymentStatus.SUCCEEDED,
-          paidAt: new Date(),
+          externalId: String(mpPayment.id),
+          status: PaymentStatus.FAILED,
+          failureCode: mpPayment.status_detail,
         },
       });
+      await this.cancelChargeTransaction(payment);
+    }
+  }
+
+  private async handlePaymentSucceeded(
+    paymentIntent: StripePaymentIntent,
+    tenantId?: string,
+  ) {
+    const payment = await this.prisma.payment.findFirst({
+      where: { externalId: paymentIntent.id, ...(tenantId && { tenantId }) },
+    });
+
+    if (payment) {
+      // Sinal de agendamento: confirma o status direto no Stripe, já que
+      // o evento libera o horário reservado
+      if (payment.appointmentId) {
+        const gatewayConfig = await this.prisma.paymentGatewayConfig.findUnique(
+          {
+            where: { tenantId: payment.tenantId },
+          },
+        );
+        const intent = gatewayConfig?.secretKey
+          ? await this.stripeRequest<StripePaymentIntent>(
+              gatewayConfig,
+              `/payment_intents/${paymentIntent.id}`,
+            )
+          : null;
+
+        if (intent?.status !== 'succeeded') {
+          this.logger.warn(
+            `Ignoring unverified payment intent ${paymentIntent.id}`,
+          );
+          return;
+        }
+      }
+
+      await this.markPaymentSucceeded(payment);
+    }
+  }
+
+  private async markPaymentSucceeded(payment: Payment, externalId?: string) {
+    if (payment.status === PaymentStatus.SUCCEEDED) {
+      return;
+    }
+
+    const paidAt = new Date();
+
+    // Condicional: eventos diferentes do mesmo pagamento não baixam duas vezes
+    const { count } = await this.prisma.payment.updateMany({
+      where: { id: payment.id, status: { not: PaymentStatus.SUCCEEDED } },
+      data: {
+        status: PaymentStatus.SUCCEEDED,
+        paidAt,
+        ...(externalId && { externalId }),
+      },
+    });
 
-      // Atualizar fatura se houver
-      if (payment.invoiceId) {
+    if (count === 0) {
+      return;
+    }
+
+    // Baixar conta a receber e saldo do pacote da cobrança
+    await this.reconcileCharge(payment, paidAt);
+
+    // Concluir a fatura: baixa, tentativa de cobrança e renovação
+    if (payment.invoiceId) {
+      if (this.invoicePaidHandler) {
+        await this.invoicePaidHandler(payment.invoiceId, payment.id);
+      } else {
         await this.prisma.invoice.update({
           where: { id: payment.invoiceId },
           data: {
             status: InvoiceStatus.PAID,
-            paidAt: new Date(),
+            paidAt,
           },
         });
       }
     }
+
+    // Confirmar o agendamento do sinal
+    if (payment.appointmentId) {
+      await this.confirmAppointmentDeposit({ ...payment, paidAt });
+    }
   }
 
-  private async handlePaymentFailed(paymentIntent: any) {
+  private async handlePaymentFailed(
+    paymentIntent: StripePaymentIntent,
+    tenantId?: string,
+  ) {
     const payment = await this.prisma.payment.findFirst({
-      where: { externalId: paymentIntent.id },
+      where: { externalId: paymentIntent.id, ...(tenantId && { tenantId }) },
     });
 
     if (payment) {
@@ -824,12 +2015,13 @@ export class PaymentsService {
           failureMessage: paymentIntent.last_payment_error?.message,
         },
       });
+      await this.cancelChargeTransaction(payment);
     }
   }
 
-  private async handleInvoicePaid(invoice: any) {
+  private async handleInvoicePaid(invoice: StripeInvoice, tenantId?: string) {
     const dbInvoice = await this.prisma.invoice.findFirst({
-      where: { externalId: invoice.id },
+      where: { externalId: invoice.id, ...(tenantId && { tenantId }) },
     });
 
     if (dbInvoice) {
@@ -843,7 +2035,7 @@ export class PaymentsService {
     }
   }
 
-  private async handleSubscriptionUpdated(subscription: any) {
+  private async handleSubscriptionUpdated(subscription: StripeSubscription) {
     const dbSubscription = await this.prisma.subscription.findFirst({
       where: { externalId: subscription.id },
     });
@@ -867,10 +2059,12 @@ export class PaymentsService {
           cancelAtPeriodEnd: subscription.cancel_at_period_end,
         },
       });
+
+      await this.redis.invalidatePlanEntitlements(dbSubscription.tenantId);
     }
   }
 
-  private async handleSubscriptionDeleted(subscription: any) {
+  private async handleSubscriptionDeleted(subscription: StripeSubscription) {
     const dbSubscription = await this.prisma.subscription.findFirst({
       where: { externalId: subscription.id },
     });
@@ -889,6 +2083,7 @@ export class PaymentsService {
         where: { id: dbSubscription.tenantId },
         data: { plan: PlanType.FREE },
       });
+      await this.redis.invalidatePlanEntitlements(dbSubscription.tenantId);
     }
   }
 
@@ -0,0 +1 @@
+export * from './payroll.dto';
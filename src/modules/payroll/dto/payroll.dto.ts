@@ -0,0 +1,87 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsNumber,
+  IsDateString,
+  MinLength,
+  Min,
+} from 'class-validator';
+import { PayrollEntryType, PayrollPeriodStatus } from '@prisma/client';
+
+// ============================================================================
+// DTOs para PayrollPeriod
+// ============================================================================
+
+export class CreatePayrollPeriodDto {
+  @IsUUID('4', { message: 'Profissional inválido' })
+  providerId: string;
+
+  @IsDateString({}, { message: 'Data inicial inválida' })
+  startDate: string;
+
+  @IsDateString({}, { message: 'Data final inválida' })
+  endDate: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class QueryPayrollPeriodsDto {
+  @IsUUID('4')
+  @IsOptional()
+  providerId?: string;
+
+  @IsEnum(PayrollPeriodStatus)
+  @IsOptional()
+  status?: PayrollPeriodStatus;
+
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+}
+
+export class PayPayrollPeriodDto {
+  @IsUUID('4', { message: 'Método de pagamento inválido' })
+  @IsOptional()
+  paymentMethodId?: string;
+
+  @IsDateString({}, { message: 'Data de pagamento inválida' })
+  @IsOptional()
+  paidAt?: string;
+}
+
+export class ReopenPayrollPeriodDto {
+  @IsString()
+  @MinLength(10, {
+    message: 'Informe o motivo da reabertura (mínimo de 10 caracteres)',
+  })
+  reason: string;
+}
+
+// ============================================================================
+// DTOs para PayrollEntry (adiantamentos, descontos e gorjetas)
+// ============================================================================
+
+export class CreatePayrollEntryDto {
+  @IsEnum(PayrollEntryType, { message: 'Tipo de lançamento inválido' })
+  type: PayrollEntryType;
+
+  @IsNumber({}, { message: 'Valor inválido' })
+  @Min(0.01, { message: 'O valor deve ser maior que zero' })
+  amount: number;
+
+  @IsDateString({}, { message: 'Data inválida' })
+  date: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Descrição é obrigatória' })
+  description: string;
+}
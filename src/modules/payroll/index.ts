@@ -0,0 +1,3 @@
+export * from './payroll.module';
+export * from './payroll.service';
+export * from './dto';
@@ -0,0 +1,144 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { PayrollService } from './payroll.service';
+import {
+  CreatePayrollPeriodDto,
+  QueryPayrollPeriodsDto,
+  PayPayrollPeriodDto,
+  ReopenPayrollPeriodDto,
+  CreatePayrollEntryDto,
+} from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/permissions/permissions';
+import type { CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Payroll')
+@ApiBearerAuth('access-token')
+@Controller('payroll')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class PayrollController {
+  constructor(private payrollService: PayrollService) {}
+
+  // ============================================================================
+  // PERIODS
+  // ============================================================================
+
+  @Get('periods')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async findAll(
+    @Query() query: QueryPayrollPeriodsDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.payrollService.findAll(user.tenantId, query);
+  }
+
+  @Get('periods/:id')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async getStatement(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.payrollService.getStatement(id, user.tenantId);
+  }
+
+  @Get('periods/:id/pdf')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async exportPdf(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { buffer, fileName } = await this.payrollService.generatePdf(
+      id,
+      user.tenantId,
+    );
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': buffer.length,
+    });
+
+    res.end(buffer);
+  }
+
+  @Post('periods')
+  @RequirePermissions(Permission.FINANCIAL_CREATE)
+  async create(
+    @Body() dto: CreatePayrollPeriodDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.payrollService.create(user.tenantId, dto);
+  }
+
+  @Delete('periods/:id')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async delete(@Param('id') id: string, @CurrentUser() user: CurrentUserData) {
+    return this.payrollService.delete(id, user.tenantId);
+  }
+
+  @Post('periods/:id/close')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async close(@Param('id') id: string, @CurrentUser() user: CurrentUserData) {
+    return this.payrollService.close(id, user.tenantId, user.id);
+  }
+
+  @Post('periods/:id/pay')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async pay(
+    @Param('id') id: string,
+    @Body() dto: PayPayrollPeriodDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.payrollService.pay(id, user.tenantId, user.id, dto);
+  }
+
+  // Reabertura é uma exceção: exige também permissão de configurações
+  @Post('periods/:id/reopen')
+  @RequirePermissions(Permission.FINANCIAL_EDIT, Permission.SETTINGS_EDIT)
+  async reopen(
+    @Param('id') id: string,
+    @Body() dto: ReopenPayrollPeriodDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.payrollService.reopen(id, user.tenantId, user.id, dto);
+  }
+
+  // ============================================================================
+  // ENTRIES
+  // ============================================================================
+
+  @Post('periods/:id/entries')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async addEntry(
+    @Param('id') id: string,
+    @Body() dto: CreatePayrollEntryDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.payrollService.addEntry(id, user.tenantId, user.id, dto);
+  }
+
+  @Delete('periods/:id/entries/:entryId')
+  @RequirePermissions(Permission.FINANCIAL_EDIT)
+  async removeEntry(
+    @Param('id') id: string,
+    @Param('entryId') entryId: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.payrollService.removeEntry(id, entryId, user.tenantId);
+  }
+}
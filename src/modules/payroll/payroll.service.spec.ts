@@ -0,0 +1,236 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  AuditAction,
+  CommissionStatus,
+  PayrollEntryType,
+  PayrollPeriodStatus,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PayrollService } from './payroll.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis';
+import { PdfService } from '../pdf/pdf.service';
+
+describe('PayrollService', () => {
+  let service: PayrollService;
+  let prismaService: any;
+
+  const tenantId = 'tenant-123';
+  const userId = 'user-1';
+
+  const period = (overrides: Record<string, any> = {}) => ({
+    id: 'period-1',
+    tenantId,
+    providerId: 'provider-1',
+    startDate: new Date('2025-02-01T00:00:00.000Z'),
+    endDate: new Date('2025-02-15T00:00:00.000Z'),
+    status: PayrollPeriodStatus.OPEN,
+    appointmentsCount: 0,
+    commissionsTotal: new Prisma.Decimal(0),
+    tipsTotal: new Prisma.Decimal(0),
+    advancesTotal: new Prisma.Decimal(0),
+    deductionsTotal: new Prisma.Decimal(0),
+    netAmount: new Prisma.Decimal(0),
+    closedAt: null,
+    closedById: null,
+    provider: { id: 'provider-1', name: 'Ana' },
+    entries: [
+      {
+        id: 'entry-1',
+        type: PayrollEntryType.ADVANCE,
+        amount: new Prisma.Decimal(100),
+      },
+      {
+        id: 'entry-2',
+        type: PayrollEntryType.TIP,
+        amount: new Prisma.Decimal(30),
+      },
+    ],
+    transaction: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService: any = {
+      payrollPeriod: {
+        findFirst: jest.fn().mockResolvedValue(period()),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      commission: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'commission-1', amount: new Prisma.Decimal(120) },
+          { id: 'commission-2', amount: new Prisma.Decimal(80) },
+        ]),
+        updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+      },
+      tenant: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ timezone: 'America/Sao_Paulo' }),
+      },
+      appointment: { count: jest.fn().mockResolvedValue(3) },
+      financialCategory: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'category-1' }),
+      },
+      financialTransaction: {
+        create: jest.fn().mockResolvedValue({ id: 'transaction-1' }),
+      },
+      auditLog: { create: jest.fn().mockResolvedValue({}) },
+    };
+    mockPrismaService.$transaction = jest.fn((fn) => fn(mockPrismaService));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PayrollService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: { invalidateDashboard: jest.fn() },
+        },
+        { provide: PdfService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PayrollService>(PayrollService);
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('close', () => {
+    it('should lock the period commissions and freeze the totals', async () => {
+      await service.close('period-1', tenantId, userId);
+
+      expect(prismaService.commission.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['commission-1', 'commission-2'] },
+          status: CommissionStatus.PENDING,
+          payrollPeriodId: null,
+        },
+        data: { payrollPeriodId: 'period-1' },
+      });
+
+      const { data } = prismaService.payrollPeriod.update.mock.calls[0][0];
+      expect(data.status).toBe(PayrollPeriodStatus.CLOSED);
+      expect(data.closedById).toBe(userId);
+      expect(data.appointmentsCount).toBe(3);
+      // 200 em comissões + 30 de gorjeta - 100 de adiantamento
+      expect(data.commissionsTotal.toNumber()).toBe(200);
+      expect(data.netAmount.toNumber()).toBe(130);
+    });
+
+    it('should reject a period that is not open', async () => {
+      prismaService.payrollPeriod.findFirst.mockResolvedValue(
+        period({ status: PayrollPeriodStatus.CLOSED }),
+      );
+
+      await expect(service.close('period-1', tenantId, userId)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('pay', () => {
+    it('should create a single expense and pay the locked commissions', async () => {
+      prismaService.payrollPeriod.findFirst.mockResolvedValue(
+        period({
+          status: PayrollPeriodStatus.CLOSED,
+          netAmount: new Prisma.Decimal(130),
+        }),
+      );
+
+      await service.pay('period-1', tenantId, userId, {
+        paidAt: '2025-02-20',
+      });
+
+      expect(prismaService.financialTransaction.create).toHaveBeenCalledTimes(
+        1,
+      );
+      const { data } =
+        prismaService.financialTransaction.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        type: TransactionType.EXPENSE,
+        status: TransactionStatus.PAID,
+        categoryId: 'category-1',
+        providerId: 'provider-1',
+        date: new Date('2025-02-20T00:00:00.000Z'),
+      });
+      expect(data.netAmount.toNumber()).toBe(130);
+
+      expect(prismaService.commission.updateMany).toHaveBeenCalledWith({
+        where: {
+          payrollPeriodId: 'period-1',
+          status: CommissionStatus.PENDING,
+        },
+        data: { status: CommissionStatus.PAID, paidAt: expect.any(Date) },
+      });
+      expect(prismaService.payrollPeriod.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'period-1',
+          tenantId,
+          status: PayrollPeriodStatus.CLOSED,
+        },
+        data: { status: PayrollPeriodStatus.PAID, paidAt: expect.any(Date) },
+      });
+      expect(prismaService.payrollPeriod.update).toHaveBeenCalledWith({
+        where: { id: 'period-1' },
+        data: { transactionId: 'transaction-1' },
+      });
+    });
+
+    it('should not create a second expense when the period was already paid', async () => {
+      prismaService.payrollPeriod.findFirst.mockResolvedValue(
+        period({
+          status: PayrollPeriodStatus.CLOSED,
+          netAmount: new Prisma.Decimal(130),
+        }),
+      );
+      prismaService.payrollPeriod.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.pay('period-1', tenantId, userId, {}),
+      ).rejects.toThrow(ConflictException);
+      expect(prismaService.financialTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reopen', () => {
+    it('should release the commissions and record the audit log', async () => {
+      prismaService.payrollPeriod.findFirst.mockResolvedValue(
+        period({ status: PayrollPeriodStatus.CLOSED }),
+      );
+
+      await service.reopen('period-1', tenantId, userId, {
+        reason: 'Comissão lançada com valor errado',
+      });
+
+      expect(prismaService.commission.updateMany).toHaveBeenCalledWith({
+        where: { payrollPeriodId: 'period-1' },
+        data: { payrollPeriodId: null },
+      });
+      expect(prismaService.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId,
+          action: AuditAction.UPDATE,
+          entity: 'PayrollPeriod',
+          entityId: 'period-1',
+        }),
+      });
+    });
+
+    it('should not reopen a paid period', async () => {
+      prismaService.payrollPeriod.findFirst.mockResolvedValue(
+        period({ status: PayrollPeriodStatus.PAID }),
+      );
+
+      await expect(
+        service.reopen('period-1', tenantId, userId, {
+          reason: 'Comissão lançada com valor errado',
+        }),
+      ).rejects.toThrow('Folhas pagas não podem ser reabertas');
+      expect(prismaService.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+});
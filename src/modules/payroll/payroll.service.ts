@@ -0,0 +1,678 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis';
+import { PdfService } from '../pdf/pdf.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  AppointmentStatus,
+  AuditAction,
+  CommissionStatus,
+  PayrollEntryType,
+  PayrollPeriodStatus,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import {
+  addDays,
+  getZonedToday,
+  parseDateOnly,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+import {
+  CreatePayrollPeriodDto,
+  QueryPayrollPeriodsDto,
+  PayPayrollPeriodDto,
+  ReopenPayrollPeriodDto,
+  CreatePayrollEntryDto,
+} from './dto';
+
+const PAYROLL_CATEGORY_NAME = 'Comissões';
+
+const periodInclude = {
+  provider: { select: { id: true, name: true } },
+  entries: { orderBy: { date: 'asc' } },
+  transaction: {
+    select: { id: true, status: true, paidAt: true, netAmount: true },
+  },
+} as const;
+
+const commissionLineInclude = {
+  transaction: {
+    select: {
+      date: true,
+      description: true,
+      appointment: {
+        select: {
+          id: true,
+          date: true,
+          client: { select: { name: true } },
+          service: { select: { name: true } },
+        },
+      },
+    },
+  },
+  clientPackageUsage: {
+    select: {
+      usedAt: true,
+      clientPackage: { select: { client: { select: { name: true } } } },
+      clientPackageItem: { select: { service: { select: { name: true } } } },
+    },
+  },
+} as const;
+
+type PayrollPeriodWithDetails = Prisma.PayrollPeriodGetPayload<{
+  include: typeof periodInclude;
+}>;
+
+type CommissionLine = Prisma.CommissionGetPayload<{
+  include: typeof commissionLineInclude;
+}>;
+
+type PrismaClientLike = PrismaService | Prisma.TransactionClient;
+
+/**
+ * Folha de pagamento dos profissionais.
+ *
+ * Ciclo: OPEN (aceita lançamentos) -> CLOSED (comissões do período ficam
+ * vinculadas e bloqueadas) -> PAID (gera uma única despesa). Reabrir uma
+ * folha fechada exige motivo e fica registrado na auditoria
+ */
+@Injectable()
+export class PayrollService {
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private pdfService: PdfService,
+  ) {}
+
+  // ============================================================================
+  // PERÍODOS
+  // ============================================================================
+
+  async findAll(tenantId: string, query: QueryPayrollPeriodsDto) {
+    const where: Prisma.PayrollPeriodWhereInput = { tenantId };
+
+    if (query.providerId) where.providerId = query.providerId;
+    if (query.status) where.status = query.status;
+
+    // Folhas que se sobrepõem ao intervalo consultado
+    if (query.startDate) {
+      where.endDate = { gte: parseDateOnly(query.startDate) };
+    }
+    if (query.endDate) {
+      where.startDate = { lte: parseDateOnly(query.endDate) };
+    }
+
+    return this.prisma.payrollPeriod.findMany({
+      where,
+      include: {
+        provider: { select: { id: true, name: true } },
+        _count: { select: { commissions: true, entries: true } },
+      },
+      orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  async findById(id: string, tenantId: string) {
+    const period = await this.prisma.payrollPeriod.findFirst({
+      where: { id, tenantId },
+      include: periodInclude,
+    });
+
+    if (!period) {
+      throw new NotFoundException('Folha de pagamento não encontrada');
+    }
+
+    return period;
+  }
+
+  async create(tenantId: string, dto: CreatePayrollPeriodDto) {
+    const provider = await this.prisma.provider.findFirst({
+      where: { id: dto.providerId, tenantId, deletedAt: null },
+    });
+
+    if (!provider) {
+      throw new NotFoundException('Profissional não encontrado');
+    }
+
+    const startDate = parseDateOnly(dto.startDate);
+    const endDate = parseDateOnly(dto.endDate);
+
+    if (endDate < startDate) {
+      throw new BadRequestException(
+        'A data final deve ser igual ou posterior à data inicial',
+      );
+    }
+
+    // Uma comissão só pode pertencer a uma folha: períodos não se sobrepõem
+    const overlapping = await this.prisma.payrollPeriod.findFirst({
+      where: {
+        tenantId,
+        providerId: dto.providerId,
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    });
+
+    if (overlapping) {
+      throw new ConflictException(
+        'Já existe uma folha deste profissional que cobre o período informado',
+      );
+    }
+
+    return this.prisma.payrollPeriod.create({
+      data: {
+        tenantId,
+        providerId: dto.providerId,
+        startDate,
+        endDate,
+        notes: dto.notes,
+      },
+      include: periodInclude,
+    });
+  }
+
+  async delete(id: string, tenantId: string) {
+    const period = await this.findById(id, tenantId);
+
+    if (period.status !== PayrollPeriodStatus.OPEN) {
+      throw new BadRequestException(
+        'Apenas folhas em aberto podem ser excluídas',
+      );
+    }
+
+    await this.prisma.payrollPeriod.delete({ where: { id } });
+
+    return { message: 'Folha de pagamento removida com sucesso' };
+  }
+
+  // ============================================================================
+  // LANÇAMENTOS
+  // ============================================================================
+
+  async addEntry(
+    id: string,
+    tenantId: string,
+    userId: string,
+    dto: CreatePayrollEntryDto,
+  ) {
+    const period = await this.findById(id, tenantId);
+    this.assertOpen(period);
+
+    return this.prisma.payrollEntry.create({
+      data: {
+        periodId: id,
+        type: dto.type,
+        amount: new Decimal(dto.amount),
+        date: parseDateOnly(dto.date),
+        description: dto.description,
+        createdById: userId,
+      },
+    });
+  }
+
+  async removeEntry(id: string, entryId: string, tenantId: string) {
+    const period = await this.findById(id, tenantId);
+    this.assertOpen(period);
+
+    const entry = period.entries.find((e) => e.id === entryId);
+    if (!entry) {
+      throw new NotFoundException('Lançamento não encontrado');
+    }
+
+    await this.prisma.payrollEntry.delete({ where: { id: entryId } });
+
+    return { message: 'Lançamento removido com sucesso' };
+  }
+
+  // ============================================================================
+  // EXTRATO
+  // ============================================================================
+
+  /**
+   * Extrato da folha. Em aberto, é uma prévia com as comissões pendentes
+   * do período; fechada ou paga, mostra as comissões vinculadas e os
+   * totais congelados no fechamento
+   */
+  async getStatement(id: string, tenantId: string) {
+    const period = await this.findById(id, tenantId);
+
+    const commissions =
+      period.status === PayrollPeriodStatus.OPEN
+        ? await this.findPeriodCommissions(this.prisma, period)
+        : await this.prisma.commission.findMany({
+            where: { payrollPeriodId: id },
+            include: commissionLineInclude,
+            orderBy: { createdAt: 'asc' },
+          });
+
+    const summary =
+      period.status === PayrollPeriodStatus.OPEN
+        ? await this.calculateTotals(this.prisma, period, commissions)
+        : {
+            appointmentsCount: period.appointmentsCount,
+            commissionsTotal: period.commissionsTotal,
+            tipsTotal: period.tipsTotal,
+            advancesTotal: period.advancesTotal,
+            deductionsTotal: period.deductionsTotal,
+            netAmount: period.netAmount,
+          };
+
+    return {
+      period,
+      summary,
+      commissions: commissions.map((commission) =>
+        this.toStatementLine(commission),
+      ),
+      entries: period.entries,
+    };
+  }
+
+  async generatePdf(id: string, tenantId: string) {
+    const [statement, tenant] = await Promise.all([
+      this.getStatement(id, tenantId),
+      this.prisma.tenant.findUnique({ where: { id: tenantId } }),
+    ]);
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant não encontrado');
+    }
+
+    const { period, summary } = statement;
+
+    const buffer = await this.pdfService.generatePayrollStatementPdf({
+      tenant: { name: tenant.name },
+      provider: { name: period.provider.name },
+      period: {
+        start: period.startDate,
+        end: period.endDate,
+        status: period.status,
+      },
+      summary: {
+        appointmentsCount: summary.appointmentsCount,
+        commissionsTotal: Number(summary.commissionsTotal),
+        tipsTotal: Number(summary.tipsTotal),
+        advancesTotal: Number(summary.advancesTotal),
+        deductionsTotal: Number(summary.deductionsTotal),
+        netAmount: Number(summary.netAmount),
+      },
+      commissions: statement.commissions.map((line) => ({
+        date: line.date,
+        description: line.description,
+        baseAmount: Number(line.baseAmount),
+        amount: Number(line.amount),
+      })),
+      entries: statement.entries.map((entry) => ({
+        date: entry.date,
+        type: entry.type,
+        description: entry.description,
+        amount: Number(entry.amount),
+      })),
+      generatedAt: new Date(),
+    });
+
+    const start = period.startDate.toISOString().split('T')[0];
+    const end = period.endDate.toISOString().split('T')[0];
+    const fileName = `folha_${period.provider.name.replace(/\s/g, '_')}_${start}_${end}.pdf`;
+
+    return { buffer, fileName };
+  }
+
+  // ============================================================================
+  // FECHAMENTO, PAGAMENTO E REABERTURA
+  // ============================================================================
+
+  /**
+   * Fecha a folha: vincula as comissões pendentes do período e congela
+   * os totais. Comissões vinculadas não podem ser pagas avulsas,
+   * recalculadas ou canceladas até a reabertura
+   */
+  async close(id: string, tenantId: string, userId: string) {
+    const period = await this.findById(id, tenantId);
+    this.assertOpen(period);
+
+    await this.prisma.$transaction(async (tx) => {
+      const commissions = await this.findPeriodCommissions(tx, period);
+
+      await tx.commission.updateMany({
+        where: {
+          id: { in: commissions.map((c) => c.id) },
+          status: CommissionStatus.PENDING,
+          payrollPeriodId: null,
+        },
+        data: { payrollPeriodId: id },
+      });
+
+      const totals = await this.calculateTotals(tx, period, commissions);
+
+      await tx.payrollPeriod.update({
+        where: { id },
+        data: {
+          ...totals,
+          status: PayrollPeriodStatus.CLOSED,
+          closedAt: new Date(),
+          closedById: userId,
+        },
+      });
+    });
+
+    return this.findById(id, tenantId);
+  }
+
+  /**
+   * Paga a folha fechada: gera uma única despesa com o valor líquido e
+   * marca as comissões vinculadas como pagas
+   */
+  async pay(
+    id: string,
+    tenantId: string,
+    userId: string,
+    dto: PayPayrollPeriodDto,
+  ) {
+    const period = await this.findById(id, tenantId);
+
+    if (period.status !== PayrollPeriodStatus.CLOSED) {
+      throw new BadRequestException('Apenas folhas fechadas podem ser pagas');
+    }
+
+    if (dto.paymentMethodId) {
+      const paymentMethod = await this.prisma.paymentMethod.findFirst({
+        where: { id: dto.paymentMethodId, tenantId },
+      });
+
+      if (!paymentMethod) {
+        throw new NotFoundException('Método de pagamento não encontrado');
+      }
+    }
+
+    const paidAt = dto.paidAt ? new Date(dto.paidAt) : new Date();
+    const date = dto.paidAt
+      ? parseDateOnly(dto.paidAt)
+      : await this.getTenantToday(tenantId);
+
+    await this.prisma.$transaction(async (tx) => {
+      // Condicional: dois pagamentos simultâneos da mesma folha não geram
+      // duas despesas
+      const { count } = await tx.payrollPeriod.updateMany({
+        where: { id, tenantId, status: PayrollPeriodStatus.CLOSED },
+        data: { status: PayrollPeriodStatus.PAID, paidAt },
+      });
+
+      if (count !== 1) {
+        throw new ConflictException('A folha já foi paga ou reaberta');
+      }
+
+      await tx.commission.updateMany({
+        where: { payrollPeriodId: id, status: CommissionStatus.PENDING },
+        data: { status: CommissionStatus.PAID, paidAt },
+      });
+
+      // Folha sem saldo a pagar (ex.: adiantamentos cobrem as comissões)
+      // é quitada sem gerar despesa
+      if (period.netAmount.greaterThan(0)) {
+        const categoryId = await this.getPayrollCategoryId(tx, tenantId);
+        const transaction = await tx.financialTransaction.create({
+          data: {
+            tenantId,
+            type: TransactionType.EXPENSE,
+            categoryId,
+            paymentMethodId: dto.paymentMethodId,
+            amount: period.netAmount,
+            netAmount: period.netAmount,
+            date,
+            paidAt,
+            status: TransactionStatus.PAID,
+            description: `Folha de pagamento - ${period.provider.name} (${this.formatPeriod(period)})`,
+            providerId: period.providerId,
+            createdBy: userId,
+          },
+        });
+
+        await tx.payrollPeriod.update({
+          where: { id },
+          data: { transactionId: transaction.id },
+        });
+      }
+    });
+
+    await this.redis.invalidateDashboard(tenantId);
+
+    return this.findById(id, tenantId);
+  }
+
+  /**
+   * Reabre uma folha fechada (ainda não paga). A auditoria é gravada na
+   * mesma transação: sem registro, não há reabertura
+   */
+  async reopen(
+    id: string,
+    tenantId: string,
+    userId: string,
+    dto: ReopenPayrollPeriodDto,
+  ) {
+    const period = await this.findById(id, tenantId);
+
+    if (period.status === PayrollPeriodStatus.PAID) {
+      throw new BadRequestException('Folhas pagas não podem ser reabertas');
+    }
+
+    if (period.status !== PayrollPeriodStatus.CLOSED) {
+      throw new BadRequestException('A folha já está em aberto');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.commission.updateMany({
+        where: { payrollPeriodId: id },
+        data: { payrollPeriodId: null },
+      });
+
+      await tx.payrollPeriod.update({
+        where: { id },
+        data: {
+          status: PayrollPeriodStatus.OPEN,
+          closedAt: null,
+          closedById: null,
+          reopenedAt: new Date(),
+          reopenedById: userId,
+          reopenReason: dto.reason,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          userId,
+          action: AuditAction.UPDATE,
+          entity: 'PayrollPeriod',
+          entityId: id,
+          oldValue: {
+            status: period.status,
+            closedAt: period.closedAt,
+            closedById: period.closedById,
+            commissionsTotal: period.commissionsTotal.toNumber(),
+            netAmount: period.netAmount.toNumber(),
+          },
+          newValue: { status: PayrollPeriodStatus.OPEN },
+          description: `Reabertura da folha de ${period.provider.name} (${this.formatPeriod(period)}): ${dto.reason}`,
+        },
+      });
+    });
+
+    return this.findById(id, tenantId);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private assertOpen(period: PayrollPeriodWithDetails) {
+    if (period.status !== PayrollPeriodStatus.OPEN) {
+      throw new BadRequestException(
+        'A folha não está em aberto. Reabra a folha para alterá-la',
+      );
+    }
+  }
+
+  /**
+   * Comissões pendentes do profissional no período, pela data da receita
+   * ou do uso de pacote que as originou
+   */
+  private async findPeriodCommissions(
+    prisma: PrismaClientLike,
+    period: PayrollPeriodWithDetails,
+  ): Promise<CommissionLine[]> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: period.tenantId },
+      select: { timezone: true },
+    });
+    const timeZone = resolveTimezone(tenant?.timezone);
+
+    return prisma.commission.findMany({
+      where: {
+        tenantId: period.tenantId,
+        providerId: period.providerId,
+        status: CommissionStatus.PENDING,
+        payrollPeriodId: null,
+        OR: [
+          {
+            transaction: {
+              date: { gte: period.startDate, lte: period.endDate },
+            },
+          },
+          {
+            clientPackageUsage: {
+              usedAt: {
+                gte: zonedTimeToUtc(period.startDate, '00:00', timeZone),
+                lt: zonedTimeToUtc(
+                  addDays(period.endDate, 1),
+                  '00:00',
+                  timeZone,
+                ),
+              },
+            },
+          },
+        ],
+      },
+      include: commissionLineInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async calculateTotals(
+    prisma: PrismaClientLike,
+    period: PayrollPeriodWithDetails,
+    commissions: CommissionLine[],
+  ) {
+    const appointmentsCount = await prisma.appointment.count({
+      where: {
+        tenantId: period.tenantId,
+        providerId: period.providerId,
+        status: AppointmentStatus.COMPLETED,
+        date: { gte: period.startDate, lte: period.endDate },
+      },
+    });
+
+    const sumEntries = (type: PayrollEntryType) =>
+      period.entries
+        .filter((e) => e.type === type)
+        .reduce((sum, e) => sum.plus(e.amount), new Decimal(0));
+
+    const commissionsTotal = commissions.reduce(
+      (sum, c) => sum.plus(c.amount),
+      new Decimal(0),
+    );
+    const tipsTotal = sumEntries(PayrollEntryType.TIP);
+    const advancesTotal = sumEntries(PayrollEntryType.ADVANCE);
+    const deductionsTotal = sumEntries(PayrollEntryType.DEDUCTION);
+
+    return {
+      appointmentsCount,
+      commissionsTotal,
+      tipsTotal,
+      advancesTotal,
+      deductionsTotal,
+      netAmount: commissionsTotal
+        .plus(tipsTotal)
+        .minus(advancesTotal)
+        .minus(deductionsTotal),
+    };
+  }
+
+  private toStatementLine(commission: CommissionLine) {
+    const appointment = commission.transaction?.appointment;
+    const usage = commission.clientPackageUsage;
+
+    let date = commission.createdAt;
+    let description = 'Comissão';
+
+    if (appointment) {
+      date = appointment.date;
+      description = `${appointment.client.name} - ${appointment.service.name}`;
+    } else if (commission.transaction) {
+      date = commission.transaction.date;
+      description = commission.transaction.description;
+    } else if (usage) {
+      date = usage.usedAt;
+      description = `${usage.clientPackage.client.name} - ${usage.clientPackageItem.service.name} (pacote)`;
+    }
+
+    return {
+      commissionId: commission.id,
+      appointmentId: appointment?.id ?? null,
+      date,
+      description,
+      baseAmount: commission.baseAmount,
+      percentage: commission.percentage,
+      amount: commission.amount,
+      status: commission.status,
+    };
+  }
+
+  private async getPayrollCategoryId(
+    prisma: PrismaClientLike,
+    tenantId: string,
+  ) {
+    let category = await prisma.financialCategory.findFirst({
+      where: {
+        tenantId,
+        name: PAYROLL_CATEGORY_NAME,
+        type: TransactionType.EXPENSE,
+      },
+    });
+
+    if (!category) {
+      category = await prisma.financialCategory.create({
+        data: {
+          tenantId,
+          name: PAYROLL_CATEGORY_NAME,
+          type: TransactionType.EXPENSE,
+          isSystem: true,
+        },
+      });
+    }
+
+    return category.id;
+  }
+
+  private async getTenantToday(tenantId: string) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    return getZonedToday(resolveTimezone(tenant?.timezone));
+  }
+
+  private formatPeriod(period: { startDate: Date; endDate: Date }) {
+    const format = (date: Date) =>
+      date.toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+    return `${format(period.startDate)} a ${format(period.endDate)}`;
+  }
+}
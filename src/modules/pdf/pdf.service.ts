@@ -19,6 +19,83 @@ export interface PdfOptions {
   printBackground?: boolean;
 }
 
+export interface PayrollStatementPdfData {
+  tenant: { name: string };
+  provider: { name: string };
+  period: { start: Date; end: Date; status: string };
+  summary: {
+    appointmentsCount: number;
+    commissionsTotal: number;
+    tipsTotal: number;
+    advancesTotal: number;
+    deductionsTotal: number;
+    netAmount: number;
+  };
+  commissions: {
+    date: Date;
+    description: string;
+    baseAmount: number;
+    amount: number;
+  }[];
+  entries: {
+    date: Date;
+    type: 'ADVANCE' | 'DEDUCTION' | 'TIP';
+    description: string;
+    amount: number;
+  }[];
+  generatedAt: Date;
+}
+
+export interface ClientStatementPdfData {
+  tenant: { name: string };
+  client: { name: string; phone?: string; email?: string };
+  asOf: Date;
+  packages: {
+    name: string;
+    code: string | null;
+    purchaseDate: Date;
+    totalDue: number;
+    paidAmount: number;
+    openBalance: number;
+  }[];
+  transactions: {
+    description: string;
+    dueDate: Date;
+    amount: number;
+    daysOverdue: number;
+  }[];
+  giftCards: { code: string; balance: number; expiresAt: Date | null }[];
+  summary: {
+    packagesBalance: number;
+    transactionsBalance: number;
+    overdueBalance: number;
+    totalDue: number;
+    giftCardCredit: number;
+  };
+  generatedAt: Date;
+}
+
+export interface ServiceInvoicePdfData {
+  issuer: {
+    legalName: string;
+    cnpj: string;
+    municipalRegistration: string;
+  };
+  taker: { name: string; document: string | null; email: string | null };
+  number: string;
+  verificationCode: string | null;
+  rps: { series: string; number: number };
+  issuedAt: Date;
+  service: {
+    code: string;
+    description: string;
+    amount: number;
+    issRate: number;
+    issAmount: number;
+  };
+  isTestMode: boolean;
+}
+
 @Injectable()
 export class PdfService {
   private readonly logger = new Logger(PdfService.name);
@@ -318,6 +395,30 @@ export class PdfService {
     return this.generatePdfFromHtml(html);
   }
 
+  async generatePayrollStatementPdf(
+    data: PayrollStatementPdfData,
+  ): Promise<Buffer> {
+    const html = this.getPayrollStatementTemplate(data);
+    return this.generatePdfFromHtml(html);
+  }
+
+  async generateClientStatementPdf(
+    data: ClientStatementPdfData,
+  ): Promise<Buffer> {
+    const html = this.getClientStatementTemplate(data);
+    return this.generatePdfFromHtml(html);
+  }
+
+  /**
+   * Espelho da NFS-e, para provedores que não devolvem o PDF oficial
+   */
+  async generateServiceInvoicePdf(
+    data: ServiceInvoicePdfData,
+  ): Promise<Buffer> {
+    const html = this.getServiceInvoiceTemplate(data);
+    return this.generatePdfFromHtml(html);
+  }
+
   // ============================================================================
   // Templates HTML
   // ============================================================================
@@ -979,6 +1080,384 @@ export class PdfService {
     `;
   }
 
+  private getPayrollStatementTemplate(data: PayrollStatementPdfData): string {
+    const formatCurrency = (value: number) =>
+      new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+      }).format(value);
+    // Datas da folha são apenas dia (UTC), sem fuso
+    const formatDate = (date: Date) =>
+      new Date(date).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+
+    const statusLabels: Record<string, string> = {
+      OPEN: '<span class="badge badge-warning">Em aberto</span>',
+      CLOSED: '<span class="badge badge-info">Fechada</span>',
+      PAID: '<span class="badge badge-success">Paga</span>',
+    };
+    const entryLabels: Record<string, string> = {
+      ADVANCE: 'Adiantamento',
+      DEDUCTION: 'Desconto',
+      TIP: 'Gorjeta',
+    };
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        ${this.getBaseStyles()}
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${data.tenant.name}</h1>
+            <p>Extrato de Folha de Pagamento</p>
+          </div>
+
+          <div class="section">
+            <div class="section-title">
+              ${data.provider.name}
+              ${statusLabels[data.period.status] || data.period.status}
+            </div>
+            <p><strong>Período:</strong> ${formatDate(data.period.start)} a ${formatDate(data.period.end)}</p>
+            <p><strong>Atendimentos concluídos:</strong> ${data.summary.appointmentsCount}</p>
+          </div>
+
+          <div class="section">
+            <div class="section-title">Resumo</div>
+            <table>
+              <tr>
+                <td>Comissões</td>
+                <td class="text-right amount-positive">${formatCurrency(data.summary.commissionsTotal)}</td>
+              </tr>
+              <tr>
+                <td>Gorjetas</td>
+                <td class="text-right amount-positive">${formatCurrency(data.summary.tipsTotal)}</td>
+              </tr>
+              <tr>
+                <td>Adiantamentos</td>
+                <td class="text-right amount-negative">-${formatCurrency(data.summary.advancesTotal)}</td>
+              </tr>
+              <tr>
+                <td>Descontos</td>
+                <td class="text-right amount-negative">-${formatCurrency(data.summary.deductionsTotal)}</td>
+              </tr>
+              <tr style="font-size: 14px;">
+                <td><strong>Valor líquido</strong></td>
+                <td class="text-right ${data.summary.netAmount >= 0 ? 'amount-positive' : 'amount-negative'}">
+                  <strong>${formatCurrency(data.summary.netAmount)}</strong>
+                </td>
+              </tr>
+            </table>
+          </div>
+
+          <div class="section">
+            <div class="section-title">Comissões</div>
+            <table>
+              <thead>
+                <tr>
+                  <th>Data</th>
+                  <th>Atendimento</th>
+                  <th class="text-right">Base</th>
+                  <th class="text-right">Comissão</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${data.commissions
+                  .map(
+                    (c) => `
+                  <tr>
+                    <td>${formatDate(c.date)}</td>
+                    <td>${c.description}</td>
+                    <td class="text-right">${formatCurrency(c.baseAmount)}</td>
+                    <td class="text-right">${formatCurrency(c.amount)}</td>
+                  </tr>
+                `,
+                  )
+                  .join('')}
+              </tbody>
+            </table>
+          </div>
+
+          ${
+            data.entries.length > 0
+              ? `
+            <div class="section">
+              <div class="section-title">Lançamentos</div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Data</th>
+                    <th>Tipo</th>
+                    <th>Descrição</th>
+                    <th class="text-right">Valor</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${data.entries
+                    .map(
+                      (e) => `
+                    <tr>
+                      <td>${formatDate(e.date)}</td>
+                      <td>${entryLabels[e.type] || e.type}</td>
+                      <td>${e.description}</td>
+                      <td class="text-right ${e.type === 'TIP' ? 'amount-positive' : 'amount-negative'}">
+                        ${e.type === 'TIP' ? '' : '-'}${formatCurrency(e.amount)}
+                      </td>
+                    </tr>
+                  `,
+                    )
+                    .join('')}
+                </tbody>
+              </table>
+            </div>
+          `
+              : ''
+          }
+
+          <div class="footer">
+            <p>Documento gerado em ${new Date(data.generatedAt).toLocaleString('pt-BR')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private getClientStatementTemplate(data: ClientStatementPdfData): string {
+    const formatCurrency = (value: number) =>
+      new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+      }).format(value);
+    // Vencimentos são apenas dia (UTC), sem fuso
+    const formatDate = (date: Date) =>
+      new Date(date).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        ${this.getBaseStyles()}
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${data.tenant.name}</h1>
+            <p>Extrato do Cliente</p>
+          </div>
+
+          <div class="section">
+            <div class="section-title">${data.client.name}</div>
+            ${data.client.phone ? `<p><strong>Telefone:</strong> ${data.client.phone}</p>` : ''}
+            ${data.client.email ? `<p><strong>E-mail:</strong> ${data.client.email}</p>` : ''}
+            <p><strong>Posição em:</strong> ${formatDate(data.asOf)}</p>
+          </div>
+
+          <div class="section">
+            <div class="section-title">Resumo</div>
+            <table>
+              <tr>
+                <td>Saldo de pacotes</td>
+                <td class="text-right">${formatCurrency(data.summary.packagesBalance)}</td>
+              </tr>
+              <tr>
+                <td>Lançamentos em aberto</td>
+                <td class="text-right">${formatCurrency(data.summary.transactionsBalance)}</td>
+              </tr>
+              <tr>
+                <td>Dos quais vencidos</td>
+                <td class="text-right amount-negative">${formatCurrency(data.summary.overdueBalance)}</td>
+              </tr>
+              <tr style="font-size: 14px;">
+                <td><strong>Total a pagar</strong></td>
+                <td class="text-right"><strong>${formatCurrency(data.summary.totalDue)}</strong></td>
+              </tr>
+              <tr>
+                <td>Crédito em vale-presente</td>
+                <td class="text-right amount-positive">${formatCurrency(data.summary.giftCardCredit)}</td>
+              </tr>
+            </table>
+          </div>
+
+          ${
+            data.packages.length > 0
+              ? `
+            <div class="section">
+              <div class="section-title">Pacotes com saldo em aberto</div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Pacote</th>
+                    <th>Compra</th>
+                    <th class="text-right">Valor</th>
+                    <th class="text-right">Pago</th>
+                    <th class="text-right">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${data.packages
+                    .map(
+                      (p) => `
+                    <tr>
+                      <td>${p.name}${p.code ? ` (${p.code})` : ''}</td>
+                      <td>${new Date(p.purchaseDate).toLocaleDateString('pt-BR')}</td>
+                      <td class="text-right">${formatCurrency(p.totalDue)}</td>
+                      <td class="text-right">${formatCurrency(p.paidAmount)}</td>
+                      <td class="text-right">${formatCurrency(p.openBalance)}</td>
+                    </tr>
+                  `,
+                    )
+                    .join('')}
+                </tbody>
+              </table>
+            </div>
+          `
+              : ''
+          }
+
+          ${
+            data.transactions.length > 0
+              ? `
+            <div class="section">
+              <div class="section-title">Lançamentos em aberto</div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Vencimento</th>
+                    <th>Descrição</th>
+                    <th class="text-right">Dias em atraso</th>
+                    <th class="text-right">Valor</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${data.transactions
+                    .map(
+                      (t) => `
+                    <tr>
+                      <td>${formatDate(t.dueDate)}</td>
+                      <td>${t.description}</td>
+                      <td class="text-right">${t.daysOverdue > 0 ? t.daysOverdue : '-'}</td>
+                      <td class="text-right ${t.daysOverdue > 0 ? 'amount-negative' : ''}">${formatCurrency(t.amount)}</td>
+                    </tr>
+                  `,
+                    )
+                    .join('')}
+                </tbody>
+              </table>
+            </div>
+          `
+              : ''
+          }
+
+          ${
+            data.giftCards.length > 0
+              ? `
+            <div class="section">
+              <div class="section-title">Vale-presentes</div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Código</th>
+                    <th>Validade</th>
+                    <th class="text-right">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${data.giftCards
+                    .map(
+                      (g) => `
+                    <tr>
+                      <td>${g.code}</td>
+                      <td>${g.expiresAt ? new Date(g.expiresAt).toLocaleDateString('pt-BR') : 'Sem validade'}</td>
+                      <td class="text-right amount-positive">${formatCurrency(g.balance)}</td>
+                    </tr>
+                  `,
+                    )
+                    .join('')}
+                </tbody>
+              </table>
+            </div>
+          `
+              : ''
+          }
+
+          <div class="footer">
+            <p>Documento gerado em ${new Date(data.generatedAt).toLocaleString('pt-BR')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private getServiceInvoiceTemplate(data: ServiceInvoicePdfData): string {
+    const formatCurrency = (value: number) =>
+      new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+      }).format(value);
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        ${this.getBaseStyles()}
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Nota Fiscal de Serviço Eletrônica</h1>
+            <p>NFS-e nº ${data.number}${data.verificationCode ? ` - Código de verificação ${data.verificationCode}` : ''}</p>
+            ${data.isTestMode ? '<p class="amount-negative">Emitida em homologação - sem valor fiscal</p>' : ''}
+          </div>
+
+          <div class="section">
+            <div class="section-title">Prestador</div>
+            <p><strong>${data.issuer.legalName}</strong></p>
+            <p><strong>CNPJ:</strong> ${data.issuer.cnpj}</p>
+            <p><strong>Inscrição municipal:</strong> ${data.issuer.municipalRegistration}</p>
+          </div>
+
+          <div class="section">
+            <div class="section-title">Tomador</div>
+            <p><strong>${data.taker.name}</strong></p>
+            ${data.taker.document ? `<p><strong>CPF/CNPJ:</strong> ${data.taker.document}</p>` : ''}
+            ${data.taker.email ? `<p><strong>E-mail:</strong> ${data.taker.email}</p>` : ''}
+          </div>
+
+          <div class="section">
+            <div class="section-title">Serviço</div>
+            <p><strong>Item da lista de serviços:</strong> ${data.service.code}</p>
+            <p>${data.service.description}</p>
+            <table>
+              <tr>
+                <td>Valor do serviço</td>
+                <td class="text-right">${formatCurrency(data.service.amount)}</td>
+              </tr>
+              <tr>
+                <td>Alíquota de ISS</td>
+                <td class="text-right">${data.service.issRate.toFixed(2)}%</td>
+              </tr>
+              <tr>
+                <td>Valor do ISS</td>
+                <td class="text-right">${formatCurrency(data.service.issAmount)}</td>
+              </tr>
+            </table>
+          </div>
+
+          <div class="footer">
+            <p>RPS ${data.rps.number} série ${data.rps.series} - emitida em ${new Date(data.issuedAt).toLocaleString('pt-BR')}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
   async onModuleDestroy() {
     if (this.browser) {
       await this.browser.close();
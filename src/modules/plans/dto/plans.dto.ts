@@ -12,9 +12,17 @@ import {
   IsUUID,
   ValidateNested,
   IsObject,
+  IsDateString,
+  ValidateIf,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
-import { PlanType, BillingCycle, SubscriptionStatus } from '@prisma/client';
+import {
+  PlanType,
+  BillingCycle,
+  SubscriptionStatus,
+  PlanOverrideType,
+  PlanLimitOverrideMode,
+} from '@prisma/client';
 
 // ============================================================================
 // DTOs para Plan
@@ -181,6 +189,27 @@ export class CreatePlanLimitDto {
   @IsOptional()
   maxTemplates?: number;
 
+  @IsInt()
+  @Min(-1)
+  @IsOptional()
+  maxWhatsappMessages?: number;
+
+  // Preços de excedente (null = limite rígido)
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  overageAppointmentPrice?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  overageWhatsappPrice?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  overageStoragePrice?: number;
+
   @IsInt()
   @Min(30)
   @IsOptional()
@@ -233,6 +262,41 @@ export class UpdatePlanFeatureDto {
   displayOrder?: number;
 }
 
+// ============================================================================
+// DTOs para Exceções de Plano por Tenant (Overrides / Add-ons)
+// ============================================================================
+
+export class UpsertPlanOverrideDto {
+  @IsEnum(PlanOverrideType, { message: 'Tipo de exceção inválido' })
+  type: PlanOverrideType;
+
+  // FEATURE: featureCode | LIMIT: campo de PlanLimit (ex: maxUsers)
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isEnabled?: boolean;
+
+  @IsEnum(PlanLimitOverrideMode)
+  @IsOptional()
+  limitMode?: PlanLimitOverrideMode;
+
+  @ValidateIf((o: UpsertPlanOverrideDto) => o.type === PlanOverrideType.LIMIT)
+  @IsInt({ message: 'Informe o valor do limite' })
+  @Min(-1) // -1 = ilimitado
+  value?: number;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
+
 // ============================================================================
 // DTOs para Plano Completo (com limites e features)
 // ============================================================================
@@ -476,6 +540,7 @@ export class AllUsageResponseDto {
 
 export class LimitCheckResponseDto {
   allowed: boolean;
+  overage?: boolean; // Acima do limite, cobrado como excedente
   resource: string;
   current: number;
   limit: number;
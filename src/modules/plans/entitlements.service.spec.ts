@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  PlanLimitOverrideMode,
+  PlanOverrideType,
+  PlanType,
+  SubscriptionStatus,
+} from '@prisma/client';
+import { EntitlementsService } from './entitlements.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis';
+
+describe('EntitlementsService', () => {
+  let service: EntitlementsService;
+  let prismaService: any;
+  let redisService: any;
+
+  const tenantId = 'tenant-123';
+
+  const plans = {
+    [PlanType.PROFESSIONAL]: {
+      code: PlanType.PROFESSIONAL,
+      limits: { maxUsers: 5, maxClients: -1, maxAppointments: -1 },
+      features: [
+        { featureCode: 'APPOINTMENTS', isEnabled: true },
+        { featureCode: 'MEDICAL_RECORDS', isEnabled: true },
+        { featureCode: 'MARKETING', isEnabled: false },
+      ],
+    },
+    [PlanType.FREE]: {
+      code: PlanType.FREE,
+      limits: { maxUsers: 1, maxClients: 50, maxAppointments: 30 },
+      features: [{ featureCode: 'APPOINTMENTS', isEnabled: true }],
+    },
+  };
+
+  const subscription = (overrides: Record<string, any> = {}) => ({
+    id: 'subscription-1',
+    status: SubscriptionStatus.ACTIVE,
+    planType: PlanType.PROFESSIONAL,
+    currentPeriodEnd: new Date(),
+    plan: { code: PlanType.PROFESSIONAL },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      tenant: {
+        findUnique: jest.fn().mockResolvedValue({ plan: PlanType.STARTER }),
+      },
+      subscription: {
+        findUnique: jest.fn().mockResolvedValue(subscription()),
+      },
+      invoice: { findFirst: jest.fn().mockResolvedValue(null) },
+      plan: {
+        findUnique: jest.fn(({ where }) => plans[where.code] ?? null),
+      },
+      tenantPlanOverride: { findMany: jest.fn().mockResolvedValue([]) },
+      user: { count: jest.fn().mockResolvedValue(5) },
+      tenantUsage: {
+        findFirst: jest.fn().mockResolvedValue({ appointmentsThisMonth: 12 }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EntitlementsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: { get: jest.fn(), set: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EntitlementsService>(EntitlementsService);
+    prismaService = module.get(PrismaService);
+    redisService = module.get(RedisService);
+  });
+
+  it('should resolve limits and enabled features from the subscribed plan', async () => {
+    const result = await service.getEntitlements(tenantId);
+
+    expect(result).toMatchObject({
+      planCode: PlanType.PROFESSIONAL,
+      mode: 'FULL',
+      limits: { maxUsers: 5, maxClients: -1 },
+      features: ['APPOINTMENTS', 'MEDICAL_RECORDS'],
+    });
+    expect(redisService.set).toHaveBeenCalledWith(
+      'plans:tenant:tenant-123',
+      result,
+      expect.any(Number),
+    );
+  });
+
+  it('should keep the plan during the grace period of a past due subscription', async () => {
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() - 3);
+    prismaService.subscription.findUnique.mockResolvedValue(
+      subscription({ status: SubscriptionStatus.PAST_DUE }),
+    );
+    prismaService.invoice.findFirst.mockResolvedValue({ dueDate });
+
+    const result = await service.getEntitlements(tenantId);
+
+    expect(result.mode).toBe('GRACE');
+    expect(result.planCode).toBe(PlanType.PROFESSIONAL);
+    expect(result.graceEndsAt).not.toBeNull();
+  });
+
+  it('should restrict to the FREE plan once the grace period is over', async () => {
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() - 10);
+    prismaService.subscription.findUnique.mockResolvedValue(
+      subscription({ status: SubscriptionStatus.PAST_DUE }),
+    );
+    prismaService.invoice.findFirst.mockResolvedValue({ dueDate });
+
+    const result = await service.getEntitlements(tenantId);
+
+    expect(result.mode).toBe('RESTRICTED');
+    expect(result.planCode).toBe(PlanType.FREE);
+    expect(result.features).not.toContain('MEDICAL_RECORDS');
+  });
+
+  it('should apply tenant overrides on top of the plan', async () => {
+    prismaService.tenantPlanOverride.findMany.mockResolvedValue([
+      {
+        type: PlanOverrideType.FEATURE,
+        code: 'MARKETING',
+        isEnabled: true,
+      },
+      {
+        type: PlanOverrideType.FEATURE,
+        code: 'MEDICAL_RECORDS',
+        isEnabled: false,
+      },
+      {
+        type: PlanOverrideType.LIMIT,
+        code: 'maxUsers',
+        limitMode: PlanLimitOverrideMode.ADD,
+        value: 3,
+      },
+      {
+        type: PlanOverrideType.LIMIT,
+        code: 'maxClients',
+        limitMode: PlanLimitOverrideMode.ADD,
+        value: 100,
+      },
+    ]);
+
+    const result = await service.getEntitlements(tenantId);
+
+    expect(result.features).toEqual(['APPOINTMENTS', 'MARKETING']);
+    expect(result.limits.maxUsers).toBe(8);
+    // Ilimitado continua ilimitado
+    expect(result.limits.maxClients).toBe(-1);
+    await expect(service.checkLimit(tenantId, 'maxUsers')).resolves.toEqual({
+      allowed: true,
+      overage: false,
+      current: 5,
+      limit: 8,
+      remaining: 3,
+    });
+  });
+
+  it('should fall back to the static plan table when the plan is not registered', async () => {
+    prismaService.subscription.findUnique.mockResolvedValue(null);
+
+    const result = await service.getEntitlements(tenantId);
+
+    expect(result.planCode).toBe(PlanType.STARTER);
+    expect(result.limits.maxAppointments).toBe(100);
+    await expect(service.hasFeature(tenantId, 'client_history')).resolves.toBe(
+      true,
+    );
+  });
+
+  it('should count appointments from the metered usage of the current period', async () => {
+    await expect(service.getUsage(tenantId, 'maxAppointments')).resolves.toBe(
+      12,
+    );
+
+    const { where } = prismaService.tenantUsage.findFirst.mock.calls[0][0];
+    expect(where.tenantId).toBe(tenantId);
+    expect(where.periodStart.lte.getTime()).toBeLessThanOrEqual(Date.now());
+    expect(where.periodEnd.gt.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+});
@@ -0,0 +1,359 @@
+import { Injectable } from '@nestjs/common';
+import {
+  InvoiceStatus,
+  PlanLimitOverrideMode,
+  PlanOverrideType,
+  PlanType,
+  SubscriptionStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService, CACHE_KEYS, CACHE_TTL } from '../../redis';
+import { PLAN_LIMITS } from '../../common/permissions/permissions';
+import { addDays } from '../../common/utils/timezone.util';
+
+// Dias em que uma assinatura PAST_DUE mantém o plano contratado
+export const PAST_DUE_GRACE_DAYS = 7;
+
+// Campos numéricos de PlanLimit que podem ser verificados/ajustados
+export const PLAN_LIMIT_KEYS = [
+  'maxUsers',
+  'maxProviders',
+  'maxClients',
+  'maxAppointments',
+  'maxServices',
+  'maxProducts',
+  'maxCampaigns',
+  'maxWebhooks',
+  'maxTemplates',
+  'maxWhatsappMessages',
+  'storageGB',
+  'dataRetentionDays',
+] as const;
+
+export type PlanLimitKey = (typeof PLAN_LIMIT_KEYS)[number];
+
+// Limites que podem ser excedidos mediante cobrança → campo de preço em PlanLimit
+export const OVERAGE_PRICE_FIELDS = {
+  maxAppointments: 'overageAppointmentPrice',
+  maxWhatsappMessages: 'overageWhatsappPrice',
+  storageGB: 'overageStoragePrice',
+} as const;
+
+export type MeteredLimitKey = keyof typeof OVERAGE_PRICE_FIELDS;
+
+/**
+ * FULL: plano contratado
+ * GRACE: assinatura em atraso, plano mantido até graceEndsAt
+ * RESTRICTED: assinatura inativa, direitos do plano FREE
+ */
+export type EntitlementMode = 'FULL' | 'GRACE' | 'RESTRICTED';
+
+export interface TenantEntitlements {
+  planCode: PlanType;
+  subscriptionStatus: SubscriptionStatus | null;
+  mode: EntitlementMode;
+  graceEndsAt: string | null;
+  limits: Partial<Record<PlanLimitKey, number>>;
+  overagePrices: Partial<Record<MeteredLimitKey, number>>;
+  features: string[];
+}
+
+@Injectable()
+export class EntitlementsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * Resolve os direitos do tenant: assinatura → plano → exceções do tenant
+   */
+  async getEntitlements(tenantId: string): Promise<TenantEntitlements> {
+    const cacheKey = CACHE_KEYS.PLAN_ENTITLEMENTS(tenantId);
+    const cached = await this.redis.get<TenantEntitlements>(cacheKey);
+
+    // A carência pode ter expirado enquanto o valor estava em cache
+    if (
+      cached &&
+      !(cached.graceEndsAt && new Date(cached.graceEndsAt) <= new Date())
+    ) {
+      return cached;
+    }
+
+    const entitlements = await this.resolve(tenantId);
+    await this.redis.set(cacheKey, entitlements, CACHE_TTL.MEDIUM);
+
+    return entitlements;
+  }
+
+  async hasFeature(tenantId: string, featureCode: string): Promise<boolean> {
+    const { features } = await this.getEntitlements(tenantId);
+    return features.includes(featureCode.toUpperCase());
+  }
+
+  /**
+   * Retorna o limite efetivo (-1 = ilimitado)
+   */
+  async getLimit(tenantId: string, limitKey: PlanLimitKey): Promise<number> {
+    const { limits } = await this.getEntitlements(tenantId);
+    return limits[limitKey] ?? -1;
+  }
+
+  /**
+   * Limites com preço de excedente não bloqueiam: o uso acima do limite é
+   * cobrado na próxima fatura (overage = true)
+   */
+  async checkLimit(tenantId: string, limitKey: PlanLimitKey, quantity = 1) {
+    const { limits, overagePrices } = await this.getEntitlements(tenantId);
+    const limit = limits[limitKey] ?? -1;
+
+    if (limit === -1) {
+      return {
+        allowed: true,
+        overage: false,
+        current: 0,
+        limit,
+        remaining: -1,
+      };
+    }
+
+    const current = await this.getUsage(tenantId, limitKey);
+    const exceeds = current + quantity > limit;
+    const overage = exceeds && overagePrices[limitKey] !== undefined;
+
+    return {
+      allowed: !exceeds || overage,
+      overage,
+      current,
+      limit,
+      remaining: Math.max(0, limit - current),
+    };
+  }
+
+  /**
+   * Conta o uso atual de um recurso limitado pelo plano
+   */
+  async getUsage(tenantId: string, limitKey: PlanLimitKey): Promise<number> {
+    const countMap: Partial<Record<PlanLimitKey, () => Promise<number>>> = {
+      maxUsers: () =>
+        this.prisma.user.count({ where: { tenantId, isActive: true } }),
+      maxProviders: () =>
+        this.prisma.provider.count({
+          where: { tenantId, deletedAt: null, active: true },
+        }),
+      maxClients: () =>
+        this.prisma.client.count({ where: { tenantId, deletedAt: null } }),
+      maxAppointments: async () => {
+        // Mesmo período medido pelo UsageService (ciclo da assinatura ou mês UTC)
+        const now = new Date();
+        const usage = await this.prisma.tenantUsage.findFirst({
+          where: {
+            tenantId,
+            periodStart: { lte: now },
+            periodEnd: { gt: now },
+          },
+          orderBy: { periodStart: 'desc' },
+          select: { appointmentsThisMonth: true },
+        });
+        return usage?.appointmentsThisMonth ?? 0;
+      },
+      maxServices: () =>
+        this.prisma.service.count({
+          where: { tenantId, deletedAt: null, active: true },
+        }),
+      maxProducts: () =>
+        this.prisma.product.count({
+          where: { tenantId, deletedAt: null, isActive: true },
+        }),
+      maxCampaigns: () =>
+        this.prisma.marketingCampaign.count({
+          where: { tenantId, isActive: true },
+        }),
+      maxWebhooks: () =>
+        this.prisma.webhookEndpoint.count({
+          where: { tenantId, isActive: true },
+        }),
+      maxWhatsappMessages: async () =>
+        (await this.getMeteredUsage(tenantId))?.whatsappSent ?? 0,
+      storageGB: async () =>
+        ((await this.getMeteredUsage(tenantId))?.storageUsedMB ?? 0) / 1024,
+    };
+
+    const countFn = countMap[limitKey];
+    if (!countFn) {
+      return 0;
+    }
+
+    return countFn();
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  // Contadores medidos do período mais recente (mantidos pelo UsageService)
+  private async getMeteredUsage(tenantId: string) {
+    return this.prisma.tenantUsage.findFirst({
+      where: { tenantId },
+      orderBy: { periodStart: 'desc' },
+      select: { whatsappSent: true, storageUsedMB: true },
+    });
+  }
+
+  private async resolve(tenantId: string): Promise<TenantEntitlements> {
+    const [tenant, subscription] = await Promise.all([
+      this.prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { plan: true },
+      }),
+      this.prisma.subscription.findUnique({
+        where: { tenantId },
+        select: {
+          id: true,
+          status: true,
+          planType: true,
+          currentPeriodEnd: true,
+          plan: { select: { code: true } },
+        },
+      }),
+    ]);
+
+    let planCode = subscription?.plan?.code ?? subscription?.planType;
+    planCode = planCode ?? tenant?.plan ?? PlanType.FREE;
+
+    let mode: EntitlementMode = 'FULL';
+    let graceEndsAt: Date | null = null;
+
+    switch (subscription?.status) {
+      case undefined:
+      case SubscriptionStatus.ACTIVE:
+      case SubscriptionStatus.TRIALING:
+        break;
+
+      case SubscriptionStatus.PAST_DUE: {
+        // A carência conta a partir da fatura em aberto mais antiga
+        const openInvoice = await this.prisma.invoice.findFirst({
+          where: {
+            subscriptionId: subscription.id,
+            status: InvoiceStatus.OPEN,
+          },
+          orderBy: { dueDate: 'asc' },
+          select: { dueDate: true },
+        });
+
+        graceEndsAt = addDays(
+          openInvoice?.dueDate ?? subscription.currentPeriodEnd,
+          PAST_DUE_GRACE_DAYS,
+        );
+        mode = graceEndsAt > new Date() ? 'GRACE' : 'RESTRICTED';
+        break;
+      }
+
+      default:
+        mode = 'RESTRICTED';
+    }
+
+    if (mode === 'RESTRICTED') {
+      planCode = PlanType.FREE;
+      graceEndsAt = null;
+    }
+
+    const { limits, overagePrices, features } =
+      await this.getPlanEntitlements(planCode);
+    await this.applyOverrides(tenantId, limits, features);
+
+    return {
+      planCode,
+      subscriptionStatus: subscription?.status ?? null,
+      mode,
+      graceEndsAt: graceEndsAt?.toISOString() ?? null,
+      limits,
+      overagePrices,
+      features: [...features],
+    };
+  }
+
+  /**
+   * Lê limites e features do plano cadastrado. Se o plano ainda não foi
+   * cadastrado no banco, usa a tabela estática PLAN_LIMITS.
+   */
+  private async getPlanEntitlements(planCode: PlanType) {
+    const plan = await this.prisma.plan.findUnique({
+      where: { code: planCode },
+      include: { limits: true, features: true },
+    });
+
+    const limits: Partial<Record<PlanLimitKey, number>> = {};
+    const overagePrices: Partial<Record<MeteredLimitKey, number>> = {};
+    const features = new Set<string>();
+
+    if (!plan) {
+      const fallback = PLAN_LIMITS[planCode];
+      limits.maxUsers = fallback.maxUsers;
+      limits.maxClients = fallback.maxClients;
+      limits.maxProviders = fallback.maxProviders;
+      limits.maxAppointments = fallback.maxAppointmentsPerMonth;
+      fallback.features.forEach((f) => features.add(f.toUpperCase()));
+
+      return { limits, overagePrices, features };
+    }
+
+    if (plan.limits) {
+      for (const key of PLAN_LIMIT_KEYS) {
+        limits[key] = plan.limits[key];
+      }
+
+      for (const [key, field] of Object.entries(OVERAGE_PRICE_FIELDS)) {
+        const price = plan.limits[field];
+        if (price) {
+          overagePrices[key as MeteredLimitKey] = price.toNumber();
+        }
+      }
+    }
+
+    plan.features
+      .filter((f) => f.isEnabled)
+      .forEach((f) => features.add(f.featureCode.toUpperCase()));
+
+    return { limits, overagePrices, features };
+  }
+
+  private async applyOverrides(
+    tenantId: string,
+    limits: Partial<Record<PlanLimitKey, number>>,
+    features: Set<string>,
+  ) {
+    const overrides = await this.prisma.tenantPlanOverride.findMany({
+      where: {
+        tenantId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+
+    for (const override of overrides) {
+      if (override.type === PlanOverrideType.FEATURE) {
+        const code = override.code.toUpperCase();
+        if (override.isEnabled) {
+          features.add(code);
+        } else {
+          features.delete(code);
+        }
+        continue;
+      }
+
+      const key = override.code as PlanLimitKey;
+      if (!PLAN_LIMIT_KEYS.includes(key) || override.value === null) {
+        continue;
+      }
+
+      const current = limits[key] ?? -1;
+
+      if (override.limitMode === PlanLimitOverrideMode.SET) {
+        limits[key] = override.value;
+      } else if (current !== -1) {
+        // Add-on: soma ao limite do plano (ilimitado continua ilimitado)
+        limits[key] = override.value === -1 ? -1 : current + override.value;
+      }
+    }
+  }
+}
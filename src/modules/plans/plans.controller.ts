@@ -26,8 +26,12 @@ import {
   QueryPlansDto,
   CheckLimitDto,
   CheckFeatureDto,
+  UpsertPlanOverrideDto,
 } from './dto';
+import { EntitlementsService } from './entitlements.service';
+import { UsageService } from './usage.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
 import { RequirePermissions } from '../../common/decorators/permissions.decorator';
 import { Permission } from '../../common/permissions/permissions';
 
@@ -39,7 +43,10 @@ import { Permission } from '../../common/permissions/permissions';
 @ApiBearerAuth('access-token')
 @Controller('plans')
 export class PlansPublicController {
-  constructor(private readonly plansService: PlansService) {}
+  constructor(
+    private readonly plansService: PlansService,
+    private readonly usageService: UsageService,
+  ) {}
 
   /**
    * Lista planos públicos disponíveis (para página de preços)
@@ -56,6 +63,21 @@ export class PlansPublicController {
   comparePlans() {
     return this.plansService.comparePlans();
   }
+
+  /**
+   * Uso atual do tenant e histórico medido por período (com excedentes)
+   */
+  @Get('usage')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SETTINGS_VIEW)
+  async getUsage(@Request() req) {
+    const [current, history] = await Promise.all([
+      this.plansService.getAllUsage(req.user.tenantId),
+      this.usageService.getHistory(req.user.tenantId),
+    ]);
+
+    return { current, history };
+  }
 }
 
 // ============================================================================
@@ -65,7 +87,10 @@ export class PlansPublicController {
 @Controller('subscription')
 @UseGuards(JwtAuthGuard)
 export class SubscriptionController {
-  constructor(private readonly plansService: PlansService) {}
+  constructor(
+    private readonly plansService: PlansService,
+    private readonly entitlements: EntitlementsService,
+  ) {}
 
   /**
    * Obter assinatura atual do tenant
@@ -76,6 +101,15 @@ export class SubscriptionController {
     return this.plansService.getSubscription(req.user.tenantId);
   }
 
+  /**
+   * Obter limites e features efetivos (plano + exceções + carência)
+   */
+  @Get('entitlements')
+  @RequirePermissions(Permission.SETTINGS_VIEW)
+  getEntitlements(@Request() req) {
+    return this.entitlements.getEntitlements(req.user.tenantId);
+  }
+
   /**
    * Obter uso atual de recursos
    */
@@ -242,3 +276,56 @@ export class PlansAdminController {
     return this.plansService.seedDefaultPlans();
   }
 }
+
+// ============================================================================
+// Controller Admin - Exceções de Plano por Tenant (Super Admin)
+// ============================================================================
+
+@Controller('admin/tenants/:tenantId/plan-overrides')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class PlanOverridesAdminController {
+  constructor(
+    private readonly plansService: PlansService,
+    private readonly entitlements: EntitlementsService,
+  ) {}
+
+  /**
+   * Listar exceções do tenant
+   */
+  @Get()
+  @RequirePermissions(Permission.SYSTEM_ADMIN)
+  findAll(@Param('tenantId') tenantId: string) {
+    return this.plansService.findOverrides(tenantId);
+  }
+
+  /**
+   * Direitos efetivos do tenant
+   */
+  @Get('entitlements')
+  @RequirePermissions(Permission.SYSTEM_ADMIN)
+  getEntitlements(@Param('tenantId') tenantId: string) {
+    return this.entitlements.getEntitlements(tenantId);
+  }
+
+  /**
+   * Criar ou atualizar exceção (feature liberada/bloqueada ou add-on de limite)
+   */
+  @Post()
+  @RequirePermissions(Permission.SYSTEM_ADMIN)
+  upsert(
+    @Request() req,
+    @Param('tenantId') tenantId: string,
+    @Body() dto: UpsertPlanOverrideDto,
+  ) {
+    return this.plansService.upsertOverride(tenantId, dto, req.user.id);
+  }
+
+  /**
+   * Remover exceção
+   */
+  @Delete(':id')
+  @RequirePermissions(Permission.SYSTEM_ADMIN)
+  remove(@Param('tenantId') tenantId: string, @Param('id') id: string) {
+    return this.plansService.removeOverride(tenantId, id);
+  }
+}
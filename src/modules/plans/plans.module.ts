@@ -1,21 +1,28 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { PlansService } from './plans.service';
+import { EntitlementsService } from './entitlements.service';
+import { UsageService } from './usage.service';
 import {
   PlansPublicController,
   SubscriptionController,
   PlansAdminController,
+  PlanOverridesAdminController,
 } from './plans.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { RedisModule } from '../../redis/redis.module';
 
+// Global: os guards de plano (PlanFeatureGuard/PlanLimitGuard) e a medição de
+// uso (UsageService) são usados em vários módulos
+@Global()
 @Module({
   imports: [PrismaModule, RedisModule],
   controllers: [
     PlansPublicController,
     SubscriptionController,
     PlansAdminController,
+    PlanOverridesAdminController,
   ],
-  providers: [PlansService],
-  exports: [PlansService],
+  providers: [PlansService, EntitlementsService, UsageService],
+  exports: [PlansService, EntitlementsService, UsageService],
 })
 export class PlansModule {}
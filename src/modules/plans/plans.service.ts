@@ -7,10 +7,17 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis/redis.service';
+import {
+  EntitlementsService,
+  PLAN_LIMIT_KEYS,
+  PlanLimitKey,
+} from './entitlements.service';
 import {
   PlanType,
   BillingCycle,
   SubscriptionStatus,
+  PlanOverrideType,
+  PlanLimitOverrideMode,
   Prisma,
 } from '@prisma/client';
 import {
@@ -31,6 +38,7 @@ import {
   FeatureCheckResponseDto,
   UsageResponseDto,
   PlanComparisonDto,
+  UpsertPlanOverrideDto,
 } from './dto';
 
 @Injectable()
@@ -38,9 +46,25 @@ export class PlansService {
   private readonly CACHE_TTL = 3600; // 1 hora
   private readonly CACHE_PREFIX = 'plans:';
 
+  // Recurso (API pública) → campo de PlanLimit
+  private readonly RESOURCE_LIMITS: Record<string, PlanLimitKey> = {
+    users: 'maxUsers',
+    providers: 'maxProviders',
+    clients: 'maxClients',
+    appointments: 'maxAppointments',
+    services: 'maxServices',
+    products: 'maxProducts',
+    campaigns: 'maxCampaigns',
+    webhooks: 'maxWebhooks',
+    templates: 'maxTemplates',
+    whatsapp: 'maxWhatsappMessages',
+    storage: 'storageGB',
+  };
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
+    private readonly entitlements: EntitlementsService,
   ) {}
 
   // ============================================================================
@@ -598,64 +622,30 @@ export class PlansService {
     tenantId: string,
     dto: CheckLimitDto,
   ): Promise<LimitCheckResponseDto> {
-    const subscription = await this.getSubscription(tenantId);
-    const limits = subscription.plan?.limits;
-
-    if (!limits) {
-      return {
-        allowed: true,
-        resource: dto.resource,
-        current: 0,
-        limit: -1,
-        remaining: -1,
-      };
-    }
-
-    // Mapear recurso para campo de limite
-    const limitMap: { [key: string]: string } = {
-      users: 'maxUsers',
-      providers: 'maxProviders',
-      clients: 'maxClients',
-      appointments: 'maxAppointments',
-      services: 'maxServices',
-      products: 'maxProducts',
-      campaigns: 'maxCampaigns',
-      webhooks: 'maxWebhooks',
-      templates: 'maxTemplates',
-    };
-
-    const limitField = limitMap[dto.resource];
+    const limitField = this.RESOURCE_LIMITS[dto.resource];
     if (!limitField) {
       throw new BadRequestException(`Recurso desconhecido: ${dto.resource}`);
     }
 
-    const limit = limits[limitField];
-
-    // -1 = ilimitado
-    if (limit === -1) {
-      return {
-        allowed: true,
-        resource: dto.resource,
-        current: 0,
-        limit: -1,
-        remaining: -1,
-      };
-    }
-
-    // Obter uso atual
-    const current = await this.getCurrentUsage(tenantId, dto.resource);
     const quantity = dto.quantity || 1;
-    const newTotal = current + quantity;
+    const { allowed, overage, current, limit, remaining } =
+      await this.entitlements.checkLimit(tenantId, limitField, quantity);
+
+    let message: string | undefined;
+    if (!allowed) {
+      message = `Limite de ${dto.resource} atingido (${current}/${limit})`;
+    } else if (overage) {
+      message = `Limite de ${dto.resource} excedido: o uso adicional será cobrado na próxima fatura`;
+    }
 
     return {
-      allowed: newTotal <= limit,
+      allowed,
+      overage,
       resource: dto.resource,
       current,
       limit,
-      remaining: Math.max(0, limit - current),
-      message: newTotal > limit
-        ? `Limite de ${dto.resource} atingido (${current}/${limit})`
-        : undefined,
+      remaining,
+      message,
     };
   }
 
@@ -663,24 +653,16 @@ export class PlansService {
     tenantId: string,
     dto: CheckFeatureDto,
   ): Promise<FeatureCheckResponseDto> {
-    const subscription = await this.getSubscription(tenantId);
-    const features = subscription.plan?.features || [];
-
-    const feature = features.find((f) => f.featureCode === dto.featureCode);
-
-    if (!feature) {
-      return {
-        allowed: false,
-        featureCode: dto.featureCode,
-        message: `Funcionalidade ${dto.featureCode} não disponível no seu plano`,
-      };
-    }
+    const allowed = await this.entitlements.hasFeature(
+      tenantId,
+      dto.featureCode,
+    );
 
     return {
-      allowed: feature.isEnabled,
+      allowed,
       featureCode: dto.featureCode,
-      message: !feature.isEnabled
-        ? `Funcionalidade ${dto.featureCode} não está habilitada no seu plano`
+      message: !allowed
+        ? `Funcionalidade ${dto.featureCode} não disponível no seu plano`
         : undefined,
     };
   }
@@ -700,32 +682,19 @@ export class PlansService {
   }
 
   async getAllUsage(tenantId: string): Promise<UsageResponseDto[]> {
-    const subscription = await this.getSubscription(tenantId);
-    const limits = subscription.plan?.limits;
-
-    if (!limits) {
-      return [];
-    }
-
-    const resources = [
-      { resource: 'users', limitField: 'maxUsers' },
-      { resource: 'providers', limitField: 'maxProviders' },
-      { resource: 'clients', limitField: 'maxClients' },
-      { resource: 'appointments', limitField: 'maxAppointments' },
-      { resource: 'services', limitField: 'maxServices' },
-      { resource: 'products', limitField: 'maxProducts' },
-      { resource: 'campaigns', limitField: 'maxCampaigns' },
-      { resource: 'webhooks', limitField: 'maxWebhooks' },
-    ];
-
+    const { limits } = await this.entitlements.getEntitlements(tenantId);
     const usage: UsageResponseDto[] = [];
 
-    for (const r of resources) {
-      const current = await this.getCurrentUsage(tenantId, r.resource);
-      const limit = limits[r.limitField];
+    for (const [resource, limitField] of Object.entries(this.RESOURCE_LIMITS)) {
+      const limit = limits[limitField];
+      if (limit === undefined) {
+        continue;
+      }
+
+      const current = await this.entitlements.getUsage(tenantId, limitField);
 
       usage.push({
-        resource: r.resource,
+        resource,
         current,
         limit,
         percentage: limit === -1 ? 0 : Math.round((current / limit) * 100),
@@ -737,59 +706,81 @@ export class PlansService {
   }
 
   // ============================================================================
-  // Helpers
+  // Exceções de Plano por Tenant (Admin)
   // ============================================================================
 
-  private async getCurrentUsage(
+  async findOverrides(tenantId: string) {
+    return this.prisma.tenantPlanOverride.findMany({
+      where: { tenantId },
+      orderBy: [{ type: 'asc' }, { code: 'asc' }],
+    });
+  }
+
+  async upsertOverride(
     tenantId: string,
-    resource: string,
-  ): Promise<number> {
-    const countMap: { [key: string]: () => Promise<number> } = {
-      users: () =>
-        this.prisma.user.count({ where: { tenantId, isActive: true } }),
-      providers: () =>
-        this.prisma.provider.count({
-          where: { tenantId, deletedAt: null, active: true },
-        }),
-      clients: () =>
-        this.prisma.client.count({ where: { tenantId, deletedAt: null } }),
-      appointments: async () => {
-        const startOfMonth = new Date();
-        startOfMonth.setDate(1);
-        startOfMonth.setHours(0, 0, 0, 0);
-        return this.prisma.appointment.count({
-          where: {
-            tenantId,
-            createdAt: { gte: startOfMonth },
-          },
-        });
-      },
-      services: () =>
-        this.prisma.service.count({
-          where: { tenantId, deletedAt: null, active: true },
-        }),
-      products: () =>
-        this.prisma.product.count({
-          where: { tenantId, deletedAt: null, isActive: true },
-        }),
-      campaigns: () =>
-        this.prisma.marketingCampaign.count({
-          where: { tenantId, isActive: true },
-        }),
-      webhooks: () =>
-        this.prisma.webhookEndpoint.count({
-          where: { tenantId, isActive: true },
-        }),
+    dto: UpsertPlanOverrideDto,
+    userId: string,
+  ) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { id: true },
+    });
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant não encontrado');
+    }
+
+    let code = dto.code;
+
+    if (dto.type === PlanOverrideType.LIMIT) {
+      if (!PLAN_LIMIT_KEYS.includes(code as PlanLimitKey)) {
+        throw new BadRequestException(`Limite desconhecido: ${code}`);
+      }
+      if (dto.value === undefined) {
+        throw new BadRequestException('Informe o valor do limite');
+      }
+    } else {
+      code = code.toUpperCase();
+    }
+
+    const data = {
+      isEnabled: dto.isEnabled ?? true,
+      limitMode: dto.limitMode ?? PlanLimitOverrideMode.ADD,
+      value: dto.type === PlanOverrideType.LIMIT ? dto.value : null,
+      reason: dto.reason,
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+      createdById: userId,
     };
 
-    const countFn = countMap[resource];
-    if (!countFn) {
-      return 0;
+    const override = await this.prisma.tenantPlanOverride.upsert({
+      where: { tenantId_type_code: { tenantId, type: dto.type, code } },
+      create: { tenantId, type: dto.type, code, ...data },
+      update: data,
+    });
+
+    await this.invalidateTenantCache(tenantId);
+    return override;
+  }
+
+  async removeOverride(tenantId: string, overrideId: string) {
+    const override = await this.prisma.tenantPlanOverride.findFirst({
+      where: { id: overrideId, tenantId },
+    });
+
+    if (!override) {
+      throw new NotFoundException('Exceção de plano não encontrada');
     }
 
-    return countFn();
+    await this.prisma.tenantPlanOverride.delete({ where: { id: overrideId } });
+
+    await this.invalidateTenantCache(tenantId);
+    return { success: true };
   }
 
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
   private calculatePeriodEnd(start: Date, cycle: BillingCycle): Date {
     const end = new Date(start);
 
@@ -842,7 +833,7 @@ export class PlansService {
   }
 
   private async invalidateTenantCache(tenantId: string) {
-    await this.redis.del(`${this.CACHE_PREFIX}tenant:${tenantId}`);
+    await this.redis.invalidatePlanEntitlements(tenantId);
   }
 
   // ============================================================================
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { UsageService } from './usage.service';
+import { EntitlementsService } from './entitlements.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('UsageService', () => {
+  let service: UsageService;
+  let prismaService: any;
+
+  const tenantId = 'tenant-123';
+
+  const usage = (overrides: Record<string, any> = {}) => ({
+    id: 'usage-1',
+    tenantId,
+    periodStart: new Date('2025-01-01T00:00:00.000Z'),
+    periodEnd: new Date('2025-02-01T00:00:00.000Z'),
+    appointmentsThisMonth: 120,
+    whatsappSent: 900,
+    emailsSent: 0,
+    smsSent: 0,
+    storageUsedMB: 2560,
+    billedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      subscription: {
+        findUnique: jest.fn().mockResolvedValue({
+          currentPeriodStart: new Date('2025-01-10T12:00:00.000Z'),
+          currentPeriodEnd: new Date('2099-02-10T12:00:00.000Z'),
+        }),
+      },
+      tenantUsage: {
+        findFirst: jest.fn().mockResolvedValue({ storageUsedMB: 300 }),
+        findMany: jest.fn().mockResolvedValue([usage()]),
+        upsert: jest.fn().mockResolvedValue({}),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsageService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: EntitlementsService,
+          useValue: {
+            getEntitlements: jest.fn().mockResolvedValue({
+              limits: {
+                maxAppointments: 100,
+                maxWhatsappMessages: 1000,
+                storageGB: 1,
+              },
+              overagePrices: { maxAppointments: 0.5, storageGB: 10 },
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UsageService>(UsageService);
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('record', () => {
+    it('should use the monthly period and carry storage when the subscription has no billing end', async () => {
+      await service.record(tenantId, 'storage', 5);
+
+      const { where, create, update } =
+        prismaService.tenantUsage.upsert.mock.calls[0][0];
+      expect(where.tenantId_periodStart.periodStart.getUTCDate()).toBe(1);
+      expect(create.storageUsedMB).toBe(305);
+      expect(update).toMatchObject({ storageUsedMB: { increment: 5 } });
+    });
+
+    it('should increment the row created by a concurrent first record', async () => {
+      prismaService.tenantUsage.upsert.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      await service.record(tenantId, 'appointments');
+
+      expect(prismaService.tenantUsage.upsert).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getUnbilledOverage', () => {
+    it('should price only the limits above the plan that have an overage price', async () => {
+      const result = await service.getUnbilledOverage(tenantId, new Date());
+
+      // 20 agendamentos × 0,50 + 2 GB (2,5 GB arredondado) excedentes × 10
+      expect(result.total).toBe(30);
+      expect(result.lineItems).toEqual([
+        expect.objectContaining({
+          description: 'Agendamentos excedentes - 01/01/2025 a 01/02/2025',
+          quantity: 20,
+          total: 10,
+        }),
+        expect.objectContaining({ quantity: 2, unitPrice: 10, total: 20 }),
+      ]);
+    });
+
+    it('should mark the periods as billed on the invoice', async () => {
+      const { periods } = await service.getUnbilledOverage(
+        tenantId,
+        new Date(),
+      );
+
+      await service.markBilled(periods, 'invoice-1');
+
+      const { data } = prismaService.tenantUsage.update.mock.calls[0][0];
+      expect(data.invoiceId).toBe('invoice-1');
+      expect(data.overageAmount).toEqual(new Prisma.Decimal(30));
+    });
+  });
+});
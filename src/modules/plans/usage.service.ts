@@ -0,0 +1,312 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, TenantUsage } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  EntitlementsService,
+  MeteredLimitKey,
+  PlanLimitKey,
+} from './entitlements.service';
+import { parseDateOnly, addDays } from '../../common/utils/timezone.util';
+
+export type UsageMetric =
+  | 'appointments'
+  | 'whatsapp'
+  | 'email'
+  | 'sms'
+  | 'storage';
+
+// Métrica → contador em TenantUsage
+const METRIC_FIELDS = {
+  appointments: 'appointmentsThisMonth',
+  whatsapp: 'whatsappSent',
+  email: 'emailsSent',
+  sms: 'smsSent',
+  storage: 'storageUsedMB',
+} as const;
+
+// Contadores cobrados como excedente, na unidade do limite do plano
+const OVERAGE_METERS: {
+  limitKey: MeteredLimitKey;
+  description: string;
+  used: (usage: TenantUsage) => number;
+}[] = [
+  {
+    limitKey: 'maxAppointments',
+    description: 'Agendamentos excedentes',
+    used: (usage) => usage.appointmentsThisMonth,
+  },
+  {
+    limitKey: 'maxWhatsappMessages',
+    description: 'Mensagens de WhatsApp excedentes',
+    used: (usage) => usage.whatsappSent,
+  },
+  {
+    limitKey: 'storageGB',
+    description: 'Armazenamento excedente (GB)',
+    used: (usage) => Math.ceil(usage.storageUsedMB / 1024),
+  },
+];
+
+// Assinaturas com período maior que isso (ex: FREE padrão) medem por mês
+const MAX_METERED_PERIOD_DAYS = 366;
+
+export interface OverageLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+@Injectable()
+export class UsageService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly entitlements: EntitlementsService,
+  ) {}
+
+  /**
+   * Incrementa um contador medido no período atual. Recebe o client da
+   * transação do módulo produtor para gravar o uso junto com o recurso.
+   */
+  async record(
+    tenantId: string,
+    metric: UsageMetric,
+    amount = 1,
+    tx?: Prisma.TransactionClient,
+  ) {
+    if (!amount) {
+      return;
+    }
+
+    const client = tx ?? this.prisma;
+    const { periodStart, periodEnd } = await this.getCurrentPeriod(
+      tenantId,
+      client,
+    );
+    const field = METRIC_FIELDS[metric];
+
+    // Armazenamento é cumulativo: um novo período parte do total anterior
+    const previous = await client.tenantUsage.findFirst({
+      where: { tenantId, periodStart: { lt: periodStart } },
+      orderBy: { periodStart: 'desc' },
+      select: { storageUsedMB: true },
+    });
+    const storageUsedMB = previous?.storageUsedMB ?? 0;
+    const initial = field === 'storageUsedMB' ? storageUsedMB : 0;
+
+    const upsert = () =>
+      client.tenantUsage.upsert({
+        where: { tenantId_periodStart: { tenantId, periodStart } },
+        create: {
+          tenantId,
+          periodStart,
+          periodEnd,
+          storageUsedMB,
+          [field]: Math.max(0, initial + amount),
+        },
+        update: {
+          [field]: { increment: amount },
+          lastCalculatedAt: new Date(),
+        },
+      });
+
+    try {
+      await upsert();
+    } catch (error) {
+      // Dois registros simultâneos abrindo o período: quem perdeu a criação
+      // incrementa a linha criada pelo outro. Dentro de uma transação o
+      // erro aborta a transação e só resta propagar
+      if (
+        tx ||
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+      await upsert();
+    }
+  }
+
+  /**
+   * Histórico de uso por período. Períodos já faturados mostram o excedente
+   * cobrado; os demais, a estimativa com o plano atual.
+   */
+  async getHistory(tenantId: string, take = 12) {
+    const [periods, { limits, overagePrices }] = await Promise.all([
+      this.prisma.tenantUsage.findMany({
+        where: { tenantId },
+        orderBy: { periodStart: 'desc' },
+        take,
+      }),
+      this.entitlements.getEntitlements(tenantId),
+    ]);
+
+    return periods.map((period) => {
+      const overage = period.billedAt
+        ? {
+            items: (period.overageItems ?? []) as unknown as OverageLineItem[],
+            total: Number(period.overageAmount ?? 0),
+          }
+        : this.calculateOverage(period, limits, overagePrices);
+
+      return {
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        appointments: period.appointmentsThisMonth,
+        whatsappSent: period.whatsappSent,
+        emailsSent: period.emailsSent,
+        smsSent: period.smsSent,
+        storageUsedMB: period.storageUsedMB,
+        billed: !!period.billedAt,
+        invoiceId: period.invoiceId,
+        overageAmount: overage.total,
+        overageItems: overage.items,
+      };
+    });
+  }
+
+  /**
+   * Calcula o excedente dos períodos encerrados até `until` ainda não faturados
+   */
+  async getUnbilledOverage(tenantId: string, until: Date) {
+    const [periods, { limits, overagePrices }] = await Promise.all([
+      this.prisma.tenantUsage.findMany({
+        where: { tenantId, billedAt: null, periodEnd: { lte: until } },
+        orderBy: { periodStart: 'asc' },
+      }),
+      this.entitlements.getEntitlements(tenantId),
+    ]);
+
+    const result = periods.map((period) => {
+      const { items, total } = this.calculateOverage(
+        period,
+        limits,
+        overagePrices,
+      );
+      const label = this.formatPeriod(period.periodStart, period.periodEnd);
+
+      return {
+        id: period.id,
+        total,
+        items: items.map((item) => ({
+          ...item,
+          description: `${item.description} - ${label}`,
+        })),
+      };
+    });
+
+    return {
+      periods: result,
+      lineItems: result.flatMap((p) => p.items),
+      total: this.round(result.reduce((sum, p) => sum + p.total, 0)),
+    };
+  }
+
+  /**
+   * Marca os períodos como faturados (inclusive os sem excedente, para não
+   * serem reprocessados)
+   */
+  async markBilled(
+    periods: { id: string; total: number; items: OverageLineItem[] }[],
+    invoiceId: string,
+  ) {
+    const billedAt = new Date();
+
+    for (const period of periods) {
+      await this.prisma.tenantUsage.update({
+        where: { id: period.id },
+        data: {
+          billedAt,
+          invoiceId,
+          overageAmount: new Prisma.Decimal(period.total),
+          overageItems: period.items as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+  }
+
+  calculateOverage(
+    usage: TenantUsage,
+    limits: Partial<Record<PlanLimitKey, number>>,
+    overagePrices: Partial<Record<MeteredLimitKey, number>>,
+  ) {
+    const items: OverageLineItem[] = [];
+
+    for (const meter of OVERAGE_METERS) {
+      const limit = limits[meter.limitKey] ?? -1;
+      const unitPrice = overagePrices[meter.limitKey];
+
+      if (limit === -1 || unitPrice === undefined) {
+        continue;
+      }
+
+      const quantity = meter.used(usage) - limit;
+      if (quantity <= 0) {
+        continue;
+      }
+
+      items.push({
+        description: meter.description,
+        quantity,
+        unitPrice,
+        total: this.round(quantity * unitPrice),
+      });
+    }
+
+    return {
+      items,
+      total: this.round(items.reduce((sum, item) => sum + item.total, 0)),
+    };
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Período de medição: o período vigente da assinatura ou, sem assinatura
+   * vigente, o mês calendário
+   */
+  private async getCurrentPeriod(
+    tenantId: string,
+    client: Prisma.TransactionClient,
+  ) {
+    const now = new Date();
+    const subscription = await client.subscription.findUnique({
+      where: { tenantId },
+      select: { currentPeriodStart: true, currentPeriodEnd: true },
+    });
+
+    if (
+      subscription &&
+      subscription.currentPeriodStart <= now &&
+      subscription.currentPeriodEnd > now &&
+      subscription.currentPeriodEnd <=
+        addDays(subscription.currentPeriodStart, MAX_METERED_PERIOD_DAYS)
+    ) {
+      return {
+        periodStart: parseDateOnly(subscription.currentPeriodStart),
+        periodEnd: parseDateOnly(subscription.currentPeriodEnd),
+      };
+    }
+
+    return {
+      periodStart: new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+      ),
+      periodEnd: new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+      ),
+    };
+  }
+
+  private formatPeriod(start: Date, end: Date): string {
+    const format = (date: Date) =>
+      date.toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+    return `${format(start)} a ${format(end)}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -7,9 +7,15 @@ import {
   IsNumber,
   Min,
   Max,
+  Matches,
+  IsEnum,
+  IsDateString,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { ScheduleExceptionType } from '@prisma/client';
+
+const TIME_FORMAT = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
 
 export class CreateProviderDto {
   @IsString()
@@ -71,20 +77,42 @@ export class SetProviderServicesDto {
   services: ProviderServiceDto[];
 }
 
+export class ScheduleIntervalDto {
+  @IsString()
+  @Matches(TIME_FORMAT, { message: 'startTime deve estar no formato HH:mm' })
+  startTime: string;
+
+  @IsString()
+  @Matches(TIME_FORMAT, { message: 'endTime deve estar no formato HH:mm' })
+  endTime: string;
+}
+
 export class ProviderScheduleItemDto {
   @IsNumber()
   @Min(0)
   @Max(6)
   dayOfWeek: number;
 
+  // Formato simples: um único intervalo no dia
   @IsString()
-  startTime: string;
+  @IsOptional()
+  @Matches(TIME_FORMAT, { message: 'startTime deve estar no formato HH:mm' })
+  startTime?: string;
 
   @IsString()
-  endTime: string;
+  @IsOptional()
+  @Matches(TIME_FORMAT, { message: 'endTime deve estar no formato HH:mm' })
+  endTime?: string;
 
   @IsBoolean()
   isAvailable: boolean;
+
+  // Formato completo: vários intervalos no dia (ex: pausa para almoço, turnos)
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => ScheduleIntervalDto)
+  intervals?: ScheduleIntervalDto[];
 }
 
 export class SetProviderScheduleDto {
@@ -93,3 +121,39 @@ export class SetProviderScheduleDto {
   @Type(() => ProviderScheduleItemDto)
   schedules: ProviderScheduleItemDto[];
 }
+
+export class CreateScheduleExceptionDto {
+  @IsEnum(ScheduleExceptionType, { message: 'Tipo de exceção inválido' })
+  type: ScheduleExceptionType;
+
+  @IsDateString({}, { message: 'Data inicial inválida' })
+  startDate: string;
+
+  @IsDateString({}, { message: 'Data final inválida' })
+  @IsOptional()
+  endDate?: string; // Padrão: mesmo dia de startDate
+
+  @IsString()
+  @IsOptional()
+  @Matches(TIME_FORMAT, { message: 'startTime deve estar no formato HH:mm' })
+  startTime?: string; // Sem horários = dia inteiro
+
+  @IsString()
+  @IsOptional()
+  @Matches(TIME_FORMAT, { message: 'endTime deve estar no formato HH:mm' })
+  endTime?: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class ScheduleExceptionFiltersDto {
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScheduleExceptionType } from '@prisma/client';
+import { ProviderAvailabilityService } from './provider-availability.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('ProviderAvailabilityService', () => {
+  let service: ProviderAvailabilityService;
+  let prismaService: any;
+
+  const providerId = 'provider-123';
+  const date = new Date('2025-02-03');
+
+  const splitShift = [
+    { dayOfWeek: 1, startTime: '08:00', endTime: '12:00', isAvailable: true },
+    { dayOfWeek: 1, startTime: '13:00', endTime: '18:00', isAvailable: true },
+  ];
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      providerSchedule: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      providerScheduleException: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      providerLocation: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProviderAvailabilityService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<ProviderAvailabilityService>(
+      ProviderAvailabilityService,
+    );
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('getWorkingIntervals', () => {
+    it('should return every interval of a split shift', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+
+      const result = await service.getWorkingIntervals(providerId, date);
+
+      expect(result).toEqual([
+        { start: 8 * 60, end: 12 * 60 },
+        { start: 13 * 60, end: 18 * 60 },
+      ]);
+    });
+
+    it('should return no intervals during an all-day vacation', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+      prismaService.providerScheduleException.findMany.mockResolvedValue([
+        {
+          type: ScheduleExceptionType.VACATION,
+          startTime: null,
+          endTime: null,
+        },
+      ]);
+
+      const result = await service.getWorkingIntervals(providerId, date);
+
+      expect(result).toEqual([]);
+    });
+
+    it('should cut a partial block out of the working hours', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+      prismaService.providerScheduleException.findMany.mockResolvedValue([
+        {
+          type: ScheduleExceptionType.BLOCK,
+          startTime: '14:00',
+          endTime: '15:00',
+        },
+      ]);
+
+      const result = await service.getWorkingIntervals(providerId, date);
+
+      expect(result).toEqual([
+        { start: 8 * 60, end: 12 * 60 },
+        { start: 13 * 60, end: 14 * 60 },
+        { start: 15 * 60, end: 18 * 60 },
+      ]);
+    });
+
+    it('should merge extra availability with the weekly schedule', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+      prismaService.providerScheduleException.findMany.mockResolvedValue([
+        {
+          type: ScheduleExceptionType.EXTRA_AVAILABILITY,
+          startTime: '12:00',
+          endTime: '13:00',
+        },
+      ]);
+
+      const result = await service.getWorkingIntervals(providerId, date);
+
+      expect(result).toEqual([{ start: 8 * 60, end: 18 * 60 }]);
+    });
+  });
+
+  describe('getWorkingIntervals with a location', () => {
+    it('should limit the schedule to the location business hours', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+      prismaService.providerLocation.findFirst.mockResolvedValue({
+        location: {
+          businessHours: {
+            mon: {
+              open: '09:00',
+              close: '17:00',
+              breakStart: '12:00',
+              breakEnd: '14:00',
+            },
+          },
+        },
+      });
+
+      const result = await service.getWorkingIntervals(
+        providerId,
+        date,
+        'location-1',
+      );
+
+      expect(result).toEqual([
+        { start: 9 * 60, end: 12 * 60 },
+        { start: 14 * 60, end: 17 * 60 },
+      ]);
+    });
+
+    it('should return no intervals when the location is closed that day', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+      prismaService.providerLocation.findFirst.mockResolvedValue({
+        location: { businessHours: { mon: { isClosed: true } } },
+      });
+
+      await expect(
+        service.getWorkingIntervals(providerId, date, 'location-1'),
+      ).resolves.toEqual([]);
+    });
+
+    it('should return no intervals when the provider is not at the location', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+
+      await expect(
+        service.getWorkingIntervals(providerId, date, 'location-2'),
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should reject a period that crosses the lunch break', async () => {
+      prismaService.providerSchedule.findMany.mockResolvedValue(splitShift);
+
+      await expect(
+        service.isAvailable(providerId, date, '11:30', '12:30'),
+      ).resolves.toBe(false);
+      await expect(
+        service.isAvailable(providerId, date, '13:00', '14:00'),
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('removePastSlots', () => {
+    const slots = ['09:00', '18:00', '21:00', '22:00'];
+    // 00:30 UTC de terça = 21:30 de segunda em São Paulo
+    const now = new Date('2025-02-04T00:30:00.000Z');
+
+    it('should drop slots already past in the tenant timezone', () => {
+      expect(
+        service.removePastSlots(slots, date, 'America/Sao_Paulo', now),
+      ).toEqual(['22:00']);
+    });
+
+    it('should keep every slot of a future day and none of a past day', () => {
+      expect(
+        service.removePastSlots(slots, date, 'Europe/Lisbon', now),
+      ).toEqual([]);
+      expect(
+        service.removePastSlots(
+          slots,
+          new Date('2025-02-05'),
+          'America/Sao_Paulo',
+          now,
+        ),
+      ).toEqual(slots);
+    });
+  });
+
+  describe('generateSlots', () => {
+    it('should skip slots that overlap existing appointments', () => {
+      const result = service.generateSlots(
+        [{ start: 8 * 60, end: 10 * 60 }],
+        30,
+        30,
+        [{ startTime: '08:30', endTime: '09:00' }],
+      );
+
+      expect(result).toEqual(['08:00', '09:00', '09:30']);
+    });
+  });
+});
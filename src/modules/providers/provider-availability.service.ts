@@ -0,0 +1,339 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma, ScheduleExceptionType } from '@prisma/client';
+import {
+  getDayOfWeek,
+  resolveTimezone,
+  toZonedDateTime,
+} from '../../common/utils/timezone.util';
+
+/**
+ * Intervalo de tempo em minutos desde 00:00
+ */
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+const MINUTES_IN_DAY = 24 * 60;
+
+// Chaves de Location.businessHours indexadas por dia da semana (0 = domingo)
+const BUSINESS_HOURS_DAYS = [
+  'sun',
+  'mon',
+  'tue',
+  'wed',
+  'thu',
+  'fri',
+  'sat',
+] as const;
+
+// Formato gravado em Location.businessHours (ver BusinessHoursDto)
+interface BusinessDayHours {
+  open?: string;
+  close?: string;
+  breakStart?: string;
+  breakEnd?: string;
+  isClosed?: boolean;
+}
+
+type BusinessHours = Partial<
+  Record<(typeof BUSINESS_HOURS_DAYS)[number], BusinessDayHours>
+>;
+
+@Injectable()
+export class ProviderAvailabilityService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Retorna os intervalos de atendimento do profissional em uma data,
+   * combinando a agenda semanal com férias, bloqueios e horários extras.
+   * Com unidade, limita ao horário de funcionamento dela e exige que o
+   * profissional esteja vinculado à unidade
+   */
+  async getWorkingIntervals(
+    providerId: string,
+    date: Date,
+    locationId?: string,
+  ): Promise<TimeInterval[]> {
+    const dayOfWeek = getDayOfWeek(date);
+
+    if (locationId) {
+      const providerLocation = await this.prisma.providerLocation.findFirst({
+        where: {
+          providerId,
+          locationId,
+          isActive: true,
+          location: { isActive: true },
+        },
+        include: { location: { select: { businessHours: true } } },
+      });
+
+      if (!providerLocation) {
+        return [];
+      }
+
+      const intervals = await this.getWorkingIntervals(providerId, date);
+
+      return this.intersectIntervals(
+        intervals,
+        this.getBusinessHoursIntervals(
+          providerLocation.location.businessHours,
+          dayOfWeek,
+        ),
+      );
+    }
+
+    const [schedules, exceptions] = await Promise.all([
+      this.prisma.providerSchedule.findMany({
+        where: { providerId, dayOfWeek, isAvailable: true },
+      }),
+      this.prisma.providerScheduleException.findMany({
+        where: {
+          providerId,
+          startDate: { lte: date },
+          endDate: { gte: date },
+        },
+      }),
+    ]);
+
+    const extras = exceptions.filter(
+      (e) => e.type === ScheduleExceptionType.EXTRA_AVAILABILITY,
+    );
+    const blocks = exceptions.filter(
+      (e) => e.type !== ScheduleExceptionType.EXTRA_AVAILABILITY,
+    );
+
+    let intervals = this.mergeIntervals([
+      ...schedules.map((s) => this.toInterval(s.startTime, s.endTime)),
+      ...extras.map((e) => this.toInterval(e.startTime, e.endTime)),
+    ]);
+
+    for (const block of blocks) {
+      intervals = this.subtractInterval(
+        intervals,
+        this.toInterval(block.startTime, block.endTime),
+      );
+    }
+
+    return intervals;
+  }
+
+  /**
+   * Verifica se o profissional atende durante todo o período informado
+   */
+  async isAvailable(
+    providerId: string,
+    date: Date,
+    startTime: string,
+    endTime: string,
+    locationId?: string,
+  ): Promise<boolean> {
+    const intervals = await this.getWorkingIntervals(
+      providerId,
+      date,
+      locationId,
+    );
+    const start = this.parseTime(startTime);
+    const end = this.parseTime(endTime);
+
+    return intervals.some((i) => start >= i.start && end <= i.end);
+  }
+
+  /**
+   * Gera os horários livres dentro dos intervalos de atendimento,
+   * descartando os que conflitam com agendamentos existentes
+   */
+  generateSlots(
+    intervals: TimeInterval[],
+    duration: number,
+    step: number,
+    appointments: Array<{ startTime: string; endTime: string }>,
+  ): string[] {
+    const busy = appointments.map((apt) =>
+      this.toInterval(apt.startTime, apt.endTime),
+    );
+    const slots: string[] = [];
+
+    for (const interval of intervals) {
+      for (
+        let time = interval.start;
+        time + duration <= interval.end;
+        time += step
+      ) {
+        const hasConflict = busy.some(
+          (b) => time < b.end && time + duration > b.start,
+        );
+
+        if (!hasConflict) {
+          slots.push(this.formatTime(time));
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * Fuso usado na agenda: o da unidade, quando informada, senão o do tenant
+   */
+  async getTimezone(tenantId: string, locationId?: string): Promise<string> {
+    const [tenant, location] = await Promise.all([
+      this.prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { timezone: true },
+      }),
+      locationId
+        ? this.prisma.location.findFirst({
+            where: { id: locationId, tenantId },
+            select: { timezone: true },
+          })
+        : null,
+    ]);
+
+    return resolveTimezone(location?.timezone, tenant?.timezone);
+  }
+
+  /**
+   * Remove horários que já passaram, considerando o dia e a hora atuais no fuso
+   */
+  removePastSlots(
+    slots: string[],
+    date: Date,
+    timeZone: string,
+    now = new Date(),
+  ): string[] {
+    const zonedNow = toZonedDateTime(now, timeZone);
+    const dateStr = date.toISOString().split('T')[0];
+
+    if (dateStr < zonedNow.date) {
+      return [];
+    }
+
+    if (dateStr > zonedNow.date) {
+      return slots;
+    }
+
+    return slots.filter((slot) => this.parseTime(slot) > zonedNow.minutes);
+  }
+
+  /**
+   * Converte um par de horários em intervalo; sem horários = dia inteiro
+   */
+  private toInterval(
+    startTime?: string | null,
+    endTime?: string | null,
+  ): TimeInterval {
+    if (!startTime || !endTime) {
+      return { start: 0, end: MINUTES_IN_DAY };
+    }
+
+    return { start: this.parseTime(startTime), end: this.parseTime(endTime) };
+  }
+
+  /**
+   * Horário de funcionamento da unidade no dia, descontando o intervalo.
+   * Sem businessHours configurado, a unidade não restringe a agenda
+   */
+  private getBusinessHoursIntervals(
+    businessHours: Prisma.JsonValue,
+    dayOfWeek: number,
+  ): TimeInterval[] {
+    if (
+      !businessHours ||
+      typeof businessHours !== 'object' ||
+      Array.isArray(businessHours)
+    ) {
+      return [{ start: 0, end: MINUTES_IN_DAY }];
+    }
+
+    const day = (businessHours as BusinessHours)[
+      BUSINESS_HOURS_DAYS[dayOfWeek]
+    ];
+
+    if (!day || day.isClosed || !day.open || !day.close) {
+      return [];
+    }
+
+    let intervals = [this.toInterval(day.open, day.close)];
+    if (day.breakStart && day.breakEnd) {
+      intervals = this.subtractInterval(
+        intervals,
+        this.toInterval(day.breakStart, day.breakEnd),
+      );
+    }
+
+    return intervals;
+  }
+
+  private intersectIntervals(
+    a: TimeInterval[],
+    b: TimeInterval[],
+  ): TimeInterval[] {
+    const result: TimeInterval[] = [];
+
+    for (const x of a) {
+      for (const y of b) {
+        const start = Math.max(x.start, y.start);
+        const end = Math.min(x.end, y.end);
+        if (end > start) {
+          result.push({ start, end });
+        }
+      }
+    }
+
+    return this.mergeIntervals(result);
+  }
+
+  private mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+    const sorted = intervals
+      .filter((i) => i.end > i.start)
+      .sort((a, b) => a.start - b.start);
+    const merged: TimeInterval[] = [];
+
+    for (const interval of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+    }
+
+    return merged;
+  }
+
+  private subtractInterval(
+    intervals: TimeInterval[],
+    block: TimeInterval,
+  ): TimeInterval[] {
+    const result: TimeInterval[] = [];
+
+    for (const interval of intervals) {
+      if (block.end <= interval.start || block.start >= interval.end) {
+        result.push(interval);
+        continue;
+      }
+
+      if (block.start > interval.start) {
+        result.push({ start: interval.start, end: block.start });
+      }
+      if (block.end < interval.end) {
+        result.push({ start: block.end, end: interval.end });
+      }
+    }
+
+    return result;
+  }
+
+  private parseTime(time: string): number {
+    const [hours, mins] = time.split(':').map(Number);
+    return hours * 60 + mins;
+  }
+
+  private formatTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+  }
+}
@@ -7,6 +7,7 @@ import {
   Delete,
   Body,
   Param,
+  Query,
   UseGuards,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
@@ -16,6 +17,8 @@ import {
   UpdateProviderDto,
   SetProviderServicesDto,
   SetProviderScheduleDto,
+  CreateScheduleExceptionDto,
+  ScheduleExceptionFiltersDto,
 } from './dto/provider.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../../common/guards/permissions.guard';
@@ -128,4 +131,47 @@ export class ProvidersController {
   ) {
     return this.providersService.setSchedules(id, user.tenantId, dto);
   }
+
+  @Get(':id/schedule-exceptions')
+  @RequirePermissions(Permission.PROVIDERS_VIEW)
+  async findScheduleExceptions(
+    @Param('id') id: string,
+    @Query() filters: ScheduleExceptionFiltersDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.providersService.findScheduleExceptions(
+      id,
+      user.tenantId,
+      filters,
+    );
+  }
+
+  @Post(':id/schedule-exceptions')
+  @RequirePermissions(Permission.PROVIDERS_EDIT)
+  async createScheduleException(
+    @Param('id') id: string,
+    @Body() dto: CreateScheduleExceptionDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.providersService.createScheduleException(
+      id,
+      user.tenantId,
+      dto,
+      user.id,
+    );
+  }
+
+  @Delete(':id/schedule-exceptions/:exceptionId')
+  @RequirePermissions(Permission.PROVIDERS_EDIT)
+  async deleteScheduleException(
+    @Param('id') id: string,
+    @Param('exceptionId') exceptionId: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.providersService.deleteScheduleException(
+      id,
+      exceptionId,
+      user.tenantId,
+    );
+  }
 }
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { ProvidersService } from './providers.service';
 import { ProvidersController } from './providers.controller';
+import { ProviderAvailabilityService } from './provider-availability.service';
 
 @Module({
   controllers: [ProvidersController],
-  providers: [ProvidersService],
-  exports: [ProvidersService],
+  providers: [ProvidersService, ProviderAvailabilityService],
+  exports: [ProvidersService, ProviderAvailabilityService],
 })
 export class ProvidersModule {}
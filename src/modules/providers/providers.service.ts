@@ -1,4 +1,8 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService, CACHE_KEYS, CACHE_TTL } from '../../redis';
 import {
@@ -6,6 +10,8 @@ import {
   UpdateProviderDto,
   SetProviderServicesDto,
   SetProviderScheduleDto,
+  CreateScheduleExceptionDto,
+  ScheduleExceptionFiltersDto,
 } from './dto/provider.dto';
 import { Decimal } from '@prisma/client/runtime/library';
 import { Provider } from '@prisma/client';
@@ -155,19 +161,36 @@ export class ProvidersService {
   async setSchedules(id: string, tenantId: string, dto: SetProviderScheduleDto) {
     await this.findById(id, tenantId);
 
-    await this.prisma.providerSchedule.deleteMany({
-      where: { providerId: id },
+    const data = dto.schedules.flatMap((s) => {
+      const intervals = s.intervals?.length
+        ? s.intervals
+        : [{ startTime: s.startTime, endTime: s.endTime }];
+
+      return intervals.map((interval) => {
+        if (!interval.startTime || !interval.endTime) {
+          throw new BadRequestException(
+            'Informe o horário de início e fim ou a lista de intervalos',
+          );
+        }
+
+        return {
+          providerId: id,
+          dayOfWeek: s.dayOfWeek,
+          startTime: interval.startTime,
+          endTime: interval.endTime,
+          isAvailable: s.isAvailable,
+        };
+      });
     });
 
-    await this.prisma.providerSchedule.createMany({
-      data: dto.schedules.map((s) => ({
-        providerId: id,
-        dayOfWeek: s.dayOfWeek,
-        startTime: s.startTime,
-        endTime: s.endTime,
-        isAvailable: s.isAvailable,
-      })),
-    });
+    this.validateScheduleIntervals(data);
+
+    await this.prisma.$transaction([
+      this.prisma.providerSchedule.deleteMany({
+        where: { providerId: id },
+      }),
+      this.prisma.providerSchedule.createMany({ data }),
+    ]);
 
     // Invalida cache
     await this.redis.invalidateProviders(tenantId);
@@ -175,6 +198,93 @@ export class ProvidersService {
     return this.findById(id, tenantId);
   }
 
+  // ========== Exceções de agenda (férias, bloqueios, horários extras) ==========
+
+  async findScheduleExceptions(
+    id: string,
+    tenantId: string,
+    filters?: ScheduleExceptionFiltersDto,
+  ) {
+    await this.findById(id, tenantId);
+
+    const where: any = { providerId: id, tenantId };
+
+    if (filters?.from) {
+      where.endDate = { gte: new Date(filters.from) };
+    }
+
+    if (filters?.to) {
+      where.startDate = { lte: new Date(filters.to) };
+    }
+
+    return this.prisma.providerScheduleException.findMany({
+      where,
+      orderBy: [{ startDate: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  async createScheduleException(
+    id: string,
+    tenantId: string,
+    dto: CreateScheduleExceptionDto,
+    userId?: string,
+  ) {
+    await this.findById(id, tenantId);
+
+    const startDate = new Date(dto.startDate);
+    const endDate = dto.endDate ? new Date(dto.endDate) : startDate;
+
+    if (endDate < startDate) {
+      throw new BadRequestException(
+        'Data final deve ser igual ou posterior à data inicial',
+      );
+    }
+
+    if (!!dto.startTime !== !!dto.endTime) {
+      throw new BadRequestException(
+        'Informe horário de início e fim, ou nenhum para o dia inteiro',
+      );
+    }
+
+    if (dto.startTime && dto.endTime && dto.startTime >= dto.endTime) {
+      throw new BadRequestException(
+        'Horário de início deve ser anterior ao horário de fim',
+      );
+    }
+
+    return this.prisma.providerScheduleException.create({
+      data: {
+        tenantId,
+        providerId: id,
+        type: dto.type,
+        startDate,
+        endDate,
+        startTime: dto.startTime,
+        endTime: dto.endTime,
+        reason: dto.reason,
+        createdBy: userId,
+      },
+    });
+  }
+
+  async deleteScheduleException(
+    id: string,
+    exceptionId: string,
+    tenantId: string,
+  ) {
+    const exception = await this.prisma.providerScheduleException.findFirst({
+      where: { id: exceptionId, providerId: id, tenantId },
+    });
+
+    if (!exception) {
+      throw new NotFoundException('Exceção de agenda não encontrada');
+    }
+
+    return this.prisma.providerScheduleException.delete({
+      where: { id: exceptionId },
+    });
+  }
+
   async count(tenantId: string) {
     return this.prisma.provider.count({
       where: { tenantId },
@@ -232,4 +342,42 @@ export class ProvidersService {
 
     return result;
   }
+
+  /**
+   * Garante que os intervalos de cada dia são válidos e não se sobrepõem
+   */
+  private validateScheduleIntervals(
+    schedules: Array<{ dayOfWeek: number; startTime: string; endTime: string }>,
+  ) {
+    const byDay = new Map<
+      number,
+      Array<{ startTime: string; endTime: string }>
+    >();
+
+    for (const schedule of schedules) {
+      if (schedule.startTime >= schedule.endTime) {
+        throw new BadRequestException(
+          `Intervalo inválido (${schedule.startTime}-${schedule.endTime}): início deve ser anterior ao fim`,
+        );
+      }
+
+      const day = byDay.get(schedule.dayOfWeek) ?? [];
+      day.push(schedule);
+      byDay.set(schedule.dayOfWeek, day);
+    }
+
+    for (const [dayOfWeek, intervals] of byDay) {
+      const sorted = [...intervals].sort((a, b) =>
+        a.startTime.localeCompare(b.startTime),
+      );
+
+      for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].startTime < sorted[i - 1].endTime) {
+          throw new BadRequestException(
+            `Intervalos sobrepostos no dia ${dayOfWeek}: ${sorted[i - 1].startTime}-${sorted[i - 1].endTime} e ${sorted[i].startTime}-${sorted[i].endTime}`,
+          );
+        }
+      }
+    }
+  }
 }
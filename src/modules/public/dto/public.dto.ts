@@ -1,4 +1,21 @@
-import { IsString, IsNotEmpty, IsDateString } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsDateString,
+  IsOptional,
+  IsIn,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentType } from '@prisma/client';
+import {
+  AppointmentComboItemDto,
+  MAX_COMBO_ITEMS,
+} from '../../appointments/dto/appointment.dto';
 
 export class CreatePublicAppointmentDto {
   @IsString()
@@ -9,10 +26,12 @@ export class CreatePublicAppointmentDto {
   @IsNotEmpty({ message: 'Telefone é obrigatório' })
   clientPhone: string;
 
+  @ValidateIf((o) => !o.items)
   @IsString()
   @IsNotEmpty({ message: 'Profissional é obrigatório' })
   providerId: string;
 
+  @ValidateIf((o) => !o.items)
   @IsString()
   @IsNotEmpty({ message: 'Serviço é obrigatório' })
   serviceId: string;
@@ -23,6 +42,28 @@ export class CreatePublicAppointmentDto {
   @IsString()
   @IsNotEmpty({ message: 'Horário é obrigatório' })
   startTime: string;
+
+  @IsString()
+  @IsOptional()
+  locationId?: string;
+
+  // Combo: substitui providerId/serviceId
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2, { message: 'O combo deve ter no mínimo 2 serviços' })
+  @ArrayMaxSize(MAX_COMBO_ITEMS, {
+    message: `O combo deve ter no máximo ${MAX_COMBO_ITEMS} serviços`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => AppointmentComboItemDto)
+  items?: AppointmentComboItemDto[];
+
+  // Forma de pagamento do sinal; sem informar, usa o checkout do gateway
+  @IsOptional()
+  @IsIn([PaymentType.PIX, PaymentType.CREDIT_CARD], {
+    message: 'Forma de pagamento do sinal inválida',
+  })
+  depositMethod?: PaymentType;
 }
 
 export class ContactMessageDto {
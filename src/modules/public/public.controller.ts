@@ -20,9 +20,17 @@ export class PublicController {
     return this.publicService.getServicesForBusiness(slug);
   }
 
+  @Get(':slug/locations')
+  async getLocationsForBusiness(@Param('slug') slug: string) {
+    return this.publicService.getLocationsForBusiness(slug);
+  }
+
   @Get(':slug/providers')
-  async getProvidersForBusiness(@Param('slug') slug: string) {
-    return this.publicService.getProvidersForBusiness(slug);
+  async getProvidersForBusiness(
+    @Param('slug') slug: string,
+    @Query('locationId') locationId?: string,
+  ) {
+    return this.publicService.getProvidersForBusiness(slug, locationId);
   }
 
   @Get(':slug/available-slots')
@@ -31,12 +39,27 @@ export class PublicController {
     @Query('providerId') providerId: string,
     @Query('date') date: string,
     @Query('serviceId') serviceId?: string,
+    @Query('serviceIds') serviceIds?: string,
+    @Query('providerIds') providerIds?: string,
+    @Query('locationId') locationId?: string,
   ) {
+    if (serviceIds) {
+      return this.publicService.getChainedSlots(
+        slug,
+        providerId,
+        date,
+        serviceIds,
+        providerIds,
+        locationId,
+      );
+    }
+
     return this.publicService.getAvailableSlots(
       slug,
       providerId,
       date,
       serviceId,
+      locationId,
     );
   }
 
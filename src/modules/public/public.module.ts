@@ -2,9 +2,17 @@ import { Module } from '@nestjs/common';
 import { PublicService } from './public.service';
 import { PublicController } from './public.controller';
 import { PageConfigModule } from '../page-config/page-config.module';
+import { ProvidersModule } from '../providers/providers.module';
+import { AppointmentsModule } from '../appointments/appointments.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
-  imports: [PageConfigModule],
+  imports: [
+    PageConfigModule,
+    ProvidersModule,
+    AppointmentsModule,
+    PaymentsModule,
+  ],
   controllers: [PublicController],
   providers: [PublicService],
 })
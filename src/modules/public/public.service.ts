@@ -4,13 +4,26 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ProviderAvailabilityService } from '../providers/provider-availability.service';
+import { AppointmentGroupService } from '../appointments/appointment-group.service';
+import { CancellationPolicyService } from '../appointments/cancellation-policy.service';
+import { PaymentsService } from '../payments/payments.service';
+import { UsageService } from '../plans/usage.service';
 import { CreatePublicAppointmentDto } from './dto/public.dto';
-import { AppointmentStatus } from '@prisma/client';
+import { AppointmentStatus, PaymentType, Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { parseDateOnly } from '../../common/utils/timezone.util';
 
 @Injectable()
 export class PublicService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private availability: ProviderAvailabilityService,
+    private appointmentGroups: AppointmentGroupService,
+    private payments: PaymentsService,
+    private cancellationPolicy: CancellationPolicyService,
+    private usage: UsageService,
+  ) {}
 
   async getBusinessBySlug(slug: string) {
     const tenant = await this.prisma.tenant.findUnique({
@@ -48,12 +61,17 @@ export class PublicService {
         name: true,
         duration: true,
         price: true,
+        depositType: true,
+        depositValue: true,
       },
       orderBy: { name: 'asc' },
     });
   }
 
-  async getProvidersForBusiness(slug: string) {
+  /**
+   * Unidades ativas, com endereço e coordenadas para o mapa
+   */
+  async getLocationsForBusiness(slug: string) {
     const tenant = await this.prisma.tenant.findUnique({
       where: { slug },
       select: { id: true, isActive: true },
@@ -63,8 +81,60 @@ export class PublicService {
       throw new NotFoundException('Estabelecimento não encontrado');
     }
 
+    const locations = await this.prisma.location.findMany({
+      where: { tenantId: tenant.id, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        address: true,
+        addressNumber: true,
+        complement: true,
+        neighborhood: true,
+        city: true,
+        state: true,
+        zipCode: true,
+        latitude: true,
+        longitude: true,
+        phone: true,
+        whatsapp: true,
+        businessHours: true,
+        timezone: true,
+        isHeadquarters: true,
+      },
+      orderBy: [{ isHeadquarters: 'desc' }, { name: 'asc' }],
+    });
+
+    return locations.map((location) => ({
+      ...location,
+      latitude: location.latitude?.toNumber() ?? null,
+      longitude: location.longitude?.toNumber() ?? null,
+    }));
+  }
+
+  async getProvidersForBusiness(slug: string, locationId?: string) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { slug },
+      select: { id: true, isActive: true },
+    });
+
+    if (!tenant || !tenant.isActive) {
+      throw new NotFoundException('Estabelecimento não encontrado');
+    }
+
+    if (locationId) {
+      await this.findActiveLocation(tenant.id, locationId);
+    }
+
     return this.prisma.provider.findMany({
-      where: { tenantId: tenant.id, active: true, deletedAt: null },
+      where: {
+        tenantId: tenant.id,
+        active: true,
+        deletedAt: null,
+        ...(locationId && {
+          locations: { some: { locationId, isActive: true } },
+        }),
+      },
       select: {
         id: true,
         name: true,
@@ -82,6 +152,7 @@ export class PublicService {
     providerId: string,
     date: string,
     serviceId?: string,
+    locationId?: string,
   ) {
     const tenant = await this.prisma.tenant.findUnique({
       where: { slug },
@@ -92,28 +163,31 @@ export class PublicService {
       throw new NotFoundException('Estabelecimento não encontrado');
     }
 
-    const dateObj = new Date(date);
-    const dayOfWeek = dateObj.getDay();
+    const dateObj = parseDateOnly(date);
 
-    // Buscar agenda do profissional
     const provider = await this.prisma.provider.findFirst({
       where: { id: providerId, tenantId: tenant.id, active: true },
-      include: {
-        schedules: {
-          where: { dayOfWeek },
-        },
-      },
     });
 
     if (!provider) {
       throw new NotFoundException('Profissional não encontrado');
     }
 
-    if (provider.schedules.length === 0) {
-      return []; // Profissional não trabalha neste dia
+    if (locationId) {
+      await this.findActiveLocation(tenant.id, locationId);
     }
 
-    const schedule = provider.schedules[0];
+    // Agenda do dia já considerando férias, bloqueios, horários extras
+    // e o horário de funcionamento da unidade
+    const intervals = await this.availability.getWorkingIntervals(
+      providerId,
+      dateObj,
+      locationId,
+    );
+
+    if (intervals.length === 0) {
+      return []; // Profissional não trabalha neste dia
+    }
 
     // Buscar duração do serviço se especificado
     let duration = 30; // duração padrão
@@ -139,28 +213,51 @@ export class PublicService {
       },
     });
 
-    // Gerar slots disponíveis
-    const slots: string[] = [];
-    const startMinutes = this.parseTime(schedule.startTime);
-    const endMinutes = this.parseTime(schedule.endTime);
+    // Gerar slots disponíveis, sem horários que já passaram no fuso do tenant
+    const slots = this.availability.generateSlots(
+      intervals,
+      duration,
+      duration,
+      existingAppointments,
+    );
+
+    return this.availability.removePastSlots(
+      slots,
+      dateObj,
+      await this.availability.getTimezone(tenant.id, locationId),
+    );
+  }
 
-    for (let time = startMinutes; time + duration <= endMinutes; time += duration) {
-      const slotStart = this.formatTime(time);
-      const slotEnd = this.formatTime(time + duration);
+  /**
+   * Horários para um combo de serviços encadeados
+   */
+  async getChainedSlots(
+    slug: string,
+    providerId: string,
+    date: string,
+    serviceIds: string,
+    providerIds?: string,
+    locationId?: string,
+  ) {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { slug },
+      select: { id: true, isActive: true },
+    });
 
-      // Verificar se conflita com agendamento existente
-      const hasConflict = existingAppointments.some((apt) => {
-        const aptStart = this.parseTime(apt.startTime);
-        const aptEnd = this.parseTime(apt.endTime);
-        return time < aptEnd && time + duration > aptStart;
-      });
+    if (!tenant || !tenant.isActive) {
+      throw new NotFoundException('Estabelecimento não encontrado');
+    }
 
-      if (!hasConflict) {
-        slots.push(slotStart);
-      }
+    if (locationId) {
+      await this.findActiveLocation(tenant.id, locationId);
     }
 
-    return slots;
+    return this.appointmentGroups.getChainedSlots(
+      tenant.id,
+      date,
+      this.appointmentGroups.parseItems(serviceIds, providerIds, providerId),
+      locationId,
+    );
   }
 
   async createAppointment(slug: string, dto: CreatePublicAppointmentDto) {
@@ -173,6 +270,14 @@ export class PublicService {
       throw new NotFoundException('Estabelecimento não encontrado');
     }
 
+    if (dto.locationId) {
+      await this.findActiveLocation(tenant.id, dto.locationId);
+    }
+
+    if (dto.items) {
+      return this.createComboAppointment(tenant.id, dto);
+    }
+
     // Validar serviço
     const service = await this.prisma.service.findFirst({
       where: { id: dto.serviceId, tenantId: tenant.id, active: true },
@@ -194,11 +299,24 @@ export class PublicService {
     // Calcular horário de término
     const endTime = this.calculateEndTime(dto.startTime, service.duration);
 
+    // Verificar se o profissional atende neste horário
+    const isWithinSchedule = await this.availability.isAvailable(
+      dto.providerId,
+      parseDateOnly(dto.date),
+      dto.startTime,
+      endTime,
+      dto.locationId,
+    );
+
+    if (!isWithinSchedule) {
+      throw new BadRequestException('Horário não disponível');
+    }
+
     // Verificar disponibilidade
     const existingAppointment = await this.prisma.appointment.findFirst({
       where: {
         providerId: dto.providerId,
-        date: new Date(dto.date),
+        date: parseDateOnly(dto.date),
         status: { not: AppointmentStatus.CANCELLED },
         OR: [
           {
@@ -222,22 +340,8 @@ export class PublicService {
     }
 
     // Criar ou buscar cliente
-    let client = await this.prisma.client.findFirst({
-      where: {
-        tenantId: tenant.id,
-        phone: dto.clientPhone,
-      },
-    });
-
-    if (!client) {
-      client = await this.prisma.client.create({
-        data: {
-          tenantId: tenant.id,
-          name: dto.clientName,
-          phone: dto.clientPhone,
-        },
-      });
-    }
+    const client = await this.findOrCreateClient(tenant.id, dto);
+    await this.cancellationPolicy.assertCanBookOnline(client.id);
 
     // Verificar preço personalizado
     const providerService = await this.prisma.providerService.findUnique({
@@ -251,35 +355,200 @@ export class PublicService {
 
     const price = providerService?.customPrice ?? service.price;
 
+    // Serviço com sinal: o horário fica reservado até o pagamento
+    const holdExpiresAt = service.depositType
+      ? await this.payments.getDepositHoldExpiry(tenant.id)
+      : null;
+
     // Criar agendamento
-    const appointment = await this.prisma.appointment.create({
-      data: {
-        tenantId: tenant.id,
-        clientId: client.id,
-        providerId: dto.providerId,
-        serviceId: dto.serviceId,
-        date: new Date(dto.date),
-        startTime: dto.startTime,
-        endTime,
-        price: new Decimal(Number(price)),
-        status: AppointmentStatus.SCHEDULED,
-      },
-      include: {
-        service: true,
-        provider: true,
-      },
+    const appointment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.appointment.create({
+        data: {
+          tenantId: tenant.id,
+          clientId: client.id,
+          providerId: dto.providerId,
+          serviceId: dto.serviceId,
+          date: parseDateOnly(dto.date),
+          startTime: dto.startTime,
+          endTime,
+          price: new Decimal(Number(price)),
+          status: holdExpiresAt
+            ? AppointmentStatus.PENDING_PAYMENT
+            : AppointmentStatus.SCHEDULED,
+          holdExpiresAt,
+          location: dto.locationId
+            ? { create: { locationId: dto.locationId } }
+            : undefined,
+        },
+        include: {
+          service: true,
+          provider: true,
+          location: { include: { location: { select: { name: true } } } },
+        },
+      });
+
+      await this.usage.record(tenant.id, 'appointments', 1, tx);
+
+      return created;
     });
 
+    const deposit = holdExpiresAt
+      ? await this.createDeposit(
+          tenant.id,
+          [appointment],
+          holdExpiresAt,
+          dto.depositMethod,
+        )
+      : null;
+
     return {
       id: appointment.id,
+      status: appointment.status,
       date: appointment.date,
       startTime: appointment.startTime,
       endTime: appointment.endTime,
       service: appointment.service.name,
       provider: appointment.provider.name,
+      location: appointment.location?.location.name ?? null,
+      deposit,
     };
   }
 
+  private async createComboAppointment(
+    tenantId: string,
+    dto: CreatePublicAppointmentDto,
+  ) {
+    const client = await this.findOrCreateClient(tenantId, dto);
+    await this.cancellationPolicy.assertCanBookOnline(client.id);
+
+    const requiresDeposit = await this.prisma.service.count({
+      where: {
+        id: { in: dto.items!.map((item) => item.serviceId) },
+        tenantId,
+        depositType: { not: null },
+      },
+    });
+    const holdExpiresAt = requiresDeposit
+      ? await this.payments.getDepositHoldExpiry(tenantId)
+      : null;
+
+    const { group, appointments } = await this.appointmentGroups.create(
+      tenantId,
+      {
+        clientId: client.id,
+        date: dto.date,
+        startTime: dto.startTime,
+        items: dto.items!,
+        locationId: dto.locationId,
+        ...(holdExpiresAt && {
+          status: AppointmentStatus.PENDING_PAYMENT,
+          holdExpiresAt,
+        }),
+      },
+    );
+
+    const deposit = holdExpiresAt
+      ? await this.createDeposit(
+          tenantId,
+          appointments,
+          holdExpiresAt,
+          dto.depositMethod,
+        )
+      : null;
+
+    return {
+      id: group!.id,
+      status: appointments[0].status,
+      date: group!.date,
+      startTime: group!.startTime,
+      endTime: group!.endTime,
+      totalPrice: group!.totalPrice,
+      services: appointments.map((apt) => ({
+        startTime: apt.startTime,
+        endTime: apt.endTime,
+        service: apt.service.name,
+        provider: apt.provider.name,
+      })),
+      deposit,
+    };
+  }
+
+  /**
+   * Inicia o pagamento do sinal; se o gateway falhar, o horário é liberado
+   * e o uso registrado na criação é estornado
+   */
+  private async createDeposit(
+    tenantId: string,
+    appointments: Prisma.AppointmentGetPayload<{
+      include: { service: true };
+    }>[],
+    holdExpiresAt: Date,
+    paymentMethod?: PaymentType,
+  ) {
+    try {
+      return await this.payments.createAppointmentDeposit(tenantId, {
+        appointmentId: appointments[0].id,
+        amount: this.payments.calculateDeposit(appointments),
+        description: `Sinal - ${appointments.map((a) => a.service.name).join(' + ')}`,
+        expiresAt: holdExpiresAt,
+        paymentMethod,
+      });
+    } catch {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.appointment.updateMany({
+          where: { id: { in: appointments.map((a) => a.id) } },
+          data: { status: AppointmentStatus.CANCELLED },
+        });
+        await this.usage.record(
+          tenantId,
+          'appointments',
+          -appointments.length,
+          tx,
+        );
+      });
+
+      throw new BadRequestException(
+        'Não foi possível iniciar o pagamento do sinal',
+      );
+    }
+  }
+
+  private async findActiveLocation(tenantId: string, locationId: string) {
+    const location = await this.prisma.location.findFirst({
+      where: { id: locationId, tenantId, isActive: true },
+    });
+
+    if (!location) {
+      throw new NotFoundException('Unidade não encontrada');
+    }
+
+    return location;
+  }
+
+  private async findOrCreateClient(
+    tenantId: string,
+    dto: CreatePublicAppointmentDto,
+  ) {
+    const client = await this.prisma.client.findFirst({
+      where: {
+        tenantId,
+        phone: dto.clientPhone,
+      },
+    });
+
+    if (client) {
+      return client;
+    }
+
+    return this.prisma.client.create({
+      data: {
+        tenantId,
+        name: dto.clientName,
+        phone: dto.clientPhone,
+      },
+    });
+  }
+
   private calculateEndTime(startTime: string, durationMinutes: number): string {
     const minutes = this.parseTime(startTime);
     return this.formatTime(minutes + durationMinutes);
@@ -0,0 +1,22 @@
+import { IsDateString, IsOptional, IsUUID } from 'class-validator';
+
+// ============================================================================
+// DTOs para Contas a Receber
+// ============================================================================
+
+export class AgingQueryDto {
+  // Data base do envelhecimento; padrão: hoje no fuso do tenant
+  @IsDateString({}, { message: 'Data base inválida' })
+  @IsOptional()
+  asOf?: string;
+
+  @IsUUID('4', { message: 'Cliente inválido' })
+  @IsOptional()
+  clientId?: string;
+}
+
+export class ClientStatementQueryDto {
+  @IsDateString({}, { message: 'Data base inválida' })
+  @IsOptional()
+  asOf?: string;
+}
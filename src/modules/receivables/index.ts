@@ -0,0 +1,3 @@
+export * from './receivables.module';
+export * from './receivables.service';
+export * from './dto';
@@ -0,0 +1,66 @@
+import { Controller, Get, Param, Query, Res, UseGuards } from '@nestjs/common';
+import type { Response } from 'express';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { ReceivablesService } from './receivables.service';
+import { AgingQueryDto, ClientStatementQueryDto } from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/permissions/permissions';
+import type { CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Receivables')
+@ApiBearerAuth('access-token')
+@Controller('receivables')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class ReceivablesController {
+  constructor(private receivablesService: ReceivablesService) {}
+
+  @Get('aging')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async getAging(
+    @Query() query: AgingQueryDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.receivablesService.getAging(user.tenantId, query);
+  }
+
+  @Get('clients/:clientId/statement')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async getClientStatement(
+    @Param('clientId') clientId: string,
+    @Query() query: ClientStatementQueryDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.receivablesService.getClientStatement(
+      user.tenantId,
+      clientId,
+      query,
+    );
+  }
+
+  @Get('clients/:clientId/statement/pdf')
+  @RequirePermissions(Permission.FINANCIAL_VIEW)
+  async exportClientStatementPdf(
+    @Param('clientId') clientId: string,
+    @Query() query: ClientStatementQueryDto,
+    @CurrentUser() user: CurrentUserData,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { buffer, fileName } =
+      await this.receivablesService.generateStatementPdf(
+        user.tenantId,
+        clientId,
+        query,
+      );
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': buffer.length,
+    });
+
+    res.end(buffer);
+  }
+}
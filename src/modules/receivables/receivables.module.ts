@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ReceivablesController } from './receivables.controller';
+import { ReceivablesService } from './receivables.service';
+import { ReceivablesScheduler } from './receivables.scheduler';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PdfModule } from '../pdf/pdf.module';
+
+@Module({
+  imports: [NotificationsModule, PdfModule],
+  controllers: [ReceivablesController],
+  providers: [ReceivablesService, ReceivablesScheduler],
+  exports: [ReceivablesService],
+})
+export class ReceivablesModule {}
@@ -0,0 +1,31 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { MaintenanceService } from '../../queues/maintenance.service';
+import { MAINTENANCE_JOBS } from '../../queues/queues.constants';
+import { ReceivablesService } from './receivables.service';
+
+@Injectable()
+export class ReceivablesScheduler implements OnModuleInit {
+  private readonly logger = new Logger(ReceivablesScheduler.name);
+
+  constructor(
+    private readonly receivablesService: ReceivablesService,
+    private readonly maintenance: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    // Lembretes de pagamento em atraso, uma vez por dia
+    this.maintenance.register(MAINTENANCE_JOBS.SEND_OVERDUE_REMINDERS, () =>
+      this.handleOverdueReminders(),
+    );
+  }
+
+  async handleOverdueReminders() {
+    const count = await this.receivablesService.sendOverdueReminders();
+
+    if (count > 0) {
+      this.logger.log(`${count} lembrete(s) de pagamento em atraso enviado(s)`);
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ClientPackageStatus,
+  NotificationChannel,
+  NotificationType,
+  Prisma,
+  TransactionStatus,
+} from '@prisma/client';
+import { ReceivablesService } from './receivables.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PdfService } from '../pdf/pdf.service';
+
+describe('ReceivablesService', () => {
+  let service: ReceivablesService;
+  let prismaService: any;
+  let notificationsService: any;
+
+  const tenantId = 'tenant-123';
+  const client = {
+    id: 'client-1',
+    name: 'Maria Silva',
+    phone: '11999990000',
+    email: 'maria@example.com',
+  };
+
+  const receivable = (overrides: Record<string, any> = {}) => ({
+    id: 'transaction-1',
+    tenantId,
+    description: 'Atendimento',
+    netAmount: new Prisma.Decimal(100),
+    date: new Date('2025-01-01T00:00:00.000Z'),
+    dueDate: new Date('2025-03-01T00:00:00.000Z'),
+    status: TransactionStatus.PENDING,
+    clientId: client.id,
+    clientPackageId: null,
+    reminderCount: 0,
+    lastReminderAt: null,
+    client,
+    tenant: {
+      name: 'Clínica Teste',
+      timezone: 'America/Sao_Paulo',
+      whatsAppConfig: { isActive: true },
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      financialTransaction: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      client: {
+        findFirst: jest.fn().mockResolvedValue(client),
+      },
+      clientPackage: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      giftCard: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      tenant: {
+        findUnique: jest.fn().mockResolvedValue({ timezone: null }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReceivablesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: NotificationsService,
+          useValue: { sendNotification: jest.fn().mockResolvedValue({}) },
+        },
+        { provide: PdfService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ReceivablesService>(ReceivablesService);
+    prismaService = module.get(PrismaService);
+    notificationsService = module.get(NotificationsService);
+  });
+
+  describe('getAging', () => {
+    it('should bucket open receivables by days past due, per client', async () => {
+      prismaService.financialTransaction.findMany.mockResolvedValue([
+        receivable({ id: 't-current', dueDate: new Date('2025-03-01') }),
+        receivable({ id: 't-30', dueDate: new Date('2025-01-30') }),
+        receivable({ id: 't-31', dueDate: new Date('2025-01-29') }),
+        // Sem vencimento: vale a data de competência
+        receivable({
+          id: 't-90+',
+          dueDate: null,
+          date: new Date('2024-11-01'),
+        }),
+        receivable({
+          id: 't-other',
+          clientId: 'client-2',
+          client: { ...client, id: 'client-2' },
+          netAmount: new Prisma.Decimal(50),
+          dueDate: new Date('2024-12-15'),
+        }),
+      ]);
+
+      const result = await service.getAging(tenantId, { asOf: '2025-03-01' });
+
+      expect(result.totals).toEqual({
+        current: 100,
+        days1to30: 100,
+        days31to60: 100,
+        days61to90: 50,
+        over90: 100,
+        total: 450,
+      });
+      expect(result.clients[0]).toMatchObject({
+        client: { id: 'client-1' },
+        transactionsCount: 4,
+        oldestDueDate: new Date('2024-11-01'),
+        totals: { total: 400 },
+      });
+    });
+  });
+
+  describe('getClientStatement', () => {
+    it('should list open package balances, receivables and gift card credit', async () => {
+      prismaService.clientPackage.findMany.mockResolvedValue([
+        {
+          id: 'package-1',
+          name: 'Pacote 10 sessões',
+          code: 'PKG-2025-0001',
+          purchaseDate: new Date('2025-01-10'),
+          status: ClientPackageStatus.PENDING_PAYMENT,
+          salePrice: new Prisma.Decimal(500),
+          discountAmount: new Prisma.Decimal(50),
+          paidAmount: new Prisma.Decimal(200),
+        },
+        {
+          id: 'package-2',
+          name: 'Pacote quitado',
+          code: null,
+          purchaseDate: new Date('2025-01-10'),
+          status: ClientPackageStatus.ACTIVE,
+          salePrice: new Prisma.Decimal(300),
+          discountAmount: new Prisma.Decimal(0),
+          paidAmount: new Prisma.Decimal(300),
+        },
+      ]);
+      prismaService.financialTransaction.findMany.mockResolvedValue([
+        receivable({ dueDate: new Date('2025-02-20') }),
+      ]);
+      prismaService.giftCard.findMany.mockResolvedValue([
+        {
+          id: 'card-1',
+          code: 'GIFT-ABCD-1234',
+          currentBalance: new Prisma.Decimal(80),
+          expiresAt: null,
+        },
+      ]);
+
+      const result = await service.getClientStatement(tenantId, client.id, {
+        asOf: '2025-03-01',
+      });
+
+      expect(result.packages).toHaveLength(1);
+      expect(result.packages[0].openBalance).toBe(250);
+      expect(result.transactions[0]).toMatchObject({
+        daysOverdue: 9,
+        bucket: 'days1to30',
+      });
+      expect(result.summary).toEqual({
+        packagesBalance: 250,
+        transactionsBalance: 100,
+        overdueBalance: 100,
+        totalDue: 350,
+        giftCardCredit: 80,
+      });
+      expect(
+        prismaService.financialTransaction.findMany.mock.calls[0][0].where,
+      ).toMatchObject({ clientPackageId: null });
+    });
+  });
+
+  describe('sendOverdueReminders', () => {
+    const now = new Date('2025-03-10T13:00:00.000Z');
+
+    it('should mark overdue receivables and send one reminder per client', async () => {
+      prismaService.financialTransaction.findMany.mockResolvedValue([
+        receivable({ id: 't-1', dueDate: new Date('2025-03-01') }),
+        receivable({
+          id: 't-2',
+          dueDate: new Date('2025-02-20'),
+          status: TransactionStatus.OVERDUE,
+        }),
+        // Vence hoje: ainda não está em atraso
+        receivable({ id: 't-today', dueDate: new Date('2025-03-10') }),
+      ]);
+
+      await expect(service.sendOverdueReminders(now)).resolves.toBe(1);
+
+      expect(
+        prismaService.financialTransaction.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['t-1', 't-2'] },
+          status: TransactionStatus.PENDING,
+        },
+        data: { status: TransactionStatus.OVERDUE },
+      });
+      expect(notificationsService.sendNotification).toHaveBeenCalledTimes(1);
+      expect(notificationsService.sendNotification).toHaveBeenCalledWith(
+        tenantId,
+        expect.objectContaining({
+          type: NotificationType.PAYMENT_REMINDER,
+          channel: NotificationChannel.WHATSAPP,
+          recipientId: client.id,
+          variables: expect.objectContaining({
+            quantidade: '2',
+            vencimento: '20/02/2025',
+          }),
+        }),
+        expect.any(Object),
+      );
+      expect(
+        prismaService.financialTransaction.updateMany,
+      ).toHaveBeenLastCalledWith({
+        where: { id: { in: ['t-1', 't-2'] } },
+        data: { lastReminderAt: now, reminderCount: { increment: 1 } },
+      });
+    });
+
+    it('should respect the reminder interval and limit', async () => {
+      prismaService.financialTransaction.findMany.mockResolvedValue([
+        receivable({
+          id: 't-recent',
+          dueDate: new Date('2025-02-01'),
+          reminderCount: 1,
+          lastReminderAt: new Date('2025-03-05T13:00:00.000Z'),
+        }),
+        receivable({
+          id: 't-exhausted',
+          dueDate: new Date('2025-01-01'),
+          reminderCount: 3,
+          lastReminderAt: new Date('2025-02-01T13:00:00.000Z'),
+        }),
+      ]);
+
+      await expect(service.sendOverdueReminders(now)).resolves.toBe(0);
+      expect(notificationsService.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,492 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PdfService } from '../pdf/pdf.service';
+import {
+  ClientPackageStatus,
+  GiftCardStatus,
+  NotificationChannel,
+  NotificationType,
+  Prisma,
+  RecipientType,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import {
+  addDays,
+  formatDateOnly,
+  getZonedToday,
+  parseDateOnly,
+  resolveTimezone,
+} from '../../common/utils/timezone.util';
+import { AgingQueryDto, ClientStatementQueryDto } from './dto';
+
+export type AgingBucket =
+  | 'current'
+  | 'days1to30'
+  | 'days31to60'
+  | 'days61to90'
+  | 'over90';
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+// Lembretes de atraso: no máximo um por semana, até três por recebível
+const REMINDER_INTERVAL_DAYS = 7;
+const MAX_REMINDERS = 3;
+
+const OPEN_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.OVERDUE,
+];
+
+const GIFT_CARD_BALANCE_STATUSES: GiftCardStatus[] = [
+  GiftCardStatus.ACTIVE,
+  GiftCardStatus.PARTIALLY_USED,
+];
+
+const DEFAULT_REMINDER_CONTENT = `Olá {{nome}}! Consta em aberto com {{empresa}} o valor de {{valor}} ({{quantidade}} lançamento(s)), vencido desde {{vencimento}}.
+
+Se o pagamento já foi feito, por favor desconsidere esta mensagem.`;
+
+const receivableSelect = {
+  id: true,
+  description: true,
+  netAmount: true,
+  date: true,
+  dueDate: true,
+  status: true,
+  clientId: true,
+  clientPackageId: true,
+  reminderCount: true,
+  lastReminderAt: true,
+} as const;
+
+type Receivable = Prisma.FinancialTransactionGetPayload<{
+  select: typeof receivableSelect;
+}>;
+
+/**
+ * Contas a receber: envelhecimento por cliente, extrato do cliente
+ * (pacotes, lançamentos em aberto e vale-presentes) e lembretes de atraso
+ */
+@Injectable()
+export class ReceivablesService {
+  private readonly logger = new Logger(ReceivablesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+    private pdfService: PdfService,
+  ) {}
+
+  // ============================================================================
+  // ENVELHECIMENTO
+  // ============================================================================
+
+  async getAging(tenantId: string, query: AgingQueryDto) {
+    const asOf = await this.resolveAsOf(tenantId, query.asOf);
+
+    const transactions = await this.prisma.financialTransaction.findMany({
+      where: {
+        tenantId,
+        type: TransactionType.INCOME,
+        status: { in: OPEN_STATUSES },
+        ...(query.clientId && { clientId: query.clientId }),
+      },
+      select: {
+        ...receivableSelect,
+        client: { select: { id: true, name: true, phone: true, email: true } },
+      },
+    });
+
+    const totals = this.emptyTotals();
+    const byClient = new Map<
+      string,
+      {
+        client: (typeof transactions)[number]['client'];
+        totals: AgingTotals;
+        transactionsCount: number;
+        oldestDueDate: Date;
+      }
+    >();
+
+    for (const transaction of transactions) {
+      const amount = transaction.netAmount.toNumber();
+      const dueDate = this.getDueDate(transaction);
+      const bucket = this.getBucket(this.daysOverdue(dueDate, asOf));
+      // Recebíveis sem cliente ficam agrupados em uma linha própria
+      const key = transaction.clientId ?? '';
+
+      if (!byClient.has(key)) {
+        byClient.set(key, {
+          client: transaction.client,
+          totals: this.emptyTotals(),
+          transactionsCount: 0,
+          oldestDueDate: dueDate,
+        });
+      }
+
+      const row = byClient.get(key)!;
+      row.totals[bucket] += amount;
+      row.totals.total += amount;
+      row.transactionsCount++;
+      if (dueDate < row.oldestDueDate) {
+        row.oldestDueDate = dueDate;
+      }
+
+      totals[bucket] += amount;
+      totals.total += amount;
+    }
+
+    return {
+      asOf: formatDateOnly(asOf),
+      totals: this.roundTotals(totals),
+      clients: Array.from(byClient.values())
+        .map((row) => ({ ...row, totals: this.roundTotals(row.totals) }))
+        .sort((a, b) => b.totals.total - a.totals.total),
+    };
+  }
+
+  // ============================================================================
+  // EXTRATO DO CLIENTE
+  // ============================================================================
+
+  async getClientStatement(
+    tenantId: string,
+    clientId: string,
+    query: ClientStatementQueryDto = {},
+  ) {
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, tenantId },
+      select: { id: true, name: true, phone: true, email: true },
+    });
+
+    if (!client) {
+      throw new NotFoundException('Cliente não encontrado');
+    }
+
+    const asOf = await this.resolveAsOf(tenantId, query.asOf);
+
+    const [packages, transactions, giftCards] = await Promise.all([
+      this.prisma.clientPackage.findMany({
+        where: {
+          tenantId,
+          clientId,
+          status: { not: ClientPackageStatus.CANCELLED },
+        },
+        orderBy: { purchaseDate: 'asc' },
+      }),
+      this.prisma.financialTransaction.findMany({
+        where: {
+          tenantId,
+          clientId,
+          type: TransactionType.INCOME,
+          status: { in: OPEN_STATUSES },
+          // Cobranças de pacote já entram no saldo do pacote
+          clientPackageId: null,
+        },
+        select: receivableSelect,
+        orderBy: [{ dueDate: 'asc' }, { date: 'asc' }],
+      }),
+      this.prisma.giftCard.findMany({
+        where: {
+          tenantId,
+          status: { in: GIFT_CARD_BALANCE_STATUSES },
+          currentBalance: { gt: 0 },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+          AND: [
+            {
+              OR: [
+                { purchasedById: clientId },
+                { transactions: { some: { clientId } } },
+              ],
+            },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const openPackages = packages
+      .map((pkg) => {
+        const totalDue = pkg.salePrice.minus(pkg.discountAmount).toNumber();
+        const paidAmount = pkg.paidAmount.toNumber();
+
+        return {
+          id: pkg.id,
+          name: pkg.name,
+          code: pkg.code,
+          purchaseDate: pkg.purchaseDate,
+          status: pkg.status,
+          totalDue,
+          paidAmount,
+          openBalance: this.round(totalDue - paidAmount),
+        };
+      })
+      .filter((pkg) => pkg.openBalance > 0);
+
+    const openTransactions = transactions.map((transaction) => {
+      const dueDate = this.getDueDate(transaction);
+      const daysOverdue = this.daysOverdue(dueDate, asOf);
+
+      return {
+        id: transaction.id,
+        description: transaction.description,
+        date: transaction.date,
+        dueDate,
+        amount: transaction.netAmount.toNumber(),
+        daysOverdue: Math.max(daysOverdue, 0),
+        bucket: this.getBucket(daysOverdue),
+      };
+    });
+
+    const cards = giftCards.map((card) => ({
+      id: card.id,
+      code: card.code,
+      balance: card.currentBalance.toNumber(),
+      expiresAt: card.expiresAt,
+    }));
+
+    const sum = (values: number[]) =>
+      this.round(values.reduce((acc, value) => acc + value, 0));
+    const packagesBalance = sum(openPackages.map((pkg) => pkg.openBalance));
+    const transactionsBalance = sum(openTransactions.map((t) => t.amount));
+
+    return {
+      asOf: formatDateOnly(asOf),
+      client,
+      packages: openPackages,
+      transactions: openTransactions,
+      giftCards: cards,
+      summary: {
+        packagesBalance,
+        transactionsBalance,
+        overdueBalance: sum(
+          openTransactions
+            .filter((t) => t.daysOverdue > 0)
+            .map((t) => t.amount),
+        ),
+        totalDue: this.round(packagesBalance + transactionsBalance),
+        giftCardCredit: sum(cards.map((card) => card.balance)),
+      },
+    };
+  }
+
+  async generateStatementPdf(
+    tenantId: string,
+    clientId: string,
+    query: ClientStatementQueryDto = {},
+  ) {
+    const [statement, tenant] = await Promise.all([
+      this.getClientStatement(tenantId, clientId, query),
+      this.prisma.tenant.findUnique({ where: { id: tenantId } }),
+    ]);
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant não encontrado');
+    }
+
+    const buffer = await this.pdfService.generateClientStatementPdf({
+      tenant: { name: tenant.name },
+      client: {
+        name: statement.client.name,
+        phone: statement.client.phone,
+        email: statement.client.email ?? undefined,
+      },
+      asOf: parseDateOnly(statement.asOf),
+      packages: statement.packages,
+      transactions: statement.transactions,
+      giftCards: statement.giftCards,
+      summary: statement.summary,
+      generatedAt: new Date(),
+    });
+
+    const fileName = `extrato_${statement.client.name.replace(/\s/g, '_')}_${statement.asOf}.pdf`;
+
+    return { buffer, fileName };
+  }
+
+  // ============================================================================
+  // LEMBRETES DE ATRASO
+  // ============================================================================
+
+  /**
+   * Marca como vencidos os recebíveis com vencimento passado e envia um
+   * lembrete por cliente, respeitando o intervalo e o limite por recebível
+   */
+  async sendOverdueReminders(now = new Date()): Promise<number> {
+    const transactions = await this.prisma.financialTransaction.findMany({
+      where: {
+        type: TransactionType.INCOME,
+        status: { in: OPEN_STATUSES },
+        clientId: { not: null },
+        // Margem de um dia para cobrir qualquer fuso; filtrado abaixo
+        OR: [
+          { dueDate: { lt: addDays(parseDateOnly(now), 1) } },
+          { dueDate: null, date: { lt: addDays(parseDateOnly(now), 1) } },
+        ],
+      },
+      select: {
+        ...receivableSelect,
+        tenantId: true,
+        client: { select: { id: true, name: true, phone: true, email: true } },
+        tenant: {
+          select: {
+            name: true,
+            timezone: true,
+            whatsAppConfig: { select: { isActive: true } },
+          },
+        },
+      },
+    });
+
+    const overdue = transactions.filter((transaction) => {
+      const today = getZonedToday(
+        resolveTimezone(transaction.tenant.timezone),
+        now,
+      );
+      return this.daysOverdue(this.getDueDate(transaction), today) > 0;
+    });
+
+    if (overdue.length === 0) return 0;
+
+    await this.prisma.financialTransaction.updateMany({
+      where: {
+        id: { in: overdue.map((t) => t.id) },
+        status: TransactionStatus.PENDING,
+      },
+      data: { status: TransactionStatus.OVERDUE },
+    });
+
+    const remindBefore = addDays(now, -REMINDER_INTERVAL_DAYS);
+    const due = overdue.filter(
+      (t) =>
+        t.reminderCount < MAX_REMINDERS &&
+        (!t.lastReminderAt || t.lastReminderAt <= remindBefore),
+    );
+
+    const byClient = new Map<string, typeof due>();
+    for (const transaction of due) {
+      const key = `${transaction.tenantId}:${transaction.clientId}`;
+      byClient.set(key, [...(byClient.get(key) ?? []), transaction]);
+    }
+
+    let sent = 0;
+
+    for (const group of byClient.values()) {
+      const [first] = group;
+      const channel =
+        first.tenant.whatsAppConfig?.isActive && first.client!.phone
+          ? NotificationChannel.WHATSAPP
+          : first.client!.email
+            ? NotificationChannel.EMAIL
+            : null;
+
+      if (!channel) continue;
+
+      const total = group.reduce((acc, t) => acc + t.netAmount.toNumber(), 0);
+      const oldest = group
+        .map((t) => this.getDueDate(t))
+        .reduce((a, b) => (a < b ? a : b));
+
+      try {
+        await this.notificationsService.sendNotification(
+          first.tenantId,
+          {
+            type: NotificationType.PAYMENT_REMINDER,
+            channel,
+            recipientType: RecipientType.CLIENT,
+            recipientId: first.client!.id,
+            variables: {
+              nome: first.client!.name,
+              empresa: first.tenant.name,
+              valor: this.formatCurrency(total),
+              quantidade: String(group.length),
+              vencimento: oldest.toLocaleDateString('pt-BR', {
+                timeZone: 'UTC',
+              }),
+            },
+          },
+          {
+            fallbackContent: DEFAULT_REMINDER_CONTENT,
+            fallbackSubject: 'Pagamento em aberto',
+          },
+        );
+
+        await this.prisma.financialTransaction.updateMany({
+          where: { id: { in: group.map((t) => t.id) } },
+          data: { lastReminderAt: now, reminderCount: { increment: 1 } },
+        });
+        sent++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to send overdue reminder to client ${first.client!.id}: ${error.message}`,
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async resolveAsOf(tenantId: string, asOf?: string): Promise<Date> {
+    if (asOf) {
+      return parseDateOnly(asOf);
+    }
+
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    return getZonedToday(resolveTimezone(tenant?.timezone));
+  }
+
+  // Sem vencimento, vale a data de competência
+  private getDueDate(transaction: Pick<Receivable, 'dueDate' | 'date'>) {
+    return transaction.dueDate ?? transaction.date;
+  }
+
+  private daysOverdue(dueDate: Date, asOf: Date): number {
+    return Math.round((asOf.getTime() - dueDate.getTime()) / 86400000);
+  }
+
+  private getBucket(daysOverdue: number): AgingBucket {
+    if (daysOverdue <= 0) return 'current';
+    if (daysOverdue <= 30) return 'days1to30';
+    if (daysOverdue <= 60) return 'days31to60';
+    if (daysOverdue <= 90) return 'days61to90';
+    return 'over90';
+  }
+
+  private emptyTotals(): AgingTotals {
+    return {
+      current: 0,
+      days1to30: 0,
+      days31to60: 0,
+      days61to90: 0,
+      over90: 0,
+      total: 0,
+    };
+  }
+
+  private roundTotals(totals: AgingTotals): AgingTotals {
+    return Object.fromEntries(
+      Object.entries(totals).map(([key, value]) => [key, this.round(value)]),
+    ) as AgingTotals;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private formatCurrency(value: number): string {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDefined,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export enum SegmentField {
+  DAYS_SINCE_LAST_VISIT = 'DAYS_SINCE_LAST_VISIT', // Dias desde o último atendimento concluído
+  VISIT_COUNT = 'VISIT_COUNT', // Atendimentos concluídos
+  TOTAL_SPENT = 'TOTAL_SPENT', // Receitas pagas do cliente (R$)
+  SERVICES = 'SERVICES', // Serviços já realizados
+  PROVIDERS = 'PROVIDERS', // Profissionais que já atenderam
+  BIRTHDAY_MONTH = 'BIRTHDAY_MONTH', // Mês de aniversário (1-12)
+  PACKAGE_BALANCE = 'PACKAGE_BALANCE', // Sessões restantes em pacotes ativos
+  LOYALTY_POINTS = 'LOYALTY_POINTS', // Saldo de pontos de fidelidade
+  NO_SHOW_COUNT = 'NO_SHOW_COUNT', // Faltas registradas
+  LEAD_SOURCE = 'LEAD_SOURCE', // Origem do lead que virou cliente
+}
+
+export enum SegmentOperator {
+  GTE = 'GTE', // Maior ou igual
+  LTE = 'LTE', // Menor ou igual
+  EQ = 'EQ', // Igual
+  IN = 'IN', // Em qualquer um da lista
+  NOT_IN = 'NOT_IN', // Em nenhum da lista
+}
+
+// ============================================================================
+// DTOs para Segmentos
+// ============================================================================
+
+export class SegmentRuleDto {
+  @IsEnum(SegmentField, { message: 'Campo da regra inválido' })
+  field: SegmentField;
+
+  @IsEnum(SegmentOperator, { message: 'Operador da regra inválido' })
+  operator: SegmentOperator;
+
+  // Número para GTE/LTE/EQ; lista (IDs, meses ou origens) para IN/NOT_IN
+  @IsDefined({ message: 'Valor da regra é obrigatório' })
+  value: number | Array<string | number>;
+}
+
+export class SegmentRulesDto {
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Informe ao menos uma regra' })
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => SegmentRuleDto)
+  rules: SegmentRuleDto[];
+
+  // true = o cliente precisa atender todas as regras; false = qualquer uma
+  @IsBoolean()
+  @IsOptional()
+  matchAll?: boolean;
+}
+
+export class CreateSegmentDto extends SegmentRulesDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Nome do segmento é obrigatório' })
+  @MaxLength(100)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+}
+
+export class UpdateSegmentDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+
+  @IsArray()
+  @IsOptional()
+  @ArrayMinSize(1, { message: 'Informe ao menos uma regra' })
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => SegmentRuleDto)
+  rules?: SegmentRuleDto[];
+
+  @IsBoolean()
+  @IsOptional()
+  matchAll?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class QuerySegmentClientsDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset?: number;
+}
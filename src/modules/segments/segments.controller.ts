@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { SegmentsService } from './segments.service';
+import {
+  CreateSegmentDto,
+  UpdateSegmentDto,
+  SegmentRulesDto,
+  QuerySegmentClientsDto,
+} from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/permissions/permissions';
+import type { CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Segments')
+@ApiBearerAuth('access-token')
+@Controller('segments')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class SegmentsController {
+  constructor(private segmentsService: SegmentsService) {}
+
+  @Get()
+  @RequirePermissions(Permission.CLIENTS_VIEW)
+  async findAll(@CurrentUser() user: CurrentUserData) {
+    return this.segmentsService.findAll(user.tenantId);
+  }
+
+  @Post('preview')
+  @RequirePermissions(Permission.CLIENTS_VIEW)
+  async preview(
+    @Body() dto: SegmentRulesDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.segmentsService.preview(user.tenantId, dto);
+  }
+
+  @Get(':id')
+  @RequirePermissions(Permission.CLIENTS_VIEW)
+  async findById(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.segmentsService.findById(id, user.tenantId);
+  }
+
+  @Get(':id/clients')
+  @RequirePermissions(Permission.CLIENTS_VIEW)
+  async getClients(
+    @Param('id') id: string,
+    @Query() query: QuerySegmentClientsDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.segmentsService.getClients(id, user.tenantId, query);
+  }
+
+  @Get(':id/export')
+  @RequirePermissions(Permission.REPORTS_EXPORT)
+  async export(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserData,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { buffer, fileName } = await this.segmentsService.exportCsv(
+      id,
+      user.tenantId,
+    );
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': buffer.length,
+    });
+
+    res.end(buffer);
+  }
+
+  @Post()
+  @RequirePermissions(Permission.CLIENTS_EDIT)
+  async create(
+    @Body() dto: CreateSegmentDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.segmentsService.create(user.tenantId, dto, user.id);
+  }
+
+  @Post(':id/refresh')
+  @RequirePermissions(Permission.CLIENTS_VIEW)
+  async refresh(@Param('id') id: string, @CurrentUser() user: CurrentUserData) {
+    return this.segmentsService.refresh(id, user.tenantId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions(Permission.CLIENTS_EDIT)
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateSegmentDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.segmentsService.update(id, user.tenantId, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions(Permission.CLIENTS_EDIT)
+  async delete(@Param('id') id: string, @CurrentUser() user: CurrentUserData) {
+    return this.segmentsService.delete(id, user.tenantId);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SegmentsController } from './segments.controller';
+import { SegmentsService } from './segments.service';
+
+@Module({
+  controllers: [SegmentsController],
+  providers: [SegmentsService],
+  exports: [SegmentsService],
+})
+export class SegmentsModule {}
@@ -0,0 +1,246 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { SegmentsService } from './segments.service';
+import { SegmentField, SegmentOperator } from './dto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis';
+
+describe('SegmentsService', () => {
+  let service: SegmentsService;
+  let prismaService: any;
+  let redisService: any;
+
+  const tenantId = 'tenant-123';
+  const daysAgo = (days: number) =>
+    new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  // Ana: sumida há 90 dias, gastou R$ 800. Bia: veio semana passada, 2 faltas.
+  // Carla: nunca foi atendida, cadastrada há 200 dias, veio do Instagram
+  const clients = [
+    { id: 'ana', birthDate: new Date('1990-03-15'), createdAt: daysAgo(400) },
+    { id: 'bia', birthDate: null, createdAt: daysAgo(300) },
+    { id: 'carla', birthDate: new Date('1985-07-02'), createdAt: daysAgo(200) },
+  ];
+
+  const segment = {
+    id: 'segment-1',
+    tenantId,
+    name: 'Inativos',
+    matchAll: true,
+    isActive: true,
+    rules: [
+      {
+        field: SegmentField.DAYS_SINCE_LAST_VISIT,
+        operator: SegmentOperator.GTE,
+        value: 60,
+      },
+    ],
+    lastComputedAt: null,
+  };
+
+  beforeEach(async () => {
+    const mockPrismaService = {
+      client: {
+        findMany: jest.fn().mockImplementation(({ where }) =>
+          Promise.resolve(
+            where.id
+              ? where.id.in.map((id: string) => ({
+                  id,
+                  name: id,
+                  phone: '11999999999',
+                  email: null,
+                  whatsapp: null,
+                  phoneIsWhatsapp: true,
+                  birthDate: null,
+                }))
+              : clients,
+          ),
+        ),
+      },
+      appointment: {
+        groupBy: jest.fn().mockImplementation(({ where }) =>
+          Promise.resolve(
+            where.status === 'NO_SHOW'
+              ? [{ clientId: 'bia', _count: { _all: 2 } }]
+              : [
+                  {
+                    clientId: 'ana',
+                    _max: { date: daysAgo(90) },
+                    _count: { _all: 6 },
+                  },
+                  {
+                    clientId: 'bia',
+                    _max: { date: daysAgo(7) },
+                    _count: { _all: 3 },
+                  },
+                ],
+          ),
+        ),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      financialTransaction: {
+        groupBy: jest.fn().mockResolvedValue([
+          { clientId: 'ana', _sum: { netAmount: new Prisma.Decimal(800) } },
+          { clientId: 'bia', _sum: { netAmount: new Prisma.Decimal(120) } },
+        ]),
+      },
+      clientPackageItem: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            quantity: 10,
+            usedQuantity: 4,
+            cancelledQuantity: 1,
+            clientPackage: { clientId: 'carla' },
+          },
+        ]),
+      },
+      loyaltyTransaction: { groupBy: jest.fn().mockResolvedValue([]) },
+      lead: {
+        findMany: jest.fn().mockResolvedValue([{ convertedClientId: 'carla' }]),
+      },
+      clientSegment: {
+        findFirst: jest.fn().mockResolvedValue(segment),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SegmentsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: {
+            get: jest.fn().mockResolvedValue(undefined),
+            set: jest.fn().mockResolvedValue(undefined),
+            del: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SegmentsService>(SegmentsService);
+    prismaService = module.get(PrismaService);
+    redisService = module.get(RedisService);
+  });
+
+  describe('preview', () => {
+    it('should match clients that satisfy every rule', async () => {
+      const result = await service.preview(tenantId, {
+        rules: [
+          {
+            field: SegmentField.DAYS_SINCE_LAST_VISIT,
+            operator: SegmentOperator.GTE,
+            value: 60,
+          },
+          {
+            field: SegmentField.TOTAL_SPENT,
+            operator: SegmentOperator.GTE,
+            value: 500,
+          },
+        ],
+      });
+
+      expect(result.total).toBe(1);
+      expect(result.sample).toEqual([
+        expect.objectContaining({ id: 'ana', whatsapp: '11999999999' }),
+      ]);
+    });
+
+    it('should count clients never served from their sign up date', async () => {
+      const result = await service.preview(tenantId, {
+        rules: [
+          {
+            field: SegmentField.DAYS_SINCE_LAST_VISIT,
+            operator: SegmentOperator.GTE,
+            value: 150,
+          },
+        ],
+      });
+
+      expect(result.sample.map((client) => client.id)).toEqual(['carla']);
+    });
+
+    it('should match clients that satisfy any rule when matchAll is off', async () => {
+      const result = await service.preview(tenantId, {
+        matchAll: false,
+        rules: [
+          {
+            field: SegmentField.NO_SHOW_COUNT,
+            operator: SegmentOperator.GTE,
+            value: 2,
+          },
+          {
+            field: SegmentField.LEAD_SOURCE,
+            operator: SegmentOperator.IN,
+            value: ['INSTAGRAM'],
+          },
+        ],
+      });
+
+      expect(result.sample.map((client) => client.id)).toEqual([
+        'bia',
+        'carla',
+      ]);
+    });
+
+    it('should use birthday month and remaining package sessions', async () => {
+      const result = await service.preview(tenantId, {
+        rules: [
+          {
+            field: SegmentField.BIRTHDAY_MONTH,
+            operator: SegmentOperator.IN,
+            value: [7, 8],
+          },
+          {
+            field: SegmentField.PACKAGE_BALANCE,
+            operator: SegmentOperator.EQ,
+            value: 5,
+          },
+        ],
+      });
+
+      expect(result.sample.map((client) => client.id)).toEqual(['carla']);
+    });
+
+    it('should reject a list operator on a numeric field', async () => {
+      await expect(
+        service.preview(tenantId, {
+          rules: [
+            {
+              field: SegmentField.TOTAL_SPENT,
+              operator: SegmentOperator.IN,
+              value: [100],
+            },
+          ],
+        }),
+      ).rejects.toThrow('espera um número');
+    });
+  });
+
+  describe('resolveClientIds', () => {
+    it('should cache the computed clients and store the count', async () => {
+      const clientIds = await service.resolveClientIds(tenantId, 'segment-1');
+
+      expect(clientIds).toEqual(['ana', 'carla']);
+      expect(redisService.set).toHaveBeenCalledWith(
+        `segments:${tenantId}:segment-1`,
+        ['ana', 'carla'],
+        expect.any(Number),
+      );
+      expect(prismaService.clientSegment.update).toHaveBeenCalledWith({
+        where: { id: 'segment-1' },
+        data: { clientCount: 2, lastComputedAt: expect.any(Date) },
+      });
+    });
+
+    it('should return cached clients without recomputing', async () => {
+      redisService.get.mockResolvedValue(['bia']);
+
+      await expect(
+        service.resolveClientIds(tenantId, 'segment-1'),
+      ).resolves.toEqual(['bia']);
+      expect(prismaService.client.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
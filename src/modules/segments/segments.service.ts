@@ -0,0 +1,610 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AppointmentStatus,
+  ClientPackageStatus,
+  ClientSegment,
+  LeadSource,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService, CACHE_KEYS, CACHE_TTL } from '../../redis';
+import {
+  CreateSegmentDto,
+  UpdateSegmentDto,
+  SegmentRulesDto,
+  SegmentRuleDto,
+  SegmentField,
+  SegmentOperator,
+  QuerySegmentClientsDto,
+} from './dto';
+
+interface SegmentCandidate {
+  id: string;
+  birthDate: Date | null;
+  createdAt: Date;
+}
+
+type ClientPredicate = (client: SegmentCandidate) => boolean;
+
+const NUMERIC_FIELDS = [
+  SegmentField.DAYS_SINCE_LAST_VISIT,
+  SegmentField.VISIT_COUNT,
+  SegmentField.TOTAL_SPENT,
+  SegmentField.PACKAGE_BALANCE,
+  SegmentField.LOYALTY_POINTS,
+  SegmentField.NO_SHOW_COUNT,
+];
+
+const LIST_OPERATORS = [SegmentOperator.IN, SegmentOperator.NOT_IN];
+
+const SAMPLE_SIZE = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CLIENT_SELECT = {
+  id: true,
+  name: true,
+  phone: true,
+  email: true,
+  whatsapp: true,
+  phoneIsWhatsapp: true,
+  birthDate: true,
+} satisfies Prisma.ClientSelect;
+
+@Injectable()
+export class SegmentsService {
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+  ) {}
+
+  // ============================================================================
+  // SEGMENTOS - CRUD
+  // ============================================================================
+
+  async findAll(tenantId: string) {
+    return this.prisma.clientSegment.findMany({
+      where: { tenantId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findById(id: string, tenantId: string) {
+    const segment = await this.prisma.clientSegment.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!segment) {
+      throw new NotFoundException('Segmento não encontrado');
+    }
+
+    return segment;
+  }
+
+  async create(tenantId: string, dto: CreateSegmentDto, userId?: string) {
+    this.validateRules(dto.rules);
+    await this.ensureUniqueName(tenantId, dto.name);
+
+    return this.prisma.clientSegment.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        description: dto.description,
+        matchAll: dto.matchAll ?? true,
+        rules: dto.rules as unknown as Prisma.InputJsonValue,
+        createdById: userId,
+      },
+    });
+  }
+
+  async update(id: string, tenantId: string, dto: UpdateSegmentDto) {
+    const segment = await this.findById(id, tenantId);
+
+    if (dto.rules) {
+      this.validateRules(dto.rules);
+    }
+    if (dto.name && dto.name !== segment.name) {
+      await this.ensureUniqueName(tenantId, dto.name);
+    }
+
+    const rulesChanged = !!dto.rules || dto.matchAll !== undefined;
+
+    const updated = await this.prisma.clientSegment.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        matchAll: dto.matchAll,
+        isActive: dto.isActive,
+        rules: dto.rules as unknown as Prisma.InputJsonValue | undefined,
+        // Regras novas: o cálculo anterior não vale mais
+        ...(rulesChanged && { clientCount: null, lastComputedAt: null }),
+      },
+    });
+
+    if (rulesChanged) {
+      await this.redis.del(CACHE_KEYS.SEGMENT(tenantId, id));
+    }
+
+    return updated;
+  }
+
+  async delete(id: string, tenantId: string) {
+    await this.findById(id, tenantId);
+
+    const result = await this.prisma.clientSegment.delete({
+      where: { id },
+    });
+
+    await this.redis.del(CACHE_KEYS.SEGMENT(tenantId, id));
+
+    return result;
+  }
+
+  // ============================================================================
+  // CLIENTES DO SEGMENTO
+  // ============================================================================
+
+  /**
+   * Prévia de regras ainda não salvas: total e alguns clientes de exemplo
+   */
+  async preview(tenantId: string, dto: SegmentRulesDto) {
+    this.validateRules(dto.rules);
+
+    const clientIds = await this.evaluate(
+      tenantId,
+      dto.rules,
+      dto.matchAll ?? true,
+    );
+
+    return {
+      total: clientIds.length,
+      sample: await this.loadClients(tenantId, clientIds.slice(0, SAMPLE_SIZE)),
+    };
+  }
+
+  async getClients(
+    id: string,
+    tenantId: string,
+    query: QuerySegmentClientsDto,
+  ) {
+    const segment = await this.findById(id, tenantId);
+    const clientIds = await this.compute(segment);
+
+    const offset = query.offset || 0;
+    const limit = query.limit || 50;
+
+    return {
+      total: clientIds.length,
+      computedAt: segment.lastComputedAt,
+      data: await this.loadClients(
+        tenantId,
+        clientIds.slice(offset, offset + limit),
+      ),
+    };
+  }
+
+  /**
+   * Recalcula o segmento ignorando o cache
+   */
+  async refresh(id: string, tenantId: string) {
+    const segment = await this.findById(id, tenantId);
+    const clientIds = await this.compute(segment, true);
+
+    return {
+      total: clientIds.length,
+      sample: await this.loadClients(tenantId, clientIds.slice(0, SAMPLE_SIZE)),
+    };
+  }
+
+  /**
+   * IDs dos clientes do segmento (usado por campanhas, envios em massa e
+   * filtros da listagem de clientes)
+   */
+  async resolveClientIds(tenantId: string, segmentId: string) {
+    const segment = await this.findById(segmentId, tenantId);
+
+    if (!segment.isActive) {
+      throw new BadRequestException('Segmento inativo');
+    }
+
+    return this.compute(segment);
+  }
+
+  /**
+   * Exporta os clientes do segmento em CSV (separador ";" para o Excel pt-BR)
+   */
+  async exportCsv(id: string, tenantId: string) {
+    const segment = await this.findById(id, tenantId);
+    const clientIds = await this.compute(segment);
+    const clients = await this.loadClients(tenantId, clientIds);
+
+    const rows = [
+      ['Nome', 'Telefone', 'WhatsApp', 'Email', 'Data de nascimento'],
+      ...clients.map((client) => [
+        client.name,
+        client.phone,
+        client.whatsapp || '',
+        client.email || '',
+        client.birthDate ? client.birthDate.toISOString().slice(0, 10) : '',
+      ]),
+    ];
+
+    const content = rows
+      .map((row) => row.map((cell) => this.escapeCsv(cell)).join(';'))
+      .join('\r\n');
+
+    const slug = segment.name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-zA-Z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .toLowerCase();
+
+    return {
+      // BOM para o Excel reconhecer UTF-8
+      buffer: Buffer.from(`\uFEFF${content}`, 'utf-8'),
+      fileName: `segmento-${slug || segment.id}.csv`,
+    };
+  }
+
+  // ============================================================================
+  // AVALIAÇÃO DAS REGRAS
+  // ============================================================================
+
+  /**
+   * Lista de clientes do segmento, do cache ou recalculada. O resultado fica
+   * no Redis e o total é gravado no segmento
+   */
+  private async compute(segment: ClientSegment, force = false) {
+    const cacheKey = CACHE_KEYS.SEGMENT(segment.tenantId, segment.id);
+
+    if (!force) {
+      const cached = await this.redis.get<string[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const clientIds = await this.evaluate(
+      segment.tenantId,
+      segment.rules as unknown as SegmentRuleDto[],
+      segment.matchAll,
+    );
+
+    await this.redis.set(cacheKey, clientIds, CACHE_TTL.LONG);
+
+    const computedAt = new Date();
+    await this.prisma.clientSegment.update({
+      where: { id: segment.id },
+      data: { clientCount: clientIds.length, lastComputedAt: computedAt },
+    });
+    segment.lastComputedAt = computedAt;
+
+    return clientIds;
+  }
+
+  /**
+   * Aplica as regras sobre os clientes ativos. Cada regra busca só os dados
+   * que precisa, agregados por cliente
+   */
+  private async evaluate(
+    tenantId: string,
+    rules: SegmentRuleDto[],
+    matchAll: boolean,
+  ): Promise<string[]> {
+    const now = new Date();
+
+    const [clients, predicates] = await Promise.all([
+      this.prisma.client.findMany({
+        where: { tenantId, deletedAt: null },
+        select: { id: true, birthDate: true, createdAt: true },
+        orderBy: { name: 'asc' },
+      }),
+      Promise.all(
+        rules.map((rule) => this.buildPredicate(tenantId, rule, now)),
+      ),
+    ]);
+
+    return clients
+      .filter((client) =>
+        matchAll
+          ? predicates.every((matches) => matches(client))
+          : predicates.some((matches) => matches(client)),
+      )
+      .map((client) => client.id);
+  }
+
+  private async buildPredicate(
+    tenantId: string,
+    rule: SegmentRuleDto,
+    now: Date,
+  ): Promise<ClientPredicate> {
+    switch (rule.field) {
+      case SegmentField.DAYS_SINCE_LAST_VISIT: {
+        const visits = await this.groupCompletedVisits(tenantId);
+        const lastVisit = new Map(
+          visits.map((row) => [row.clientId, row._max.date]),
+        );
+
+        // Quem nunca foi atendido conta a partir do cadastro
+        return (client) => {
+          const since = lastVisit.get(client.id) ?? client.createdAt;
+          const days = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+          return this.compare(days, rule);
+        };
+      }
+
+      case SegmentField.VISIT_COUNT: {
+        const visits = await this.groupCompletedVisits(tenantId);
+        const counts = new Map(
+          visits.map((row) => [row.clientId, row._count._all]),
+        );
+        return (client) => this.compare(counts.get(client.id) ?? 0, rule);
+      }
+
+      case SegmentField.TOTAL_SPENT: {
+        const totals = await this.prisma.financialTransaction.groupBy({
+          by: ['clientId'],
+          where: {
+            tenantId,
+            type: TransactionType.INCOME,
+            status: TransactionStatus.PAID,
+            clientId: { not: null },
+          },
+          _sum: { netAmount: true },
+        });
+        const spent = new Map(
+          totals.map((row) => [row.clientId, Number(row._sum.netAmount ?? 0)]),
+        );
+        return (client) => this.compare(spent.get(client.id) ?? 0, rule);
+      }
+
+      case SegmentField.SERVICES:
+      case SegmentField.PROVIDERS: {
+        const values = rule.value as string[];
+        const appointments = await this.prisma.appointment.findMany({
+          where: {
+            tenantId,
+            status: AppointmentStatus.COMPLETED,
+            ...(rule.field === SegmentField.SERVICES
+              ? { serviceId: { in: values } }
+              : { providerId: { in: values } }),
+          },
+          select: { clientId: true },
+          distinct: ['clientId'],
+        });
+        return this.membership(
+          new Set(appointments.map((appointment) => appointment.clientId)),
+          rule,
+        );
+      }
+
+      case SegmentField.BIRTHDAY_MONTH: {
+        const months = Array.isArray(rule.value)
+          ? rule.value.map(Number)
+          : [Number(rule.value)];
+
+        // Sem data de nascimento não entra em nenhuma regra de aniversário
+        return (client) => {
+          if (!client.birthDate) return false;
+          const isIn = months.includes(client.birthDate.getUTCMonth() + 1);
+          return rule.operator === SegmentOperator.NOT_IN ? !isIn : isIn;
+        };
+      }
+
+      case SegmentField.PACKAGE_BALANCE: {
+        const items = await this.prisma.clientPackageItem.findMany({
+          where: {
+            clientPackage: { tenantId, status: ClientPackageStatus.ACTIVE },
+          },
+          select: {
+            quantity: true,
+            usedQuantity: true,
+            cancelledQuantity: true,
+            clientPackage: { select: { clientId: true } },
+          },
+        });
+
+        const balance = new Map<string, number>();
+        for (const item of items) {
+          const clientId = item.clientPackage.clientId;
+          const remaining =
+            item.quantity - item.usedQuantity - item.cancelledQuantity;
+          balance.set(
+            clientId,
+            (balance.get(clientId) ?? 0) + Math.max(remaining, 0),
+          );
+        }
+        return (client) => this.compare(balance.get(client.id) ?? 0, rule);
+      }
+
+      case SegmentField.LOYALTY_POINTS: {
+        // Extrato com sinal: créditos positivos, débitos negativos
+        const totals = await this.prisma.loyaltyTransaction.groupBy({
+          by: ['clientId'],
+          where: { tenantId },
+          _sum: { points: true },
+        });
+        const points = new Map(
+          totals.map((row) => [row.clientId, row._sum.points ?? 0]),
+        );
+        return (client) => this.compare(points.get(client.id) ?? 0, rule);
+      }
+
+      case SegmentField.NO_SHOW_COUNT: {
+        // Histórico completo; o noShowCount do cliente zera no desbloqueio
+        const totals = await this.prisma.appointment.groupBy({
+          by: ['clientId'],
+          where: { tenantId, status: AppointmentStatus.NO_SHOW },
+          _count: { _all: true },
+        });
+        const noShows = new Map(
+          totals.map((row) => [row.clientId, row._count._all]),
+        );
+        return (client) => this.compare(noShows.get(client.id) ?? 0, rule);
+      }
+
+      case SegmentField.LEAD_SOURCE: {
+        const leads = await this.prisma.lead.findMany({
+          where: {
+            tenantId,
+            convertedClientId: { not: null },
+            source: { in: rule.value as LeadSource[] },
+          },
+          select: { convertedClientId: true },
+        });
+        return this.membership(
+          new Set(leads.map((lead) => lead.convertedClientId as string)),
+          rule,
+        );
+      }
+
+      default:
+        throw new BadRequestException(
+          `Campo de regra inválido: ${String(rule.field)}`,
+        );
+    }
+  }
+
+  private groupCompletedVisits(tenantId: string) {
+    return this.prisma.appointment.groupBy({
+      by: ['clientId'],
+      where: { tenantId, status: AppointmentStatus.COMPLETED },
+      _max: { date: true },
+      _count: { _all: true },
+    });
+  }
+
+  private compare(actual: number, rule: SegmentRuleDto) {
+    const expected = Number(rule.value);
+
+    switch (rule.operator) {
+      case SegmentOperator.GTE:
+        return actual >= expected;
+      case SegmentOperator.LTE:
+        return actual <= expected;
+      default:
+        return actual === expected;
+    }
+  }
+
+  private membership(clientIds: Set<string>, rule: SegmentRuleDto) {
+    return (client: SegmentCandidate) =>
+      rule.operator === SegmentOperator.NOT_IN
+        ? !clientIds.has(client.id)
+        : clientIds.has(client.id);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Confere a combinação campo/operador/valor de cada regra
+   */
+  private validateRules(rules: SegmentRuleDto[]) {
+    for (const rule of rules) {
+      const isNumeric = NUMERIC_FIELDS.includes(rule.field);
+      const isList = LIST_OPERATORS.includes(rule.operator);
+
+      if (isNumeric) {
+        if (isList || typeof rule.value !== 'number' || rule.value < 0) {
+          throw new BadRequestException(
+            `A regra ${rule.field} espera um número maior ou igual a zero com GTE, LTE ou EQ`,
+          );
+        }
+        continue;
+      }
+
+      if (rule.field === SegmentField.BIRTHDAY_MONTH) {
+        const months = Array.isArray(rule.value) ? rule.value : [rule.value];
+        const validShape = isList
+          ? Array.isArray(rule.value)
+          : rule.operator === SegmentOperator.EQ;
+        const valid =
+          validShape &&
+          months.length > 0 &&
+          months.every(
+            (month) =>
+              typeof month === 'number' &&
+              Number.isInteger(month) &&
+              month >= 1 &&
+              month <= 12,
+          );
+
+        if (!valid) {
+          throw new BadRequestException(
+            'A regra BIRTHDAY_MONTH espera meses de 1 a 12',
+          );
+        }
+        continue;
+      }
+
+      if (
+        !isList ||
+        !Array.isArray(rule.value) ||
+        rule.value.length === 0 ||
+        rule.value.some((value) => typeof value !== 'string')
+      ) {
+        throw new BadRequestException(
+          `A regra ${rule.field} espera uma lista com IN ou NOT_IN`,
+        );
+      }
+
+      if (
+        rule.field === SegmentField.LEAD_SOURCE &&
+        rule.value.some(
+          (value) => !Object.values(LeadSource).includes(value as LeadSource),
+        )
+      ) {
+        throw new BadRequestException('Origem de lead inválida');
+      }
+    }
+  }
+
+  private async ensureUniqueName(tenantId: string, name: string) {
+    const existing = await this.prisma.clientSegment.findFirst({
+      where: { tenantId, name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException('Já existe um segmento com esse nome');
+    }
+  }
+
+  /**
+   * Dados de contato dos clientes, na ordem dos IDs informados
+   */
+  private async loadClients(tenantId: string, clientIds: string[]) {
+    if (clientIds.length === 0) {
+      return [];
+    }
+
+    const clients = await this.prisma.client.findMany({
+      where: { tenantId, id: { in: clientIds } },
+      select: CLIENT_SELECT,
+    });
+    const byId = new Map(clients.map((client) => [client.id, client]));
+
+    return clientIds
+      .map((id) => byId.get(id))
+      .filter((client) => !!client)
+      .map((client) => ({
+        ...client,
+        whatsapp:
+          client.whatsapp || (client.phoneIsWhatsapp ? client.phone : null),
+      }));
+  }
+
+  private escapeCsv(value: string) {
+    return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
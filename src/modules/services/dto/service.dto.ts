@@ -3,10 +3,14 @@ import {
   IsNotEmpty,
   IsNumber,
   IsBoolean,
+  IsEnum,
   IsOptional,
+  Matches,
   Min,
+  Max,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { DepositType } from '@prisma/client';
 
 export class CreateServiceDto {
   @IsString()
@@ -30,6 +34,31 @@ export class CreateServiceDto {
   @IsBoolean()
   @IsOptional()
   active?: boolean;
+
+  // Sinal exigido no agendamento online (null remove a regra)
+  @IsEnum(DepositType)
+  @IsOptional()
+  depositType?: DepositType | null;
+
+  @IsNumber()
+  @Min(0.01, { message: 'Valor do sinal deve ser maior que zero' })
+  @IsOptional()
+  @Type(() => Number)
+  depositValue?: number | null;
+
+  // Código LC 116 e alíquota de ISS da NFS-e (null usa o padrão fiscal do tenant)
+  @Matches(/^\d{2}\.\d{2}$/, {
+    message: 'Código de serviço deve estar no formato 00.00 (LC 116)',
+  })
+  @IsOptional()
+  fiscalServiceCode?: string | null;
+
+  @IsNumber({}, { message: 'Alíquota de ISS deve ser um número' })
+  @Min(0)
+  @Max(5, { message: 'Alíquota de ISS máxima é 5%' })
+  @IsOptional()
+  @Type(() => Number)
+  issRate?: number | null;
 }
 
 export class UpdateServiceDto {
@@ -56,4 +85,29 @@ export class UpdateServiceDto {
   @IsBoolean()
   @IsOptional()
   active?: boolean;
+
+  // Sinal exigido no agendamento online (null remove a regra)
+  @IsEnum(DepositType)
+  @IsOptional()
+  depositType?: DepositType | null;
+
+  @IsNumber()
+  @Min(0.01, { message: 'Valor do sinal deve ser maior que zero' })
+  @IsOptional()
+  @Type(() => Number)
+  depositValue?: number | null;
+
+  // Código LC 116 e alíquota de ISS da NFS-e (null usa o padrão fiscal do tenant)
+  @Matches(/^\d{2}\.\d{2}$/, {
+    message: 'Código de serviço deve estar no formato 00.00 (LC 116)',
+  })
+  @IsOptional()
+  fiscalServiceCode?: string | null;
+
+  @IsNumber({}, { message: 'Alíquota de ISS deve ser um número' })
+  @Min(0)
+  @Max(5, { message: 'Alíquota de ISS máxima é 5%' })
+  @IsOptional()
+  @Type(() => Number)
+  issRate?: number | null;
 }
@@ -1,9 +1,13 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService, CACHE_KEYS, CACHE_TTL } from '../../redis';
 import { CreateServiceDto, UpdateServiceDto } from './dto/service.dto';
 import { Decimal } from '@prisma/client/runtime/library';
-import { Service } from '@prisma/client';
+import { DepositType, Service } from '@prisma/client';
 
 @Injectable()
 export class ServicesService {
@@ -72,6 +76,8 @@ export class ServicesService {
         duration: dto.duration,
         price: new Decimal(dto.price),
         active: dto.active ?? true,
+        ...this.buildDepositData(dto),
+        ...this.buildFiscalData(dto),
       },
     });
 
@@ -92,6 +98,8 @@ export class ServicesService {
         duration: dto.duration,
         price: dto.price !== undefined ? new Decimal(dto.price) : undefined,
         active: dto.active,
+        ...this.buildDepositData(dto),
+        ...this.buildFiscalData(dto),
       },
     });
 
@@ -174,4 +182,41 @@ export class ServicesService {
 
     return result;
   }
+
+  /**
+   * Regra de sinal do serviço: tipo e valor são informados juntos
+   */
+  private buildDepositData(dto: CreateServiceDto | UpdateServiceDto) {
+    if (dto.depositType === undefined && dto.depositValue === undefined) {
+      return {};
+    }
+
+    if (!dto.depositType) {
+      return { depositType: null, depositValue: null };
+    }
+
+    if (!dto.depositValue) {
+      throw new BadRequestException('Informe o valor do sinal');
+    }
+
+    if (dto.depositType === DepositType.PERCENTAGE && dto.depositValue > 100) {
+      throw new BadRequestException(
+        'Percentual do sinal não pode ser maior que 100%',
+      );
+    }
+
+    return {
+      depositType: dto.depositType,
+      depositValue: new Decimal(dto.depositValue),
+    };
+  }
+  private buildFiscalData(dto: CreateServiceDto | UpdateServiceDto) {
+    return {
+      fiscalServiceCode: dto.fiscalServiceCode,
+      issRate:
+        dto.issRate === undefined || dto.issRate === null
+          ? dto.issRate
+          : new Decimal(dto.issRate),
+    };
+  }
 }
@@ -11,6 +11,7 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
 import * as fs from 'fs';
+import { UsageService } from '../plans/usage.service';
 
 export interface UploadResult {
   key: string;
@@ -58,7 +59,10 @@ export class StorageService {
   private localUploadPath: string;
   private baseUrl: string;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private usage: UsageService,
+  ) {
     this.bucket = this.configService.get<string>('S3_BUCKET') || 'belu-uploads';
     this.localUploadPath = path.join(process.cwd(), 'uploads');
     this.baseUrl = this.configService.get<string>('APP_URL') || 'http://localhost:3001';
@@ -151,11 +155,36 @@ export class StorageService {
     const fileName = this.generateFileName(file.originalname);
     const key = `${tenantId}/${folder}/${fileName}`;
 
-    if (this.useS3 && this.s3Client) {
-      return this.uploadToS3(file, key);
-    } else {
-      return this.uploadToLocal(file, tenantId, folder, fileName);
-    }
+    const result =
+      this.useS3 && this.s3Client
+        ? await this.uploadToS3(file, key)
+        : await this.uploadToLocal(file, tenantId, folder, fileName);
+
+    await this.usage.record(tenantId, 'storage', this.toMB(file.size));
+
+    return result;
+  }
+
+  /**
+   * Upload de arquivo gerado pelo sistema (PDF, XML), sem validação de upload
+   */
+  async uploadBuffer(
+    content: Buffer,
+    tenantId: string,
+    fileName: string,
+    mimeType: string,
+    folder = 'uploads',
+  ): Promise<UploadResult> {
+    return this.upload(
+      {
+        buffer: content,
+        originalname: fileName,
+        mimetype: mimeType,
+        size: content.length,
+      } as Express.Multer.File,
+      tenantId,
+      { folder },
+    );
   }
 
   /**
@@ -237,11 +266,42 @@ export class StorageService {
    * Deleta um arquivo
    */
   async delete(key: string): Promise<void> {
+    const size = await this.getSize(key);
+
     if (this.useS3 && this.s3Client) {
       await this.deleteFromS3(key);
     } else {
       await this.deleteFromLocal(key);
     }
+
+    // A chave começa pelo tenant: {tenantId}/{pasta}/{arquivo}
+    const tenantId = key.split('/')[0];
+    if (size && tenantId) {
+      await this.usage.record(tenantId, 'storage', -this.toMB(size));
+    }
+  }
+
+  /**
+   * Tamanho do arquivo em bytes (0 se não existir)
+   */
+  private async getSize(key: string): Promise<number> {
+    if (this.useS3 && this.s3Client) {
+      try {
+        const head = await this.s3Client.send(
+          new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+        );
+        return head.ContentLength ?? 0;
+      } catch {
+        return 0;
+      }
+    }
+
+    const filePath = path.join(this.localUploadPath, key);
+    return fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  private toMB(bytes: number): number {
+    return bytes / (1024 * 1024);
   }
 
   /**
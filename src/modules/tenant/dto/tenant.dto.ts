@@ -6,6 +6,7 @@ import {
   Matches,
   MinLength,
   MaxLength,
+  IsTimeZone,
 } from 'class-validator';
 import { PlanType } from '@prisma/client';
 
@@ -28,6 +29,10 @@ export class CreateTenantDto {
   @IsEnum(PlanType)
   @IsOptional()
   plan?: PlanType;
+
+  @IsTimeZone({ message: 'Fuso horário inválido' })
+  @IsOptional()
+  timezone?: string;
 }
 
 export class UpdateTenantDto {
@@ -49,6 +54,10 @@ export class UpdateTenantDto {
   @IsEnum(PlanType)
   @IsOptional()
   plan?: PlanType;
+
+  @IsTimeZone({ message: 'Fuso horário inválido' })
+  @IsOptional()
+  timezone?: string;
 }
 
 export class TenantResponse {
@@ -57,5 +66,6 @@ export class TenantResponse {
   slug: string;
   plan: PlanType;
   isActive: boolean;
+  timezone: string;
   createdAt: Date;
 }
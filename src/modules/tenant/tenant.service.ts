@@ -29,6 +29,7 @@ export class TenantService {
         name: dto.name,
         slug: dto.slug.toLowerCase(),
         plan: dto.plan || PlanType.FREE,
+        timezone: dto.timezone,
       },
     });
   }
@@ -89,6 +90,7 @@ export class TenantService {
         name: dto.name,
         slug: dto.slug?.toLowerCase(),
         plan: dto.plan,
+        timezone: dto.timezone,
       },
     });
   }
@@ -2,6 +2,7 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis/redis.service';
 import { WaitlistStatus } from '@prisma/client';
+import { parseDateOnly } from '../../common/utils/timezone.util';
 import {
   CreateWaitlistDto,
   CreatePublicWaitlistDto,
@@ -167,7 +168,7 @@ export class WaitlistService {
         clientName: dto.clientName,
         clientPhone: dto.clientPhone,
         clientEmail: dto.clientEmail,
-        preferredDates: dto.preferredDates,
+        preferredDates: dto.preferredDates.map(parseDateOnly),
         preferredPeriod: dto.preferredPeriod || 'ANY',
         notes: dto.notes,
         status: 'PENDING',
@@ -230,7 +231,7 @@ export class WaitlistService {
         clientName: dto.clientName,
         clientPhone: dto.clientPhone,
         clientEmail: dto.clientEmail,
-        preferredDates: dto.preferredDates,
+        preferredDates: dto.preferredDates.map(parseDateOnly),
         preferredPeriod: dto.preferredPeriod || 'ANY',
         notes: dto.notes,
         status: 'PENDING',
@@ -278,7 +279,7 @@ export class WaitlistService {
       where: { id },
       data: {
         status: dto.status,
-        preferredDates: dto.preferredDates,
+        preferredDates: dto.preferredDates?.map(parseDateOnly),
         preferredPeriod: dto.preferredPeriod,
         notes: dto.notes,
         providerId: dto.providerId,
@@ -59,6 +59,10 @@ export class CreateWebhookEndpointDto {
   @IsOptional()
   assignToUserId?: string;
 
+  @IsUUID('4')
+  @IsOptional()
+  locationId?: string;
+
   @IsUUID('4')
   @IsOptional()
   campaignId?: string;
@@ -109,6 +113,10 @@ export class UpdateWebhookEndpointDto {
   @IsOptional()
   assignToUserId?: string;
 
+  @IsUUID('4')
+  @IsOptional()
+  locationId?: string;
+
   @IsUUID('4')
   @IsOptional()
   campaignId?: string;
@@ -3,9 +3,10 @@ import { WebhooksController, WebhooksPublicController } from './webhooks.control
 import { WebhooksService } from './webhooks.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { RedisModule } from '../../redis/redis.module';
+import { LeadsModule } from '../leads/leads.module';
 
 @Module({
-  imports: [PrismaModule, RedisModule],
+  imports: [PrismaModule, RedisModule, LeadsModule],
   controllers: [WebhooksController, WebhooksPublicController],
   providers: [WebhooksService],
   exports: [WebhooksService],
@@ -7,6 +7,8 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RedisService } from '../../redis/redis.service';
+import { LeadAutomationService } from '../leads/lead-automation.service';
+import { LeadAssignmentService } from '../leads/lead-assignment.service';
 import {
   CreateWebhookEndpointDto,
   UpdateWebhookEndpointDto,
@@ -17,6 +19,7 @@ import {
   WebhookSource,
   WebhookLogStatus,
   LeadSource,
+  LeadAutomationTrigger,
   Prisma,
 } from '@prisma/client';
 import { randomBytes, createHmac } from 'crypto';
@@ -30,6 +33,8 @@ export class WebhooksService {
     private prisma: PrismaService,
     private redis: RedisService,
     private config: ConfigService,
+    private leadAutomation: LeadAutomationService,
+    private leadAssignment: LeadAssignmentService,
   ) {}
 
   // ============================================================================
@@ -397,6 +402,8 @@ export class WebhooksService {
           stage: endpoint.defaultStage,
           priority: endpoint.defaultPriority,
           assignedToId: endpoint.assignToUserId,
+          assignedAt: endpoint.assignToUserId ? new Date() : undefined,
+          locationId: endpoint.locationId,
           campaignId: endpoint.campaignId,
           notes: leadData.notes,
         },
@@ -434,6 +441,11 @@ export class WebhooksService {
         },
       });
 
+      // Sem usuário padrão no endpoint, aplica a distribuição do tenant
+      if (!endpoint.assignToUserId) {
+        await this.leadAssignment.assign(endpoint.tenantId, lead.id);
+      }
+
       // Atualizar log com sucesso
       await this.prisma.webhookLog.update({
         where: { id: log.id },
@@ -458,6 +470,12 @@ export class WebhooksService {
         );
       }
 
+      await this.leadAutomation.dispatch(
+        endpoint.tenantId,
+        lead.id,
+        LeadAutomationTrigger.LEAD_CREATED,
+      );
+
       return { success: true, leadId: lead.id };
     } catch (error) {
       // Atualizar log com erro
@@ -0,0 +1 @@
+export * from './maintenance.dto';
@@ -0,0 +1,43 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { JobStatus } from '@prisma/client';
+
+export class TriggerMaintenanceJobDto {
+  // Rotinas por tenant: roda só para este tenant em vez de todos
+  @IsUUID('4', { message: 'ID do tenant inválido' })
+  @IsOptional()
+  tenantId?: string;
+}
+
+export class QueryMaintenanceRunsDto {
+  @IsString()
+  @IsOptional()
+  job?: string;
+
+  @IsEnum(JobStatus)
+  @IsOptional()
+  status?: JobStatus;
+
+  @IsUUID('4')
+  @IsOptional()
+  tenantId?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number;
+}
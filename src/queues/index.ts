@@ -1,11 +1,13 @@
 // Module
 export * from './queues.module';
 
-// Service
+// Services
 export * from './queues.service';
+export * from './maintenance.service';
 
 // Constants and Types
 export * from './queues.constants';
+export * from './dto';
 
 // Bull Board Configuration
 export * from './bull-board.config';
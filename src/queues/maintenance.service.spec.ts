@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JobStatus } from '@prisma/client';
+import { MaintenanceService } from './maintenance.service';
+import { QueuesService } from './queues.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { MAINTENANCE_JOBS } from './queues.constants';
+
+describe('MaintenanceService', () => {
+  let service: MaintenanceService;
+  let prismaService: any;
+  let redisService: any;
+  let queue: any;
+
+  const job = (name: string, data: Record<string, any> = {}) =>
+    ({ id: 'job-1', name, data }) as any;
+
+  beforeEach(async () => {
+    queue = {
+      add: jest.fn().mockResolvedValue({ id: 'job-1' }),
+      addBulk: jest.fn().mockResolvedValue([]),
+    };
+
+    const mockPrismaService = {
+      maintenanceRun: {
+        create: jest.fn().mockResolvedValue({
+          id: 'run-1',
+          startedAt: new Date(Date.now() - 1500),
+        }),
+        update: jest.fn().mockResolvedValue({}),
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+      tenant: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: 'tenant-1' }, { id: 'tenant-2' }]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MaintenanceService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: RedisService,
+          useValue: {
+            acquireLock: jest.fn().mockResolvedValue('lock-token'),
+            releaseLock: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: QueuesService,
+          useValue: { getQueue: jest.fn().mockReturnValue(queue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MaintenanceService>(MaintenanceService);
+    prismaService = module.get(PrismaService);
+    redisService = module.get(RedisService);
+  });
+
+  describe('execute', () => {
+    it('should run the handler under a lock and record the run', async () => {
+      const handler = jest.fn().mockResolvedValue(7);
+      service.register(MAINTENANCE_JOBS.EXPIRE_PACKAGES, handler);
+
+      await expect(
+        service.execute(job(MAINTENANCE_JOBS.EXPIRE_PACKAGES.name)),
+      ).resolves.toEqual({ processed: 7 });
+
+      expect(redisService.acquireLock).toHaveBeenCalledWith(
+        'maintenance:expire-packages',
+        expect.any(Number),
+      );
+      expect(prismaService.maintenanceRun.update).toHaveBeenCalledWith({
+        where: { id: 'run-1' },
+        data: expect.objectContaining({
+          status: JobStatus.COMPLETED,
+          processed: 7,
+          durationMs: expect.any(Number),
+        }),
+      });
+      expect(redisService.releaseLock).toHaveBeenCalledWith(
+        'maintenance:expire-packages',
+        'lock-token',
+      );
+    });
+
+    it('should skip when another instance holds the lock', async () => {
+      const handler = jest.fn();
+      service.register(MAINTENANCE_JOBS.EXPIRE_PACKAGES, handler);
+      redisService.acquireLock.mockResolvedValue(null);
+
+      await expect(
+        service.execute(job(MAINTENANCE_JOBS.EXPIRE_PACKAGES.name)),
+      ).resolves.toEqual({ skipped: true });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(prismaService.maintenanceRun.create).not.toHaveBeenCalled();
+    });
+
+    it('should record the error and release the lock when the handler fails', async () => {
+      service.register(
+        MAINTENANCE_JOBS.CLEANUP_EXPIRED_TOKENS,
+        jest.fn().mockRejectedValue(new Error('connection lost')),
+      );
+
+      await expect(
+        service.execute(job(MAINTENANCE_JOBS.CLEANUP_EXPIRED_TOKENS.name)),
+      ).rejects.toThrow('connection lost');
+
+      expect(prismaService.maintenanceRun.update).toHaveBeenCalledWith({
+        where: { id: 'run-1' },
+        data: expect.objectContaining({
+          status: JobStatus.FAILED,
+          errorMessage: 'connection lost',
+        }),
+      });
+      expect(redisService.releaseLock).toHaveBeenCalled();
+    });
+
+    it('should fan out per-tenant jobs to every active tenant', async () => {
+      const handler = jest.fn();
+      service.register(
+        MAINTENANCE_JOBS.GENERATE_RECURRING_TRANSACTIONS,
+        handler,
+      );
+
+      await service.execute(
+        job(MAINTENANCE_JOBS.GENERATE_RECURRING_TRANSACTIONS.name),
+      );
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(queue.addBulk).toHaveBeenCalledWith([
+        expect.objectContaining({
+          name: 'generate-recurring-transactions',
+          data: { tenantId: 'tenant-1', triggeredBy: undefined },
+        }),
+        expect.objectContaining({
+          data: { tenantId: 'tenant-2', triggeredBy: undefined },
+        }),
+      ]);
+
+      await service.execute(
+        job(MAINTENANCE_JOBS.GENERATE_RECURRING_TRANSACTIONS.name, {
+          tenantId: 'tenant-1',
+        }),
+      );
+
+      expect(handler).toHaveBeenCalledWith('tenant-1');
+      expect(redisService.acquireLock).toHaveBeenLastCalledWith(
+        'maintenance:generate-recurring-transactions:tenant-1',
+        expect.any(Number),
+      );
+    });
+  });
+
+  describe('trigger', () => {
+    it('should queue a manual run', async () => {
+      await service.trigger('clean-audit-logs', 'user-1', 'tenant-1');
+
+      expect(queue.add).toHaveBeenCalledWith(
+        'clean-audit-logs',
+        { tenantId: 'tenant-1', triggeredBy: 'user-1' },
+        expect.any(Object),
+      );
+    });
+
+    it('should reject unknown jobs', async () => {
+      await expect(service.trigger('drop-database', 'user-1')).rejects.toThrow(
+        'Rotina de manutenção não encontrada',
+      );
+      expect(queue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHealth', () => {
+    it('should flag jobs without a recent success', async () => {
+      const now = new Date('2025-03-10T12:00:00.000Z');
+      prismaService.maintenanceRun.groupBy.mockResolvedValue([
+        {
+          job: 'process-billing-jobs',
+          status: JobStatus.COMPLETED,
+          _max: { finishedAt: new Date('2025-03-10T11:55:00.000Z') },
+        },
+        {
+          job: 'expire-packages',
+          status: JobStatus.COMPLETED,
+          _max: { finishedAt: new Date('2025-03-10T00:00:05.000Z') },
+        },
+        {
+          job: 'expire-packages',
+          status: JobStatus.FAILED,
+          _max: { finishedAt: new Date('2025-03-10T03:00:00.000Z') },
+        },
+      ]);
+
+      const health = await service.getHealth(now);
+
+      const byJob = Object.fromEntries(
+        health.jobs.map((entry) => [entry.job, entry]),
+      );
+      expect(health.status).toBe('degraded');
+      expect(byJob['process-billing-jobs'].healthy).toBe(true);
+      // Falhou depois do último sucesso
+      expect(byJob['expire-packages'].healthy).toBe(false);
+      // Nunca executou
+      expect(byJob['cleanup-expired-tokens']).toMatchObject({
+        lastSuccessAt: null,
+        healthy: false,
+      });
+    });
+
+    it('should flag per-tenant jobs when a tenant run failed', async () => {
+      const now = new Date('2025-03-10T12:00:00.000Z');
+      const finishedAt = new Date('2025-03-10T03:00:00.000Z');
+      prismaService.maintenanceRun.groupBy
+        .mockResolvedValueOnce([
+          // O fan-out distribuiu sem erro
+          {
+            job: 'clean-audit-logs',
+            status: JobStatus.COMPLETED,
+            _max: { finishedAt },
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            job: 'clean-audit-logs',
+            tenantId: 'tenant-1',
+            status: JobStatus.COMPLETED,
+            _max: { finishedAt },
+          },
+          {
+            job: 'clean-audit-logs',
+            tenantId: 'tenant-2',
+            status: JobStatus.FAILED,
+            _max: { finishedAt },
+          },
+        ]);
+
+      const health = await service.getHealth(now);
+
+      expect(
+        health.jobs.find((entry) => entry.job === 'clean-audit-logs'),
+      ).toMatchObject({
+        lastSuccessAt: finishedAt,
+        lastFailureAt: finishedAt,
+        failingTenants: 1,
+        healthy: false,
+      });
+    });
+  });
+});
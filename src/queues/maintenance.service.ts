@@ -0,0 +1,324 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Job } from 'bullmq';
+import { JobStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { QueuesService } from './queues.service';
+import {
+  QUEUE_NAMES,
+  JOB_OPTIONS,
+  MAINTENANCE_JOBS,
+  MaintenanceJob,
+  MaintenanceJobData,
+} from './queues.constants';
+import { QueryMaintenanceRunsDto } from './dto';
+
+/**
+ * Rotina de manutenção. Recebe o tenant nas rotinas por tenant e retorna
+ * a quantidade de registros afetados, quando fizer sentido
+ */
+export type MaintenanceHandler = (tenantId?: string) => Promise<number | void>;
+
+// Uma execução travada libera o lock depois desse tempo
+const LOCK_TTL = 30 * 60 * 1000;
+const RUNS_RETENTION_DAYS = 30;
+
+const latestDate = (dates: (Date | null)[]) =>
+  dates.reduce<Date | null>(
+    (latest, date) => (date && (!latest || date > latest) ? date : latest),
+    null,
+  );
+
+@Injectable()
+export class MaintenanceService implements OnModuleInit {
+  private readonly logger = new Logger(MaintenanceService.name);
+  private handlers = new Map<string, MaintenanceHandler>();
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private queuesService: QueuesService,
+  ) {}
+
+  onModuleInit() {
+    this.register(MAINTENANCE_JOBS.CLEAN_MAINTENANCE_RUNS, () =>
+      this.cleanOldRuns(),
+    );
+  }
+
+  /**
+   * Registra o handler de uma rotina (chamado pelos schedulers dos módulos)
+   */
+  register(job: MaintenanceJob, handler: MaintenanceHandler) {
+    this.handlers.set(job.name, handler);
+  }
+
+  /**
+   * Dispara uma rotina fora do agendamento
+   */
+  async trigger(name: string, triggeredBy: string, tenantId?: string) {
+    this.getJob(name);
+
+    const job = await this.queuesService
+      .getQueue(QUEUE_NAMES.MAINTENANCE)
+      .add(name, { tenantId, triggeredBy }, JOB_OPTIONS.MAINTENANCE);
+
+    return { jobId: job.id, job: name, tenantId: tenantId ?? null };
+  }
+
+  /**
+   * Executa um job da fila. Rotinas por tenant sem tenant no payload
+   * apenas distribuem uma execução para cada tenant ativo
+   */
+  async execute(job: Job<MaintenanceJobData>) {
+    const definition = this.getJob(job.name);
+    const { tenantId, triggeredBy } = job.data;
+
+    if (definition.perTenant && !tenantId) {
+      return this.run(definition, { triggeredBy }, () =>
+        this.fanOut(definition, triggeredBy),
+      );
+    }
+
+    const handler = this.handlers.get(definition.name);
+    if (!handler) {
+      throw new Error(`No handler registered for ${definition.name}`);
+    }
+
+    return this.run(definition, { tenantId, triggeredBy }, () =>
+      handler(tenantId),
+    );
+  }
+
+  /**
+   * Última execução com sucesso e com falha de cada rotina. Nas rotinas por
+   * tenant o fan-out só distribui o trabalho: a saúde vem das execuções de
+   * cada tenant, e a rotina fica degradada enquanto algum tenant tiver a
+   * última execução com falha
+   */
+  async getHealth(now = new Date()) {
+    const [grouped, tenantGrouped] = await Promise.all([
+      this.prisma.maintenanceRun.groupBy({
+        by: ['job', 'status'],
+        where: {
+          tenantId: null,
+          status: { in: [JobStatus.COMPLETED, JobStatus.FAILED] },
+        },
+        _max: { finishedAt: true },
+      }),
+      this.prisma.maintenanceRun.groupBy({
+        by: ['job', 'tenantId', 'status'],
+        where: {
+          tenantId: { not: null },
+          status: { in: [JobStatus.COMPLETED, JobStatus.FAILED] },
+        },
+        _max: { finishedAt: true },
+      }),
+    ]);
+
+    const lastFinished = (job: string, status: JobStatus) =>
+      grouped.find((row) => row.job === job && row.status === status)?._max
+        .finishedAt ?? null;
+
+    const jobs = Object.values(MAINTENANCE_JOBS).map((definition) => {
+      const ownSuccessAt = lastFinished(definition.name, JobStatus.COMPLETED);
+      const ownFailureAt = lastFinished(definition.name, JobStatus.FAILED);
+      const tenants = definition.perTenant
+        ? this.tenantOutcomes(definition.name, tenantGrouped)
+        : [];
+
+      const lastSuccessAt = definition.perTenant
+        ? latestDate(tenants.map((tenant) => tenant.successAt))
+        : ownSuccessAt;
+      const lastFailureAt = latestDate([
+        ownFailureAt,
+        ...tenants.map((tenant) => tenant.failureAt),
+      ]);
+      const failingTenants = tenants.filter(
+        (tenant) =>
+          !!tenant.failureAt &&
+          (!tenant.successAt || tenant.failureAt > tenant.successAt),
+      ).length;
+
+      return {
+        job: definition.name,
+        schedule: definition.pattern,
+        perTenant: definition.perTenant,
+        lastSuccessAt,
+        lastFailureAt,
+        failingTenants,
+        healthy:
+          !!lastSuccessAt &&
+          now.getTime() - lastSuccessAt.getTime() <= definition.staleAfter &&
+          // No fan-out, a própria execução só falha ao distribuir
+          (!ownFailureAt || (!!ownSuccessAt && ownFailureAt < ownSuccessAt)) &&
+          failingTenants === 0,
+      };
+    });
+
+    return {
+      status: jobs.every((job) => job.healthy) ? 'ok' : 'degraded',
+      jobs,
+    };
+  }
+
+  async findRuns(query: QueryMaintenanceRunsDto) {
+    const where: Prisma.MaintenanceRunWhereInput = {};
+
+    if (query.job) where.job = query.job;
+    if (query.status) where.status = query.status;
+    if (query.tenantId) where.tenantId = query.tenantId;
+
+    return this.prisma.maintenanceRun.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      take: query.limit || 50,
+      skip: query.offset || 0,
+    });
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private getJob(name: string): MaintenanceJob {
+    const definition = Object.values(MAINTENANCE_JOBS).find(
+      (job) => job.name === name,
+    );
+
+    if (!definition) {
+      throw new NotFoundException('Rotina de manutenção não encontrada');
+    }
+
+    return definition;
+  }
+
+  /**
+   * Executa com lock entre instâncias e grava o histórico. Se outra
+   * instância já está rodando a mesma rotina, esta execução é ignorada
+   */
+  private async run(
+    definition: MaintenanceJob,
+    context: { tenantId?: string; triggeredBy?: string },
+    fn: () => Promise<number | void>,
+  ) {
+    const lockName = ['maintenance', definition.name, context.tenantId]
+      .filter(Boolean)
+      .join(':');
+
+    const token = await this.redis.acquireLock(lockName, LOCK_TTL);
+    if (!token) {
+      this.logger.warn(`${lockName} is already running, skipping`);
+      return { skipped: true };
+    }
+
+    const run = await this.prisma.maintenanceRun.create({
+      data: {
+        job: definition.name,
+        tenantId: context.tenantId,
+        triggeredBy: context.triggeredBy,
+      },
+    });
+
+    try {
+      const processed = await fn();
+      const finishedAt = new Date();
+
+      await this.prisma.maintenanceRun.update({
+        where: { id: run.id },
+        data: {
+          status: JobStatus.COMPLETED,
+          processed: processed ?? null,
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        },
+      });
+
+      return { processed: processed ?? null };
+    } catch (error) {
+      const finishedAt = new Date();
+
+      await this.prisma.maintenanceRun.update({
+        where: { id: run.id },
+        data: {
+          status: JobStatus.FAILED,
+          errorMessage: error.message,
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        },
+      });
+
+      throw error;
+    } finally {
+      await this.redis.releaseLock(lockName, token);
+    }
+  }
+
+  /**
+   * Último sucesso e última falha de cada tenant em uma rotina por tenant
+   */
+  private tenantOutcomes(
+    job: string,
+    grouped: {
+      job: string;
+      tenantId: string | null;
+      status: JobStatus;
+      _max: { finishedAt: Date | null };
+    }[],
+  ) {
+    const byTenant = new Map<
+      string,
+      { successAt: Date | null; failureAt: Date | null }
+    >();
+
+    for (const row of grouped) {
+      if (row.job !== job || !row.tenantId) continue;
+
+      const outcome = byTenant.get(row.tenantId) ?? {
+        successAt: null,
+        failureAt: null,
+      };
+      if (row.status === JobStatus.COMPLETED) {
+        outcome.successAt = row._max.finishedAt;
+      } else {
+        outcome.failureAt = row._max.finishedAt;
+      }
+      byTenant.set(row.tenantId, outcome);
+    }
+
+    return [...byTenant.values()];
+  }
+
+  private async fanOut(definition: MaintenanceJob, triggeredBy?: string) {
+    const tenants = await this.prisma.tenant.findMany({
+      where: { isActive: true },
+      select: { id: true },
+    });
+
+    await this.queuesService.getQueue(QUEUE_NAMES.MAINTENANCE).addBulk(
+      tenants.map((tenant) => ({
+        name: definition.name,
+        data: { tenantId: tenant.id, triggeredBy },
+        opts: JOB_OPTIONS.MAINTENANCE,
+      })),
+    );
+
+    return tenants.length;
+  }
+
+  private async cleanOldRuns() {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - RUNS_RETENTION_DAYS);
+
+    const result = await this.prisma.maintenanceRun.deleteMany({
+      where: { startedAt: { lt: cutoff } },
+    });
+
+    return result.count;
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { QueuesService } from '../queues.service';
+import { NfseService } from '../../modules/nfse/nfse.service';
+import { QUEUE_NAMES, NFSE_JOBS, NfseJobData } from '../queues.constants';
+
+@Injectable()
+export class BillingProcessor implements OnModuleInit {
+  private readonly logger = new Logger(BillingProcessor.name);
+
+  constructor(
+    private queuesService: QueuesService,
+    private nfseService: NfseService,
+  ) {}
+
+  onModuleInit() {
+    this.queuesService.registerWorker(
+      QUEUE_NAMES.BILLING,
+      this.process.bind(this),
+      { concurrency: 2 },
+    );
+    this.logger.log('Billing processor initialized');
+  }
+
+  async process(job: Job<NfseJobData>): Promise<any> {
+    this.logger.debug(`Processing billing job ${job.id}: ${job.name}`);
+
+    const { data } = job;
+
+    try {
+      switch (job.name) {
+        case NFSE_JOBS.ISSUE:
+          return await this.nfseService.processIssue(data.serviceInvoiceId);
+
+        case NFSE_JOBS.CHECK_STATUS:
+          return await this.nfseService.processStatusCheck(
+            data.serviceInvoiceId,
+          );
+
+        default:
+          this.logger.warn(`Unknown billing job type: ${job.name}`);
+          return null;
+      }
+    } catch (error) {
+      this.logger.error(`Billing job ${job.id} failed: ${error.message}`);
+
+      // Última tentativa: a nota fica com falha para reenvio manual
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await this.nfseService.markFailed(data.serviceInvoiceId, error.message);
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { QueuesService } from '../queues.service';
+import { MaintenanceService } from '../maintenance.service';
+import { QUEUE_NAMES, MaintenanceJobData } from '../queues.constants';
+
+@Injectable()
+export class MaintenanceProcessor implements OnModuleInit {
+  private readonly logger = new Logger(MaintenanceProcessor.name);
+
+  constructor(
+    private queuesService: QueuesService,
+    private maintenanceService: MaintenanceService,
+  ) {}
+
+  onModuleInit() {
+    this.queuesService.registerWorker(
+      QUEUE_NAMES.MAINTENANCE,
+      this.process.bind(this),
+      { concurrency: 2 },
+    );
+    this.logger.log('Maintenance processor initialized');
+  }
+
+  async process(job: Job<MaintenanceJobData>): Promise<any> {
+    this.logger.debug(
+      `Processing maintenance job ${job.id}: ${job.name}` +
+        (job.data.tenantId ? ` (tenant ${job.data.tenantId})` : ''),
+    );
+
+    try {
+      return await this.maintenanceService.execute(job);
+    } catch (error) {
+      this.logger.error(`Maintenance job ${job.id} failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
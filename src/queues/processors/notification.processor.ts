@@ -2,10 +2,13 @@ import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { QueuesService } from '../queues.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { AppointmentRemindersService } from '../../modules/notifications/appointment-reminders.service';
+import { LeadAutomationService } from '../../modules/leads/lead-automation.service';
 import {
   QUEUE_NAMES,
   NOTIFICATION_JOBS,
   NotificationJobData,
+  LeadAutomationJobData,
   EMAIL_JOBS,
   WHATSAPP_JOBS,
 } from '../queues.constants';
@@ -18,6 +21,8 @@ export class NotificationProcessor implements OnModuleInit {
   constructor(
     private queuesService: QueuesService,
     private prisma: PrismaService,
+    private appointmentReminders: AppointmentRemindersService,
+    private leadAutomation: LeadAutomationService,
   ) {}
 
   onModuleInit() {
@@ -45,6 +50,12 @@ export class NotificationProcessor implements OnModuleInit {
         case NOTIFICATION_JOBS.PROCESS_SCHEDULED:
           return this.handleProcessScheduled(job);
 
+        case NOTIFICATION_JOBS.SCHEDULE_APPOINTMENT_REMINDERS:
+          return this.handleScheduleAppointmentReminders(job);
+
+        case NOTIFICATION_JOBS.RUN_LEAD_AUTOMATION:
+          return this.handleRunLeadAutomation(job as Job);
+
         default:
           this.logger.warn(`Unknown notification job type: ${job.name}`);
           return this.handleSendNotification(job);
@@ -161,6 +172,58 @@ export class NotificationProcessor implements OnModuleInit {
 
     await job.updateProgress(10);
 
+    return this.queueScheduledNotifications(tenantId, job);
+  }
+
+  /**
+   * Job repetível: gera os lembretes automáticos de agendamento e
+   * enfileira as notificações agendadas que já venceram
+   */
+  private async handleScheduleAppointmentReminders(job: Job): Promise<number> {
+    const cancelled = await this.appointmentReminders.cancelStaleReminders();
+    const created = await this.appointmentReminders.scheduleDueReminders();
+
+    await job.updateProgress(50);
+
+    const tenants = await this.prisma.notification.findMany({
+      where: {
+        status: NotificationStatus.SCHEDULED,
+        scheduledAt: { lte: new Date() },
+      },
+      distinct: ['tenantId'],
+      select: { tenantId: true },
+    });
+
+    let queued = 0;
+    for (const { tenantId } of tenants) {
+      queued += await this.queueScheduledNotifications(tenantId);
+    }
+
+    await job.updateProgress(100);
+
+    this.logger.log(
+      `Appointment reminders: ${created} scheduled, ${cancelled} cancelled, ${queued} queued`,
+    );
+
+    return queued;
+  }
+
+  private async handleRunLeadAutomation(
+    job: Job<LeadAutomationJobData>,
+  ): Promise<number> {
+    const executed = await this.leadAutomation.execute(job.data);
+
+    this.logger.debug(
+      `Lead ${job.data.leadId}: ${executed} ${job.data.trigger} automation(s) executed`,
+    );
+
+    return executed;
+  }
+
+  private async queueScheduledNotifications(
+    tenantId: string,
+    job?: Job<NotificationJobData>,
+  ): Promise<number> {
     // Buscar notificações agendadas que precisam ser enviadas
     const scheduledNotifications = await this.prisma.notification.findMany({
       where: {
@@ -173,7 +236,7 @@ export class NotificationProcessor implements OnModuleInit {
       take: 100, // Processar em lotes de 100
     });
 
-    await job.updateProgress(30);
+    await job?.updateProgress(30);
 
     if (scheduledNotifications.length === 0) {
       this.logger.debug(`No scheduled notifications to process for tenant ${tenantId}`);
@@ -196,6 +259,11 @@ export class NotificationProcessor implements OnModuleInit {
           subject: notification.subject || undefined,
           content: notification.content,
         });
+        // Sai de SCHEDULED para não ser enfileirada de novo na próxima execução
+        await this.updateNotificationStatus(
+          notification.id,
+          NotificationStatus.PENDING,
+        );
         processed++;
       } catch (error) {
         this.logger.error(
@@ -204,7 +272,9 @@ export class NotificationProcessor implements OnModuleInit {
       }
 
       // Atualizar progresso
-      await job.updateProgress(30 + (processed / scheduledNotifications.length) * 70);
+      await job?.updateProgress(
+        30 + (processed / scheduledNotifications.length) * 70,
+      );
     }
 
     this.logger.log(
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { Job } from 'bullmq';
 import { QueuesService } from '../queues.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { UsageService } from '../../modules/plans/usage.service';
 import { QUEUE_NAMES, WHATSAPP_JOBS, WhatsAppJobData } from '../queues.constants';
 import { WhatsAppProvider, NotificationStatus } from '@prisma/client';
 
@@ -14,6 +15,7 @@ export class WhatsAppProcessor implements OnModuleInit {
     private queuesService: QueuesService,
     private prisma: PrismaService,
     private configService: ConfigService,
+    private usage: UsageService,
   ) {}
 
   onModuleInit() {
@@ -74,19 +76,19 @@ export class WhatsAppProcessor implements OnModuleInit {
 
     await job.updateProgress(30);
 
-    // Enviar mensagem baseado no provider
-    let success = false;
+    // Enviar mensagem baseado no provider (retorna o ID da mensagem no provedor)
+    let externalId: string | null;
     switch (config.provider) {
       case WhatsAppProvider.EVOLUTION_API:
-        success = await this.sendViaEvolutionAPI(config, to, message || '');
+        externalId = await this.sendViaEvolutionAPI(config, to, message || '');
         break;
 
       case WhatsAppProvider.META_CLOUD_API:
-        success = await this.sendViaMetaAPI(config, to, message || '');
+        externalId = await this.sendViaMetaAPI(config, to, message || '');
         break;
 
       case WhatsAppProvider.TWILIO:
-        success = await this.sendViaTwilio(config, to, message || '');
+        externalId = await this.sendViaTwilio(config, to, message || '');
         break;
 
       default:
@@ -95,22 +97,18 @@ export class WhatsAppProcessor implements OnModuleInit {
 
     await job.updateProgress(90);
 
-    // Atualizar status da notificação se existir
-    if (notificationId && success) {
-      await this.prisma.notification.update({
-        where: { id: notificationId },
-        data: {
-          status: NotificationStatus.DELIVERED,
-          deliveredAt: new Date(),
-        },
-      });
+    await this.usage.record(tenantId, 'whatsapp');
+
+    // Entrega e leitura são atualizadas pelos callbacks de status do webhook
+    if (notificationId) {
+      await this.markNotificationSent(notificationId, externalId);
     }
 
     await job.updateProgress(100);
 
     this.logger.log(`WhatsApp message sent to ${to} via ${config.provider}`);
 
-    return success;
+    return true;
   }
 
   private async handleSendTemplate(job: Job<WhatsAppJobData>): Promise<boolean> {
@@ -135,7 +133,7 @@ export class WhatsAppProcessor implements OnModuleInit {
       } as Job<WhatsAppJobData>);
     }
 
-    const success = await this.sendTemplateViaMetaAPI(
+    const externalId = await this.sendTemplateViaMetaAPI(
       config,
       to,
       templateName || '',
@@ -144,19 +142,15 @@ export class WhatsAppProcessor implements OnModuleInit {
 
     await job.updateProgress(90);
 
-    if (notificationId && success) {
-      await this.prisma.notification.update({
-        where: { id: notificationId },
-        data: {
-          status: NotificationStatus.DELIVERED,
-          deliveredAt: new Date(),
-        },
-      });
+    await this.usage.record(tenantId, 'whatsapp');
+
+    if (notificationId) {
+      await this.markNotificationSent(notificationId, externalId);
     }
 
     await job.updateProgress(100);
 
-    return success;
+    return true;
   }
 
   private async handleSendMedia(job: Job<WhatsAppJobData>): Promise<boolean> {
@@ -199,6 +193,10 @@ export class WhatsAppProcessor implements OnModuleInit {
 
     await job.updateProgress(90);
 
+    if (success) {
+      await this.usage.record(tenantId, 'whatsapp');
+    }
+
     if (notificationId && success) {
       await this.prisma.notification.update({
         where: { id: notificationId },
@@ -222,7 +220,7 @@ export class WhatsAppProcessor implements OnModuleInit {
     config: any,
     to: string,
     message: string,
-  ): Promise<boolean> {
+  ): Promise<string | null> {
     const baseUrl = config.apiUrl || this.configService.get('EVOLUTION_API_URL');
     const instanceId = config.instanceId;
     const apiKey = config.apiKey;
@@ -252,7 +250,7 @@ export class WhatsAppProcessor implements OnModuleInit {
       const result = await response.json();
       this.logger.debug(`Evolution API response: ${JSON.stringify(result)}`);
 
-      return true;
+      return result?.key?.id ?? null;
     } catch (error) {
       this.logger.error(`Evolution API error: ${error.message}`);
       throw error;
@@ -263,7 +261,7 @@ export class WhatsAppProcessor implements OnModuleInit {
     config: any,
     to: string,
     message: string,
-  ): Promise<boolean> {
+  ): Promise<string | null> {
     const accessToken = config.apiKey;
     const phoneNumberId = config.phoneNumberId;
 
@@ -298,7 +296,7 @@ export class WhatsAppProcessor implements OnModuleInit {
       const result = await response.json();
       this.logger.debug(`Meta API response: ${JSON.stringify(result)}`);
 
-      return true;
+      return result?.messages?.[0]?.id ?? null;
     } catch (error) {
       this.logger.error(`Meta API error: ${error.message}`);
       throw error;
@@ -309,7 +307,7 @@ export class WhatsAppProcessor implements OnModuleInit {
     config: any,
     to: string,
     message: string,
-  ): Promise<boolean> {
+  ): Promise<string | null> {
     const accountSid = config.apiKey;
     const authToken = config.apiSecret;
     const fromNumber = config.phoneNumber;
@@ -343,7 +341,7 @@ export class WhatsAppProcessor implements OnModuleInit {
       const result = await response.json();
       this.logger.debug(`Twilio response: ${JSON.stringify(result)}`);
 
-      return true;
+      return result?.sid ?? null;
     } catch (error) {
       this.logger.error(`Twilio error: ${error.message}`);
       throw error;
@@ -355,7 +353,7 @@ export class WhatsAppProcessor implements OnModuleInit {
     to: string,
     templateName: string,
     params: Record<string, string>,
-  ): Promise<boolean> {
+  ): Promise<string | null> {
     const accessToken = config.apiKey;
     const phoneNumberId = config.phoneNumberId;
 
@@ -406,7 +404,8 @@ export class WhatsAppProcessor implements OnModuleInit {
         throw new Error(`Meta API template error: ${JSON.stringify(error)}`);
       }
 
-      return true;
+      const result = await response.json();
+      return result?.messages?.[0]?.id ?? null;
     } catch (error) {
       this.logger.error(`Meta API template error: ${error.message}`);
       throw error;
@@ -528,6 +527,20 @@ export class WhatsAppProcessor implements OnModuleInit {
     return message;
   }
 
+  private async markNotificationSent(
+    notificationId: string,
+    externalId: string | null,
+  ): Promise<void> {
+    await this.prisma.notification.update({
+      where: { id: notificationId },
+      data: {
+        status: NotificationStatus.SENT,
+        sentAt: new Date(),
+        externalId,
+      },
+    });
+  }
+
   private async updateNotificationStatus(
     notificationId: string,
     errorMessage: string,
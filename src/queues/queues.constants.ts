@@ -9,6 +9,7 @@ export const QUEUE_NAMES = {
   WHATSAPP: 'whatsapp',
   BILLING: 'billing',
   REPORTS: 'reports',
+  MAINTENANCE: 'maintenance',
 } as const;
 
 // Tipos de jobs por fila
@@ -25,8 +26,113 @@ export const NOTIFICATION_JOBS = {
   SEND_NOTIFICATION: 'send-notification',
   SEND_BULK: 'send-bulk-notification',
   PROCESS_SCHEDULED: 'process-scheduled',
+  SCHEDULE_APPOINTMENT_REMINDERS: 'schedule-appointment-reminders',
+  RUN_LEAD_AUTOMATION: 'run-lead-automation',
 } as const;
 
+// Jobs repetíveis (id do scheduler -> intervalo em ms)
+export const REPEATABLE_JOBS = {
+  APPOINTMENT_REMINDERS: {
+    id: 'appointment-reminders',
+    every: 5 * 60 * 1000, // 5 minutos
+  },
+} as const;
+
+const HOUR = 60 * 60 * 1000;
+
+// Rotinas de manutenção (fila maintenance). Cada módulo registra o handler
+// no MaintenanceService; perTenant dispara uma execução por tenant ativo.
+// staleAfter: sem sucesso nesse intervalo o job aparece como não saudável
+export const MAINTENANCE_JOBS = {
+  EXPIRE_PACKAGES: {
+    name: 'expire-packages',
+    pattern: '0 0 * * *', // Meia-noite
+    perTenant: false,
+    staleAfter: 48 * HOUR,
+  },
+  EXPIRE_SIGNATURE_REQUESTS: {
+    name: 'expire-signature-requests',
+    pattern: '0 * * * *', // De hora em hora
+    perTenant: false,
+    staleAfter: 3 * HOUR,
+  },
+  PROCESS_BILLING_JOBS: {
+    name: 'process-billing-jobs',
+    pattern: '*/5 * * * *', // A cada 5 minutos
+    perTenant: false,
+    staleAfter: HOUR,
+  },
+  GENERATE_RECURRING_TRANSACTIONS: {
+    name: 'generate-recurring-transactions',
+    pattern: '0 5 * * *', // 05:00
+    perTenant: true,
+    staleAfter: 48 * HOUR,
+  },
+  CLEAN_AUDIT_LOGS: {
+    name: 'clean-audit-logs',
+    pattern: '0 4 * * 0', // Domingo 04:00
+    perTenant: true,
+    staleAfter: 8 * 24 * HOUR,
+  },
+  CLEANUP_EXPIRED_TOKENS: {
+    name: 'cleanup-expired-tokens',
+    pattern: '0 3 * * *', // 03:00
+    perTenant: false,
+    staleAfter: 48 * HOUR,
+  },
+  COMPUTE_CLIENT_INSIGHTS: {
+    name: 'compute-client-insights',
+    pattern: '0 2 * * *', // 02:00
+    perTenant: true,
+    staleAfter: 48 * HOUR,
+  },
+  LEAD_INACTIVITY_AUTOMATIONS: {
+    name: 'lead-inactivity-automations',
+    pattern: '0 * * * *', // De hora em hora
+    perTenant: true,
+    staleAfter: 3 * HOUR,
+  },
+  REASSIGN_STALE_LEADS: {
+    name: 'reassign-stale-leads',
+    pattern: '15 * * * *', // De hora em hora
+    perTenant: true,
+    staleAfter: 3 * HOUR,
+  },
+  SEND_OVERDUE_REMINDERS: {
+    name: 'send-overdue-reminders',
+    pattern: '0 10 * * *', // 10:00, horário comercial para o cliente
+    perTenant: false,
+    staleAfter: 48 * HOUR,
+  },
+  CHECK_BUDGET_ALERTS: {
+    name: 'check-budget-alerts',
+    pattern: '0 * * * *', // De hora em hora
+    perTenant: false,
+    staleAfter: 3 * HOUR,
+  },
+  RELEASE_EXPIRED_DEPOSIT_HOLDS: {
+    name: 'release-expired-deposit-holds',
+    pattern: '* * * * *', // A cada minuto
+    perTenant: false,
+    staleAfter: HOUR / 4,
+  },
+  EXPIRE_UNPAID_CHARGES: {
+    name: 'expire-unpaid-charges',
+    pattern: '*/10 * * * *', // A cada 10 minutos
+    perTenant: false,
+    staleAfter: HOUR,
+  },
+  CLEAN_MAINTENANCE_RUNS: {
+    name: 'clean-maintenance-runs',
+    pattern: '30 4 * * 0', // Domingo 04:30
+    perTenant: false,
+    staleAfter: 8 * 24 * HOUR,
+  },
+} as const;
+
+export type MaintenanceJob =
+  (typeof MAINTENANCE_JOBS)[keyof typeof MAINTENANCE_JOBS];
+
 export const WHATSAPP_JOBS = {
   SEND_MESSAGE: 'send-message',
   SEND_TEMPLATE: 'send-template',
@@ -43,6 +149,12 @@ export const BILLING_JOBS = {
   CANCEL_SUBSCRIPTION: 'cancel-subscription',
 } as const;
 
+// NFS-e roda na fila de billing
+export const NFSE_JOBS = {
+  ISSUE: 'issue-nfse',
+  CHECK_STATUS: 'check-nfse-status',
+} as const;
+
 export const REPORTS_JOBS = {
   GENERATE_FINANCIAL: 'generate-financial',
   GENERATE_APPOINTMENTS: 'generate-appointments',
@@ -96,6 +208,16 @@ export const JOB_OPTIONS = {
     attempts: 2,
     timeout: 300000, // 5 minutos para relatórios
   },
+  // Sem retentativa: a próxima execução agendada refaz o trabalho
+  MAINTENANCE: {
+    ...DEFAULT_JOB_OPTIONS,
+    attempts: 1,
+  },
+  // Sem retentativa: as ações (ex.: envio de template) não são idempotentes
+  LEAD_AUTOMATION: {
+    ...DEFAULT_JOB_OPTIONS,
+    attempts: 1,
+  },
 };
 
 // Prioridades de jobs (menor = maior prioridade)
@@ -140,6 +262,16 @@ export interface NotificationJobData {
   metadata?: Record<string, any>;
 }
 
+// Execução das automações de leads (roda na fila de notificações)
+export interface LeadAutomationJobData {
+  tenantId: string;
+  leadId: string;
+  trigger: string; // LeadAutomationTrigger
+  ruleId?: string; // NO_INTERACTION: apenas a regra que venceu
+  fromStage?: string; // STAGE_CHANGED: estágio anterior
+  executedRuleIds?: string[]; // Regras já executadas nesta cadeia (proteção contra loops)
+}
+
 export interface WhatsAppJobData {
   tenantId: string;
   to: string;
@@ -160,6 +292,16 @@ export interface BillingJobData {
   metadata?: Record<string, any>;
 }
 
+export interface NfseJobData {
+  tenantId: string;
+  serviceInvoiceId: string;
+}
+
+export interface MaintenanceJobData {
+  tenantId?: string; // Presente nas execuções do fan-out por tenant
+  triggeredBy?: string; // Usuário do disparo manual
+}
+
 export interface ReportJobData {
   tenantId: string;
   reportType: string;
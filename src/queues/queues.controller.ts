@@ -4,21 +4,30 @@ import {
   Post,
   Delete,
   Param,
+  Body,
+  Query,
   UseGuards,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
 import { QueuesService } from './queues.service';
+import { MaintenanceService } from './maintenance.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import type { CurrentUserData } from '../common/decorators/current-user.decorator';
 import { QUEUE_NAMES } from './queues.constants';
+import { TriggerMaintenanceJobDto, QueryMaintenanceRunsDto } from './dto';
 
 @Controller('queues')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Roles('SUPER_ADMIN', 'ADMIN')
 export class QueuesController {
-  constructor(private readonly queuesService: QueuesService) {}
+  constructor(
+    private readonly queuesService: QueuesService,
+    private readonly maintenanceService: MaintenanceService,
+  ) {}
 
   /**
    * Obtém estatísticas de todas as filas
@@ -40,6 +49,39 @@ export class QueuesController {
     };
   }
 
+  /**
+   * Rotinas de manutenção com a última execução de cada uma
+   * GET /api/queues/maintenance/jobs
+   */
+  @Get('maintenance/jobs')
+  async getMaintenanceJobs() {
+    return this.maintenanceService.getHealth();
+  }
+
+  /**
+   * Histórico de execuções (duração, registros afetados e erros)
+   * GET /api/queues/maintenance/runs
+   */
+  @Get('maintenance/runs')
+  async getMaintenanceRuns(@Query() query: QueryMaintenanceRunsDto) {
+    return this.maintenanceService.findRuns(query);
+  }
+
+  /**
+   * Dispara uma rotina de manutenção fora do agendamento
+   * POST /api/queues/maintenance/:job/run
+   */
+  @Post('maintenance/:job/run')
+  @Roles('SUPER_ADMIN')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async triggerMaintenanceJob(
+    @Param('job') job: string,
+    @Body() dto: TriggerMaintenanceJobDto,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    return this.maintenanceService.trigger(job, user.id, dto.tenantId);
+  }
+
   /**
    * Obtém estatísticas de uma fila específica
    * GET /api/queues/:queueName/stats
@@ -129,6 +171,7 @@ export class QueuesController {
         [QUEUE_NAMES.WHATSAPP]: 'Fila de mensagens WhatsApp',
         [QUEUE_NAMES.BILLING]: 'Fila de processamento de cobrança',
         [QUEUE_NAMES.REPORTS]: 'Fila de geração de relatórios',
+        [QUEUE_NAMES.MAINTENANCE]: 'Fila de rotinas de manutenção agendadas',
       },
     };
   }
@@ -1,12 +1,18 @@
 import { Module, Global } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { QueuesService } from './queues.service';
+import { MaintenanceService } from './maintenance.service';
 import { QueuesController } from './queues.controller';
 import { EmailProcessor } from './processors/email.processor';
 import { NotificationProcessor } from './processors/notification.processor';
 import { WhatsAppProcessor } from './processors/whatsapp.processor';
+import { BillingProcessor } from './processors/billing.processor';
+import { MaintenanceProcessor } from './processors/maintenance.processor';
 import { PrismaModule } from '../prisma/prisma.module';
 import { EmailModule } from '../modules/email/email.module';
+import { NotificationsModule } from '../modules/notifications/notifications.module';
+import { NfseModule } from '../modules/nfse/nfse.module';
+import { LeadsModule } from '../modules/leads/leads.module';
 
 @Global()
 @Module({
@@ -14,14 +20,20 @@ import { EmailModule } from '../modules/email/email.module';
     ConfigModule,
     PrismaModule,
     EmailModule,
+    NotificationsModule,
+    NfseModule,
+    LeadsModule,
   ],
   controllers: [QueuesController],
   providers: [
     QueuesService,
+    MaintenanceService,
     EmailProcessor,
     NotificationProcessor,
     WhatsAppProcessor,
+    BillingProcessor,
+    MaintenanceProcessor,
   ],
-  exports: [QueuesService],
+  exports: [QueuesService, MaintenanceService],
 })
 export class QueuesModule {}
@@ -1,4 +1,9 @@
-import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  OnModuleInit,
+  OnModuleDestroy,
+  Logger,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
 import {
@@ -7,13 +12,18 @@ import {
   NOTIFICATION_JOBS,
   WHATSAPP_JOBS,
   BILLING_JOBS,
+  NFSE_JOBS,
   REPORTS_JOBS,
   JOB_OPTIONS,
   JOB_PRIORITY,
+  REPEATABLE_JOBS,
+  MAINTENANCE_JOBS,
   EmailJobData,
   NotificationJobData,
+  LeadAutomationJobData,
   WhatsAppJobData,
   BillingJobData,
+  NfseJobData,
   ReportJobData,
 } from './queues.constants';
 
@@ -27,7 +37,8 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
 
   constructor(private configService: ConfigService) {
     // Parsear URL do Redis
-    const redisUrl = this.configService.get<string>('REDIS_URL') || 'redis://localhost:6379';
+    const redisUrl =
+      this.configService.get<string>('REDIS_URL') || 'redis://localhost:6379';
     const url = new URL(redisUrl);
     this.redisConnection = {
       host: url.hostname,
@@ -44,7 +55,11 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
       await this.createQueue(queueName);
     }
 
-    this.logger.log(`BullMQ queues initialized: ${Object.values(QUEUE_NAMES).join(', ')}`);
+    this.logger.log(
+      `BullMQ queues initialized: ${Object.values(QUEUE_NAMES).join(', ')}`,
+    );
+
+    await this.registerRepeatableJobs();
   }
 
   async onModuleDestroy() {
@@ -100,7 +115,9 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     });
 
     events.on('failed', ({ jobId, failedReason }) => {
-      this.logger.error(`Job ${jobId} failed in queue ${name}: ${failedReason}`);
+      this.logger.error(
+        `Job ${jobId} failed in queue ${name}: ${failedReason}`,
+      );
     });
 
     this.queues.set(name, queue);
@@ -109,15 +126,50 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     return queue;
   }
 
+  /**
+   * Registra os jobs repetíveis. O upsert por id mantém um único
+   * agendamento mesmo com várias instâncias da API
+   */
+  private async registerRepeatableJobs() {
+    const { id, every } = REPEATABLE_JOBS.APPOINTMENT_REMINDERS;
+
+    await this.getQueue(QUEUE_NAMES.NOTIFICATION).upsertJobScheduler(
+      id,
+      { every },
+      {
+        name: NOTIFICATION_JOBS.SCHEDULE_APPOINTMENT_REMINDERS,
+        opts: { removeOnComplete: true, removeOnFail: 100 },
+      },
+    );
+
+    this.logger.log(`Repeatable job registered: ${id} (every ${every}ms)`);
+
+    for (const { name, pattern } of Object.values(MAINTENANCE_JOBS)) {
+      await this.getQueue(QUEUE_NAMES.MAINTENANCE).upsertJobScheduler(
+        name,
+        { pattern },
+        {
+          name,
+          data: {},
+          opts: { ...JOB_OPTIONS.MAINTENANCE, removeOnComplete: true },
+        },
+      );
+    }
+
+    this.logger.log(
+      `Maintenance jobs registered: ${Object.values(MAINTENANCE_JOBS).length}`,
+    );
+  }
+
   /**
    * Obtém uma fila pelo nome
    */
-  getQueue(name: string): Queue {
+  getQueue<T = any>(name: string): Queue<T> {
     const queue = this.queues.get(name);
     if (!queue) {
       throw new Error(`Queue ${name} not found`);
     }
-    return queue;
+    return queue as Queue<T>;
   }
 
   /**
@@ -136,7 +188,9 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     options?: { concurrency?: number },
   ): Worker {
     if (this.workers.has(queueName)) {
-      this.logger.warn(`Worker for queue ${queueName} already exists, replacing...`);
+      this.logger.warn(
+        `Worker for queue ${queueName} already exists, replacing...`,
+      );
       this.workers.get(queueName)?.close();
     }
 
@@ -150,7 +204,9 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     });
 
     worker.on('failed', (job, err) => {
-      this.logger.error(`Job ${job?.id} failed in ${queueName}: ${err.message}`);
+      this.logger.error(
+        `Job ${job?.id} failed in ${queueName}: ${err.message}`,
+      );
     });
 
     worker.on('error', (err) => {
@@ -175,7 +231,7 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     data: EmailJobData,
     options?: { priority?: number; delay?: number },
   ): Promise<Job<EmailJobData>> {
-    const queue = this.getQueue(QUEUE_NAMES.EMAIL);
+    const queue = this.getQueue<EmailJobData>(QUEUE_NAMES.EMAIL);
     return queue.add(jobName, data, {
       ...JOB_OPTIONS.EMAIL,
       priority: options?.priority || JOB_PRIORITY.NORMAL,
@@ -192,12 +248,16 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     userName: string,
     resetLink: string,
   ): Promise<Job<EmailJobData>> {
-    return this.addEmailJob(EMAIL_JOBS.SEND_PASSWORD_RESET, {
-      to,
-      subject: 'Recuperação de Senha - Belu',
-      template: 'password-reset',
-      context: { userName, resetLink },
-    }, { priority: JOB_PRIORITY.HIGH });
+    return this.addEmailJob(
+      EMAIL_JOBS.SEND_PASSWORD_RESET,
+      {
+        to,
+        subject: 'Recuperação de Senha - Belu',
+        template: 'password-reset',
+        context: { userName, resetLink },
+      },
+      { priority: JOB_PRIORITY.HIGH },
+    );
   }
 
   async sendWelcomeEmail(
@@ -225,7 +285,7 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     data: NotificationJobData,
     options?: { priority?: number; delay?: number },
   ): Promise<Job<NotificationJobData>> {
-    const queue = this.getQueue(QUEUE_NAMES.NOTIFICATION);
+    const queue = this.getQueue<NotificationJobData>(QUEUE_NAMES.NOTIFICATION);
 
     // Se tiver scheduledAt, calcular delay
     let delay = options?.delay;
@@ -242,14 +302,16 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
-  async sendNotification(data: NotificationJobData): Promise<Job<NotificationJobData>> {
+  async sendNotification(
+    data: NotificationJobData,
+  ): Promise<Job<NotificationJobData>> {
     return this.addNotificationJob(NOTIFICATION_JOBS.SEND_NOTIFICATION, data);
   }
 
   async sendBulkNotifications(
     notifications: NotificationJobData[],
   ): Promise<Job<NotificationJobData>[]> {
-    const queue = this.getQueue(QUEUE_NAMES.NOTIFICATION);
+    const queue = this.getQueue<NotificationJobData>(QUEUE_NAMES.NOTIFICATION);
     const jobs = notifications.map((data) => ({
       name: NOTIFICATION_JOBS.SEND_NOTIFICATION,
       data,
@@ -258,6 +320,19 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     return queue.addBulk(jobs);
   }
 
+  /**
+   * Enfileira a execução das automações de um lead
+   */
+  async runLeadAutomation(
+    data: LeadAutomationJobData,
+  ): Promise<Job<LeadAutomationJobData>> {
+    return this.getQueue<LeadAutomationJobData>(QUEUE_NAMES.NOTIFICATION).add(
+      NOTIFICATION_JOBS.RUN_LEAD_AUTOMATION,
+      data,
+      { ...JOB_OPTIONS.LEAD_AUTOMATION, priority: JOB_PRIORITY.LOW },
+    );
+  }
+
   // ============================================================================
   // WHATSAPP QUEUE METHODS
   // ============================================================================
@@ -270,7 +345,7 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     data: WhatsAppJobData,
     options?: { priority?: number; delay?: number },
   ): Promise<Job<WhatsAppJobData>> {
-    const queue = this.getQueue(QUEUE_NAMES.WHATSAPP);
+    const queue = this.getQueue<WhatsAppJobData>(QUEUE_NAMES.WHATSAPP);
     return queue.add(jobName, data, {
       ...JOB_OPTIONS.WHATSAPP,
       priority: options?.priority || JOB_PRIORITY.NORMAL,
@@ -278,14 +353,19 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
-  async sendWhatsAppMessage(data: WhatsAppJobData): Promise<Job<WhatsAppJobData>> {
+  async sendWhatsAppMessage(
+    data: WhatsAppJobData,
+  ): Promise<Job<WhatsAppJobData>> {
     return this.addWhatsAppJob(WHATSAPP_JOBS.SEND_MESSAGE, data);
   }
 
   async sendWhatsAppTemplate(
     data: Omit<WhatsAppJobData, 'message'> & { templateName: string },
   ): Promise<Job<WhatsAppJobData>> {
-    return this.addWhatsAppJob(WHATSAPP_JOBS.SEND_TEMPLATE, data as WhatsAppJobData);
+    return this.addWhatsAppJob(
+      WHATSAPP_JOBS.SEND_TEMPLATE,
+      data as WhatsAppJobData,
+    );
   }
 
   // ============================================================================
@@ -300,7 +380,7 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     data: BillingJobData,
     options?: { priority?: number; delay?: number },
   ): Promise<Job<BillingJobData>> {
-    const queue = this.getQueue(QUEUE_NAMES.BILLING);
+    const queue = this.getQueue<BillingJobData>(QUEUE_NAMES.BILLING);
     return queue.add(jobName, data, {
       ...JOB_OPTIONS.BILLING,
       priority: options?.priority || JOB_PRIORITY.NORMAL,
@@ -308,7 +388,10 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
-  async generateInvoice(subscriptionId: string, tenantId: string): Promise<Job<BillingJobData>> {
+  async generateInvoice(
+    subscriptionId: string,
+    tenantId: string,
+  ): Promise<Job<BillingJobData>> {
     return this.addBillingJob(BILLING_JOBS.GENERATE_INVOICE, {
       subscriptionId,
       tenantId,
@@ -316,12 +399,51 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
-  async processPayment(paymentId: string, tenantId: string): Promise<Job<BillingJobData>> {
-    return this.addBillingJob(BILLING_JOBS.PROCESS_PAYMENT, {
-      paymentId,
-      tenantId,
-      jobType: BILLING_JOBS.PROCESS_PAYMENT,
-    }, { priority: JOB_PRIORITY.HIGH });
+  async processPayment(
+    paymentId: string,
+    tenantId: string,
+  ): Promise<Job<BillingJobData>> {
+    return this.addBillingJob(
+      BILLING_JOBS.PROCESS_PAYMENT,
+      {
+        paymentId,
+        tenantId,
+        jobType: BILLING_JOBS.PROCESS_PAYMENT,
+      },
+      { priority: JOB_PRIORITY.HIGH },
+    );
+  }
+
+  /**
+   * Emissão de NFS-e. Prefeituras fora do ar caem nas retentativas do billing
+   */
+  async issueNfse(data: NfseJobData): Promise<Job<NfseJobData>> {
+    return this.getQueue<NfseJobData>(QUEUE_NAMES.BILLING).add(
+      NFSE_JOBS.ISSUE,
+      data,
+      {
+        ...JOB_OPTIONS.BILLING,
+        priority: JOB_PRIORITY.NORMAL,
+      },
+    );
+  }
+
+  /**
+   * Consulta de NFS-e enviada e ainda em processamento na prefeitura
+   */
+  async checkNfseStatus(
+    data: NfseJobData,
+    delay: number,
+  ): Promise<Job<NfseJobData>> {
+    return this.getQueue<NfseJobData>(QUEUE_NAMES.BILLING).add(
+      NFSE_JOBS.CHECK_STATUS,
+      data,
+      {
+        ...JOB_OPTIONS.BILLING,
+        priority: JOB_PRIORITY.LOW,
+        delay,
+      },
+    );
   }
 
   // ============================================================================
@@ -336,7 +458,7 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
     data: ReportJobData,
     options?: { priority?: number },
   ): Promise<Job<ReportJobData>> {
-    const queue = this.getQueue(QUEUE_NAMES.REPORTS);
+    const queue = this.getQueue<ReportJobData>(QUEUE_NAMES.REPORTS);
     return queue.add(jobName, data, {
       ...JOB_OPTIONS.REPORTS,
       priority: options?.priority || JOB_PRIORITY.LOW,
@@ -390,15 +512,17 @@ export class QueuesService implements OnModuleInit, OnModuleDestroy {
   /**
    * Obtém estatísticas de todas as filas
    */
-  async getAllQueueStats(): Promise<Array<{
-    name: string;
-    waiting: number;
-    active: number;
-    completed: number;
-    failed: number;
-    delayed: number;
-    total: number;
-  }>> {
+  async getAllQueueStats(): Promise<
+    Array<{
+      name: string;
+      waiting: number;
+      active: number;
+      completed: number;
+      failed: number;
+      delayed: number;
+      total: number;
+    }>
+  > {
     const stats: Array<{
       name: string;
       waiting: number;
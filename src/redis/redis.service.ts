@@ -1,6 +1,9 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable, Inject, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import type { Cache } from 'cache-manager';
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
 
 // TTL em milissegundos
 export const CACHE_TTL = {
@@ -19,17 +22,42 @@ export const CACHE_KEYS = {
   PROVIDERS: (tenantId: string) => `providers:${tenantId}`,
   PROVIDERS_ACTIVE: (tenantId: string) => `providers:active:${tenantId}`,
   CLIENTS: (tenantId: string) => `clients:${tenantId}`,
-  APPOINTMENTS: (tenantId: string, date: string) => `appointments:${tenantId}:${date}`,
-  MEDICAL_RECORD: (tenantId: string, clientId: string) => `medical-record:${tenantId}:${clientId}`,
-  MEDICAL_ENTRIES: (medicalRecordId: string) => `medical-entries:${medicalRecordId}`,
+  SEGMENT: (tenantId: string, segmentId: string) =>
+    `segments:${tenantId}:${segmentId}`,
+  APPOINTMENTS: (tenantId: string, date: string) =>
+    `appointments:${tenantId}:${date}`,
+  MEDICAL_RECORD: (tenantId: string, clientId: string) =>
+    `medical-record:${tenantId}:${clientId}`,
+  MEDICAL_ENTRIES: (medicalRecordId: string) =>
+    `medical-entries:${medicalRecordId}`,
   SESSION: (userId: string, tokenId: string) => `session:${userId}:${tokenId}`,
   USER_SESSIONS: (userId: string) => `sessions:${userId}`,
   RATE_LIMIT: (ip: string, endpoint: string) => `ratelimit:${ip}:${endpoint}`,
+  PLAN_ENTITLEMENTS: (tenantId: string) => `plans:tenant:${tenantId}`,
+  LOCK: (name: string) => `lock:${name}`,
 };
 
+// Só apaga a chave se ela ainda guarda o token de quem pediu a liberação
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
 @Injectable()
-export class RedisService {
-  constructor(@Inject(CACHE_MANAGER) private cacheManager: Cache) {}
+export class RedisService implements OnModuleDestroy {
+  private readonly logger = new Logger(RedisService.name);
+  private lockClient?: Redis;
+
+  constructor(
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private configService: ConfigService,
+  ) {}
+
+  async onModuleDestroy() {
+    await this.lockClient?.quit();
+  }
 
   /**
    * Busca um valor do cache
@@ -100,6 +128,67 @@ export class RedisService {
     return result;
   }
 
+  // ========== Locks distribuídos ==========
+
+  /**
+   * Tenta obter um lock entre instâncias. Retorna o token do dono ou null se
+   * outra instância já o detém. O TTL libera o lock de uma instância que caiu.
+   * Usa o mesmo Redis das filas: o cache pode estar em memória e não serve
+   * para coordenar instâncias. Sem Redis acessível o lock é negado
+   */
+  async acquireLock(name: string, ttl: number): Promise<string | null> {
+    const token = randomUUID();
+
+    try {
+      const result = await this.getLockClient().set(
+        CACHE_KEYS.LOCK(name),
+        token,
+        'PX',
+        ttl,
+        'NX',
+      );
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      this.logger.error(
+        `Could not acquire lock ${name}, Redis unavailable: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Libera o lock apenas se ainda pertence ao token informado
+   */
+  async releaseLock(name: string, token: string): Promise<void> {
+    try {
+      await this.getLockClient().eval(
+        RELEASE_LOCK_SCRIPT,
+        1,
+        CACHE_KEYS.LOCK(name),
+        token,
+      );
+    } catch (error) {
+      // O TTL libera o lock de qualquer forma
+      this.logger.error(`Could not release lock ${name}: ${error.message}`);
+    }
+  }
+
+  private getLockClient(): Redis {
+    if (!this.lockClient) {
+      const redisUrl =
+        this.configService.get<string>('REDIS_URL') || 'redis://localhost:6379';
+      this.lockClient = new Redis(redisUrl, {
+        lazyConnect: true,
+        maxRetriesPerRequest: 1,
+      });
+      this.lockClient.on('error', (error) =>
+        this.logger.warn(`Lock Redis connection error: ${error.message}`),
+      );
+    }
+
+    return this.lockClient;
+  }
+
   // ========== Métodos específicos para invalidação de cache ==========
 
   /**
@@ -132,9 +221,17 @@ export class RedisService {
    */
   async invalidateClients(tenantId: string): Promise<void> {
     await this.del(CACHE_KEYS.CLIENTS(tenantId));
+    await this.invalidateSegments(tenantId);
     await this.invalidateDashboard(tenantId);
   }
 
+  /**
+   * Invalida os clientes calculados dos segmentos de um tenant
+   */
+  async invalidateSegments(tenantId: string): Promise<void> {
+    await this.delByPattern(`segments:${tenantId}:*`);
+  }
+
   /**
    * Invalida cache de agendamentos de um tenant (para uma data específica ou todas)
    */
@@ -167,4 +264,11 @@ export class RedisService {
       await this.del(CACHE_KEYS.MEDICAL_ENTRIES(medicalRecordId));
     }
   }
+
+  /**
+   * Invalida os direitos de plano resolvidos de um tenant
+   */
+  async invalidatePlanEntitlements(tenantId: string): Promise<void> {
+    await this.del(CACHE_KEYS.PLAN_ENTITLEMENTS(tenantId));
+  }
 }
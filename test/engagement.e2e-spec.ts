@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import {
+  AppointmentStatus,
+  DiscountType,
+  GiftCardStatus,
+  PromotionType,
+  WaitlistStatus,
+} from '@prisma/client';
+import { PrismaModule } from './../src/prisma/prisma.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { RedisModule } from './../src/redis/redis.module';
+import { GiftCardsModule } from './../src/modules/gift-cards/gift-cards.module';
+import { GiftCardsService } from './../src/modules/gift-cards/gift-cards.service';
+import { LoyaltyModule } from './../src/modules/loyalty/loyalty.module';
+import { LoyaltyService } from './../src/modules/loyalty/loyalty.service';
+import { PromotionsModule } from './../src/modules/promotions/promotions.module';
+import { PromotionsService } from './../src/modules/promotions/promotions.service';
+import { ReviewsModule } from './../src/modules/reviews/reviews.module';
+import { ReviewsService } from './../src/modules/reviews/reviews.service';
+import { WaitlistModule } from './../src/modules/waitlist/waitlist.module';
+import { WaitlistService } from './../src/modules/waitlist/waitlist.service';
+
+/**
+ * Fluxos de fidelização gravados em um banco real (DATABASE_URL).
+ * Sem banco configurado a suíte é ignorada
+ */
+const describeWithDatabase = process.env.DATABASE_URL
+  ? describe
+  : describe.skip;
+
+describeWithDatabase('Engagement flows (e2e)', () => {
+  let moduleFixture: TestingModule;
+  let prisma: PrismaService;
+
+  let tenantId: string;
+  let userId: string;
+  let clientId: string;
+  let providerId: string;
+  let serviceId: string;
+  let appointmentId: string;
+
+  beforeAll(async () => {
+    moduleFixture = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({ isGlobal: true }),
+        PrismaModule,
+        RedisModule,
+        GiftCardsModule,
+        LoyaltyModule,
+        PromotionsModule,
+        ReviewsModule,
+        WaitlistModule,
+      ],
+    }).compile();
+
+    prisma = moduleFixture.get(PrismaService);
+
+    const suffix = Date.now();
+    const tenant = await prisma.tenant.create({
+      data: { name: 'Clínica E2E', slug: `e2e-engagement-${suffix}` },
+    });
+    tenantId = tenant.id;
+
+    const user = await prisma.user.create({
+      data: {
+        tenantId,
+        email: `e2e-engagement-${suffix}@belu.test`,
+        password: 'not-used',
+        name: 'Admin E2E',
+      },
+    });
+    userId = user.id;
+
+    const [client, provider, service] = await Promise.all([
+      prisma.client.create({
+        data: { tenantId, name: 'Maria', phone: '11999990000' },
+      }),
+      prisma.provider.create({ data: { tenantId, name: 'Ana' } }),
+      prisma.service.create({
+        data: { tenantId, name: 'Limpeza de pele', duration: 60, price: 150 },
+      }),
+    ]);
+    clientId = client.id;
+    providerId = provider.id;
+    serviceId = service.id;
+
+    const appointment = await prisma.appointment.create({
+      data: {
+        tenantId,
+        clientId,
+        providerId,
+        serviceId,
+        date: new Date('2025-02-04T00:00:00.000Z'),
+        startTime: '14:00',
+        endTime: '15:00',
+        status: AppointmentStatus.COMPLETED,
+        price: 150,
+      },
+    });
+    appointmentId = appointment.id;
+  });
+
+  afterAll(async () => {
+    // Remove o tenant e, em cascata, todos os registros criados
+    if (tenantId) {
+      await prisma.tenant.delete({ where: { id: tenantId } });
+    }
+    await moduleFixture?.close();
+  });
+
+  it('should persist a gift card purchase and redemption', async () => {
+    const giftCards = moduleFixture.get(GiftCardsService);
+
+    const giftCard = await giftCards.purchase(
+      tenantId,
+      { value: 200, recipientName: 'Joana' },
+      clientId,
+    );
+    await giftCards.redeem(tenantId, {
+      code: giftCard.code,
+      amount: 150,
+      appointmentId,
+      clientId,
+    });
+
+    const stored = await prisma.giftCard.findUniqueOrThrow({
+      where: { id: giftCard.id },
+      include: { transactions: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    expect(stored.purchasedById).toBe(clientId);
+    expect(stored.status).toBe(GiftCardStatus.PARTIALLY_USED);
+    expect(Number(stored.currentBalance)).toBe(50);
+    expect(stored.transactions.map((t) => t.type)).toEqual([
+      'PURCHASE',
+      'REDEMPTION',
+    ]);
+    expect(stored.transactions[1].appointmentId).toBe(appointmentId);
+  });
+
+  it('should persist earned and redeemed loyalty points', async () => {
+    const loyalty = moduleFixture.get(LoyaltyService);
+
+    await loyalty.updateConfig(tenantId, { isActive: true });
+    await loyalty.earnPoints(tenantId, clientId, appointmentId, 150);
+
+    const redemption = await loyalty.redeemPoints(tenantId, {
+      clientId,
+      points: 100,
+    });
+    await loyalty.useRedemption(tenantId, redemption.id, appointmentId);
+
+    const transactions = await prisma.loyaltyTransaction.findMany({
+      where: { tenantId, clientId },
+      orderBy: { createdAt: 'asc' },
+    });
+    expect(transactions.map((t) => [t.type, t.points])).toEqual([
+      ['EARNED', 150],
+      ['REDEEMED', -100],
+    ]);
+
+    const storedRedemption = await prisma.loyaltyRedemption.findUniqueOrThrow({
+      where: { id: redemption.id },
+    });
+    expect(storedRedemption.status).toBe('USED');
+    expect(storedRedemption.appointmentId).toBe(appointmentId);
+    expect(Number(storedRedemption.discountValue)).toBe(5);
+
+    const balance = await loyalty.getClientBalance(tenantId, clientId);
+    expect(balance.currentBalance).toBe(50);
+  });
+
+  it('should persist an applied promotion', async () => {
+    const promotions = moduleFixture.get(PromotionsService);
+
+    const promotion = await promotions.create(
+      tenantId,
+      {
+        name: 'Semana da pele',
+        type: PromotionType.SEASONAL,
+        discountType: DiscountType.PERCENTAGE,
+        discountValue: 10,
+        validFrom: new Date(Date.now() - 86400000).toISOString(),
+        serviceIds: [serviceId],
+      },
+      userId,
+    );
+    await promotions.apply(tenantId, {
+      promotionId: promotion.id,
+      appointmentId,
+      clientId,
+      originalPrice: 150,
+    });
+
+    const stored = await prisma.promotion.findUniqueOrThrow({
+      where: { id: promotion.id },
+      include: { usages: true },
+    });
+
+    expect(stored.usedCount).toBe(1);
+    expect(stored.serviceIds).toEqual([serviceId]);
+    expect(stored.usages).toHaveLength(1);
+    expect(Number(stored.usages[0].discountAmount)).toBe(15);
+    expect(Number(stored.usages[0].finalPrice)).toBe(135);
+  });
+
+  it('should persist a review, its response and the provider stats', async () => {
+    const reviews = moduleFixture.get(ReviewsService);
+
+    const review = await reviews.create(clientId, tenantId, {
+      appointmentId,
+      rating: 5,
+      comment: 'Ótimo atendimento',
+    });
+    await reviews.respond(review.id, tenantId, userId, {
+      response: 'Obrigada pela visita!',
+    });
+
+    const stored = await prisma.review.findUniqueOrThrow({
+      where: { appointmentId },
+    });
+    expect(stored.respondedById).toBe(userId);
+    expect(stored.respondedAt).toBeInstanceOf(Date);
+
+    const stats = await prisma.providerStats.findUniqueOrThrow({
+      where: { providerId },
+    });
+    expect(stats.totalReviews).toBe(1);
+    expect(stats.averageRating).toBe(5);
+    expect(stats.rating5Count).toBe(1);
+
+    await expect(
+      reviews.create(clientId, tenantId, { appointmentId, rating: 4 }),
+    ).rejects.toThrow('Este agendamento já foi avaliado');
+  });
+
+  it('should persist a waitlist entry through notification', async () => {
+    const waitlist = moduleFixture.get(WaitlistService);
+
+    const entry = await waitlist.createPublic(tenantId, {
+      serviceId,
+      providerId,
+      clientName: 'Maria',
+      clientPhone: '11999990000',
+      preferredDates: ['2025-02-10', '2025-02-11'],
+    });
+    await waitlist.notify(entry.id, tenantId);
+
+    const stored = await prisma.waitlist.findUniqueOrThrow({
+      where: { id: entry.id },
+    });
+
+    expect(stored.clientId).toBe(clientId);
+    expect(stored.preferredPeriod).toBe('ANY');
+    expect(stored.preferredDates).toEqual([
+      new Date('2025-02-10T00:00:00.000Z'),
+      new Date('2025-02-11T00:00:00.000Z'),
+    ]);
+    expect(stored.status).toBe(WaitlistStatus.NOTIFIED);
+    expect(stored.notifiedAt).toBeInstanceOf(Date);
+  });
+});
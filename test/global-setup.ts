@@ -0,0 +1,7 @@
+/**
+ * Executa os testes com o relógio do servidor em UTC, como em produção,
+ * para que nenhum cálculo de agenda dependa do fuso da máquina
+ */
+export default function globalSetup() {
+  process.env.TZ = 'UTC';
+}